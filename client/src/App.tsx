@@ -3,6 +3,7 @@ import {
   useEffect,
   useMemo,
   useRef,
+  useCallback,
   CSSProperties,
   KeyboardEvent,
 } from "react";
@@ -13,8 +14,22 @@ import {
   PieceDropHandlerArgs,
   PieceHandlerArgs,
 } from "react-chessboard";
-import { GameStatus, VoteType } from "./types";
-import { STORAGE_KEYS } from "./constants";
+import {
+  AutopilotMode,
+  EngineSettings,
+  GameStatus,
+  MoveStrategy,
+  TimeControl,
+  TurnDeadline,
+  SpectatorDelay,
+  ChatChannel,
+  VoteType,
+} from "./types";
+import {
+  STORAGE_KEYS,
+  SHOW_PROPOSAL_ARROWS_TO_SPECTATORS,
+  LEADERBOARD_PATH,
+} from "./constants";
 import { UI } from "./messages";
 import { calculateMaterial } from "./materialCalc";
 import {
@@ -30,27 +45,106 @@ import { PlayersPanel } from "./components/PlayersPanel";
 import { MovesPanel } from "./components/MovesPanel";
 import { ChatPanel } from "./components/ChatPanel";
 import { VoteBanner } from "./components/VoteBanner";
+import { SetupPanel } from "./components/SetupPanel";
+import { EvalGraph } from "./components/EvalGraph";
+import { HistoryNav } from "./components/HistoryNav";
+import { ProposalArrows } from "./components/ProposalArrows";
+import { Lobby } from "./components/Lobby";
+import { Leaderboard } from "./components/Leaderboard";
 import { sounds } from "./soundEngine";
+import { copyToClipboard } from "./clipboard";
+import { downloadTextFile } from "./download";
+import { parseRoomIdFromPath, roomPath, roomUrl } from "./roomUtils";
+import { buildHistoryPositions, clampViewedPly } from "./historyUtils";
+import { hasUnreadChat } from "./chatUtils";
 
 export default function App() {
+  const [pathname, setPathname] = useState(window.location.pathname);
+  const roomId = parseRoomIdFromPath(pathname);
+
+  useEffect(() => {
+    const onPopState = () => setPathname(window.location.pathname);
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  const navigate = useCallback((path: string) => {
+    window.history.pushState(null, "", path);
+    setPathname(path);
+  }, []);
+
+  const navigateToRoom = useCallback(
+    (id: string | null) => navigate(id ? roomPath(id) : "/"),
+    [navigate]
+  );
+
+  const leaveRoom = useCallback(() => navigateToRoom(null), [navigateToRoom]);
+
+  return (
+    <>
+      <Toaster
+        position="top-center"
+        toastOptions={{
+          style: {
+            background: "var(--color-bg-surface)",
+            color: "var(--color-text-primary)",
+          },
+        }}
+      />
+      {roomId ? (
+        <GameRoom key={roomId} roomId={roomId} onLeave={leaveRoom} />
+      ) : pathname === LEADERBOARD_PATH ? (
+        <Leaderboard onBack={() => navigate("/")} />
+      ) : (
+        <Lobby
+          onJoinRoom={navigateToRoom}
+          onShowLeaderboard={() => navigate(LEADERBOARD_PATH)}
+        />
+      )}
+    </>
+  );
+}
+
+interface GameRoomProps {
+  roomId: string;
+  onLeave: () => void;
+}
+
+function GameRoom({ roomId, onLeave }: GameRoomProps) {
   const [chess] = useState(new Chess());
   const [isMobile, setIsMobile] = useState(window.innerWidth <= 900);
   const activeTabRef = useRef<string>("players");
+  const chatChannelRef = useRef<ChatChannel>("global");
 
   const {
     socket,
+    roomName,
     amDisconnected,
     myId,
     name,
+    account,
+    signIn,
+    signOut,
     nameInput,
     setNameInput,
     side,
     setSide,
     players,
     gameStatus,
+    timeControl,
+    turnDeadline,
+    turnDeadlineEnd,
+    spectatorDelay,
+    autopilot,
+    engineSettings,
+    engineName,
+    moveStrategy,
     pgn,
+    annotatedPgn,
+    analysis,
     chatMessages,
     turns,
+    startFen,
     position,
     clocks,
     lastMoveSquares,
@@ -58,9 +152,16 @@ export default function App() {
     teamVote,
     kickVote,
     resetVote,
-    hasUnreadMessages,
-    setHasUnreadMessages,
-  } = useSocket({ chess, isMobile, activeTabRef });
+    unreadChannels,
+    markChannelRead,
+  } = useSocket({
+    roomId,
+    onRoomNotFound: onLeave,
+    chess,
+    isMobile,
+    activeTabRef,
+    chatChannelRef,
+  });
 
   const [legalSquareStyles, setLegalSquareStyles] = useState<
     Record<string, CSSProperties>
@@ -74,6 +175,9 @@ export default function App() {
   const [activeTab, setActiveTab] = useState<"chat" | "moves" | "players">(
     "players"
   );
+  // The team channel always belongs to the side the player is on now
+  const [isTeamChat, setIsTeamChat] = useState(false);
+  const chatChannel: ChatChannel = isTeamChat ? side : "global";
   const movesRef = useRef<HTMLDivElement>(null);
   const [isMobileInfoVisible, setIsMobileInfoVisible] = useState(false);
   const [isNameModalOpen, setIsNameModalOpen] = useState(false);
@@ -86,6 +190,24 @@ export default function App() {
   const orientation: "white" | "black" = side === "black" ? "black" : "white";
   const isFinalizing = gameStatus === GameStatus.FinalizingTurn;
   const [isMuted, setIsMuted] = useState(sounds.getMuted());
+  const history = useMemo(
+    () => buildHistoryPositions(startFen, turns),
+    [startFen, turns]
+  );
+  const lastPly = history.length - 1;
+  // Ply shown on the board while stepping through the game; null is live
+  const [viewedPly, setViewedPly] = useState<number | null>(null);
+  // A new move (or a reset) brings the board back to live
+  const [seenLastPly, setSeenLastPly] = useState(lastPly);
+  if (seenLastPly !== lastPly) {
+    setSeenLastPly(lastPly);
+    setViewedPly(null);
+  }
+  const viewed = viewedPly !== null ? history[viewedPly] : undefined;
+  const boardChess = useMemo(
+    () => (viewed ? new Chess(viewed.fen) : chess),
+    [viewed, chess]
+  );
 
   const toggleMute = () => {
     const next = !isMuted;
@@ -94,10 +216,10 @@ export default function App() {
   };
 
   const kingInCheckSquare = useMemo(() => {
-    if (!chess.isCheck()) return null;
-    const kingPiece = { type: "k", color: chess.turn() };
+    if (!boardChess.isCheck()) return null;
+    const kingPiece = { type: "k", color: boardChess.turn() };
     let square: string | null = null;
-    chess.board().forEach((row, rowIndex) => {
+    boardChess.board().forEach((row, rowIndex) => {
       row.forEach((piece, colIndex) => {
         if (
           piece &&
@@ -110,12 +232,12 @@ export default function App() {
     });
     return square;
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [position, chess]);
+  }, [position, boardChess]);
 
   const { whiteMaterialDiff, blackMaterialDiff, materialBalance } = useMemo(
-    () => calculateMaterial(chess.board()),
+    () => calculateMaterial(boardChess.board()),
     // eslint-disable-next-line react-hooks/exhaustive-deps
-    [position, chess]
+    [position, boardChess]
   );
 
   useEffect(() => {
@@ -141,6 +263,37 @@ export default function App() {
     activeTabRef.current = activeTab;
   }, [activeTab]);
 
+  useEffect(() => {
+    chatChannelRef.current = chatChannel;
+  }, [chatChannel]);
+
+  const selectChatChannel = (channel: ChatChannel) => {
+    setIsTeamChat(channel !== "global");
+    markChannelRead(channel);
+  };
+
+  const viewPly = useCallback(
+    (target: number) => setViewedPly(clampViewedPly(target, lastPly)),
+    [lastPly]
+  );
+
+  useEffect(() => {
+    const onKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select")) return;
+      const from = viewedPly ?? lastPly;
+      if (e.key === "ArrowLeft") viewPly(from - 1);
+      else if (e.key === "ArrowRight") viewPly(from + 1);
+      else if (e.key === "ArrowUp") viewPly(0);
+      else if (e.key === "ArrowDown") setViewedPly(null);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [viewedPly, lastPly, viewPly]);
+
   useEffect(() => {
     if (isNameModalOpen && nameInputRef.current) {
       nameInputRef.current.focus();
@@ -148,11 +301,14 @@ export default function App() {
   }, [isNameModalOpen]);
 
   const [voteNow, setVoteNow] = useState(() => Date.now());
+  const isDeadlineRunning = turnDeadlineEnd !== null;
   useEffect(() => {
-    if (!teamVote.isActive && !resetVote.isActive) return;
+    if (!teamVote.isActive && !resetVote.isActive && !isDeadlineRunning) {
+      return;
+    }
     const interval = setInterval(() => setVoteNow(Date.now()), 1000);
     return () => clearInterval(interval);
-  }, [teamVote.isActive, resetVote.isActive]);
+  }, [teamVote.isActive, resetVote.isActive, isDeadlineRunning]);
   const teamVoteTimeLeft = Math.max(
     0,
     Math.ceil((teamVote.endTime - voteNow) / 1000)
@@ -161,6 +317,10 @@ export default function App() {
     0,
     Math.ceil((resetVote.endTime - voteNow) / 1000)
   );
+  const deadlineTimeLeft =
+    turnDeadlineEnd === null
+      ? null
+      : Math.max(0, Math.ceil((turnDeadlineEnd - voteNow) / 1000));
 
   const joinSide = (s: "white" | "black" | "spectator") => {
     socket?.emit("join_side", { side: s }, (res: { error?: string }) => {
@@ -211,6 +371,52 @@ export default function App() {
     socket?.emit("vote_kick", vote);
   };
 
+  const setTimeControl = (tc: TimeControl) => {
+    socket?.emit("set_time_control", tc, (res: { error?: string }) => {
+      if (res.error) toast.error(res.error);
+    });
+  };
+
+  const setTurnDeadline = (td: TurnDeadline) => {
+    socket?.emit("set_turn_deadline", td, (res: { error?: string }) => {
+      if (res.error) toast.error(res.error);
+    });
+  };
+
+  const setSpectatorDelay = (sd: SpectatorDelay) => {
+    socket?.emit("set_spectator_delay", sd, (res: { error?: string }) => {
+      if (res.error) toast.error(res.error);
+    });
+  };
+
+  const setAutopilot = (mode: AutopilotMode) => {
+    socket?.emit("set_autopilot", mode, (res: { error?: string }) => {
+      if (res.error) toast.error(res.error);
+    });
+  };
+
+  const setEngineSettings = (settings: EngineSettings) => {
+    socket?.emit("set_engine_settings", settings, (res: { error?: string }) => {
+      if (res.error) toast.error(res.error);
+    });
+  };
+
+  const setMoveStrategy = (ms: MoveStrategy) => {
+    socket?.emit("set_move_strategy", ms, (res: { error?: string }) => {
+      if (res.error) toast.error(res.error);
+    });
+  };
+
+  const loadPosition = (format: "fen" | "pgn", text: string) => {
+    socket?.emit(
+      "load_position",
+      { format, text },
+      (res: { error?: string }) => {
+        if (res.error) toast.error(res.error);
+      }
+    );
+  };
+
   const doResetGame = () => {
     socket?.emit("reset_game", (res: { success: boolean; error?: string }) => {
       if (res.error) return toast.error(res.error);
@@ -263,27 +469,47 @@ export default function App() {
   const hasPlayed = (playerId: string, teamSide: "white" | "black") =>
     current?.proposals.some((p) => p.id === playerId && p.side === teamSide);
 
-  const copyPgn = () => {
-    if (!pgn) return;
-    const textArea = document.createElement("textarea");
-    textArea.value = pgn;
-    textArea.style.position = "fixed";
-    textArea.style.top = "-9999px";
-    textArea.style.left = "-9999px";
-
-    try {
-      document.body.appendChild(textArea);
-      textArea.select();
-      document.execCommand("copy");
-      toast.success(UI.toastPgnCopied);
-    } catch (_err) {
-      toast.error(UI.toastPgnCopyFailed);
-    } finally {
-      document.body.removeChild(textArea);
-    }
+  // My proposal this turn; dragging another move replaces it
+  const myProposal =
+    gameStatus === GameStatus.AwaitingProposals
+      ? current?.proposals.find((p) => p.id === myId)
+      : undefined;
+
+  const retractMove = () => {
+    socket?.emit("retract_move", (res: { error?: string }) => {
+      if (res?.error) toast.error(res.error);
+    });
+  };
+
+  const copyPgn = (text: string) => {
+    if (!text) return;
+    if (copyToClipboard(text)) toast.success(UI.toastPgnCopied);
+    else toast.error(UI.toastPgnCopyFailed);
     setIsMobileInfoVisible(false);
   };
 
+  const downloadPgn = () => {
+    if (!annotatedPgn) return;
+    const date = new Date().toISOString().slice(0, 10);
+    downloadTextFile(
+      `teamchess-${roomId}-${date}.pgn`,
+      annotatedPgn,
+      "application/x-chess-pgn"
+    );
+  };
+
+  const requestAnalysis = () => {
+    socket?.emit("request_analysis", (res: { error?: string }) => {
+      if (res.error) toast.error(res.error);
+    });
+    setIsMobileInfoVisible(false);
+  };
+
+  const copyRoomLink = () => {
+    if (copyToClipboard(roomUrl(roomId, window.location.origin)))
+      toast.success(UI.toastRoomLinkCopied);
+  };
+
   const openNameModal = () => {
     setNameInput(name);
     setIsNameModalOpen(true);
@@ -311,17 +537,29 @@ export default function App() {
     }
   };
 
+  const highlightedMove = viewed ? viewed.move : lastMoveSquares;
+
   const boardOptions = {
-    position,
+    position: viewed?.fen ?? position,
     boardOrientation: orientation,
-    viewOnly: isFinalizing,
+    viewOnly: isFinalizing || viewed !== undefined,
     squareStyles: {
-      ...(lastMoveSquares
+      ...(highlightedMove
         ? {
-            [lastMoveSquares.from]: {
+            [highlightedMove.from]: {
               backgroundColor: "rgba(245,246,110,0.75)",
             },
-            [lastMoveSquares.to]: { backgroundColor: "rgba(245,246,110,0.75)" },
+            [highlightedMove.to]: { backgroundColor: "rgba(245,246,110,0.75)" },
+          }
+        : {}),
+      ...(myProposal && !viewed
+        ? {
+            [myProposal.lan.slice(0, 2)]: {
+              backgroundColor: "rgba(90,150,230,0.45)",
+            },
+            [myProposal.lan.slice(2, 4)]: {
+              backgroundColor: "rgba(90,150,230,0.45)",
+            },
           }
         : {}),
       ...legalSquareStyles,
@@ -366,8 +604,9 @@ export default function App() {
 
       if (!from || !to) return false;
       if (gameStatus === GameStatus.Setup) {
-        if (side !== "white") {
-          toast.error(UI.toastOnlyWhiteStart);
+        const sideToMove = chess.turn() === "w" ? "white" : "black";
+        if (side !== sideToMove) {
+          toast.error(UI.toastOnlySideToMoveStart(sideToMove));
           return false;
         }
       } else if (gameStatus === GameStatus.AwaitingProposals) {
@@ -401,15 +640,39 @@ export default function App() {
     },
   };
 
+  // Opponents never see a team's proposals before the move is played
+  const showProposalArrows =
+    gameStatus === GameStatus.AwaitingProposals &&
+    viewedPly === null &&
+    current !== undefined &&
+    (side === current.side ||
+      (side === "spectator" && SHOW_PROPOSAL_ARROWS_TO_SPECTATORS));
+
   const boardBlock = (
-    <div ref={boardContainerRef} className="board-wrapper">
-      <Chessboard options={boardOptions} />
-      <PromotionDialog
-        promotionMove={promotionMove}
-        turnColor={chess.turn()}
-        onPromote={onPromote}
-      />
-    </div>
+    <>
+      <div ref={boardContainerRef} className="board-wrapper">
+        <Chessboard options={boardOptions} />
+        {showProposalArrows && (
+          <ProposalArrows
+            proposals={current.proposals}
+            orientation={orientation}
+          />
+        )}
+        <PromotionDialog
+          promotionMove={promotionMove}
+          turnColor={chess.turn()}
+          onPromote={onPromote}
+        />
+      </div>
+      {lastPly > 0 && (
+        <HistoryNav
+          viewedPly={viewedPly}
+          lastPly={lastPly}
+          onSelectPly={viewPly}
+          onLive={() => setViewedPly(null)}
+        />
+      )}
+    </>
   );
 
   const topPlayerInfoBox = (
@@ -424,6 +687,7 @@ export default function App() {
         gameStatus !== GameStatus.Over &&
         current?.side === (orientation === "white" ? "black" : "white")
       }
+      deadlineSeconds={deadlineTimeLeft}
     />
   );
 
@@ -439,6 +703,7 @@ export default function App() {
         gameStatus !== GameStatus.Over &&
         current?.side === (orientation === "white" ? "white" : "black")
       }
+      deadlineSeconds={deadlineTimeLeft}
       actionSlot={actionSlot}
     />
   );
@@ -453,7 +718,31 @@ export default function App() {
     showBoardActions && drawOffer !== null && drawOffer !== side;
   const canAct = showBoardActions && !drawOffer;
 
-  const bottomActionSlot: React.ReactNode = canAct ? (
+  const withdrawButton: React.ReactNode = myProposal ? (
+    <button
+      className="action-icon-btn"
+      onClick={retractMove}
+      aria-label={UI.btnWithdrawMoveLabel}
+      title={UI.btnWithdrawMoveLabel}
+    >
+      <svg
+        width="20"
+        height="20"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="2"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        aria-hidden
+      >
+        <polyline points="9 14 4 9 9 4" />
+        <path d="M20 20v-7a4 4 0 0 0-4-4H4" />
+      </svg>
+    </button>
+  ) : null;
+
+  const gameActions: React.ReactNode = canAct ? (
     <>
       <button
         className="action-icon-btn"
@@ -490,16 +779,66 @@ export default function App() {
   ) : otherTeamOfferingDraw ? (
     <span className="vote-status-text">{UI.votingOnDraw}</span>
   ) : pgn && gameStatus === GameStatus.Over ? (
-    <button
-      className="action-icon-btn"
-      onClick={copyPgn}
-      title={UI.tooltipCopyPgn}
-    >
-      {UI.btnCopyPgnLabel}
-    </button>
+    <>
+      <button
+        className="action-icon-btn"
+        onClick={() => copyPgn(pgn)}
+        title={UI.tooltipCopyPgn}
+      >
+        {UI.btnCopyPgnLabel}
+      </button>
+      <button
+        className="action-icon-btn"
+        onClick={() => copyPgn(annotatedPgn)}
+        disabled={!annotatedPgn}
+        title={UI.tooltipCopyAnnotatedPgn}
+      >
+        {UI.btnCopyAnnotatedPgnLabel}
+      </button>
+      <button
+        className="action-icon-btn"
+        onClick={downloadPgn}
+        disabled={!annotatedPgn}
+        aria-label={UI.tooltipDownloadPgn}
+        title={UI.tooltipDownloadPgn}
+      >
+        <svg
+          width="20"
+          height="20"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          aria-hidden
+        >
+          <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+          <polyline points="7 10 12 15 17 10" />
+          <line x1="12" y1="15" x2="12" y2="3" />
+        </svg>
+      </button>
+      {!analysis && (
+        <button
+          className="action-icon-btn"
+          onClick={requestAnalysis}
+          title={UI.tooltipAnalyze}
+        >
+          {UI.btnAnalyzeLabel}
+        </button>
+      )}
+    </>
   ) : null;
 
-  // --- Desktop vote banner (team vote or reset vote) ---
+  const bottomActionSlot: React.ReactNode =
+    withdrawButton || gameActions ? (
+      <>
+        {withdrawButton}
+        {gameActions}
+      </>
+    ) : null;
+
+  // --- Vote banner (team or reset vote), or setup options before start ---
   const teamVoteTitleMap = {
     resign: UI.voteTypeResign,
     offer_draw: UI.voteTypeOfferDraw,
@@ -521,7 +860,7 @@ export default function App() {
   } else if (resetVote.isActive) {
     voteBannerContent = (
       <VoteBanner
-        title={UI.voteResetGame}
+        title={resetVote.startFen ? UI.voteLoadPosition : UI.voteResetGame}
         yesVotes={resetVote.yesVotes}
         noVotes={resetVote.noVotes}
         requiredVotes={resetVote.requiredVotes}
@@ -534,8 +873,87 @@ export default function App() {
     );
   }
 
-  // --- Header icon buttons (reset + mute) ---
+  if (!voteBannerContent && gameStatus === GameStatus.Setup) {
+    voteBannerContent = (
+      <SetupPanel
+        timeControl={timeControl}
+        turnDeadline={turnDeadline}
+        spectatorDelay={spectatorDelay}
+        moveStrategy={moveStrategy}
+        autopilot={autopilot}
+        engineSettings={engineSettings}
+        engineName={engineName}
+        startFen={position}
+        canEdit={side !== "spectator"}
+        onSetTimeControl={setTimeControl}
+        onSetTurnDeadline={setTurnDeadline}
+        onSetSpectatorDelay={setSpectatorDelay}
+        onSetMoveStrategy={setMoveStrategy}
+        onSetAutopilot={setAutopilot}
+        onSetEngineSettings={setEngineSettings}
+        onLoadPosition={loadPosition}
+      />
+    );
+  }
+
+  if (!voteBannerContent && gameStatus === GameStatus.Over && analysis) {
+    voteBannerContent = (
+      <EvalGraph
+        analysis={analysis}
+        viewedPly={viewedPly}
+        onSelectPly={viewPly}
+      />
+    );
+  }
+
+  // --- Header: room name, lobby/link buttons, reset + mute ---
   const showResetIcon = gameStatus !== GameStatus.Setup && !resetVote.isActive;
+  const roomHeading = (
+    <div className="room-heading">
+      <button
+        className="icon-btn"
+        onClick={onLeave}
+        title={UI.btnLobbyLabel}
+        aria-label={UI.btnLobbyLabel}
+      >
+        <svg
+          width="18"
+          height="18"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          aria-hidden
+        >
+          <polyline points="15 18 9 12 15 6" />
+        </svg>
+      </button>
+      <span className="room-name">{roomName}</span>
+      <button
+        className="icon-btn"
+        onClick={copyRoomLink}
+        title={UI.btnCopyRoomLinkLabel}
+        aria-label={UI.btnCopyRoomLinkLabel}
+      >
+        <svg
+          width="16"
+          height="16"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          aria-hidden
+        >
+          <path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71" />
+          <path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71" />
+        </svg>
+      </button>
+    </div>
+  );
   const headerActions = (
     <div className="header-actions">
       {showResetIcon && (
@@ -636,13 +1054,15 @@ export default function App() {
           className={activeTab === "chat" ? "active" : ""}
           onClick={() => {
             setActiveTab("chat");
-            setHasUnreadMessages(false);
+            markChannelRead(chatChannel);
             setIsMobileInfoVisible(true);
           }}
         >
           {" "}
           {UI.tabChat}{" "}
-          {hasUnreadMessages && <span className="unread-dot"></span>}{" "}
+          {hasUnreadChat(unreadChannels, side) && (
+            <span className="unread-dot"></span>
+          )}{" "}
         </button>
       </nav>
 
@@ -668,10 +1088,17 @@ export default function App() {
           turns={turns}
           myId={myId}
           movesRef={movesRef}
+          analysis={analysis}
+          viewedPly={viewedPly}
+          onSelectPly={viewPly}
         />
         <ChatPanel
           activeTab={activeTab}
           chatMessages={chatMessages}
+          channel={chatChannel}
+          side={side}
+          unreadChannels={unreadChannels}
+          onSelectChannel={selectChatChannel}
           myId={myId}
           chatInput={chatInput}
           setChatInput={setChatInput}
@@ -690,15 +1117,6 @@ export default function App() {
 
   return (
     <>
-      <Toaster
-        position="top-center"
-        toastOptions={{
-          style: {
-            background: "var(--color-bg-surface)",
-            color: "var(--color-text-primary)",
-          },
-        }}
-      />
       <NameChangeModal
         isOpen={isNameModalOpen}
         onClose={closeNameModal}
@@ -709,6 +1127,9 @@ export default function App() {
         inputRef={nameInputRef}
         gameStatus={gameStatus}
         side={side}
+        account={account}
+        onSignIn={signIn}
+        onSignOut={signOut}
       />
       {pendingTeamVote && (
         <ConfirmModal
@@ -740,7 +1161,10 @@ export default function App() {
       )}
 
       <div className="app-container">
-        <div className="header-bar">{headerActions}</div>
+        <div className="header-bar">
+          {roomHeading}
+          {headerActions}
+        </div>
 
         <div className="main-layout">
           {isMobile ? (
@@ -766,6 +1190,9 @@ export default function App() {
                     turns={turns}
                     myId={myId}
                     movesRef={movesRef}
+                    analysis={analysis}
+                    viewedPly={viewedPly}
+                    onSelectPly={viewPly}
                   />
                   <PlayersPanel
                     activeTab={activeTab}
@@ -794,6 +1221,10 @@ export default function App() {
                   <ChatPanel
                     activeTab={activeTab}
                     chatMessages={chatMessages}
+                    channel={chatChannel}
+                    side={side}
+                    unreadChannels={unreadChannels}
+                    onSelectChannel={selectChatChannel}
                     myId={myId}
                     chatInput={chatInput}
                     setChatInput={setChatInput}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  evalToWhiteShare,
+  buildEvalGraphPoints,
+  findMoveAnalysis,
+  moveIndexAtFraction,
+  formatAnalyzedMove,
+  formatAnalysisEval,
+} from "./analysisUtils";
+import type { GameAnalysis, MoveAnalysis } from "./types";
+
+function move(
+  moveNumber: number,
+  side: "white" | "black",
+  evalCp: number
+): MoveAnalysis {
+  return {
+    moveNumber,
+    side,
+    lan: "e2e4",
+    san: "e4",
+    fen: "",
+    eval: evalCp,
+    bestLan: "e2e4",
+    bestSan: "e4",
+    loss: 0,
+    classification: "best",
+  };
+}
+
+describe("analysisUtils", () => {
+  describe("evalToWhiteShare", () => {
+    it("is even at 0 and leans toward the side that is better", () => {
+      expect(evalToWhiteShare(0)).toBe(0.5);
+      expect(evalToWhiteShare(300)).toBeGreaterThan(0.7);
+      expect(evalToWhiteShare(-300)).toBeLessThan(0.3);
+    });
+
+    it("stays within the bar for mates", () => {
+      expect(evalToWhiteShare(100000)).toBeLessThanOrEqual(1);
+      expect(evalToWhiteShare(-100000)).toBeGreaterThanOrEqual(0);
+    });
+  });
+
+  describe("buildEvalGraphPoints", () => {
+    it("starts level and spreads moves over the width", () => {
+      expect(
+        buildEvalGraphPoints(
+          [move(1, "white", 0), move(2, "black", 0)],
+          4,
+          100,
+          50
+        )
+      ).toBe("0,25 25.0,25.0 50.0,25.0");
+    });
+  });
+
+  describe("findMoveAnalysis", () => {
+    it("matches a turn by number and side", () => {
+      const analysis: GameAnalysis = {
+        total: 2,
+        moves: [move(1, "white", 20), move(2, "black", 10)],
+      };
+      expect(findMoveAnalysis(analysis, 2, "black")?.eval).toBe(10);
+      expect(findMoveAnalysis(analysis, 3, "white")).toBeUndefined();
+      expect(findMoveAnalysis(null, 1, "white")).toBeUndefined();
+    });
+  });
+
+  describe("moveIndexAtFraction", () => {
+    it("maps a click to the nearest reviewed move", () => {
+      expect(moveIndexAtFraction(0, 10, 10)).toBeNull();
+      expect(moveIndexAtFraction(0.5, 10, 10)).toBe(4);
+      expect(moveIndexAtFraction(1, 10, 10)).toBe(9);
+    });
+
+    it("stops at the last move reviewed so far", () => {
+      expect(moveIndexAtFraction(1, 10, 3)).toBe(2);
+      expect(moveIndexAtFraction(1, 10, 0)).toBeNull();
+    });
+  });
+
+  describe("formatAnalyzedMove", () => {
+    it("numbers moves and adds the classification symbol", () => {
+      expect(formatAnalyzedMove(move(1, "white", 0))).toBe("1. e4");
+      expect(
+        formatAnalyzedMove({
+          ...move(24, "black", 0),
+          classification: "blunder",
+        })
+      ).toBe("12... e4??");
+    });
+  });
+
+  describe("formatAnalysisEval", () => {
+    it("formats scores and mates", () => {
+      expect(formatAnalysisEval(move(1, "white", 35))).toBe("+0.35");
+      expect(formatAnalysisEval({ ...move(1, "white", -9990), mate: -2 })).toBe(
+        "#-2"
+      );
+      expect(formatAnalysisEval({ ...move(1, "white", 10000), mate: 0 })).toBe(
+        "#"
+      );
+    });
+  });
+});
@@ -0,0 +1,68 @@
+import type { GameAnalysis, MoveAnalysis } from "./types";
+import { UI, formatEval } from "./messages";
+
+/**
+ * White's share of the eval bar for a centipawn evaluation, from 0 (Black
+ * is winning) to 1 (White is winning). Follows the usual winning-chances
+ * curve so that small edges stay visible and big ones flatten out.
+ */
+export function evalToWhiteShare(evalCp: number): number {
+  return 1 / (1 + Math.exp(-0.004 * evalCp));
+}
+
+/**
+ * SVG polyline points of the eval graph: one point per reviewed move,
+ * starting from an even position, spread over the given box.
+ */
+export function buildEvalGraphPoints(
+  moves: MoveAnalysis[],
+  total: number,
+  width: number,
+  height: number
+): string {
+  const step = width / Math.max(total, 1);
+  const points = [`0,${height / 2}`];
+  moves.forEach((m, i) => {
+    const y = height * (1 - evalToWhiteShare(m.eval));
+    points.push(`${((i + 1) * step).toFixed(1)},${y.toFixed(1)}`);
+  });
+  return points.join(" ");
+}
+
+/** The review of a given turn, if the engine has reached it. */
+export function findMoveAnalysis(
+  analysis: GameAnalysis | null,
+  moveNumber: number,
+  side: "white" | "black"
+): MoveAnalysis | undefined {
+  return analysis?.moves.find(
+    (m) => m.moveNumber === moveNumber && m.side === side
+  );
+}
+
+/**
+ * Index of the reviewed move under a click on the graph, given as a
+ * fraction of its width. Null before the first move.
+ */
+export function moveIndexAtFraction(
+  fraction: number,
+  total: number,
+  reviewed: number
+): number | null {
+  const index = Math.round(fraction * total) - 1;
+  if (index < 0 || reviewed === 0) return null;
+  return Math.min(index, reviewed - 1);
+}
+
+/** A reviewed move as e.g. "12... Nf6??". */
+export function formatAnalyzedMove(move: MoveAnalysis): string {
+  const number = Math.ceil(move.moveNumber / 2);
+  const dots = move.side === "white" ? "." : "...";
+  return `${number}${dots} ${move.san}${UI.classificationSymbols[move.classification]}`;
+}
+
+/** Evaluation after a reviewed move, e.g. "+0.35", "#-2", or "#" on mate. */
+export function formatAnalysisEval(move: MoveAnalysis): string {
+  if (move.mate === 0) return "#";
+  return formatEval({ score: move.eval, mate: move.mate, pv: [] });
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  getChatChannels,
+  getChannelMessages,
+  hasUnreadChat,
+} from "./chatUtils";
+import type { ChatMessage } from "./types";
+
+function message(text: string, channel: ChatMessage["channel"]): ChatMessage {
+  return { sender: "Al", senderId: "p1", message: text, channel };
+}
+
+describe("getChatChannels", () => {
+  it("offers the global channel and the player's own side", () => {
+    expect(getChatChannels("white")).toEqual(["global", "white"]);
+    expect(getChatChannels("spectator")).toEqual(["global", "spectator"]);
+  });
+});
+
+describe("getChannelMessages", () => {
+  it("keeps the messages of one channel in order", () => {
+    const messages = [
+      message("a", "global"),
+      message("b", "white"),
+      message("c", "global"),
+    ];
+    expect(
+      getChannelMessages(messages, "global").map((m) => m.message)
+    ).toEqual(["a", "c"]);
+    expect(getChannelMessages(messages, "black")).toEqual([]);
+  });
+});
+
+describe("hasUnreadChat", () => {
+  it("counts only channels the player can read", () => {
+    expect(hasUnreadChat(["white"], "white")).toBe(true);
+    expect(hasUnreadChat(["white"], "black")).toBe(false);
+    expect(hasUnreadChat(["global"], "spectator")).toBe(true);
+    expect(hasUnreadChat([], "white")).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+import type { ChatChannel, ChatMessage } from "./types";
+
+type Side = "white" | "black" | "spectator";
+
+/** Channels a player on `side` can read and post to */
+export function getChatChannels(side: Side): ChatChannel[] {
+  return ["global", side];
+}
+
+/** Messages posted to one channel, oldest first */
+export function getChannelMessages(
+  messages: ChatMessage[],
+  channel: ChatChannel
+): ChatMessage[] {
+  return messages.filter((m) => m.channel === channel);
+}
+
+/**
+ * Whether any channel the player can read has unread messages. A team's
+ * channel stops counting once the player leaves the team.
+ */
+export function hasUnreadChat(unread: ChatChannel[], side: Side): boolean {
+  return getChatChannels(side).some((channel) => unread.includes(channel));
+}
@@ -0,0 +1,22 @@
+/**
+ * Copies text via a hidden textarea. Works on plain-HTTP origins where
+ * navigator.clipboard is unavailable. Returns false if the copy failed.
+ */
+export function copyToClipboard(text: string): boolean {
+  const textArea = document.createElement("textarea");
+  textArea.value = text;
+  textArea.style.position = "fixed";
+  textArea.style.top = "-9999px";
+  textArea.style.left = "-9999px";
+
+  try {
+    document.body.appendChild(textArea);
+    textArea.select();
+    document.execCommand("copy");
+    return true;
+  } catch (_err) {
+    return false;
+  } finally {
+    document.body.removeChild(textArea);
+  }
+}
@@ -1,12 +1,19 @@
 import { RefObject } from "react";
 import { Socket } from "socket.io-client";
-import { ChatMessage } from "../types";
+import { ChatChannel, ChatMessage } from "../types";
 import { UI } from "../messages";
 import { colorForPlayer } from "../playerColors";
+import { getChannelMessages, getChatChannels } from "../chatUtils";
 
 interface ChatPanelProps {
   activeTab: string;
+  /** Every message received, whatever its channel */
   chatMessages: ChatMessage[];
+  /** Channel shown and posted to */
+  channel: ChatChannel;
+  side: "white" | "black" | "spectator";
+  unreadChannels: ChatChannel[];
+  onSelectChannel: (channel: ChatChannel) => void;
   myId: string;
   chatInput: string;
   setChatInput: (value: string) => void;
@@ -16,18 +23,24 @@ interface ChatPanelProps {
 
 export const ChatPanel: React.FC<ChatPanelProps> = ({
   activeTab,
-  chatMessages,
+  chatMessages: allMessages,
+  channel,
+  side,
+  unreadChannels,
+  onSelectChannel,
   myId,
   chatInput,
   setChatInput,
   chatInputRef,
   socket,
 }) => {
+  const chatMessages = getChannelMessages(allMessages, channel);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const message = chatInput.trim();
     if (message) {
-      socket?.emit("chat_message", message);
+      socket?.emit("chat_message", message, channel);
       setChatInput("");
     }
   };
@@ -37,7 +50,7 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
       e.preventDefault();
       const message = chatInput.trim();
       if (message) {
-        socket?.emit("chat_message", message);
+        socket?.emit("chat_message", message, channel);
         setChatInput("");
       }
     }
@@ -51,6 +64,22 @@ export const ChatPanel: React.FC<ChatPanelProps> = ({
     >
       <h3>{UI.headingChat}</h3>
       <div className="chat-box-container">
+        <div className="chat-channels" role="tablist">
+          {getChatChannels(side).map((c) => (
+            <button
+              key={c}
+              role="tab"
+              aria-selected={c === channel}
+              className={c === channel ? "active" : ""}
+              onClick={() => onSelectChannel(c)}
+            >
+              {UI.chatChannelLabels[c]}
+              {c !== channel && unreadChannels.includes(c) && (
+                <span className="unread-dot"></span>
+              )}
+            </button>
+          ))}
+        </div>
         <div className="chat-messages">
           {chatMessages
             // Compute on chronological order: the display is reversed
@@ -0,0 +1,107 @@
+import { MouseEvent } from "react";
+import { GameAnalysis } from "../types";
+import { UI } from "../messages";
+import {
+  buildEvalGraphPoints,
+  evalToWhiteShare,
+  formatAnalysisEval,
+  formatAnalyzedMove,
+  moveIndexAtFraction,
+} from "../analysisUtils";
+
+interface EvalGraphProps {
+  analysis: GameAnalysis;
+  /** Ply shown on the board, null for the final position */
+  viewedPly: number | null;
+  onSelectPly: (ply: number) => void;
+}
+
+const GRAPH_WIDTH = 300;
+const GRAPH_HEIGHT = 60;
+
+export const EvalGraph: React.FC<EvalGraphProps> = ({
+  analysis,
+  viewedPly,
+  onSelectPly,
+}) => {
+  const { moves, total } = analysis;
+  const isRunning = moves.length < total;
+  // Move n of the game is analysis.moves[n - 1]
+  const viewed = viewedPly ? moves[viewedPly - 1] : undefined;
+  const step = GRAPH_WIDTH / Math.max(total, 1);
+
+  const onGraphClick = (e: MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const fraction = (e.clientX - rect.left) / rect.width;
+    const index = moveIndexAtFraction(fraction, total, moves.length);
+    onSelectPly(index === null ? 0 : index + 1);
+  };
+
+  return (
+    <div className="eval-graph">
+      <div className="eval-graph-header">
+        <span className="eval-graph-title">{UI.analysisTitle}</span>
+        <span className="eval-graph-meta">
+          {isRunning
+            ? UI.analysisProgress(moves.length, total)
+            : viewed
+              ? `${formatAnalyzedMove(viewed)} ${formatAnalysisEval(viewed)}`
+              : viewedPly === 0
+                ? UI.historyStartPosition
+                : UI.analysisFinalPosition}
+          {viewed && viewed.classification !== "best" && (
+            <span className="eval-graph-best">
+              {" "}
+              &bull; {UI.analysisBestWas(viewed.bestSan)}
+            </span>
+          )}
+        </span>
+      </div>
+      <svg
+        className="eval-graph-plot"
+        viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+        preserveAspectRatio="none"
+        onClick={onGraphClick}
+      >
+        <rect
+          className="eval-graph-black"
+          x={0}
+          y={0}
+          width={GRAPH_WIDTH}
+          height={GRAPH_HEIGHT}
+        />
+        <polygon
+          className="eval-graph-white"
+          points={`${buildEvalGraphPoints(moves, total, GRAPH_WIDTH, GRAPH_HEIGHT)} ${(moves.length * step).toFixed(1)},${GRAPH_HEIGHT} 0,${GRAPH_HEIGHT}`}
+        />
+        <line
+          className="eval-graph-midline"
+          x1={0}
+          y1={GRAPH_HEIGHT / 2}
+          x2={GRAPH_WIDTH}
+          y2={GRAPH_HEIGHT / 2}
+        />
+        {moves.map((m, i) =>
+          m.classification === "mistake" || m.classification === "blunder" ? (
+            <circle
+              key={i}
+              className={`eval-graph-dot ${m.classification}`}
+              cx={(i + 1) * step}
+              cy={GRAPH_HEIGHT * (1 - evalToWhiteShare(m.eval))}
+              r={2.5}
+            />
+          ) : null
+        )}
+        {viewedPly !== null && (
+          <line
+            className="eval-graph-cursor"
+            x1={viewedPly * step}
+            y1={0}
+            x2={viewedPly * step}
+            y2={GRAPH_HEIGHT}
+          />
+        )}
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import { UI } from "../messages";
+
+interface HistoryNavProps {
+  /** Ply shown on the board, null while following the live game */
+  viewedPly: number | null;
+  lastPly: number;
+  onSelectPly: (ply: number) => void;
+  onLive: () => void;
+}
+
+export const HistoryNav: React.FC<HistoryNavProps> = ({
+  viewedPly,
+  lastPly,
+  onSelectPly,
+  onLive,
+}) => {
+  const ply = viewedPly ?? lastPly;
+  const isLive = viewedPly === null;
+
+  return (
+    <div className="history-nav">
+      <button
+        className="action-icon-btn"
+        onClick={() => onSelectPly(0)}
+        disabled={ply === 0}
+        aria-label={UI.btnFirstMoveLabel}
+        title={UI.btnFirstMoveLabel}
+      >
+        &laquo;
+      </button>
+      <button
+        className="action-icon-btn"
+        onClick={() => onSelectPly(ply - 1)}
+        disabled={ply === 0}
+        aria-label={UI.btnPrevMoveLabel}
+        title={UI.btnPrevMoveLabel}
+      >
+        &lsaquo;
+      </button>
+      <span className={"history-nav-status" + (isLive ? "" : " viewing")}>
+        {isLive
+          ? UI.historyLive
+          : ply === 0
+            ? UI.historyStartPosition
+            : UI.historyViewing(ply, lastPly)}
+      </span>
+      <button
+        className="action-icon-btn"
+        onClick={() => onSelectPly(ply + 1)}
+        disabled={isLive}
+        aria-label={UI.btnNextMoveLabel}
+        title={UI.btnNextMoveLabel}
+      >
+        &rsaquo;
+      </button>
+      <button
+        className="action-icon-btn"
+        onClick={onLive}
+        disabled={isLive}
+        aria-label={UI.btnLastMoveLabel}
+        title={UI.btnLastMoveLabel}
+      >
+        &raquo;
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { LeaderboardEntry, LeaderboardRange, LeaderboardSort } from "../types";
+import { UI } from "../messages";
+import { LOBBY_REFRESH_MS } from "../constants";
+import { formatLeaderboardValue } from "../statsUtils";
+
+interface LeaderboardProps {
+  onBack: () => void;
+}
+
+const SORTS = Object.keys(UI.leaderboardSortLabels) as LeaderboardSort[];
+const RANGES = Object.keys(UI.leaderboardRangeLabels) as LeaderboardRange[];
+
+export const Leaderboard: React.FC<LeaderboardProps> = ({ onBack }) => {
+  const [sort, setSort] = useState<LeaderboardSort>("rating");
+  const [range, setRange] = useState<LeaderboardRange>("all");
+  const [entries, setEntries] = useState<LeaderboardEntry[] | null>(null);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  // Poll like the lobby, so games that just ended show up
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const params = new URLSearchParams({ sort, range });
+        const res = await fetch(`/api/leaderboard?${params}`);
+        if (!res.ok) throw new Error(res.statusText);
+        const list: LeaderboardEntry[] = await res.json();
+        if (cancelled) return;
+        setEntries(list);
+        setLoadFailed(false);
+      } catch (_err) {
+        if (!cancelled) setLoadFailed(true);
+      }
+    };
+    load();
+    const interval = setInterval(load, LOBBY_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [sort, range]);
+
+  return (
+    <div className="lobby">
+      <h1>{UI.leaderboardTitle}</h1>
+      <button className="leaderboard-back" onClick={onBack}>
+        {UI.leaderboardBack}
+      </button>
+
+      <section className="lobby-section">
+        <div className="leaderboard-filters">
+          <label>
+            {UI.leaderboardSortLabel}{" "}
+            <select
+              value={sort}
+              onChange={(e) => setSort(e.target.value as LeaderboardSort)}
+            >
+              {SORTS.map((s) => (
+                <option key={s} value={s}>
+                  {UI.leaderboardSortLabels[s]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            {UI.leaderboardRangeLabel}{" "}
+            <select
+              value={range}
+              onChange={(e) => setRange(e.target.value as LeaderboardRange)}
+            >
+              {RANGES.map((r) => (
+                <option key={r} value={r}>
+                  {UI.leaderboardRangeLabels[r]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {loadFailed && !entries ? (
+          <p className="lobby-empty">{UI.leaderboardLoadFailed}</p>
+        ) : entries && entries.length === 0 ? (
+          <p className="lobby-empty">{UI.leaderboardEmpty}</p>
+        ) : (
+          <table className="leaderboard-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>{UI.leaderboardPlayer}</th>
+                <th>{UI.leaderboardSortLabels[sort]}</th>
+                <th>{UI.leaderboardGames}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries?.map((entry) => (
+                <tr key={entry.id}>
+                  <td>{entry.rank}</td>
+                  <td className="leaderboard-name">{entry.name}</td>
+                  <td>{formatLeaderboardValue(entry, sort)}</td>
+                  <td>{entry.games}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
@@ -0,0 +1,144 @@
+import { useEffect, useState, FormEvent } from "react";
+import { toast } from "react-hot-toast";
+import { RoomSummary } from "../types";
+import { UI, formatTimeControl } from "../messages";
+import { LOBBY_REFRESH_MS } from "../constants";
+import { formatRoomStatus, parseRoomInput } from "../roomUtils";
+
+interface LobbyProps {
+  onJoinRoom: (roomId: string) => void;
+  onShowLeaderboard: () => void;
+}
+
+export const Lobby: React.FC<LobbyProps> = ({
+  onJoinRoom,
+  onShowLeaderboard,
+}) => {
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [newRoomName, setNewRoomName] = useState("");
+  const [joinInput, setJoinInput] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const res = await fetch("/api/rooms");
+        if (!res.ok) throw new Error(res.statusText);
+        const list: RoomSummary[] = await res.json();
+        if (!cancelled) setRooms(list);
+      } catch (_err) {
+        if (!cancelled) toast.error(UI.lobbyLoadFailed, { id: "lobby-load" });
+      }
+    };
+    load();
+    const interval = setInterval(load, LOBBY_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  const createRoom = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    try {
+      const res = await fetch("/api/rooms", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: newRoomName.trim() }),
+      });
+      const body: { id?: string; error?: string } = await res.json();
+      if (!res.ok || !body.id) {
+        toast.error(body.error ?? UI.lobbyCreateFailed);
+        return;
+      }
+      onJoinRoom(body.id);
+    } catch (_err) {
+      toast.error(UI.lobbyCreateFailed);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const joinByInput = (e: FormEvent) => {
+    e.preventDefault();
+    const roomId = parseRoomInput(joinInput);
+    if (!roomId) {
+      toast.error(UI.lobbyInvalidRoom);
+      return;
+    }
+    onJoinRoom(roomId);
+  };
+
+  return (
+    <div className="lobby">
+      <h1>{UI.lobbyTitle}</h1>
+      <button className="lobby-leaderboard-link" onClick={onShowLeaderboard}>
+        {UI.lobbyLeaderboardLink}
+      </button>
+
+      <section className="lobby-section">
+        <h3>{UI.lobbyRoomsHeading}</h3>
+        {rooms.length === 0 ? (
+          <p className="lobby-empty">{UI.lobbyNoRooms}</p>
+        ) : (
+          <ul className="lobby-room-list">
+            {rooms.map((room) => (
+              <li key={room.id} className="lobby-room-item">
+                <div className="lobby-room-info">
+                  <span className="lobby-room-name">{room.name}</span>
+                  <span className="lobby-room-meta">
+                    {formatRoomStatus(room.status)} &bull;{" "}
+                    {UI.roomTeamSizes(
+                      room.whiteCount,
+                      room.blackCount,
+                      room.spectatorCount
+                    )}{" "}
+                    &bull; {formatTimeControl(room.timeControl)}
+                  </span>
+                </div>
+                <button
+                  className="join-btn"
+                  onClick={() => onJoinRoom(room.id)}
+                >
+                  {UI.btnJoin}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="lobby-section">
+        <h3>{UI.lobbyCreateHeading}</h3>
+        <form className="lobby-form" onSubmit={createRoom}>
+          <input
+            type="text"
+            value={newRoomName}
+            onChange={(e) => setNewRoomName(e.target.value)}
+            placeholder={UI.lobbyCreatePlaceholder}
+            maxLength={30}
+          />
+          <button type="submit" disabled={isCreating}>
+            {UI.lobbyCreateButton}
+          </button>
+        </form>
+      </section>
+
+      <section className="lobby-section">
+        <h3>{UI.lobbyJoinHeading}</h3>
+        <form className="lobby-form" onSubmit={joinByInput}>
+          <input
+            type="text"
+            value={joinInput}
+            onChange={(e) => setJoinInput(e.target.value)}
+            placeholder={UI.lobbyJoinPlaceholder}
+            autoComplete="off"
+          />
+          <button type="submit">{UI.lobbyJoinButton}</button>
+        </form>
+      </section>
+    </div>
+  );
+};
@@ -1,13 +1,18 @@
 import { RefObject } from "react";
-import { Turn } from "../types";
-import { UI } from "../messages";
+import { GameAnalysis, Turn } from "../types";
+import { UI, moveStrategyLabels, formatEval } from "../messages";
 import { colorForPlayer } from "../playerColors";
+import { findMoveAnalysis, formatAnalysisEval } from "../analysisUtils";
 
 interface MovesPanelProps {
   activeTab: string;
   turns: Turn[];
   myId: string;
   movesRef: RefObject<HTMLDivElement | null>;
+  analysis: GameAnalysis | null;
+  /** Ply shown on the board, null while following the live game */
+  viewedPly: number | null;
+  onSelectPly: (ply: number) => void;
 }
 
 export const MovesPanel: React.FC<MovesPanelProps> = ({
@@ -15,6 +20,9 @@ export const MovesPanel: React.FC<MovesPanelProps> = ({
   turns,
   myId,
   movesRef,
+  analysis,
+  viewedPly,
+  onSelectPly,
 }) => {
   return (
     <div
@@ -27,41 +35,85 @@ export const MovesPanel: React.FC<MovesPanelProps> = ({
         <div ref={movesRef} className="moves-list">
           {turns
             .filter((t) => t.selection)
-            .map((t) => (
-              <div
-                key={`${t.side}-${t.moveNumber}`}
-                className="move-turn-header"
-              >
-                <strong>
-                  {Math.ceil(t.moveNumber / 2)}.{" "}
-                  {t.side === "white" ? "White" : "Black"}
-                </strong>
-                <ul className="move-proposals">
-                  {t.proposals.map((p) => {
-                    const isSel = t.selection!.lan === p.lan;
-                    return (
-                      <li
-                        key={p.id}
-                        className={
-                          "move-proposal-item" + (isSel ? " selected" : "")
-                        }
-                      >
-                        <span className="move-san-wrap">{p.san}</span>
-                        <span
-                          className="move-player-name"
-                          style={{ color: colorForPlayer(p.id) }}
-                        >
-                          {p.name}
+            .map((t, i) => {
+              const review = findMoveAnalysis(analysis, t.moveNumber, t.side);
+              // Position after this move; the list starts at the first move
+              const ply = i + 1;
+              return (
+                <div
+                  key={`${t.side}-${t.moveNumber}`}
+                  className={
+                    "move-turn-header" + (ply === viewedPly ? " viewed" : "")
+                  }
+                  onClick={() => onSelectPly(ply)}
+                >
+                  <strong>
+                    {Math.ceil(t.moveNumber / 2)}.{" "}
+                    {t.side === "white" ? "White" : "Black"}
+                  </strong>
+                  {t.selection!.strategy !== "engine_best" && (
+                    <span className="move-strategy-tag">
+                      {moveStrategyLabels[t.selection!.strategy]}
+                    </span>
+                  )}
+                  {t.selection!.autopilot && (
+                    <span
+                      className="move-strategy-tag"
+                      title={UI.tooltipAutopilot}
+                    >
+                      {UI.autopilotTags[t.selection!.autopilot]}
+                    </span>
+                  )}
+                  {review && (
+                    <span
+                      className={`move-review ${review.classification}`}
+                      title={UI.classificationLabels[review.classification]}
+                    >
+                      {UI.classificationSymbols[review.classification] && (
+                        <span className="move-review-symbol">
+                          {UI.classificationSymbols[review.classification]}{" "}
                         </span>
-                        {p.id === myId && (
-                          <span className="move-you-tag">(You)</span>
-                        )}
-                      </li>
-                    );
-                  })}
-                </ul>
-              </div>
-            ))}
+                      )}
+                      {formatAnalysisEval(review)}
+                      {review.classification !== "best" &&
+                        ` \u2022 ${UI.analysisBestWas(review.bestSan)}`}
+                    </span>
+                  )}
+                  <ul className="move-proposals">
+                    {t.proposals.map((p) => {
+                      const isSel = t.selection!.lan === p.lan;
+                      return (
+                        <li
+                          key={p.id}
+                          className={
+                            "move-proposal-item" + (isSel ? " selected" : "")
+                          }
+                        >
+                          <span className="move-san-wrap">{p.san}</span>
+                          {p.evaluation && (
+                            <span
+                              className="move-eval"
+                              title={UI.engineLine(p.evaluation.pv)}
+                            >
+                              {formatEval(p.evaluation)}
+                            </span>
+                          )}
+                          <span
+                            className="move-player-name"
+                            style={{ color: colorForPlayer(p.id) }}
+                          >
+                            {p.name}
+                          </span>
+                          {p.id === myId && (
+                            <span className="move-you-tag">(You)</span>
+                          )}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              );
+            })}
         </div>
       ) : (
         <p className="moves-list-empty">{UI.noMovesYet}</p>
@@ -1,5 +1,7 @@
-import type { ChangeEvent, RefObject, KeyboardEvent } from "react";
-import { GameStatus } from "../types";
+import { useState } from "react";
+import type { ChangeEvent, FormEvent, RefObject, KeyboardEvent } from "react";
+import { toast } from "react-hot-toast";
+import { GameStatus, Account, AuthResponse } from "../types";
 import { UI } from "../messages";
 
 interface NameChangeModalProps {
@@ -12,6 +14,10 @@ interface NameChangeModalProps {
   inputRef: RefObject<HTMLInputElement | null>;
   gameStatus: GameStatus;
   side: "white" | "black" | "spectator";
+  /** Signed-in account; its username can't be changed here */
+  account: Account | null;
+  onSignIn: (res: AuthResponse) => void;
+  onSignOut: () => void;
 }
 
 export const NameChangeModal: React.FC<NameChangeModalProps> = ({
@@ -24,9 +30,44 @@ export const NameChangeModal: React.FC<NameChangeModalProps> = ({
   inputRef,
   gameStatus: _gameStatus,
   side: _side,
+  account,
+  onSignIn,
+  onSignOut,
 }) => {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
   if (!isOpen) return null;
 
+  const submitAccount = async (action: "login" | "register") => {
+    setIsSubmitting(true);
+    try {
+      const res = await fetch(`/api/auth/${action}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username: username.trim(), password }),
+      });
+      const body: Partial<AuthResponse> & { error?: string } = await res.json();
+      if (!res.ok || !body.token || !body.account) {
+        toast.error(body.error ?? UI.accountRequestFailed);
+        return;
+      }
+      setPassword("");
+      onSignIn({ token: body.token, account: body.account });
+      onClose();
+    } catch (_err) {
+      toast.error(UI.accountRequestFailed);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const onSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    submitAccount("login");
+  };
+
   return (
     <div className="name-modal-overlay" onClick={onClose}>
       <div className="name-modal-dialog" onClick={(e) => e.stopPropagation()}>
@@ -40,11 +81,65 @@ export const NameChangeModal: React.FC<NameChangeModalProps> = ({
           placeholder={UI.nameModalPlaceholder}
           aria-label={UI.nameModalAriaLabel}
           maxLength={30}
+          disabled={account !== null}
         />
 
         <div className="name-modal-buttons">
           <button onClick={onClose}>{UI.nameModalCancel}</button>
-          <button onClick={onSave}>{UI.nameModalSave}</button>
+          <button onClick={onSave} disabled={account !== null}>
+            {UI.nameModalSave}
+          </button>
+        </div>
+
+        <div className="account-section">
+          <h4>{UI.accountHeading}</h4>
+          {account ? (
+            <div className="account-signed-in">
+              <span>{UI.accountSignedInAs(account.username)}</span>
+              <button
+                onClick={() => {
+                  onSignOut();
+                  onClose();
+                }}
+              >
+                {UI.accountSignOut}
+              </button>
+            </div>
+          ) : (
+            <form className="account-form" onSubmit={onSubmit}>
+              <span className="account-hint">{UI.accountHint}</span>
+              <input
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder={UI.accountUsernamePlaceholder}
+                aria-label={UI.accountUsernamePlaceholder}
+                autoComplete="username"
+                maxLength={20}
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder={UI.accountPasswordPlaceholder}
+                aria-label={UI.accountPasswordPlaceholder}
+                autoComplete="current-password"
+                maxLength={128}
+              />
+              <div className="name-modal-buttons">
+                <button
+                  type="button"
+                  disabled={isSubmitting}
+                  onClick={() => submitAccount("register")}
+                >
+                  {UI.accountRegister}
+                </button>
+                <button type="submit" disabled={isSubmitting}>
+                  {UI.accountSignIn}
+                </button>
+              </div>
+            </form>
+          )}
         </div>
       </div>
     </div>
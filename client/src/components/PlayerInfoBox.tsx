@@ -1,11 +1,14 @@
 import { ReactNode } from "react";
 import { LOW_TIME_THRESHOLD } from "../constants";
+import { UI } from "../messages";
 
 interface PlayerInfoBoxProps {
   clockTime: number;
   lostPieces: string[];
   materialAdv: number;
   isActive: boolean;
+  /** Seconds until this side's proposal deadline, when one is running */
+  deadlineSeconds?: number | null;
   actionSlot?: ReactNode;
 }
 
@@ -14,6 +17,7 @@ export const PlayerInfoBox: React.FC<PlayerInfoBoxProps> = ({
   lostPieces,
   materialAdv,
   isActive,
+  deadlineSeconds,
   actionSlot,
 }) => {
   const isLowTime = clockTime > 0 && clockTime <= LOW_TIME_THRESHOLD;
@@ -28,6 +32,14 @@ export const PlayerInfoBox: React.FC<PlayerInfoBoxProps> = ({
         {String(Math.floor(clockTime / 60)).padStart(2, "0")}:
         {String(clockTime % 60).padStart(2, "0")}
       </div>
+      {isActive && deadlineSeconds != null && (
+        <div
+          className="deadline-badge"
+          title={UI.tooltipTurnDeadline(deadlineSeconds)}
+        >
+          ⏳ {deadlineSeconds}s
+        </div>
+      )}
       <div className="material-display">
         <span className="material-pieces">
           {lostPieces.map((s, i) => {
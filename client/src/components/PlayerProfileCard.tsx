@@ -0,0 +1,85 @@
+import { useEffect, useState } from "react";
+import { PlayerStats } from "../types";
+import { UI } from "../messages";
+import { formatCpLoss, formatHitRate, formatSideRecord } from "../statsUtils";
+
+interface PlayerProfileCardProps {
+  playerId: string;
+  onClose: () => void;
+}
+
+type ProfileState =
+  | { status: "loading" }
+  | { status: "loaded"; stats: PlayerStats }
+  | { status: "none" }
+  | { status: "failed" };
+
+/**
+ * A player's record over their finished games, fetched when shown.
+ * Render it with the player id as key so switching players starts over.
+ */
+export const PlayerProfileCard: React.FC<PlayerProfileCardProps> = ({
+  playerId,
+  onClose,
+}) => {
+  const [state, setState] = useState<ProfileState>({ status: "loading" });
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const res = await fetch(
+          `/api/players/${encodeURIComponent(playerId)}/stats`
+        );
+        if (cancelled) return;
+        if (res.status === 404) {
+          setState({ status: "none" });
+          return;
+        }
+        if (!res.ok) throw new Error(res.statusText);
+        const stats: PlayerStats = await res.json();
+        if (!cancelled) setState({ status: "loaded", stats });
+      } catch (_err) {
+        if (!cancelled) setState({ status: "failed" });
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  return (
+    <div className="profile-card">
+      <button
+        className="profile-card-close"
+        onClick={onClose}
+        aria-label={UI.btnClose}
+      >
+        ×
+      </button>
+      {state.status === "loading" && <span>{UI.profileLoading}</span>}
+      {state.status === "none" && <span>{UI.profileNoGames}</span>}
+      {state.status === "failed" && <span>{UI.profileLoadFailed}</span>}
+      {state.status === "loaded" && (
+        <dl className="profile-card-stats">
+          <dt>{UI.profileRating}</dt>
+          <dd>{state.stats.rating}</dd>
+          <dt>{UI.profileGames}</dt>
+          <dd>{state.stats.games}</dd>
+          <dt>{UI.profileAsWhite}</dt>
+          <dd>{formatSideRecord(state.stats.white)}</dd>
+          <dt>{UI.profileAsBlack}</dt>
+          <dd>{formatSideRecord(state.stats.black)}</dd>
+          <dt>{UI.profileHitRate}</dt>
+          <dd>
+            {formatHitRate(state.stats.hitRate)} ({state.stats.selected}/
+            {state.stats.proposals})
+          </dd>
+          <dt>{UI.profileCpLoss}</dt>
+          <dd>{formatCpLoss(state.stats.averageCpLoss)}</dd>
+        </dl>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,7 @@ import { Players, KickVoteState, GameStatus } from "../types";
 import { DisconnectedIcon } from "../DisconnectedIcon";
 import { DEFAULT_PLAYER_NAME, UI } from "../messages";
 import { colorForPlayer } from "../playerColors";
+import { PlayerProfileCard } from "./PlayerProfileCard";
 
 interface PlayersPanelProps {
   activeTab: string;
@@ -123,6 +124,8 @@ export const PlayersPanel: React.FC<PlayersPanelProps> = ({
   joinSide,
   autoAssign,
 }) => {
+  // Whose profile card is open; clicking a name toggles it
+  const [profileId, setProfileId] = useState<string | null>(null);
   const isSetup = gameStatus === GameStatus.Setup;
   const canJoin = (target: "white" | "black" | "spectator") => {
     if (!showJoinControls) return false;
@@ -163,9 +166,15 @@ export const PlayersPanel: React.FC<PlayersPanelProps> = ({
               {p.name === DEFAULT_PLAYER_NAME && <PencilIcon />}
             </button>
           ) : (
-            <span className="player-name-text" style={nameStyle}>
-              {p.name}
-            </span>
+            <button
+              className="clickable-name"
+              onClick={() => setProfileId(profileId === p.id ? null : p.id)}
+              title={UI.profileTooltip(p.name)}
+            >
+              <span className="player-name-text" style={nameStyle}>
+                {p.name}
+              </span>
+            </button>
           )}
           {isMe && <span className="player-you-tag">(You)</span>}
           {played && (
@@ -192,6 +201,13 @@ export const PlayersPanel: React.FC<PlayersPanelProps> = ({
             </button>
           )}
         </div>
+        {profileId === p.id && (
+          <PlayerProfileCard
+            key={p.id}
+            playerId={p.id}
+            onClose={() => setProfileId(null)}
+          />
+        )}
         {isKickTarget && (
           <KickVoteBox kickVote={kickVote} onSendKickVote={onSendKickVote} />
         )}
@@ -0,0 +1,68 @@
+import { Proposal } from "../types";
+import {
+  arrowWidth,
+  buildProposalArrows,
+  squareCenter,
+} from "../proposalArrows";
+
+interface ProposalArrowsProps {
+  proposals: Proposal[];
+  orientation: "white" | "black";
+}
+
+/** Arrowhead length and half-width, as multiples of the shaft width. */
+const HEAD_LENGTH = 2.5;
+const HEAD_HALF_WIDTH = 1.6;
+
+/**
+ * Overlay drawing the current turn's proposals as arrows on the board.
+ * Purely visual: it ignores pointer events so dragging still works.
+ */
+export const ProposalArrows: React.FC<ProposalArrowsProps> = ({
+  proposals,
+  orientation,
+}) => {
+  const arrows = buildProposalArrows(proposals);
+  if (arrows.length === 0) return null;
+
+  return (
+    <svg className="proposal-arrows" viewBox="0 0 8 8" aria-hidden>
+      {arrows.map((a) => {
+        const start = squareCenter(a.from, orientation);
+        const end = squareCenter(a.to, orientation);
+        const dx = end.x - start.x;
+        const dy = end.y - start.y;
+        const length = Math.hypot(dx, dy);
+        const ux = dx / length;
+        const uy = dy / length;
+        const width = arrowWidth(a.count);
+        const headLength = width * HEAD_LENGTH;
+        const halfHead = width * HEAD_HALF_WIDTH;
+        // Stop short of the target centre so the head sits on the square
+        const tipX = end.x - ux * 0.15;
+        const tipY = end.y - uy * 0.15;
+        const baseX = tipX - ux * headLength;
+        const baseY = tipY - uy * headLength;
+        const head = [
+          `${tipX},${tipY}`,
+          `${baseX - uy * halfHead},${baseY + ux * halfHead}`,
+          `${baseX + uy * halfHead},${baseY - ux * halfHead}`,
+        ].join(" ");
+
+        return (
+          <g key={a.from + a.to} style={{ color: a.color }}>
+            <line
+              x1={start.x + ux * 0.2}
+              y1={start.y + uy * 0.2}
+              x2={baseX}
+              y2={baseY}
+              stroke="currentColor"
+              strokeWidth={width}
+            />
+            <polygon points={head} fill="currentColor" />
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,479 @@
+import { useState, FormEvent } from "react";
+import { DEFAULT_POSITION } from "chess.js";
+import {
+  AutopilotMode,
+  EngineSettings,
+  MoveStrategy,
+  TimeControl,
+  TurnDeadline,
+  SpectatorDelay,
+} from "../types";
+import {
+  UI,
+  formatTimeControl,
+  formatTurnDeadline,
+  formatSpectatorDelay,
+  formatEngineSettings,
+  moveStrategyLabels,
+  autopilotLabels,
+} from "../messages";
+import {
+  TIME_CONTROL_PRESETS,
+  TURN_DEADLINE_PRESETS,
+  SPECTATOR_DELAY_PRESETS,
+  ENGINE_SETTINGS_PRESETS,
+} from "../constants";
+import {
+  findTimeControlPreset,
+  parseTimeControlForm,
+} from "../timeControlUtils";
+import {
+  EngineSettingsForm,
+  EngineSettingsNumberField,
+  findEngineSettingsPreset,
+  parseEngineSettingsForm,
+  toEngineSettingsForm,
+} from "../engineSettingsUtils";
+
+interface SetupPanelProps {
+  timeControl: TimeControl | null;
+  turnDeadline: TurnDeadline | null;
+  spectatorDelay: SpectatorDelay | null;
+  moveStrategy: MoveStrategy | null;
+  autopilot: AutopilotMode | null;
+  engineSettings: EngineSettings | null;
+  engineName: string | null;
+  /** FEN of the position the game will start from */
+  startFen: string;
+  canEdit: boolean;
+  onSetTimeControl: (timeControl: TimeControl) => void;
+  onSetTurnDeadline: (turnDeadline: TurnDeadline) => void;
+  onSetSpectatorDelay: (spectatorDelay: SpectatorDelay) => void;
+  onSetMoveStrategy: (moveStrategy: MoveStrategy) => void;
+  onSetAutopilot: (autopilot: AutopilotMode) => void;
+  onSetEngineSettings: (engineSettings: EngineSettings) => void;
+  onLoadPosition: (format: "fen" | "pgn", text: string) => void;
+}
+
+const CUSTOM_OPTION = "custom";
+
+export const SetupPanel: React.FC<SetupPanelProps> = ({
+  timeControl,
+  turnDeadline,
+  spectatorDelay,
+  moveStrategy,
+  autopilot,
+  engineSettings,
+  engineName,
+  startFen,
+  canEdit,
+  onSetTimeControl,
+  onSetTurnDeadline,
+  onSetSpectatorDelay,
+  onSetMoveStrategy,
+  onSetAutopilot,
+  onSetEngineSettings,
+  onLoadPosition,
+}) => {
+  const [isCustomOpen, setIsCustomOpen] = useState(false);
+  const [isPositionOpen, setIsPositionOpen] = useState(false);
+  const [positionFormat, setPositionFormat] = useState<"fen" | "pgn">("fen");
+  const [positionText, setPositionText] = useState("");
+  const [form, setForm] = useState({
+    baseMinutes: "10",
+    increment: "0",
+    incrementThreshold: "0",
+    delay: "0",
+    moveTime: "0",
+  });
+  const [isEngineCustomOpen, setIsEngineCustomOpen] = useState(false);
+  const [engineForm, setEngineForm] = useState<EngineSettingsForm | null>(null);
+
+  if (
+    !timeControl ||
+    !turnDeadline ||
+    !spectatorDelay ||
+    !moveStrategy ||
+    !autopilot ||
+    !engineSettings
+  ) {
+    return null;
+  }
+
+  const presetIndex = findTimeControlPreset(timeControl, TIME_CONTROL_PRESETS);
+  const selectValue =
+    isCustomOpen || presetIndex === -1 ? CUSTOM_OPTION : String(presetIndex);
+
+  const deadlineIndex = TURN_DEADLINE_PRESETS.findIndex(
+    (preset) =>
+      preset.afterFirstProposal === turnDeadline.afterFirstProposal &&
+      preset.perTurn === turnDeadline.perTurn
+  );
+
+  const spectatorDelayIndex = SPECTATOR_DELAY_PRESETS.findIndex(
+    (preset) =>
+      preset.moves === spectatorDelay.moves &&
+      preset.seconds === spectatorDelay.seconds
+  );
+
+  const enginePresetIndex = findEngineSettingsPreset(
+    engineSettings,
+    ENGINE_SETTINGS_PRESETS
+  );
+  const engineSelectValue =
+    isEngineCustomOpen || enginePresetIndex === -1
+      ? CUSTOM_OPTION
+      : String(enginePresetIndex);
+
+  const handleSelect = (value: string) => {
+    if (value === CUSTOM_OPTION) {
+      setForm({
+        baseMinutes: String(timeControl.baseTime / 60),
+        increment: String(timeControl.increment),
+        incrementThreshold: String(timeControl.incrementThreshold),
+        delay: String(timeControl.delay),
+        moveTime: String(timeControl.moveTime),
+      });
+      setIsCustomOpen(true);
+      return;
+    }
+    setIsCustomOpen(false);
+    onSetTimeControl(TIME_CONTROL_PRESETS[Number(value)]);
+  };
+
+  const handleCustomSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSetTimeControl(parseTimeControlForm(form));
+    setIsCustomOpen(false);
+  };
+
+  const handleEngineSelect = (value: string) => {
+    if (value === CUSTOM_OPTION) {
+      setEngineForm(toEngineSettingsForm(engineSettings));
+      setIsEngineCustomOpen(true);
+      return;
+    }
+    setIsEngineCustomOpen(false);
+    onSetEngineSettings(ENGINE_SETTINGS_PRESETS[Number(value)]);
+  };
+
+  const handleEngineCustomSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!engineForm) return;
+    onSetEngineSettings(parseEngineSettingsForm(engineForm));
+    setIsEngineCustomOpen(false);
+  };
+
+  const handlePositionSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!positionText.trim()) return;
+    onLoadPosition(positionFormat, positionText);
+    setIsPositionOpen(false);
+    setPositionText("");
+  };
+
+  const isStandardPosition = startFen === DEFAULT_POSITION;
+
+  const customFields: { key: keyof typeof form; label: string }[] = [
+    { key: "baseMinutes", label: UI.setupBaseMinutes },
+    { key: "increment", label: UI.setupIncrement },
+    { key: "incrementThreshold", label: UI.setupIncrementThreshold },
+    { key: "delay", label: UI.setupDelay },
+    { key: "moveTime", label: UI.setupMoveTime },
+  ];
+
+  const engineFields: { key: EngineSettingsNumberField; label: string }[] = [
+    { key: "depth", label: UI.setupEngineDepth },
+    { key: "moveTimeMs", label: UI.setupEngineMoveTime },
+    { key: "nodes", label: UI.setupEngineNodes },
+    { key: "skillLevel", label: UI.setupEngineSkillLevel },
+    { key: "elo", label: UI.setupEngineElo },
+    { key: "threads", label: UI.setupEngineThreads },
+    { key: "hash", label: UI.setupEngineHash },
+  ];
+
+  return (
+    <div className="setup-panel">
+      <div className="setup-panel-row">
+        <span className="setup-panel-label">{UI.setupTimeControl}</span>
+        {canEdit ? (
+          <select
+            className="setup-panel-select"
+            value={selectValue}
+            onChange={(e) => handleSelect(e.target.value)}
+            aria-label={UI.setupTimeControl}
+          >
+            {TIME_CONTROL_PRESETS.map((preset, i) => (
+              <option key={i} value={String(i)}>
+                {formatTimeControl(preset)}
+              </option>
+            ))}
+            <option value={CUSTOM_OPTION}>
+              {presetIndex === -1 && !isCustomOpen
+                ? formatTimeControl(timeControl)
+                : UI.setupCustom}
+            </option>
+          </select>
+        ) : (
+          <span className="setup-panel-value">
+            {formatTimeControl(timeControl)}
+          </span>
+        )}
+      </div>
+      {canEdit && isCustomOpen && (
+        <form className="setup-panel-custom" onSubmit={handleCustomSubmit}>
+          {customFields.map(({ key, label }) => (
+            <label key={key} className="setup-panel-field">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={0}
+                step={key === "baseMinutes" ? 0.5 : 1}
+                value={form[key]}
+                onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+              />
+            </label>
+          ))}
+          <div className="setup-panel-buttons">
+            <button type="button" onClick={() => setIsCustomOpen(false)}>
+              {UI.confirmCancel}
+            </button>
+            <button type="submit">{UI.setupApply}</button>
+          </div>
+        </form>
+      )}
+      <div className="setup-panel-row">
+        <span className="setup-panel-label">{UI.setupTurnDeadline}</span>
+        {canEdit ? (
+          <select
+            className="setup-panel-select"
+            value={String(deadlineIndex)}
+            onChange={(e) =>
+              onSetTurnDeadline(TURN_DEADLINE_PRESETS[Number(e.target.value)])
+            }
+            aria-label={UI.setupTurnDeadline}
+          >
+            {TURN_DEADLINE_PRESETS.map((preset, i) => (
+              <option key={i} value={String(i)}>
+                {formatTurnDeadline(preset)}
+              </option>
+            ))}
+            {deadlineIndex === -1 && (
+              <option value="-1" disabled>
+                {formatTurnDeadline(turnDeadline)}
+              </option>
+            )}
+          </select>
+        ) : (
+          <span className="setup-panel-value">
+            {formatTurnDeadline(turnDeadline)}
+          </span>
+        )}
+      </div>
+      <div className="setup-panel-row">
+        <span className="setup-panel-label">{UI.setupSpectatorDelay}</span>
+        {canEdit ? (
+          <select
+            className="setup-panel-select"
+            value={String(spectatorDelayIndex)}
+            onChange={(e) =>
+              onSetSpectatorDelay(
+                SPECTATOR_DELAY_PRESETS[Number(e.target.value)]
+              )
+            }
+            aria-label={UI.setupSpectatorDelay}
+          >
+            {SPECTATOR_DELAY_PRESETS.map((preset, i) => (
+              <option key={i} value={String(i)}>
+                {formatSpectatorDelay(preset)}
+              </option>
+            ))}
+            {spectatorDelayIndex === -1 && (
+              <option value="-1" disabled>
+                {formatSpectatorDelay(spectatorDelay)}
+              </option>
+            )}
+          </select>
+        ) : (
+          <span className="setup-panel-value">
+            {formatSpectatorDelay(spectatorDelay)}
+          </span>
+        )}
+      </div>
+      <div className="setup-panel-row">
+        <span className="setup-panel-label">{UI.setupMoveStrategy}</span>
+        {canEdit ? (
+          <select
+            className="setup-panel-select"
+            value={moveStrategy}
+            onChange={(e) => onSetMoveStrategy(e.target.value as MoveStrategy)}
+            aria-label={UI.setupMoveStrategy}
+          >
+            {(Object.keys(moveStrategyLabels) as MoveStrategy[]).map((s) => (
+              <option key={s} value={s}>
+                {moveStrategyLabels[s]}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="setup-panel-value">
+            {moveStrategyLabels[moveStrategy]}
+          </span>
+        )}
+      </div>
+      <div className="setup-panel-row">
+        <span className="setup-panel-label">
+          {engineName ?? UI.setupEngine}
+        </span>
+        {canEdit ? (
+          <select
+            className="setup-panel-select"
+            value={engineSelectValue}
+            onChange={(e) => handleEngineSelect(e.target.value)}
+            aria-label={UI.setupEngine}
+          >
+            {ENGINE_SETTINGS_PRESETS.map((preset, i) => (
+              <option key={i} value={String(i)}>
+                {formatEngineSettings(preset)}
+              </option>
+            ))}
+            <option value={CUSTOM_OPTION}>
+              {enginePresetIndex === -1 && !isEngineCustomOpen
+                ? formatEngineSettings(engineSettings)
+                : UI.setupCustom}
+            </option>
+          </select>
+        ) : (
+          <span className="setup-panel-value">
+            {formatEngineSettings(engineSettings)}
+          </span>
+        )}
+      </div>
+      {canEdit && isEngineCustomOpen && engineForm && (
+        <form
+          className="setup-panel-custom"
+          onSubmit={handleEngineCustomSubmit}
+        >
+          {engineFields.map(({ key, label }) => (
+            <label key={key} className="setup-panel-field">
+              <span>{label}</span>
+              <input
+                type="number"
+                min={0}
+                step={1}
+                value={engineForm[key]}
+                disabled={key === "elo" && !engineForm.limitStrength}
+                onChange={(e) =>
+                  setEngineForm({ ...engineForm, [key]: e.target.value })
+                }
+              />
+            </label>
+          ))}
+          <label className="setup-panel-field">
+            <span>{UI.setupEngineLimitStrength}</span>
+            <input
+              type="checkbox"
+              checked={engineForm.limitStrength}
+              onChange={(e) =>
+                setEngineForm({
+                  ...engineForm,
+                  limitStrength: e.target.checked,
+                })
+              }
+            />
+          </label>
+          <div className="setup-panel-buttons">
+            <button type="button" onClick={() => setIsEngineCustomOpen(false)}>
+              {UI.confirmCancel}
+            </button>
+            <button type="submit">{UI.setupApply}</button>
+          </div>
+        </form>
+      )}
+      <div className="setup-panel-row">
+        <span className="setup-panel-label">{UI.setupAutopilot}</span>
+        {canEdit ? (
+          <select
+            className="setup-panel-select"
+            value={autopilot}
+            onChange={(e) => onSetAutopilot(e.target.value as AutopilotMode)}
+            aria-label={UI.setupAutopilot}
+          >
+            {(Object.keys(autopilotLabels) as AutopilotMode[]).map((m) => (
+              <option key={m} value={m}>
+                {autopilotLabels[m]}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <span className="setup-panel-value">
+            {autopilotLabels[autopilot]}
+          </span>
+        )}
+      </div>
+      <div className="setup-panel-row">
+        <span className="setup-panel-label">{UI.setupStartPosition}</span>
+        <span className="setup-panel-value" title={startFen}>
+          {isStandardPosition
+            ? UI.setupStandardPosition
+            : UI.setupCustomPosition}
+        </span>
+        {canEdit && (
+          <div className="setup-panel-buttons">
+            {!isStandardPosition && (
+              <button
+                type="button"
+                onClick={() => onLoadPosition("fen", DEFAULT_POSITION)}
+              >
+                {UI.setupResetPosition}
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setIsPositionOpen(!isPositionOpen)}
+            >
+              {UI.setupLoadPosition}
+            </button>
+          </div>
+        )}
+      </div>
+      {canEdit && isPositionOpen && (
+        <form className="setup-panel-position" onSubmit={handlePositionSubmit}>
+          <div className="setup-panel-row">
+            <span className="setup-panel-label">{UI.setupPositionFormat}</span>
+            <select
+              className="setup-panel-select"
+              value={positionFormat}
+              onChange={(e) =>
+                setPositionFormat(e.target.value as "fen" | "pgn")
+              }
+              aria-label={UI.setupPositionFormat}
+            >
+              <option value="fen">FEN</option>
+              <option value="pgn">PGN</option>
+            </select>
+          </div>
+          <textarea
+            rows={positionFormat === "fen" ? 2 : 6}
+            value={positionText}
+            placeholder={
+              positionFormat === "fen"
+                ? UI.setupFenPlaceholder
+                : UI.setupPgnPlaceholder
+            }
+            onChange={(e) => setPositionText(e.target.value)}
+          />
+          <div className="setup-panel-buttons">
+            <button type="button" onClick={() => setIsPositionOpen(false)}>
+              {UI.confirmCancel}
+            </button>
+            <button type="submit">{UI.setupLoad}</button>
+          </div>
+        </form>
+      )}
+      {!canEdit && (
+        <div className="setup-panel-hint">{UI.setupPlayersOnly}</div>
+      )}
+    </div>
+  );
+};
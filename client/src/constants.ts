@@ -1,13 +1,120 @@
+import type {
+  EngineSettings,
+  SpectatorDelay,
+  TimeControl,
+  TurnDeadline,
+} from "./types";
+
 /** Default clock time per side in seconds (10 minutes) */
 export const DEFAULT_CLOCK_TIME = 600;
 
 /** Time threshold (seconds) at or below which low-time UI is shown */
 export const LOW_TIME_THRESHOLD = 60;
 
+/** Time controls offered in the setup panel. The first one is the default. */
+export const TIME_CONTROL_PRESETS: TimeControl[] = [
+  {
+    baseTime: 600,
+    increment: 10,
+    incrementThreshold: 60,
+    delay: 0,
+    moveTime: 0,
+  },
+  { baseTime: 180, increment: 2, incrementThreshold: 0, delay: 0, moveTime: 0 },
+  { baseTime: 300, increment: 3, incrementThreshold: 0, delay: 0, moveTime: 0 },
+  { baseTime: 600, increment: 5, incrementThreshold: 0, delay: 0, moveTime: 0 },
+  {
+    baseTime: 900,
+    increment: 10,
+    incrementThreshold: 0,
+    delay: 0,
+    moveTime: 0,
+  },
+  { baseTime: 300, increment: 0, incrementThreshold: 0, delay: 5, moveTime: 0 },
+  {
+    baseTime: 600,
+    increment: 0,
+    incrementThreshold: 0,
+    delay: 0,
+    moveTime: 30,
+  },
+  {
+    baseTime: 600,
+    increment: 0,
+    incrementThreshold: 0,
+    delay: 0,
+    moveTime: 60,
+  },
+];
+
+/**
+ * Proposal deadlines offered in the setup panel. The first one is the
+ * default (off).
+ */
+export const TURN_DEADLINE_PRESETS: TurnDeadline[] = [
+  { afterFirstProposal: 0, perTurn: 0 },
+  { afterFirstProposal: 30, perTurn: 0 },
+  { afterFirstProposal: 60, perTurn: 0 },
+  { afterFirstProposal: 0, perTurn: 30 },
+  { afterFirstProposal: 0, perTurn: 60 },
+  { afterFirstProposal: 30, perTurn: 120 },
+];
+
+/**
+ * Spectator delays offered in the setup panel. The second one is the
+ * default (10 seconds).
+ */
+export const SPECTATOR_DELAY_PRESETS: SpectatorDelay[] = [
+  { moves: 0, seconds: 0 },
+  { moves: 0, seconds: 10 },
+  { moves: 0, seconds: 30 },
+  { moves: 0, seconds: 60 },
+  { moves: 1, seconds: 0 },
+  { moves: 2, seconds: 0 },
+];
+
+const FULL_STRENGTH: EngineSettings = {
+  depth: 15,
+  moveTimeMs: 0,
+  nodes: 0,
+  skillLevel: 20,
+  limitStrength: false,
+  elo: 2000,
+  threads: 1,
+  hash: 16,
+};
+
+/**
+ * Engine settings offered in the setup panel. The first one is the default
+ * (full strength).
+ */
+export const ENGINE_SETTINGS_PRESETS: EngineSettings[] = [
+  FULL_STRENGTH,
+  { ...FULL_STRENGTH, moveTimeMs: 1000 },
+  { ...FULL_STRENGTH, limitStrength: true, elo: 2200 },
+  { ...FULL_STRENGTH, limitStrength: true, elo: 1800 },
+  { ...FULL_STRENGTH, limitStrength: true, elo: 1400 },
+  { ...FULL_STRENGTH, skillLevel: 0, depth: 5 },
+];
+
+/**
+ * Whether spectators see proposal arrows on the board. Players only ever
+ * see their own team's.
+ */
+export const SHOW_PROPOSAL_ARROWS_TO_SPECTATORS = true;
+
+/** How often the lobby re-fetches the room list (ms) */
+export const LOBBY_REFRESH_MS = 5000;
+
+/** Path of the leaderboard page */
+export const LEADERBOARD_PATH = "/leaderboard";
+
 export const STORAGE_KEYS = {
   pid: "tc:pid",
   name: "tc:name",
   side: "tc:side",
+  /** Session token of the signed-in account, if any */
+  token: "tc:token",
 } as const;
 
 export const pieceToFigurineWhite: Record<string, string> = {
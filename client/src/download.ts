@@ -0,0 +1,17 @@
+/**
+ * Saves text as a file through a temporary object URL.
+ */
+export function downloadTextFile(
+  fileName: string,
+  text: string,
+  mimeType = "text/plain"
+): void {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
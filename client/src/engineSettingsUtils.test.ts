@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import {
+  findEngineSettingsPreset,
+  toEngineSettingsForm,
+  parseEngineSettingsForm,
+} from "./engineSettingsUtils.js";
+import { ENGINE_SETTINGS_PRESETS } from "./constants.js";
+
+const FULL_STRENGTH = {
+  depth: 15,
+  moveTimeMs: 0,
+  nodes: 0,
+  skillLevel: 20,
+  limitStrength: false,
+  elo: 2000,
+  threads: 1,
+  hash: 16,
+};
+
+describe("engineSettingsUtils", () => {
+  describe("findEngineSettingsPreset", () => {
+    it("finds the default settings as the first preset", () => {
+      expect(
+        findEngineSettingsPreset(FULL_STRENGTH, ENGINE_SETTINGS_PRESETS)
+      ).toBe(0);
+    });
+
+    it("returns -1 for custom settings", () => {
+      expect(
+        findEngineSettingsPreset(
+          { ...FULL_STRENGTH, hash: 64 },
+          ENGINE_SETTINGS_PRESETS
+        )
+      ).toBe(-1);
+    });
+  });
+
+  describe("parseEngineSettingsForm", () => {
+    it("reads back the settings a form was filled with", () => {
+      expect(
+        parseEngineSettingsForm(toEngineSettingsForm(FULL_STRENGTH))
+      ).toEqual(FULL_STRENGTH);
+    });
+
+    it("treats non-numeric input as 0", () => {
+      const form = { ...toEngineSettingsForm(FULL_STRENGTH), nodes: "many" };
+      expect(parseEngineSettingsForm(form).nodes).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import type { EngineSettings } from "./types";
+
+/** Engine settings entered as numbers in the custom form */
+export type EngineSettingsNumberField = Exclude<
+  keyof EngineSettings,
+  "limitStrength"
+>;
+
+export type EngineSettingsForm = Record<EngineSettingsNumberField, string> & {
+  limitStrength: boolean;
+};
+
+const ENGINE_SETTINGS_NUMBER_FIELDS: EngineSettingsNumberField[] = [
+  "depth",
+  "moveTimeMs",
+  "nodes",
+  "skillLevel",
+  "elo",
+  "threads",
+  "hash",
+];
+
+export function isSameEngineSettings(
+  a: EngineSettings,
+  b: EngineSettings
+): boolean {
+  return (
+    a.limitStrength === b.limitStrength &&
+    ENGINE_SETTINGS_NUMBER_FIELDS.every((field) => a[field] === b[field])
+  );
+}
+
+/** Index of the preset equal to the given settings, or -1 if custom. */
+export function findEngineSettingsPreset(
+  settings: EngineSettings,
+  presets: EngineSettings[]
+): number {
+  return presets.findIndex((preset) => isSameEngineSettings(preset, settings));
+}
+
+/** Fills the custom form with the current settings. */
+export function toEngineSettingsForm(
+  settings: EngineSettings
+): EngineSettingsForm {
+  const form = { limitStrength: settings.limitStrength } as EngineSettingsForm;
+  for (const field of ENGINE_SETTINGS_NUMBER_FIELDS) {
+    form[field] = String(settings[field]);
+  }
+  return form;
+}
+
+/**
+ * Builds engine settings from the custom form fields.
+ * Empty or non-numeric fields count as 0; the server does the validation.
+ */
+export function parseEngineSettingsForm(
+  form: EngineSettingsForm
+): EngineSettings {
+  const settings = { limitStrength: form.limitStrength } as EngineSettings;
+  for (const field of ENGINE_SETTINGS_NUMBER_FIELDS) {
+    settings[field] = Number(form[field]) || 0;
+  }
+  return settings;
+}
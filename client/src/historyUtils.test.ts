@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildHistoryPositions,
+  clampViewedPly,
+  turnsFromHistory,
+} from "./historyUtils";
+import type { Selection, Turn } from "./types";
+
+const START = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+const AFTER_E4 = "rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1";
+
+function selection(
+  moveNumber: number,
+  side: "white" | "black",
+  lan: string,
+  fen: string
+): Selection {
+  return {
+    id: "p1",
+    name: "Alice",
+    moveNumber,
+    side,
+    lan,
+    san: lan,
+    fen,
+    candidates: [],
+    strategy: "engine_best",
+  };
+}
+
+describe("historyUtils", () => {
+  describe("buildHistoryPositions", () => {
+    it("starts from the start position and adds one entry per played move", () => {
+      const turns: Turn[] = [
+        {
+          moveNumber: 1,
+          side: "white",
+          proposals: [],
+          selection: selection(1, "white", "e2e4", AFTER_E4),
+        },
+        { moveNumber: 2, side: "black", proposals: [] },
+      ];
+      expect(buildHistoryPositions(START, turns)).toEqual([
+        { fen: START },
+        { fen: AFTER_E4, move: { from: "e2", to: "e4" } },
+      ]);
+    });
+  });
+
+  describe("clampViewedPly", () => {
+    it("returns to live at or past the latest move", () => {
+      expect(clampViewedPly(5, 5)).toBeNull();
+      expect(clampViewedPly(6, 5)).toBeNull();
+    });
+
+    it("clamps before the start position", () => {
+      expect(clampViewedPly(-1, 5)).toBe(0);
+      expect(clampViewedPly(3, 5)).toBe(3);
+    });
+  });
+
+  describe("turnsFromHistory", () => {
+    it("rebuilds played turns with their selection", () => {
+      const sel = selection(1, "white", "e2e4", AFTER_E4);
+      expect(turnsFromHistory([sel])).toEqual([
+        { moveNumber: 1, side: "white", proposals: [], selection: sel },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import type { Selection, Turn } from "./types";
+
+/**
+ * One position of the game as it can be shown on the board: the start
+ * position, then the position after each played move.
+ */
+export interface HistoryPosition {
+  fen: string;
+  /** The move that led here; absent for the start position */
+  move?: { from: string; to: string };
+}
+
+/**
+ * Positions the board can step through, from the start position to the
+ * latest played move. Index n is the position after n moves.
+ */
+export function buildHistoryPositions(
+  startFen: string,
+  turns: Turn[]
+): HistoryPosition[] {
+  return [
+    { fen: startFen },
+    ...turns
+      .filter((t) => t.selection)
+      .map((t) => ({
+        fen: t.selection!.fen,
+        move: {
+          from: t.selection!.lan.slice(0, 2),
+          to: t.selection!.lan.slice(2, 4),
+        },
+      })),
+  ];
+}
+
+/**
+ * The ply to show after navigating to `target`, or null to follow the live
+ * game. Targets past either end are clamped; reaching the latest move
+ * returns to live.
+ */
+export function clampViewedPly(target: number, lastPly: number): number | null {
+  if (target >= lastPly) return null;
+  return Math.max(target, 0);
+}
+
+/** Turns already played before a late join, in the shape the client keeps. */
+export function turnsFromHistory(history: Selection[]): Turn[] {
+  return history.map((sel) => ({
+    moveNumber: sel.moveNumber,
+    side: sel.side,
+    proposals: sel.candidates,
+    selection: sel,
+  }));
+}
@@ -8,10 +8,20 @@ import {
   Proposal,
   Selection,
   ChatMessage,
+  ChatChannel,
   GameStatus,
   TeamVoteState,
   KickVoteState,
   ResetVoteState,
+  TimeControl,
+  TurnDeadline,
+  SpectatorDelay,
+  MoveStrategy,
+  AutopilotMode,
+  EngineSettings,
+  GameAnalysis,
+  Account,
+  AuthResponse,
 } from "../types";
 import { Turn } from "../types";
 import { STORAGE_KEYS } from "../constants";
@@ -22,18 +32,30 @@ import {
   UI,
 } from "../messages";
 import { sounds } from "../soundEngine";
+import { turnsFromHistory } from "../historyUtils";
 
 interface UseSocketProps {
+  roomId: string;
+  onRoomNotFound: () => void;
   chess: Chess;
   isMobile: boolean;
   activeTabRef: React.MutableRefObject<string>;
+  /** Chat channel the player is looking at */
+  chatChannelRef: React.MutableRefObject<ChatChannel>;
 }
 
 interface UseSocketReturn {
   socket: Socket | null;
+  roomName: string;
   amDisconnected: boolean;
   myId: string;
   name: string;
+  /** Signed-in account, null for guests */
+  account: Account | null;
+  /** Stores a new session and reconnects as its account */
+  signIn: (res: AuthResponse) => void;
+  /** Forgets the session and reconnects as a guest */
+  signOut: () => void;
   nameInput: string;
   setNameInput: React.Dispatch<React.SetStateAction<string>>;
   side: "spectator" | "white" | "black";
@@ -42,9 +64,26 @@ interface UseSocketReturn {
   >;
   players: Players;
   gameStatus: GameStatus;
+  timeControl: TimeControl | null;
+  turnDeadline: TurnDeadline | null;
+  /** When the current turn's proposal deadline runs out (ms since epoch) */
+  turnDeadlineEnd: number | null;
+  /** How far behind the game spectators are kept */
+  spectatorDelay: SpectatorDelay | null;
+  moveStrategy: MoveStrategy | null;
+  autopilot: AutopilotMode | null;
+  engineSettings: EngineSettings | null;
+  /** Name the server's engine reported, e.g. "Stockfish 18" */
+  engineName: string | null;
   pgn: string;
+  /** PGN with a comment on every move describing its proposals */
+  annotatedPgn: string;
+  /** Post-game engine review, filled in move by move while it runs */
+  analysis: GameAnalysis | null;
   chatMessages: ChatMessage[];
   turns: Turn[];
+  /** Position the current game started from */
+  startFen: string;
   position: string;
   clocks: { whiteTime: number; blackTime: number };
   lastMoveSquares: { from: string; to: string } | null;
@@ -52,16 +91,29 @@ interface UseSocketReturn {
   teamVote: TeamVoteState;
   kickVote: KickVoteState;
   resetVote: ResetVoteState;
-  hasUnreadMessages: boolean;
-  setHasUnreadMessages: React.Dispatch<React.SetStateAction<boolean>>;
+  /** Channels with messages the player has not seen yet */
+  unreadChannels: ChatChannel[];
+  markChannelRead: (channel: ChatChannel) => void;
+}
+
+/**
+ * Switching identity takes a fresh handshake with the new credentials.
+ */
+function reconnectAs(socket: Socket, auth: Record<string, string>): void {
+  socket.auth = auth;
+  socket.disconnect().connect();
 }
 
 export function useSocket({
+  roomId,
+  onRoomNotFound,
   chess,
   isMobile,
   activeTabRef,
+  chatChannelRef,
 }: UseSocketProps): UseSocketReturn {
   const [socket, setSocket] = useState<Socket | null>(null);
+  const [roomName, setRoomName] = useState("");
   const [amDisconnected, setAmDisconnected] = useState(false);
   const [myId, setMyId] = useState<string>(
     localStorage.getItem(STORAGE_KEYS.pid) || ""
@@ -69,6 +121,7 @@ export function useSocket({
   const [name, setName] = useState(
     localStorage.getItem(STORAGE_KEYS.name) || DEFAULT_PLAYER_NAME
   );
+  const [account, setAccount] = useState<Account | null>(null);
   const [nameInput, setNameInput] = useState(
     localStorage.getItem(STORAGE_KEYS.name) || DEFAULT_PLAYER_NAME
   );
@@ -84,9 +137,24 @@ export function useSocket({
     blackPlayers: [],
   });
   const [gameStatus, setGameStatus] = useState<GameStatus>(GameStatus.Setup);
+  const [timeControl, setTimeControl] = useState<TimeControl | null>(null);
+  const [turnDeadline, setTurnDeadline] = useState<TurnDeadline | null>(null);
+  const [turnDeadlineEnd, setTurnDeadlineEnd] = useState<number | null>(null);
+  const [spectatorDelay, setSpectatorDelay] = useState<SpectatorDelay | null>(
+    null
+  );
+  const [moveStrategy, setMoveStrategy] = useState<MoveStrategy | null>(null);
+  const [autopilot, setAutopilot] = useState<AutopilotMode | null>(null);
+  const [engineSettings, setEngineSettings] = useState<EngineSettings | null>(
+    null
+  );
+  const [engineName, setEngineName] = useState<string | null>(null);
   const [pgn, setPgn] = useState("");
+  const [annotatedPgn, setAnnotatedPgn] = useState("");
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [turns, setTurns] = useState<Turn[]>([]);
+  const [startFen, setStartFen] = useState(chess.fen());
   const [position, setPosition] = useState(chess.fen());
   const [clocks, setClocks] = useState({ whiteTime: 0, blackTime: 0 });
   const [lastMoveSquares, setLastMoveSquares] = useState<{
@@ -125,7 +193,7 @@ export function useSocket({
     myVoteEligible: false,
     myCurrentVote: null,
   });
-  const [hasUnreadMessages, setHasUnreadMessages] = useState(false);
+  const [unreadChannels, setUnreadChannels] = useState<ChatChannel[]>([]);
 
   // Socket initialization
   useEffect(() => {
@@ -133,6 +201,8 @@ export function useSocket({
       auth: {
         pid: localStorage.getItem(STORAGE_KEYS.pid) || undefined,
         name: localStorage.getItem(STORAGE_KEYS.name) || DEFAULT_PLAYER_NAME,
+        roomId,
+        token: localStorage.getItem(STORAGE_KEYS.token) || undefined,
       },
       reconnection: true,
       reconnectionAttempts: Infinity,
@@ -145,7 +215,7 @@ export function useSocket({
     return () => {
       s.disconnect();
     };
-  }, []);
+  }, [roomId]);
 
   // Sync side with server state
   useEffect(() => {
@@ -186,10 +256,37 @@ export function useSocket({
         setNameInput(serverName);
         localStorage.setItem(STORAGE_KEYS.pid, id);
         localStorage.setItem(STORAGE_KEYS.name, serverName);
-        socket.auth = { pid: id, name: serverName };
+        socket.auth = {
+          pid: id,
+          name: serverName,
+          roomId,
+          token: localStorage.getItem(STORAGE_KEYS.token) || undefined,
+        };
       }
     );
 
+    socket.on("account", ({ account }: { account: Account | null }) => {
+      setAccount(account);
+    });
+
+    // The token expired or the server's secret changed: carry on as a guest
+    socket.on("auth_failed", ({ message }: { message: string }) => {
+      localStorage.removeItem(STORAGE_KEYS.token);
+      toast.error(message);
+      socket.auth = { ...socket.auth, token: undefined };
+      socket.connect();
+    });
+
+    socket.on("room_joined", ({ name: joinedName }: { name: string }) => {
+      setRoomName(joinedName);
+    });
+
+    socket.on("room_not_found", () => {
+      toast.error(UI.toastRoomNotFound);
+      socket.disconnect();
+      onRoomNotFound();
+    });
+
     socket.on("players", (p: Players) => setPlayers(p));
 
     socket.on(
@@ -198,11 +295,31 @@ export function useSocket({
         moveNumber,
         side,
         proposals,
-      }: GameInfo & { proposals: Proposal[] }) => {
+        timeControl: startedTimeControl,
+        startFen: startedFen,
+        history,
+      }: GameInfo & {
+        proposals: Proposal[];
+        timeControl: TimeControl;
+        startFen: string;
+        history: Selection[];
+      }) => {
         setGameStatus(GameStatus.AwaitingProposals);
+        setTimeControl(startedTimeControl);
         setPgn("");
-        setTurns([{ moveNumber, side, proposals: proposals || [] }]);
-        setLastMoveSquares(null);
+        setAnnotatedPgn("");
+        setAnalysis(null);
+        setStartFen(startedFen);
+        setTurns([
+          ...turnsFromHistory(history || []),
+          { moveNumber, side, proposals: proposals || [] },
+        ]);
+        const lastMove = history?.[history.length - 1];
+        setLastMoveSquares(
+          lastMove
+            ? { from: lastMove.lan.slice(0, 2), to: lastMove.lan.slice(2, 4) }
+            : null
+        );
         setDrawOffer(null);
 
         sounds.play("start");
@@ -212,15 +329,71 @@ export function useSocket({
     socket.on("game_reset", () => {
       setGameStatus(GameStatus.Setup);
       setPgn("");
+      setAnnotatedPgn("");
+      setAnalysis(null);
       setTurns([]);
       chess.reset();
       setPosition(chess.fen());
       setClocks({ whiteTime: 0, blackTime: 0 });
       setLastMoveSquares(null);
       setDrawOffer(null);
+      setTurnDeadlineEnd(null);
       sounds.play("reset");
     });
 
+    socket.on(
+      "time_control_update",
+      ({ timeControl: tc }: { timeControl: TimeControl }) => {
+        setTimeControl(tc);
+      }
+    );
+
+    socket.on(
+      "turn_deadline_update",
+      ({ turnDeadline: td }: { turnDeadline: TurnDeadline }) => {
+        setTurnDeadline(td);
+      }
+    );
+
+    socket.on(
+      "spectator_delay_update",
+      ({ spectatorDelay: sd }: { spectatorDelay: SpectatorDelay }) => {
+        setSpectatorDelay(sd);
+      }
+    );
+
+    socket.on(
+      "turn_deadline_timer",
+      ({ endTime }: { endTime: number | null }) => {
+        setTurnDeadlineEnd(endTime);
+      }
+    );
+
+    socket.on(
+      "move_strategy_update",
+      ({ moveStrategy: ms }: { moveStrategy: MoveStrategy }) => {
+        setMoveStrategy(ms);
+      }
+    );
+
+    socket.on(
+      "autopilot_update",
+      ({ autopilot: mode }: { autopilot: AutopilotMode }) => {
+        setAutopilot(mode);
+      }
+    );
+
+    socket.on(
+      "engine_settings_update",
+      ({ engineSettings: settings }: { engineSettings: EngineSettings }) => {
+        setEngineSettings(settings);
+      }
+    );
+
+    socket.on("engine_info", ({ name }: { name: string }) => {
+      setEngineName(name);
+    });
+
     socket.on("clock_update", ({ whiteTime, blackTime }) => {
       setClocks({ whiteTime, blackTime });
     });
@@ -240,6 +413,33 @@ export function useSocket({
       )
     );
 
+    socket.on("move_updated", (m: Proposal) =>
+      setTurns((ts) =>
+        ts.map((t) =>
+          t.moveNumber === m.moveNumber && t.side === m.side
+            ? {
+                ...t,
+                proposals: t.proposals.some((p) => p.id === m.id)
+                  ? t.proposals.map((p) => (p.id === m.id ? m : p))
+                  : [...t.proposals, m],
+              }
+            : t
+        )
+      )
+    );
+
+    socket.on(
+      "move_retracted",
+      ({ id, moveNumber, side }: GameInfo & { id: string }) =>
+        setTurns((ts) =>
+          ts.map((t) =>
+            t.moveNumber === moveNumber && t.side === side
+              ? { ...t, proposals: t.proposals.filter((p) => p.id !== id) }
+              : t
+          )
+        )
+    );
+
     socket.on("move_selected", (sel: Selection) => {
       setTurns((ts) =>
         ts.map((t) =>
@@ -272,9 +472,10 @@ export function useSocket({
       }
     });
 
-    socket.on("turn_change", ({ moveNumber, side }: GameInfo) =>
-      setTurns((ts) => [...ts, { moveNumber, side, proposals: [] }])
-    );
+    socket.on("turn_change", ({ moveNumber, side }: GameInfo) => {
+      setTurns((ts) => [...ts, { moveNumber, side, proposals: [] }]);
+      setTurnDeadlineEnd(null);
+    });
 
     socket.on(
       "game_over",
@@ -282,14 +483,18 @@ export function useSocket({
         reason,
         winner,
         pgn: newPgn,
+        annotatedPgn: newAnnotatedPgn,
       }: {
         reason: string;
         winner: "white" | "black" | null;
         pgn: string;
+        annotatedPgn: string;
       }) => {
         setGameStatus(GameStatus.Over);
         setPgn(newPgn);
+        setAnnotatedPgn(newAnnotatedPgn);
         setDrawOffer(null);
+        setTurnDeadlineEnd(null);
 
         sounds.play("end");
 
@@ -306,10 +511,20 @@ export function useSocket({
       }
     );
 
+    socket.on("analysis_update", (a: GameAnalysis | null) => {
+      setAnalysis(a);
+    });
+
     socket.on("chat_message", (msg: ChatMessage) => {
       setChatMessages((msgs) => [...msgs, msg]);
-      if (!msg.system && activeTabRef.current !== "chat")
-        setHasUnreadMessages(true);
+      const isShown =
+        activeTabRef.current === "chat" &&
+        chatChannelRef.current === msg.channel;
+      if (!msg.system && !isShown) {
+        setUnreadChannels((channels) =>
+          channels.includes(msg.channel) ? channels : [...channels, msg.channel]
+        );
+      }
     });
 
     socket.on("game_status_update", ({ status }: { status: GameStatus }) => {
@@ -350,22 +565,68 @@ export function useSocket({
     return () => {
       socket.disconnect();
     };
-  }, [socket, chess, isMobile, activeTabRef]);
+  }, [
+    socket,
+    roomId,
+    onRoomNotFound,
+    chess,
+    isMobile,
+    activeTabRef,
+    chatChannelRef,
+  ]);
+
+  const signIn = ({ token, account }: AuthResponse) => {
+    localStorage.setItem(STORAGE_KEYS.token, token);
+    if (socket) {
+      reconnectAs(socket, {
+        pid: account.id,
+        name: account.username,
+        roomId,
+        token,
+      });
+    }
+  };
+
+  const signOut = () => {
+    localStorage.removeItem(STORAGE_KEYS.token);
+    localStorage.removeItem(STORAGE_KEYS.pid);
+    setAccount(null);
+    if (socket) reconnectAs(socket, { name: DEFAULT_PLAYER_NAME, roomId });
+  };
+
+  const markChannelRead = (channel: ChatChannel) => {
+    setUnreadChannels((channels) => channels.filter((c) => c !== channel));
+  };
 
   return {
     socket,
+    roomName,
     amDisconnected,
     myId,
     name,
+    account,
+    signIn,
+    signOut,
     nameInput,
     setNameInput,
     side,
     setSide,
     players,
     gameStatus,
+    timeControl,
+    turnDeadline,
+    turnDeadlineEnd,
+    spectatorDelay,
+    moveStrategy,
+    autopilot,
+    engineSettings,
+    engineName,
     pgn,
+    annotatedPgn,
+    analysis,
     chatMessages,
     turns,
+    startFen,
     position,
     clocks,
     lastMoveSquares,
@@ -373,7 +634,7 @@ export function useSocket({
     teamVote,
     kickVote,
     resetVote,
-    hasUnreadMessages,
-    setHasUnreadMessages,
+    unreadChannels,
+    markChannelRead,
   };
 }
@@ -7,6 +7,7 @@ import "./styles/layout.css";
 import "./styles/game.css";
 import "./styles/panels.css";
 import "./styles/modals.css";
+import "./styles/lobby.css";
 import "./styles/responsive.css";
 
 ReactDOM.createRoot(document.getElementById("root")!).render(
@@ -2,9 +2,102 @@ export {
   reasonMessages,
   gameOverFallback,
   DEFAULT_PLAYER_NAME,
+  formatTimeControl,
+  describeTimeControl,
+  formatTurnDeadline,
+  formatSpectatorDelay,
+  formatEngineSettings,
+  moveStrategyLabels,
+  autopilotLabels,
+  formatEval,
 } from "../../server/shared_messages";
+import type {
+  MoveClassification,
+  ChatChannel,
+  LeaderboardSort,
+  LeaderboardRange,
+} from "./types";
 
 export const UI = {
+  // Lobby
+  lobbyTitle: "TeamChess",
+  lobbyRoomsHeading: "Open rooms",
+  lobbyNoRooms: "No rooms open yet. Create one!",
+  lobbyCreateHeading: "Create a room",
+  lobbyCreatePlaceholder: "Room name (optional)",
+  lobbyCreateButton: "Create",
+  lobbyJoinHeading: "Join by link",
+  lobbyJoinPlaceholder: "Room link or id",
+  lobbyJoinButton: "Join",
+  lobbyLoadFailed: "Could not load rooms.",
+  lobbyCreateFailed: "Could not create the room.",
+  lobbyInvalidRoom: "That doesn\u2019t look like a room link.",
+  lobbyLeaderboardLink: "Leaderboard",
+
+  // Leaderboard
+  leaderboardTitle: "Leaderboard",
+  leaderboardBack: "Back to lobby",
+  leaderboardSortLabel: "Rank by",
+  leaderboardRangeLabel: "Games from",
+  leaderboardEmpty: "Nobody qualifies yet. Finish some games!",
+  leaderboardLoadFailed: "Could not load the leaderboard.",
+  leaderboardPlayer: "Player",
+  leaderboardGames: "Games",
+  leaderboardSortLabels: {
+    rating: "Rating",
+    hitRate: "Proposals played",
+    wins: "Games won",
+    selected: "Engine-approved moves",
+  } as Record<LeaderboardSort, string>,
+  leaderboardRangeLabels: {
+    day: "Last 24 hours",
+    week: "Last 7 days",
+    month: "Last 30 days",
+    all: "All time",
+  } as Record<LeaderboardRange, string>,
+  roomStatusSetup: "Waiting to start",
+  roomStatusPlaying: "In progress",
+  roomStatusOver: "Finished",
+  roomTeamSizes: (white: number, black: number, spectators: number) =>
+    `${white} vs ${black} \u00b7 ${spectators} watching`,
+  btnLobbyLabel: "Back to lobby",
+  btnCopyRoomLinkLabel: "Copy room link",
+  toastRoomLinkCopied: "Room link copied!",
+  toastRoomNotFound: "That room does not exist anymore.",
+
+  // Setup panel
+  setupTimeControl: "Time control",
+  setupMoveStrategy: "Move selection",
+  setupTurnDeadline: "Proposal deadline",
+  setupSpectatorDelay: "Spectator delay",
+  setupAutopilot: "Out of time",
+  setupEngine: "Engine",
+  setupEngineDepth: "Depth",
+  setupEngineMoveTime: "Per move (ms)",
+  setupEngineNodes: "Nodes",
+  setupEngineSkillLevel: "Skill level",
+  setupEngineLimitStrength: "Limit to Elo",
+  setupEngineElo: "Elo",
+  setupEngineThreads: "Threads",
+  setupEngineHash: "Hash (MB)",
+  setupCustom: "Custom\u2026",
+  setupBaseMinutes: "Minutes",
+  setupIncrement: "Increment (s)",
+  setupIncrementThreshold: "Only below (s)",
+  setupDelay: "Delay (s)",
+  setupMoveTime: "Per move (s)",
+  setupApply: "Apply",
+  setupStartPosition: "Start position",
+  setupStandardPosition: "Standard",
+  setupCustomPosition: "Custom",
+  setupLoadPosition: "Load\u2026",
+  setupResetPosition: "Standard position",
+  setupPositionFormat: "Format",
+  setupFenPlaceholder: "Paste a FEN, e.g. 8/8/4k3/8/8/4K3/4P3/8 w - - 0 1",
+  setupPgnPlaceholder: "Paste a PGN; the game starts from its final position",
+  setupLoad: "Load",
+  setupPlayersOnly: "Players choose these settings before the first move.",
+
   // Tabs
   tabPlayers: "Players",
   tabMoves: "Moves",
@@ -24,6 +117,27 @@ export const UI = {
   nameModalAriaLabel: "Set your name (Enter to save)",
   nameModalCancel: "Cancel",
   nameModalSave: "Save",
+  accountHeading: "Account",
+  accountSignedInAs: (username: string) => `Signed in as ${username}`,
+  accountHint: "Sign in to keep your name and record across games.",
+  accountUsernamePlaceholder: "Username",
+  accountPasswordPlaceholder: "Password",
+  accountSignIn: "Sign in",
+  accountRegister: "Create account",
+  accountSignOut: "Sign out",
+  accountRequestFailed: "Could not reach the server. Try again.",
+
+  // Player profile card
+  profileLoading: "Loading stats…",
+  profileNoGames: "No finished games yet.",
+  profileLoadFailed: "Could not load stats.",
+  profileRating: "Rating",
+  profileGames: "Games",
+  profileAsWhite: "As White",
+  profileAsBlack: "As Black",
+  profileHitRate: "Proposals played",
+  profileCpLoss: "Avg. centipawn loss",
+  profileTooltip: (name: string) => `Show ${name}'s stats`,
 
   // Promotion dialog
   promotionTitle: "Promote to:",
@@ -33,15 +147,29 @@ export const UI = {
   btnClose: "Close",
   btnJoin: "Join",
   playedThisTurn: "Played this turn",
+  engineLine: (pv: string[]) => `Engine line: ${pv.join(" ")}`,
 
   // Icon-button labels & tooltips
   btnResignLabel: "Resign",
+  btnWithdrawMoveLabel: "Withdraw your proposal",
   btnOfferDrawLabel: "Offer Draw",
   btnResetLabel: "Reset",
   btnMuteLabel: "Mute",
   btnUnmuteLabel: "Unmute",
   btnCopyPgnLabel: "PGN",
   tooltipCopyPgn: "Copy PGN",
+  btnCopyAnnotatedPgnLabel: "PGN+",
+  tooltipCopyAnnotatedPgn: "Copy PGN annotated with every team's proposals",
+  tooltipDownloadPgn: "Download annotated PGN",
+  btnAnalyzeLabel: "Review",
+  tooltipAnalyze: "Have the engine review every move",
+  autopilotTags: {
+    proposals: "Autopilot",
+    engine: "Engine move",
+  },
+  tooltipAutopilot: "Played automatically when the team ran out of time",
+  tooltipTurnDeadline: (seconds: number) =>
+    `Proposals close in ${seconds}s; the move is chosen from those in by then`,
   tooltipAutoAssign: "Auto assign",
   drawOfferPending: "Draw offered",
 
@@ -50,9 +178,40 @@ export const UI = {
   voteTypeOfferDraw: "Offer Draw",
   voteTypeAcceptDraw: "Accept Draw",
   voteResetGame: "Vote: Reset Game",
+  voteLoadPosition: "Vote: Load Start Position",
   votingOnDraw: "Voting on draw...",
   voteInProgress: "Vote in progress.",
 
+  // Move history
+  btnFirstMoveLabel: "Start position (\u2191)",
+  btnPrevMoveLabel: "Previous move (\u2190)",
+  btnNextMoveLabel: "Next move (\u2192)",
+  btnLastMoveLabel: "Back to live (\u2193)",
+  historyLive: "Live",
+  historyViewing: (ply: number, lastPly: number) => `Move ${ply} of ${lastPly}`,
+  historyStartPosition: "Start position",
+
+  // Post-game review
+  analysisTitle: "Engine review",
+  analysisProgress: (done: number, total: number) =>
+    `Reviewing ${done}/${total}\u2026`,
+  analysisBestWas: (san: string) => `Best was ${san}`,
+  analysisFinalPosition: "Final position",
+  classificationLabels: {
+    best: "Best move",
+    good: "Good move",
+    inaccuracy: "Inaccuracy",
+    mistake: "Mistake",
+    blunder: "Blunder",
+  } as Record<MoveClassification, string>,
+  classificationSymbols: {
+    best: "",
+    good: "",
+    inaccuracy: "?!",
+    mistake: "?",
+    blunder: "??",
+  } as Record<MoveClassification, string>,
+
   // Kick vote
   kickVoteTargetSelf: "Vote to kick you",
   kickVoteTargetOther: "Vote to kick this player?",
@@ -64,6 +223,12 @@ export const UI = {
 
   // Chat
   chatPlaceholder: "Type a message...",
+  chatChannelLabels: {
+    global: "Everyone",
+    white: "White team",
+    black: "Black team",
+    spectator: "Spectators",
+  } as Record<ChatChannel, string>,
 
   // Confirmations
   confirmResign: "Are you sure you want to resign?",
@@ -77,7 +242,8 @@ export const UI = {
   toastPgnCopied: "PGN copied!",
   toastPgnCopyFailed: "Could not copy PGN.",
   toastIllegalMove: "Illegal move!",
-  toastOnlyWhiteStart: "Only White can make the first move.",
+  toastOnlySideToMoveStart: (side: "white" | "black") =>
+    `Only ${side === "white" ? "White" : "Black"} can make the first move.`,
   toastDrawOffer: (teamName: string) => `Draw offer from the ${teamName} team.`,
   toastKicked: "You have been kicked by vote.",
 } as const;
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildProposalArrows,
+  arrowWidth,
+  squareCenter,
+} from "./proposalArrows";
+import { colorForPlayer } from "./playerColors";
+import type { Proposal } from "./types";
+
+function proposal(id: string, lan: string): Proposal {
+  return { id, name: id, moveNumber: 1, side: "white", lan, san: lan };
+}
+
+describe("proposalArrows", () => {
+  describe("buildProposalArrows", () => {
+    it("merges teammates who proposed the same move", () => {
+      const arrows = buildProposalArrows([
+        proposal("p1", "e2e4"),
+        proposal("p2", "d2d4"),
+        proposal("p3", "e2e4"),
+      ]);
+      expect(arrows).toEqual([
+        { from: "d2", to: "d4", count: 1, color: colorForPlayer("p2") },
+        { from: "e2", to: "e4", count: 2, color: colorForPlayer("p1") },
+      ]);
+    });
+
+    it("treats promotions to different pieces as one arrow", () => {
+      const arrows = buildProposalArrows([
+        proposal("p1", "a7a8q"),
+        proposal("p2", "a7a8n"),
+      ]);
+      expect(arrows).toHaveLength(1);
+      expect(arrows[0].count).toBe(2);
+    });
+  });
+
+  describe("arrowWidth", () => {
+    it("grows with the number of proposers up to a cap", () => {
+      expect(arrowWidth(2)).toBeGreaterThan(arrowWidth(1));
+      expect(arrowWidth(50)).toBe(arrowWidth(100));
+    });
+  });
+
+  describe("squareCenter", () => {
+    it("follows the board orientation", () => {
+      expect(squareCenter("a1", "white")).toEqual({ x: 0.5, y: 7.5 });
+      expect(squareCenter("a1", "black")).toEqual({ x: 7.5, y: 0.5 });
+      expect(squareCenter("e4", "white")).toEqual({ x: 4.5, y: 4.5 });
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import type { Proposal } from "./types";
+import { colorForPlayer } from "./playerColors";
+
+/** One arrow on the board, shared by everyone who proposed the same move. */
+export interface ProposalArrow {
+  from: string;
+  to: string;
+  /** How many teammates proposed it */
+  count: number;
+  /** Colour of the first proposer */
+  color: string;
+}
+
+/** Shaft width in squares for a single proposal, and the most it grows to. */
+const BASE_ARROW_WIDTH = 0.12;
+const MAX_ARROW_WIDTH = 0.36;
+
+/**
+ * Groups a turn's proposals into arrows. Promotions to different pieces
+ * share an arrow since they cover the same squares.
+ */
+export function buildProposalArrows(proposals: Proposal[]): ProposalArrow[] {
+  const arrows = new Map<string, ProposalArrow>();
+  for (const p of proposals) {
+    const from = p.lan.slice(0, 2);
+    const to = p.lan.slice(2, 4);
+    const existing = arrows.get(from + to);
+    if (existing) existing.count++;
+    else
+      arrows.set(from + to, {
+        from,
+        to,
+        count: 1,
+        color: colorForPlayer(p.id),
+      });
+  }
+  // Most popular last, so it is drawn on top
+  return [...arrows.values()].sort((a, b) => a.count - b.count);
+}
+
+/** Shaft width in squares; every extra proposer thickens the arrow. */
+export function arrowWidth(count: number): number {
+  return Math.min(BASE_ARROW_WIDTH * (1 + (count - 1) * 0.5), MAX_ARROW_WIDTH);
+}
+
+/**
+ * Centre of a square on a board eight units wide, with (0, 0) the top left
+ * corner as seen from `orientation`.
+ */
+export function squareCenter(
+  square: string,
+  orientation: "white" | "black"
+): { x: number; y: number } {
+  const file = square.charCodeAt(0) - "a".charCodeAt(0);
+  const rank = Number(square[1]) - 1;
+  return orientation === "white"
+    ? { x: file + 0.5, y: 7 - rank + 0.5 }
+    : { x: 7 - file + 0.5, y: rank + 0.5 };
+}
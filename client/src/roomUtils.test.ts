@@ -0,0 +1,62 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseRoomIdFromPath,
+  roomPath,
+  roomUrl,
+  parseRoomInput,
+  formatRoomStatus,
+} from "./roomUtils.js";
+import { GameStatus } from "../../server/shared_types.js";
+
+describe("roomUtils", () => {
+  describe("parseRoomIdFromPath", () => {
+    it("extracts the id from /room/:id", () => {
+      expect(parseRoomIdFromPath("/room/abc123")).toBe("abc123");
+      expect(parseRoomIdFromPath("/room/abc123/")).toBe("abc123");
+    });
+
+    it("returns null for the lobby and unrelated paths", () => {
+      expect(parseRoomIdFromPath("/")).toBeNull();
+      expect(parseRoomIdFromPath("/room/")).toBeNull();
+      expect(parseRoomIdFromPath("/rooms/abc")).toBeNull();
+      expect(parseRoomIdFromPath("/room/a%20b")).toBeNull();
+    });
+  });
+
+  describe("roomPath / roomUrl", () => {
+    it("builds shareable paths and URLs", () => {
+      expect(roomPath("abc")).toBe("/room/abc");
+      expect(roomUrl("abc", "http://host:3001")).toBe(
+        "http://host:3001/room/abc"
+      );
+    });
+  });
+
+  describe("parseRoomInput", () => {
+    it("accepts a bare id", () => {
+      expect(parseRoomInput("  abc123 ")).toBe("abc123");
+    });
+
+    it("accepts a path or full URL", () => {
+      expect(parseRoomInput("/room/abc123")).toBe("abc123");
+      expect(parseRoomInput("http://example.com/room/abc123")).toBe("abc123");
+    });
+
+    it("rejects anything else", () => {
+      expect(parseRoomInput("")).toBeNull();
+      expect(parseRoomInput("http://example.com/")).toBeNull();
+      expect(parseRoomInput("not a room")).toBeNull();
+    });
+  });
+
+  describe("formatRoomStatus", () => {
+    it("groups in-game statuses together", () => {
+      expect(formatRoomStatus(GameStatus.Setup)).toBe("Waiting to start");
+      expect(formatRoomStatus(GameStatus.AwaitingProposals)).toBe(
+        "In progress"
+      );
+      expect(formatRoomStatus(GameStatus.FinalizingTurn)).toBe("In progress");
+      expect(formatRoomStatus(GameStatus.Over)).toBe("Finished");
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { GameStatus } from "./types";
+import { UI } from "./messages";
+
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+const ROOM_PATH_PATTERN = /^\/room\/([^/]+)\/?$/;
+
+/** Extracts the room id from a `/room/:id` path, or null for any other path. */
+export function parseRoomIdFromPath(pathname: string): string | null {
+  const match = ROOM_PATH_PATTERN.exec(pathname);
+  if (!match) return null;
+  return ROOM_ID_PATTERN.test(match[1]) ? match[1] : null;
+}
+
+export function roomPath(roomId: string): string {
+  return `/room/${roomId}`;
+}
+
+export function roomUrl(roomId: string, origin: string): string {
+  return origin + roomPath(roomId);
+}
+
+/**
+ * Accepts what a user pastes in the "join room" box: a bare room id,
+ * a `/room/:id` path or a full shareable URL.
+ */
+export function parseRoomInput(input: string): string | null {
+  const trimmed = input.trim();
+  if (ROOM_ID_PATTERN.test(trimmed)) return trimmed;
+  try {
+    return parseRoomIdFromPath(new URL(trimmed, "http://x").pathname);
+  } catch {
+    return null;
+  }
+}
+
+export function formatRoomStatus(status: GameStatus): string {
+  switch (status) {
+    case GameStatus.Setup:
+      return UI.roomStatusSetup;
+    case GameStatus.Over:
+      return UI.roomStatusOver;
+    default:
+      return UI.roomStatusPlaying;
+  }
+}
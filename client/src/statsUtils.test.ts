@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatSideRecord,
+  formatHitRate,
+  formatCpLoss,
+  formatLeaderboardValue,
+} from "./statsUtils.js";
+import type { LeaderboardEntry } from "./types";
+
+describe("statsUtils", () => {
+  it("formats a team record", () => {
+    expect(formatSideRecord({ games: 6, wins: 3, losses: 1, draws: 2 })).toBe(
+      "3W 1L 2D"
+    );
+  });
+
+  it("formats rates, with a dash when there is no data", () => {
+    expect(formatHitRate(0.456)).toBe("46%");
+    expect(formatHitRate(null)).toBe("–");
+    expect(formatCpLoss(35)).toBe("35 cp");
+    expect(formatCpLoss(null)).toBe("–");
+  });
+
+  it("formats the value a leaderboard is ranked by", () => {
+    const entry: LeaderboardEntry = {
+      id: "p1",
+      name: "Alice",
+      rank: 1,
+      rating: 1532,
+      games: 5,
+      white: { games: 3, wins: 2, losses: 1, draws: 0 },
+      black: { games: 2, wins: 1, losses: 0, draws: 1 },
+      proposals: 40,
+      selected: 18,
+      hitRate: 0.45,
+      averageCpLoss: 30,
+      lastPlayedAt: 0,
+    };
+    expect(formatLeaderboardValue(entry, "rating")).toBe("1532");
+    expect(formatLeaderboardValue(entry, "hitRate")).toBe("45%");
+    expect(formatLeaderboardValue(entry, "wins")).toBe("3");
+    expect(formatLeaderboardValue(entry, "selected")).toBe("18");
+  });
+});
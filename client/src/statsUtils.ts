@@ -0,0 +1,33 @@
+import type { LeaderboardEntry, LeaderboardSort, SideRecord } from "./types";
+
+/** Wins, losses and draws, e.g. "3W 1L 2D" */
+export function formatSideRecord(record: SideRecord): string {
+  return `${record.wins}W ${record.losses}L ${record.draws}D`;
+}
+
+/** Share of proposals played, as a whole percentage */
+export function formatHitRate(hitRate: number | null): string {
+  return hitRate === null ? "–" : `${Math.round(hitRate * 100)}%`;
+}
+
+/** Average centipawn loss, e.g. "35 cp" */
+export function formatCpLoss(averageCpLoss: number | null): string {
+  return averageCpLoss === null ? "–" : `${averageCpLoss} cp`;
+}
+
+/** The value a leaderboard entry is ranked by, ready to display */
+export function formatLeaderboardValue(
+  entry: LeaderboardEntry,
+  sort: LeaderboardSort
+): string {
+  switch (sort) {
+    case "rating":
+      return String(entry.rating);
+    case "hitRate":
+      return formatHitRate(entry.hitRate);
+    case "wins":
+      return String(entry.white.wins + entry.black.wins);
+    case "selected":
+      return String(entry.selected);
+  }
+}
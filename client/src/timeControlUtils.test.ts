@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  isSameTimeControl,
+  findTimeControlPreset,
+  parseTimeControlForm,
+} from "./timeControlUtils.js";
+import { TIME_CONTROL_PRESETS } from "./constants.js";
+
+const DEFAULT_TIME_CONTROL = {
+  baseTime: 600,
+  increment: 10,
+  incrementThreshold: 60,
+  delay: 0,
+  moveTime: 0,
+};
+
+describe("timeControlUtils", () => {
+  describe("isSameTimeControl", () => {
+    it("compares every field", () => {
+      expect(
+        isSameTimeControl(DEFAULT_TIME_CONTROL, DEFAULT_TIME_CONTROL)
+      ).toBe(true);
+      expect(
+        isSameTimeControl(DEFAULT_TIME_CONTROL, {
+          ...DEFAULT_TIME_CONTROL,
+          delay: 1,
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe("findTimeControlPreset", () => {
+    it("finds the default time control as the first preset", () => {
+      expect(
+        findTimeControlPreset(DEFAULT_TIME_CONTROL, TIME_CONTROL_PRESETS)
+      ).toBe(0);
+    });
+
+    it("returns -1 for a custom time control", () => {
+      expect(
+        findTimeControlPreset(
+          { ...DEFAULT_TIME_CONTROL, baseTime: 1234 },
+          TIME_CONTROL_PRESETS
+        )
+      ).toBe(-1);
+    });
+  });
+
+  describe("parseTimeControlForm", () => {
+    it("converts minutes to seconds for the base time", () => {
+      expect(
+        parseTimeControlForm({
+          baseMinutes: "2.5",
+          increment: "3",
+          incrementThreshold: "",
+          delay: "0",
+          moveTime: "",
+        })
+      ).toEqual({
+        baseTime: 150,
+        increment: 3,
+        incrementThreshold: 0,
+        delay: 0,
+        moveTime: 0,
+      });
+    });
+
+    it("treats non-numeric input as 0", () => {
+      expect(
+        parseTimeControlForm({
+          baseMinutes: "abc",
+          increment: "x",
+          incrementThreshold: "",
+          delay: "",
+          moveTime: "",
+        }).baseTime
+      ).toBe(0);
+    });
+  });
+});
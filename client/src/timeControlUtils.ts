@@ -0,0 +1,43 @@
+import type { TimeControl } from "./types";
+
+const TIME_CONTROL_FIELDS: (keyof TimeControl)[] = [
+  "baseTime",
+  "increment",
+  "incrementThreshold",
+  "delay",
+  "moveTime",
+];
+
+export function isSameTimeControl(a: TimeControl, b: TimeControl): boolean {
+  return TIME_CONTROL_FIELDS.every((field) => a[field] === b[field]);
+}
+
+/** Index of the preset equal to the given time control, or -1 if custom. */
+export function findTimeControlPreset(
+  timeControl: TimeControl,
+  presets: TimeControl[]
+): number {
+  return presets.findIndex((preset) => isSameTimeControl(preset, timeControl));
+}
+
+/**
+ * Builds a time control from the custom form fields.
+ * The base time is entered in minutes, everything else in seconds.
+ * Empty or non-numeric fields count as 0; the server does the validation.
+ */
+export function parseTimeControlForm(form: {
+  baseMinutes: string;
+  increment: string;
+  incrementThreshold: string;
+  delay: string;
+  moveTime: string;
+}): TimeControl {
+  const toNumber = (value: string) => Number(value) || 0;
+  return {
+    baseTime: Math.round(toNumber(form.baseMinutes) * 60),
+    increment: toNumber(form.increment),
+    incrementThreshold: toNumber(form.incrementThreshold),
+    delay: toNumber(form.delay),
+    moveTime: toNumber(form.moveTime),
+  };
+}
@@ -11,13 +11,34 @@ export type {
   Player,
   Players,
   ChatMessage,
+  ChatChannel,
   GameInfo,
   Proposal,
+  MoveEval,
   Selection,
   VoteType,
   TeamVoteState,
   KickVoteState,
   ResetVoteState,
+  RoomSummary,
+  GameRecord,
+  GameSummary,
+  TimeControl,
+  TurnDeadline,
+  SpectatorDelay,
+  MoveStrategy,
+  AutopilotMode,
+  EngineSettings,
+  MoveClassification,
+  MoveAnalysis,
+  GameAnalysis,
+  Account,
+  AuthResponse,
+  SideRecord,
+  PlayerStats,
+  LeaderboardSort,
+  LeaderboardRange,
+  LeaderboardEntry,
 } from "../../server/shared_types";
 
 export { GameStatus, EndReason } from "../../server/shared_types";
@@ -2,13 +2,14 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
-  base: "./",
+  base: "/",
   plugins: [react()],
   build: {
     emptyOutDir: true,
   },
   server: {
     proxy: {
+      "/api": "http://localhost:3001",
       "/socket.io": {
         target: "http://localhost:3001",
         ws: true,
@@ -4,6 +4,7 @@ import * as path from "path";
 import { execSync } from "child_process";
 import {
   VIDEO_DIR,
+  ROOM_PATH,
   workerPort,
   workerProject,
   trackedPages,
@@ -179,7 +180,7 @@ test.describe("Game and Social", () => {
     );
 
     // Player 3 tries to reconnect by navigating to the website
-    await player3.goto("/");
+    await player3.goto(ROOM_PATH);
     await player3.waitForSelector(".app-container");
     await player3.waitForTimeout(1000);
 
@@ -195,9 +196,9 @@ test.describe("Game and Social", () => {
     const player2 = await createPlayer(browser, baseURL);
     const spectator = await createPlayer(browser, baseURL);
 
-    await player1.goto("/");
-    await player2.goto("/");
-    await spectator.goto("/");
+    await player1.goto(ROOM_PATH);
+    await player2.goto(ROOM_PATH);
+    await spectator.goto(ROOM_PATH);
 
     await player1.waitForSelector(".app-container");
     await player2.waitForSelector(".app-container");
@@ -428,7 +429,7 @@ test.describe("Gameplay Mechanics", () => {
     ).not.toBeVisible();
   });
 
-  test("multiple_move_rejection", async ({ browser }, testInfo) => {
+  test("replace_and_withdraw_proposal", async ({ browser }, testInfo) => {
     const [player1, player2, player3] = await setupPlayers(
       browser,
       testInfo,
@@ -445,16 +446,39 @@ test.describe("Gameplay Mechanics", () => {
     await makeMove(player1, "e2", "e4");
     await player1.waitForTimeout(1000);
 
-    // Player 2 proposes e7-e5 (valid first move)
+    const withdrawButton = player2.getByRole("button", {
+      name: "Withdraw your proposal",
+    });
+    const teammateArrows = player3.locator(".proposal-arrows g");
+
+    // Player 2 proposes e7-e5; Player 3 sees it as an arrow
     await makeMove(player2, "e7", "e5");
-    await player2.waitForTimeout(500);
+    await expect(withdrawButton).toBeVisible();
+    await expect(teammateArrows).toHaveCount(1);
 
-    // Player 2 tries to submit a second move d7-d5 — server should reject
+    // Player 2 proposes d7-d5 instead — it replaces the first proposal
     await makeMove(player2, "d7", "d5");
     await player2.waitForTimeout(500);
+    await expect(withdrawButton).toBeVisible();
+    await expect(teammateArrows).toHaveCount(1);
+
+    // Player 2 withdraws — the proposal is gone for the whole team
+    await withdrawButton.click();
+    await expect(withdrawButton).not.toBeVisible();
+    await expect(teammateArrows).toHaveCount(0);
+
+    // Both propose d7-d5, so it is played
+    await makeMove(player2, "d7", "d5");
+    await makeMove(player3, "d7", "d5");
+    await player1.waitForTimeout(1000);
 
-    // Assert: Toast shows "Already moved." error
-    await expect(player2.getByText("Already moved")).toBeVisible();
+    // Assert: d5 was played and e7 never moved
+    await expect(
+      player1.locator('[data-square="d5"] [data-piece="bP"]')
+    ).toBeVisible();
+    await expect(
+      player1.locator('[data-square="e7"] [data-piece="bP"]')
+    ).toBeVisible();
   });
 });
 
@@ -524,8 +548,8 @@ test.describe("Game End Conditions", () => {
       .context()
       .grantPermissions(["clipboard-read", "clipboard-write"]);
 
-    await player1.goto("/");
-    await player2.goto("/");
+    await player1.goto(ROOM_PATH);
+    await player2.goto(ROOM_PATH);
 
     await player1.waitForSelector(".app-container");
     await player2.waitForSelector(".app-container");
@@ -564,13 +588,17 @@ test.describe("Game End Conditions", () => {
     // Read clipboard
     const pgn = await player1.evaluate(() => navigator.clipboard.readText());
 
-    // Paste PGN into chat and assert round-trip
+    // The PGN carries headers and ends with the result
+    expect(pgn).toContain('[Result "0-1"]');
+    expect(pgn.trim().endsWith("1. f3 e5 2. g4 Qh4# 0-1")).toBe(true);
+
+    // Paste PGN into chat and assert round-trip (the input drops line breaks)
     const chatInput = player1.locator('.chat-panel input[type="text"]');
     await chatInput.fill(pgn);
     await chatInput.press("Enter");
 
     await expect(player1.locator(".chat-messages")).toContainText(
-      "1. f3 e5 2. g4 Qh4# *"
+      "1. f3 e5 2. g4 Qh4# 0-1"
     );
   });
 
@@ -606,8 +634,8 @@ test.describe("Game End Conditions", () => {
     const player1 = await createPlayer(browser, baseURL);
     const player2 = await createPlayer(browser, baseURL);
 
-    await player1.goto("/");
-    await player2.goto("/");
+    await player1.goto(ROOM_PATH);
+    await player2.goto(ROOM_PATH);
 
     await player1.waitForSelector(".app-container");
     await player2.waitForSelector(".app-container");
@@ -650,8 +678,8 @@ test.describe("Game End Conditions", () => {
     trackedPages.push(player2);
     trackedContexts.push(context2);
 
-    await player1.goto("/");
-    await player2.goto("/");
+    await player1.goto(ROOM_PATH);
+    await player2.goto(ROOM_PATH);
 
     await player1.waitForSelector(".app-container");
     await player2.waitForSelector(".app-container");
@@ -675,7 +703,7 @@ test.describe("Game End Conditions", () => {
     // Player 2 reconnects — open new page in same context (preserves localStorage/PID)
     const player2Reconnected = await context2.newPage();
     trackedPages.push(player2Reconnected);
-    await player2Reconnected.goto("/");
+    await player2Reconnected.goto(ROOM_PATH);
     await player2Reconnected.waitForSelector(".app-container");
     await player2Reconnected.waitForTimeout(2000);
 
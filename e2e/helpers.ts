@@ -2,6 +2,8 @@ import type { Browser, BrowserContext, Page, TestInfo } from "@playwright/test";
 
 export const BASE_PORT = 8080;
 export const VIDEO_DIR = "test-results/videos";
+/** The server's default room; every test plays there. */
+export const ROOM_PATH = "/room/main";
 
 export function workerPort(workerIndex: number): number {
   return BASE_PORT + workerIndex;
@@ -47,7 +49,7 @@ export async function setupPlayers(
   for (let i = 0; i < n; i++) {
     pages.push(await createPlayer(browser, url));
   }
-  for (const p of pages) await p.goto("/");
+  for (const p of pages) await p.goto(ROOM_PATH);
   for (const p of pages) await p.waitForSelector(".app-container");
   return pages;
 }
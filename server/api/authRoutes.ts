@@ -0,0 +1,41 @@
+import { Router } from "express";
+import type { AccountService } from "../players/accounts.js";
+import { createRateLimiter } from "./rateLimit.js";
+import {
+  AUTH_RATE_LIMIT_MAX,
+  AUTH_RATE_LIMIT_WINDOW_MS,
+} from "../constants.js";
+
+/**
+ * REST routes for accounts. POST /register and POST /login take
+ * { username, password } and answer with a session token. Each IP gets a
+ * limited number of attempts, which also caps the password hashing it can
+ * cause.
+ */
+export function createAuthRouter(accounts: AccountService): Router {
+  const router = Router();
+  router.use(createRateLimiter(AUTH_RATE_LIMIT_MAX, AUTH_RATE_LIMIT_WINDOW_MS));
+
+  router.post("/register", async (req, res) => {
+    const result = await accounts.register(
+      req.body?.username,
+      req.body?.password
+    );
+    if ("error" in result) {
+      res.status(400).json(result);
+      return;
+    }
+    res.status(201).json(result);
+  });
+
+  router.post("/login", async (req, res) => {
+    const result = await accounts.login(req.body?.username, req.body?.password);
+    if ("error" in result) {
+      res.status(401).json(result);
+      return;
+    }
+    res.json(result);
+  });
+
+  return router;
+}
@@ -0,0 +1,15 @@
+import { Router } from "express";
+import type { EnginePool } from "../engine/enginePool.js";
+
+/**
+ * REST routes for monitoring the shared engine pool.
+ */
+export function createEngineRouter(pool: EnginePool): Router {
+  const router = Router();
+
+  router.get("/metrics", (_req, res) => {
+    res.json(pool.getMetrics());
+  });
+
+  return router;
+}
@@ -0,0 +1,42 @@
+import { Router } from "express";
+import type { IGameArchive } from "../interfaces/IGameArchive.js";
+import { MSG } from "../shared_messages.js";
+import { GAMES_PAGE_SIZE, MAX_GAMES_PAGE_SIZE } from "../constants.js";
+
+/**
+ * Reads a non-negative integer query parameter, clamped to max.
+ */
+function parseCount(value: unknown, fallback: number, max: number): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) return fallback;
+  return Math.min(n, max);
+}
+
+/**
+ * REST routes for the finished-game archive.
+ * GET / lists games newest first (?limit=&offset=), GET /:id returns one game.
+ */
+export function createGameRouter(archive: IGameArchive): Router {
+  const router = Router();
+
+  router.get("/", (req, res) => {
+    const limit = parseCount(
+      req.query.limit,
+      GAMES_PAGE_SIZE,
+      MAX_GAMES_PAGE_SIZE
+    );
+    const offset = parseCount(req.query.offset, 0, Number.MAX_SAFE_INTEGER);
+    res.json(archive.list(limit, offset));
+  });
+
+  router.get("/:id", (req, res) => {
+    const game = archive.get(req.params.id);
+    if (!game) {
+      res.status(404).json({ error: MSG.errorGameNotFound });
+      return;
+    }
+    res.json(game);
+  });
+
+  return router;
+}
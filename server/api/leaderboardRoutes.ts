@@ -0,0 +1,28 @@
+import { Router } from "express";
+import type { IGameArchive } from "../interfaces/IGameArchive.js";
+import {
+  getRangeStart,
+  isLeaderboardRange,
+  isLeaderboardSort,
+  rankPlayers,
+} from "../core/leaderboardLogic.js";
+import { LEADERBOARD_SIZE } from "../constants.js";
+
+/**
+ * REST route for the leaderboard, computed from the archive on request so
+ * it includes every game archived so far.
+ * GET / ranks players (?sort=rating|hitRate|wins|selected
+ * &range=day|week|month|all).
+ */
+export function createLeaderboardRouter(archive: IGameArchive): Router {
+  const router = Router();
+
+  router.get("/", (req, res) => {
+    const sort = isLeaderboardSort(req.query.sort) ? req.query.sort : "rating";
+    const range = isLeaderboardRange(req.query.range) ? req.query.range : "all";
+    const players = archive.listPlayerStats(getRangeStart(range, Date.now()));
+    res.json(rankPlayers(players, sort, LEADERBOARD_SIZE));
+  });
+
+  return router;
+}
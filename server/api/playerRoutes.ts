@@ -0,0 +1,22 @@
+import { Router } from "express";
+import type { IGameArchive } from "../interfaces/IGameArchive.js";
+import { MSG } from "../shared_messages.js";
+
+/**
+ * REST routes for player records.
+ * GET /:pid/stats returns a player's stats over every archived game.
+ */
+export function createPlayerRouter(archive: IGameArchive): Router {
+  const router = Router();
+
+  router.get("/:pid/stats", (req, res) => {
+    const stats = archive.getPlayerStats(req.params.pid);
+    if (!stats) {
+      res.status(404).json({ error: MSG.errorPlayerNotFound });
+      return;
+    }
+    res.json(stats);
+  });
+
+  return router;
+}
@@ -0,0 +1,46 @@
+import type { RequestHandler } from "express";
+import {
+  takeRateLimitSlot,
+  type RateLimitWindow,
+} from "../core/rateLimitLogic.js";
+import { MSG } from "../shared_messages.js";
+
+/**
+ * Express middleware that lets each IP make at most `max` requests per
+ * `windowMs`, answering 429 beyond that. Windows are kept in memory and
+ * swept once they have run out.
+ */
+export function createRateLimiter(
+  max: number,
+  windowMs: number,
+  now: () => number = () => Date.now()
+): RequestHandler {
+  const windows = new Map<string, RateLimitWindow>();
+  let lastSweep = now();
+
+  return (req, res, next) => {
+    const time = now();
+    if (time - lastSweep >= windowMs) {
+      for (const [ip, window] of windows) {
+        if (time - window.start >= windowMs) windows.delete(ip);
+      }
+      lastSweep = time;
+    }
+
+    const ip = req.ip ?? "unknown";
+    const { window, allowed } = takeRateLimitSlot(
+      windows.get(ip),
+      time,
+      max,
+      windowMs
+    );
+    windows.set(ip, window);
+    if (!allowed) {
+      const retryAfter = Math.ceil((window.start + windowMs - time) / 1000);
+      res.set("Retry-After", String(retryAfter));
+      res.status(429).json({ error: MSG.errorTooManyRequests });
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,26 @@
+import { Router } from "express";
+import type { RoomManager } from "../rooms/roomManager.js";
+import { MSG } from "../shared_messages.js";
+import { MAX_ROOMS } from "../constants.js";
+
+/**
+ * REST routes backing the lobby: list open rooms and create new ones.
+ */
+export function createRoomRouter(rooms: RoomManager): Router {
+  const router = Router();
+
+  router.get("/", (_req, res) => {
+    res.json(rooms.listRooms());
+  });
+
+  router.post("/", (req, res) => {
+    if (rooms.listRooms().length >= MAX_ROOMS) {
+      res.status(503).json({ error: MSG.errorTooManyRooms });
+      return;
+    }
+    const room = rooms.createRoom(req.body?.name);
+    res.status(201).json({ id: room.id, name: room.name });
+  });
+
+  return router;
+}
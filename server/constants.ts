@@ -1,4 +1,14 @@
 import path from "path";
+import type {
+  TimeControl,
+  TurnDeadline,
+  SpectatorDelay,
+  MoveStrategy,
+  AutopilotMode,
+  EngineSettings,
+  LeaderboardSort,
+  LeaderboardRange,
+} from "./shared_types.js";
 
 export const DISCONNECT_GRACE_MS = 20000;
 export const STOCKFISH_SEARCH_DEPTH = 15;
@@ -6,10 +16,228 @@ export const TEAM_VOTE_DURATION_MS = 20000;
 export const KICK_VOTE_DURATION_MS = 20000;
 export const RESET_VOTE_DURATION_MS = 20000;
 export const DEFAULT_CLOCK_TIME = 600;
+/** Room every client lands in when it does not ask for a specific one */
+export const DEFAULT_ROOM_ID = "main";
+export const DEFAULT_ROOM_NAME = "Main table";
+export const ROOM_ID_LENGTH = 8;
+export const MAX_ROOM_NAME_LENGTH = 30;
+/** Upper bound on simultaneous rooms, which share the engine pool */
+export const MAX_ROOMS = 20;
+/** Minimum age (ms) before an empty room is discarded */
+export const ROOM_IDLE_TIMEOUT_MS = 60000;
 /** Time threshold (seconds) at or below which increment is awarded */
 export const INCREMENT_THRESHOLD = 60;
 /** Seconds added per move when time is at or below INCREMENT_THRESHOLD */
 export const TIME_INCREMENT = 10;
+export const DEFAULT_TIME_CONTROL: TimeControl = {
+  baseTime: DEFAULT_CLOCK_TIME,
+  increment: TIME_INCREMENT,
+  incrementThreshold: INCREMENT_THRESHOLD,
+  delay: 0,
+  moveTime: 0,
+};
+/** Accepted [min, max] range (seconds) for each time control field */
+export const TIME_CONTROL_LIMITS: Record<keyof TimeControl, [number, number]> =
+  {
+    baseTime: [30, 10800],
+    increment: [0, 180],
+    incrementThreshold: [0, 10800],
+    delay: [0, 180],
+    moveTime: [0, 600],
+  };
+export const DEFAULT_TURN_DEADLINE: TurnDeadline = {
+  afterFirstProposal: 0,
+  perTurn: 0,
+};
+/** Accepted [min, max] range (seconds) for each turn deadline field */
+export const TURN_DEADLINE_LIMITS: Record<
+  keyof TurnDeadline,
+  [number, number]
+> = {
+  afterFirstProposal: [0, 600],
+  perTurn: [0, 600],
+};
+export const DEFAULT_SPECTATOR_DELAY: SpectatorDelay = {
+  moves: 0,
+  seconds: 10,
+};
+/** Accepted [min, max] range for each spectator delay field */
+export const SPECTATOR_DELAY_LIMITS: Record<
+  keyof SpectatorDelay,
+  [number, number]
+> = {
+  moves: [0, 10],
+  seconds: [0, 300],
+};
+/**
+ * Broadcasts spectators get at once: who is in the room and its settings,
+ * which say nothing about the game in progress.
+ */
+export const SPECTATOR_LIVE_EVENTS = new Set([
+  "players",
+  "time_control_update",
+  "turn_deadline_update",
+  "spectator_delay_update",
+  "move_strategy_update",
+  "autopilot_update",
+  "engine_settings_update",
+]);
+/** Longest FEN or PGN accepted as a custom start position */
+export const MAX_POSITION_INPUT_LENGTH = 20000;
+export const MOVE_STRATEGIES: readonly MoveStrategy[] = [
+  "engine_best",
+  "plurality",
+  "weighted_random",
+  "chaos",
+  "captain",
+];
+export const DEFAULT_MOVE_STRATEGY: MoveStrategy = "engine_best";
+export const AUTOPILOT_MODES: readonly AutopilotMode[] = [
+  "off",
+  "proposals",
+  "engine",
+];
+export const DEFAULT_AUTOPILOT: AutopilotMode = "off";
+/** Clock a team gets back after autopilot played its move (seconds) */
+export const AUTOPILOT_GRACE_TIME = 30;
+/** Taken off that grace time when the engine had to move for the team */
+export const AUTOPILOT_ENGINE_PENALTY = 20;
+export const DEFAULT_ENGINE_SETTINGS: EngineSettings = {
+  depth: STOCKFISH_SEARCH_DEPTH,
+  moveTimeMs: 0,
+  nodes: 0,
+  skillLevel: 20,
+  limitStrength: false,
+  elo: 2000,
+  threads: 1,
+  hash: 16,
+};
+/** Accepted [min, max] range for each numeric engine setting */
+export const ENGINE_SETTINGS_LIMITS: Record<
+  Exclude<keyof EngineSettings, "limitStrength">,
+  [number, number]
+> = {
+  depth: [1, 30],
+  moveTimeMs: [0, 15000],
+  nodes: [0, 100000000],
+  skillLevel: [0, 20],
+  elo: [1320, 3190],
+  threads: [1, 4],
+  hash: [1, 256],
+};
+/**
+ * UCI options every pooled process is reset to before a request, unless
+ * the game asked for other values.
+ */
+export const ENGINE_OPTION_DEFAULTS: Record<string, string> = {
+  MultiPV: "1",
+  Threads: "1",
+  Hash: "16",
+  "Skill Level": "20",
+  UCI_LimitStrength: "false",
+};
+/** Search depth of the autopilot's engine move; shallow on purpose */
+export const AUTOPILOT_SEARCH_DEPTH = 2;
+/** Centipawn value used for forced mates (minus the distance to mate) */
+export const MATE_SCORE_CP = 100000;
+/** Plies of the engine's principal variation sent to clients per candidate */
+export const EVAL_PV_PLIES = 8;
+/** Search depth per position in post-game analysis */
+export const ANALYSIS_SEARCH_DEPTH = 12;
+/** Evaluations are capped to this many centipawns when judging moves */
+export const ANALYSIS_EVAL_CAP_CP = 1000;
+/** Minimum centipawn loss for each post-game move classification */
+export const MOVE_CLASSIFICATION_THRESHOLDS_CP = {
+  inaccuracy: 50,
+  mistake: 100,
+  blunder: 300,
+};
+/** Softmax temperature (centipawns) for the weighted random strategy */
+export const WEIGHTED_RANDOM_TEMPERATURE_CP = 100;
+/** Where the server keeps files that must outlive a restart */
+export const DATA_DIR =
+  process.env.DATA_DIR || path.join(process.cwd(), "data");
+/** Finished games, one JSON record per line */
+export const GAME_ARCHIVE_PATH = path.join(DATA_DIR, "games.jsonl");
+/** Registered accounts, one JSON record per line */
+export const USERS_PATH = path.join(DATA_DIR, "users.jsonl");
+/**
+ * Key that signs session tokens. Without AUTH_SECRET one is generated and
+ * kept in AUTH_SECRET_PATH, so sessions survive a restart.
+ */
+export const AUTH_SECRET = process.env.AUTH_SECRET;
+export const AUTH_SECRET_PATH = path.join(DATA_DIR, "auth_secret");
+/** How long a session token stays valid after signing in */
+export const SESSION_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+export const USERNAME_PATTERN = /^[A-Za-z0-9_-]{3,20}$/;
+export const MIN_PASSWORD_LENGTH = 8;
+export const MAX_PASSWORD_LENGTH = 128;
+/** Register and login attempts each IP may make per window */
+export const AUTH_RATE_LIMIT_MAX = 10;
+export const AUTH_RATE_LIMIT_WINDOW_MS = 60000;
+/** Rooms, sessions and games in progress, rewritten periodically */
+export const SNAPSHOT_PATH = path.join(DATA_DIR, "snapshot.json");
+export const SNAPSHOT_INTERVAL_MS = 5000;
+export const SNAPSHOT_VERSION = 4;
+/** How long players restored from a snapshot have to reconnect */
+export const RESTORE_GRACE_MS = 60000;
+export const GAMES_PAGE_SIZE = 50;
+export const MAX_GAMES_PAGE_SIZE = 200;
+/** Rating every player starts from */
+export const INITIAL_RATING = 1500;
+/** Most rating points a player can win or lose in one game */
+export const RATING_K_FACTOR = 32;
+export const LEADERBOARD_SORTS: readonly LeaderboardSort[] = [
+  "rating",
+  "hitRate",
+  "wins",
+  "selected",
+];
+export const LEADERBOARD_RANGES: readonly LeaderboardRange[] = [
+  "day",
+  "week",
+  "month",
+  "all",
+];
+/** Players listed on the leaderboard */
+export const LEADERBOARD_SIZE = 50;
+/** Proposals a player needs before being ranked by hit rate */
+export const LEADERBOARD_MIN_PROPOSALS = 10;
+/** Length of each leaderboard time range */
+export const LEADERBOARD_RANGE_MS = {
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+} as const;
+
+const DEFAULT_ENGINE_POOL_SIZE = 2;
+const requestedPoolSize = Number(
+  process.env.ENGINE_POOL_SIZE ?? DEFAULT_ENGINE_POOL_SIZE
+);
+/**
+ * Engine processes shared by every room. Anything but a positive whole
+ * number would start none, so it falls back to the default.
+ */
+export const ENGINE_POOL_SIZE =
+  Number.isInteger(requestedPoolSize) && requestedPoolSize > 0
+    ? requestedPoolSize
+    : DEFAULT_ENGINE_POOL_SIZE;
+if (ENGINE_POOL_SIZE !== requestedPoolSize) {
+  console.warn(
+    `ENGINE_POOL_SIZE must be a positive whole number, not ` +
+      `"${process.env.ENGINE_POOL_SIZE}"; using ${DEFAULT_ENGINE_POOL_SIZE}`
+  );
+}
+/** How long an engine request may wait for a free process */
+export const ENGINE_QUEUE_TIMEOUT_MS = 30000;
+/** Longest search before the engine is told to stop */
+export const ENGINE_SEARCH_TIMEOUT_MS = 20000;
+/** How long a stopped engine has to answer before it is restarted */
+export const ENGINE_STOP_GRACE_MS = 2000;
+/** Pause before replacing a crashed engine process */
+export const ENGINE_RESTART_DELAY_MS = 1000;
+/** How long a new engine process has to answer "uci" and "isready" */
+export const ENGINE_HANDSHAKE_TIMEOUT_MS = 10000;
 
 export const stockfishPath = path.join(
   process.cwd(),
@@ -18,3 +246,14 @@ export const stockfishPath = path.join(
   "bin",
   "stockfish-18.js"
 );
+/**
+ * UCI engine the server runs: the bundled stockfish.js unless ENGINE_PATH
+ * names another binary (native Stockfish, Lc0, ...). ENGINE_ARGS holds its
+ * command-line arguments, separated by spaces.
+ */
+export const ENGINE_PATH = process.env.ENGINE_PATH || stockfishPath;
+export const ENGINE_ARGS = (process.env.ENGINE_ARGS ?? "")
+  .split(" ")
+  .filter(Boolean);
+/** Shown to players until the engine has told its name */
+export const DEFAULT_ENGINE_NAME = "UCI engine";
@@ -1,61 +1,109 @@
-import { Server } from "socket.io";
-import { Chess } from "chess.js";
-import type { Session, GameState, Engine, PlayerSide } from "../types.js";
+import { Server, Socket } from "socket.io";
+import { Chess, DEFAULT_POSITION } from "chess.js";
+import type {
+  Session,
+  GameState,
+  Engine,
+  PlayerSide,
+  TimeControl,
+  MoveStrategy,
+} from "../types.js";
 import { GameStatus } from "../shared_types.js";
-import { DEFAULT_CLOCK_TIME } from "../constants.js";
+import {
+  DEFAULT_TIME_CONTROL,
+  DEFAULT_MOVE_STRATEGY,
+  DEFAULT_TURN_DEADLINE,
+  DEFAULT_SPECTATOR_DELAY,
+  DEFAULT_AUTOPILOT,
+  DEFAULT_ENGINE_SETTINGS,
+  SPECTATOR_LIVE_EVENTS,
+} from "../constants.js";
+import { getInitialClockTime } from "../core/turnLogic.js";
+import { getTurnFromFen } from "../core/positionLogic.js";
+import type { IGameArchive } from "../interfaces/IGameArchive.js";
+import { SpectatorChannel } from "./SpectatorChannel.js";
 
 /**
  * Minimal socket interface for dependency injection.
  * Allows both real Socket.io sockets and mock sockets in tests.
  */
 export interface ISocket {
-  data: { pid?: string; side?: string; name?: string };
+  data: {
+    pid?: string;
+    side?: string;
+    name?: string;
+    roomId?: string;
+    /** First held event a spectator gets (see SpectatorChannel.join) */
+    spectatorFrom?: number;
+  };
   emit: (event: string, data?: unknown) => void;
 }
 
 /**
  * Minimal IO interface for dependency injection.
+ * Broadcasts reach every socket in the game's room, and only those.
+ * Spectators get them through the room's SpectatorChannel.
  */
 export interface IIO {
   emit: (event: string, data?: unknown) => void;
-  sockets: {
-    sockets: Map<string, ISocket>;
-  };
-  // Handler parameter is broad to accept both real Socket.IO sockets and ISocket in tests
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  on: (event: string, handler: (socket: any) => void) => void;
 }
 
 /**
  * Interface for the game context - the central dependency injection container.
- * All modules that need access to game state, sessions, or IO should depend on this interface.
+ * One context exists per room; all modules that need access to game state,
+ * sessions, or IO should depend on this interface.
  */
 export interface IGameContext {
+  readonly roomId: string;
+  readonly roomName: string;
   readonly sessions: Map<string, Session>;
   readonly gameState: GameState;
   readonly io: IIO;
+  /** Where finished games are stored (shared by every room) */
+  readonly archive: IGameArchive;
+  /** Delayed stream of the room's broadcasts for spectators */
+  readonly spectators: SpectatorChannel;
 
   updateGameState(updates: Partial<GameState>): void;
   resetGame(engine: Engine): void;
   getOnlinePids(): Set<string>;
   getActiveTeamPids(side: PlayerSide): Set<string>;
-  getSocketsBySide(side: PlayerSide): ISocket[];
+  getSocketsBySide(side: PlayerSide | "spectator"): ISocket[];
   getAllSockets(): ISocket[];
+  /** Sends to every socket in the room that is not a spectator */
+  emitToPlayers(event: string, data?: unknown): void;
 }
 
 /**
  * Production implementation of the game context.
- * Holds all shared state and provides methods to access and modify it.
+ * Holds the state of a single room and scopes all IO to that room's sockets.
  */
 export class GameContext implements IGameContext {
+  readonly roomId: string;
+  readonly roomName: string;
+  readonly archive: IGameArchive;
+  readonly spectators: SpectatorChannel;
   private _sessions: Map<string, Session>;
   private _gameState: GameState;
   private _io: Server;
 
-  constructor(io: Server, initialState: GameState) {
+  constructor(
+    io: Server,
+    roomId: string,
+    roomName: string,
+    initialState: GameState,
+    archive: IGameArchive
+  ) {
+    this.roomId = roomId;
+    this.roomName = roomName;
+    this.archive = archive;
     this._sessions = new Map();
     this._gameState = initialState;
     this._io = io;
+    this.spectators = new SpectatorChannel(
+      () => this._gameState,
+      () => this.getAllSockets()
+    );
   }
 
   get sessions(): Map<string, Session> {
@@ -67,7 +115,16 @@ export class GameContext implements IGameContext {
   }
 
   get io(): IIO {
-    return this._io as unknown as IIO;
+    return {
+      emit: (event: string, data?: unknown) => {
+        if (SPECTATOR_LIVE_EVENTS.has(event)) {
+          this._io.to(this.roomId).emit(event, data);
+          return;
+        }
+        this.emitToPlayers(event, data);
+        this.spectators.emit(event, data);
+      },
+    };
   }
 
   updateGameState(updates: Partial<GameState>): void {
@@ -76,14 +133,32 @@ export class GameContext implements IGameContext {
 
   resetGame(engine: Engine): void {
     clearGameStateTimers(this._gameState);
-    const blacklist = this._gameState.blacklist;
-    this._gameState = createInitialGameState(engine);
+    const {
+      blacklist,
+      timeControl,
+      moveStrategy,
+      turnDeadline,
+      spectatorDelay,
+      autopilot,
+      engineSettings,
+      startFen,
+    } = this._gameState;
+    this._gameState = createInitialGameState(
+      engine,
+      timeControl,
+      moveStrategy,
+      startFen
+    );
+    this._gameState.turnDeadline = turnDeadline;
+    this._gameState.spectatorDelay = spectatorDelay;
+    this._gameState.autopilot = autopilot;
+    this._gameState.engineSettings = engineSettings;
     this._gameState.blacklist = blacklist;
   }
 
   getOnlinePids(): Set<string> {
     const pids = new Set<string>();
-    for (const socket of this._io.sockets.sockets.values()) {
+    for (const socket of this.roomSockets()) {
       if (socket.data.pid) pids.add(socket.data.pid);
     }
     return pids;
@@ -96,14 +171,34 @@ export class GameContext implements IGameContext {
     return new Set([...teamIds].filter((pid) => onlinePids.has(pid)));
   }
 
-  getSocketsBySide(side: PlayerSide): ISocket[] {
-    return [...this._io.sockets.sockets.values()].filter(
+  getSocketsBySide(side: PlayerSide | "spectator"): ISocket[] {
+    return this.roomSockets().filter(
       (s) => s.data.side === side
     ) as unknown as ISocket[];
   }
 
   getAllSockets(): ISocket[] {
-    return [...this._io.sockets.sockets.values()] as unknown as ISocket[];
+    return this.roomSockets() as unknown as ISocket[];
+  }
+
+  emitToPlayers(event: string, data?: unknown): void {
+    for (const socket of this.roomSockets()) {
+      if (socket.data.side !== "spectator") socket.emit(event, data);
+    }
+  }
+
+  /**
+   * Sockets currently joined to this context's Socket.IO room.
+   */
+  private roomSockets(): Socket[] {
+    const ids = this._io.sockets.adapter.rooms.get(this.roomId);
+    if (!ids) return [];
+    const sockets: Socket[] = [];
+    for (const id of ids) {
+      const socket = this._io.sockets.sockets.get(id);
+      if (socket) sockets.push(socket);
+    }
+    return sockets;
   }
 }
 
@@ -121,18 +216,34 @@ export function clearGameStateTimers(state: GameState): void {
 /**
  * Creates initial game state for a new game.
  */
-export function createInitialGameState(engine: Engine): GameState {
+export function createInitialGameState(
+  engine: Engine,
+  timeControl: TimeControl = DEFAULT_TIME_CONTROL,
+  moveStrategy: MoveStrategy = DEFAULT_MOVE_STRATEGY,
+  startFen: string = DEFAULT_POSITION
+): GameState {
+  const clockTime = getInitialClockTime(timeControl);
+  const { side, moveNumber } = getTurnFromFen(startFen);
   return {
     whiteIds: new Set(),
     blackIds: new Set(),
-    moveNumber: 1,
-    side: "white",
+    moveNumber,
+    side,
     proposals: new Map(),
-    whiteTime: DEFAULT_CLOCK_TIME,
-    blackTime: DEFAULT_CLOCK_TIME,
+    whiteTime: clockTime,
+    blackTime: clockTime,
+    timeControl,
+    turnStartTime: clockTime,
+    moveStrategy,
+    turnDeadline: DEFAULT_TURN_DEADLINE,
+    spectatorDelay: DEFAULT_SPECTATOR_DELAY,
+    autopilot: DEFAULT_AUTOPILOT,
+    engineSettings: DEFAULT_ENGINE_SETTINGS,
+    startFen,
+    history: [],
     timerInterval: undefined,
     engine,
-    chess: new Chess(),
+    chess: new Chess(startFen),
     status: GameStatus.Setup,
     endReason: undefined,
     endWinner: undefined,
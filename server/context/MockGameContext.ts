@@ -1,6 +1,21 @@
-import { Chess } from "chess.js";
-import type { Session, GameState, Engine, PlayerSide } from "../types.js";
+import { Chess, DEFAULT_POSITION } from "chess.js";
+import type {
+  Session,
+  GameState,
+  Engine,
+  PlayerSide,
+  Account,
+} from "../types.js";
 import { GameStatus } from "../shared_types.js";
+import { MockGameArchive } from "../interfaces/MockGameArchive.js";
+import {
+  DEFAULT_TIME_CONTROL,
+  DEFAULT_MOVE_STRATEGY,
+  DEFAULT_TURN_DEADLINE,
+  DEFAULT_SPECTATOR_DELAY,
+  DEFAULT_AUTOPILOT,
+  DEFAULT_ENGINE_SETTINGS,
+} from "../constants.js";
 import {
   type IGameContext,
   type ISocket,
@@ -8,13 +23,21 @@ import {
   clearGameStateTimers,
   createInitialGameState,
 } from "./GameContext.js";
+import { SpectatorChannel } from "./SpectatorChannel.js";
 
 /**
  * Mock socket for testing - tracks emitted events.
  */
 export interface MockSocket {
   id: string;
-  data: { pid?: string; side?: string; name?: string };
+  data: {
+    pid?: string;
+    side?: string;
+    name?: string;
+    roomId?: string;
+    spectatorFrom?: number;
+    account?: Account;
+  };
   emit: (event: string, data?: unknown) => void;
   emittedEvents: Array<{ event: string; data?: unknown }>;
 }
@@ -52,8 +75,16 @@ export function createMockEngine(): Engine {
  * Provides full control over state and captures all emitted events.
  */
 export class MockGameContext implements IGameContext {
+  roomId = "test-room";
+  roomName = "Test room";
+  archive = new MockGameArchive();
   sessions: Map<string, Session> = new Map();
   gameState: GameState;
+  /** A real channel; only what is sent to it directly reaches spectators */
+  spectators = new SpectatorChannel(
+    () => this.gameState,
+    () => this.getAllSockets()
+  );
 
   /** All events emitted via io.emit() */
   emittedEvents: Array<{ event: string; data?: unknown; target?: string }> = [];
@@ -70,6 +101,15 @@ export class MockGameContext implements IGameContext {
       proposals: new Map(),
       whiteTime: 600,
       blackTime: 600,
+      timeControl: DEFAULT_TIME_CONTROL,
+      turnStartTime: 600,
+      moveStrategy: DEFAULT_MOVE_STRATEGY,
+      turnDeadline: DEFAULT_TURN_DEADLINE,
+      spectatorDelay: DEFAULT_SPECTATOR_DELAY,
+      autopilot: DEFAULT_AUTOPILOT,
+      engineSettings: DEFAULT_ENGINE_SETTINGS,
+      startFen: DEFAULT_POSITION,
+      history: [],
       timerInterval: undefined,
       engine: createMockEngine(),
       chess: new Chess(),
@@ -94,10 +134,6 @@ export class MockGameContext implements IGameContext {
       emit: (event: string, data?: unknown) => {
         this.emittedEvents.push({ event, data, target: "broadcast" });
       },
-      sockets: {
-        sockets: this.mockSockets as Map<string, ISocket>,
-      },
-      on: () => {},
     };
   }
 
@@ -180,8 +216,26 @@ export class MockGameContext implements IGameContext {
 
   resetGame(engine: Engine): void {
     clearGameStateTimers(this.gameState);
-    const blacklist = this.gameState.blacklist;
-    this.gameState = createInitialGameState(engine);
+    const {
+      blacklist,
+      timeControl,
+      moveStrategy,
+      turnDeadline,
+      spectatorDelay,
+      autopilot,
+      engineSettings,
+      startFen,
+    } = this.gameState;
+    this.gameState = createInitialGameState(
+      engine,
+      timeControl,
+      moveStrategy,
+      startFen
+    );
+    this.gameState.turnDeadline = turnDeadline;
+    this.gameState.spectatorDelay = spectatorDelay;
+    this.gameState.autopilot = autopilot;
+    this.gameState.engineSettings = engineSettings;
     this.gameState.blacklist = blacklist;
   }
 
@@ -196,11 +250,15 @@ export class MockGameContext implements IGameContext {
     return new Set([...teamIds].filter((pid) => onlinePids.has(pid)));
   }
 
-  getSocketsBySide(side: PlayerSide): ISocket[] {
+  getSocketsBySide(side: PlayerSide | "spectator"): ISocket[] {
     return [...this.mockSockets.values()].filter((s) => s.data.side === side);
   }
 
   getAllSockets(): ISocket[] {
     return [...this.mockSockets.values()];
   }
+
+  emitToPlayers(event: string, data?: unknown): void {
+    this.emittedEvents.push({ event, data, target: "players" });
+  }
 }
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import { MockGameContext } from "./MockGameContext.js";
+import { getGameView } from "../game/gameLogic.js";
+import { GameStatus } from "../shared_types.js";
+import type { Selection } from "../types.js";
+
+function setup(spectatorDelay = { moves: 0, seconds: 10 }) {
+  const ctx = new MockGameContext({
+    status: GameStatus.AwaitingProposals,
+    spectatorDelay,
+  });
+  const white = ctx.addPlayer("w1", "White1", "white");
+  const spectator = ctx.addPlayer("s1", "Spec", "spectator");
+  return { ctx, white, spectator };
+}
+
+function events(socket: { emittedEvents: { event: string }[] }): string[] {
+  return socket.emittedEvents.map((e) => e.event);
+}
+
+function playMove(ctx: MockGameContext): void {
+  ctx.gameState.history.push({ lan: "e2e4" } as Selection);
+  ctx.spectators.emit("move_selected", { lan: "e2e4", fen: "after-e4" });
+}
+
+describe("SpectatorChannel", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("sends held events to spectators only, in order, once due", () => {
+    vi.useFakeTimers();
+    const { ctx, white, spectator } = setup();
+
+    ctx.spectators.emit("position_update", { fen: "a" });
+    vi.advanceTimersByTime(4000);
+    ctx.spectators.emit("chat_message", { message: "b" });
+
+    vi.advanceTimersByTime(6000);
+    expect(events(spectator)).toEqual(["position_update"]);
+    vi.advanceTimersByTime(4000);
+    expect(events(spectator)).toEqual(["position_update", "chat_message"]);
+    expect(events(white)).toEqual([]);
+  });
+
+  it("holds events until enough moves are played", () => {
+    const { ctx, spectator } = setup({ moves: 1, seconds: 0 });
+
+    ctx.spectators.emit("move_submitted", { id: "w1" });
+    expect(events(spectator)).toEqual([]);
+
+    playMove(ctx);
+    expect(events(spectator)).toEqual(["move_submitted"]);
+  });
+
+  it("sends everything at once when the game is over", () => {
+    const { ctx, spectator } = setup({ moves: 3, seconds: 0 });
+
+    ctx.spectators.emit("move_submitted", { id: "w1" });
+    ctx.gameState.status = GameStatus.Over;
+    ctx.spectators.emit("game_over", { reason: "resignation" });
+
+    expect(events(spectator)).toEqual(["move_submitted", "game_over"]);
+  });
+
+  it("skips the player an event was already sent to", () => {
+    const { ctx, spectator } = setup({ moves: 0, seconds: 0 });
+    const other = ctx.addPlayer("s2", "Other", "spectator");
+
+    ctx.spectators.emit("chat_message", { message: "hi" }, "s1");
+
+    expect(events(spectator)).toEqual([]);
+    expect(events(other)).toEqual(["chat_message"]);
+  });
+
+  it("only sends a new spectator what was held after it joined", () => {
+    const { ctx, white } = setup({ moves: 1, seconds: 0 });
+
+    ctx.spectators.emit("move_submitted", { id: "w1" });
+    white.data.side = "spectator";
+    ctx.spectators.join(white);
+    ctx.spectators.emit("move_updated", { id: "w1" });
+    playMove(ctx);
+    playMove(ctx);
+
+    expect(events(white)).toEqual(["move_updated", "move_selected"]);
+  });
+
+  it("keeps the view spectators have been shown", () => {
+    const { ctx } = setup({ moves: 1, seconds: 0 });
+    ctx.spectators.seed(getGameView("spectator", ctx));
+    const seeded = ctx.spectators.getView();
+
+    ctx.spectators.emit("position_update", { fen: "live" });
+    expect(ctx.spectators.getView()).toBe(seeded);
+
+    playMove(ctx);
+    expect(ctx.spectators.getView()?.fen).toBe("live");
+  });
+});
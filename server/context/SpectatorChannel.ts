@@ -0,0 +1,122 @@
+import type { GameState, GameView, HeldEvent } from "../types.js";
+import type { ISocket } from "./GameContext.js";
+import {
+  applyEventToView,
+  isHeldEventDue,
+} from "../core/spectatorDelayLogic.js";
+
+/**
+ * The broadcast stream of a room's spectators, kept behind the game by the
+ * room's spectator delay so nobody can watch a team's proposals or chat and
+ * relay them to the other team. Events are held in order and reach every
+ * spectator once due. Before the game starts and after it ends nothing is
+ * held, so whatever is left goes out at once.
+ *
+ * It also keeps the view its events add up to, which is what a spectator
+ * joining late is shown instead of the live game.
+ */
+export class SpectatorChannel {
+  private queue: HeldEvent[] = [];
+  private nextSeq = 0;
+  private view?: GameView;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private getGameState: () => GameState,
+    private getSockets: () => ISocket[],
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Starts the view from what the game looks like now. Until then a late
+   * spectator is shown the live game.
+   */
+  seed(view: GameView): void {
+    this.view = view;
+  }
+
+  /** What spectators have been shown so far, once seeded */
+  getView(): GameView | undefined {
+    return this.view;
+  }
+
+  /**
+   * Queues an event for spectators and sends out whatever is due.
+   * @param exceptPid Player who was already sent it directly
+   */
+  emit(event: string, data?: unknown, exceptPid?: string): void {
+    this.queue.push({
+      seq: this.nextSeq++,
+      event,
+      data,
+      heldAt: this.now(),
+      ply: this.getGameState().history.length,
+      exceptPid,
+    });
+    this.release();
+  }
+
+  /**
+   * Marks a socket that just became a spectator. It already saw the game
+   * live, so only events held from now on are sent to it.
+   */
+  join(socket: ISocket): void {
+    socket.data.spectatorFrom = this.nextSeq;
+  }
+
+  /** Drops every held event. Used when the room is removed. */
+  close(): void {
+    clearTimeout(this.timer);
+    this.queue = [];
+  }
+
+  /**
+   * Sends every event that is due, oldest first, and schedules a check for
+   * when the next one comes due.
+   */
+  private release(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const gameState = this.getGameState();
+    const { spectatorDelay } = gameState;
+    const now = this.now();
+
+    while (this.queue.length > 0) {
+      const held = this.queue[0];
+      if (
+        !isHeldEventDue(
+          held,
+          spectatorDelay,
+          gameState.status,
+          gameState.history.length,
+          now
+        )
+      ) {
+        break;
+      }
+      this.queue.shift();
+      this.deliver(held);
+    }
+
+    // A move rule is checked again with the next event, which the move
+    // itself broadcasts
+    const next = this.queue[0];
+    if (next && spectatorDelay.seconds > 0) {
+      const wait = next.heldAt + spectatorDelay.seconds * 1000 - now;
+      if (wait > 0) this.timer = setTimeout(() => this.release(), wait);
+    }
+  }
+
+  private deliver(held: HeldEvent): void {
+    if (this.view) {
+      this.view = applyEventToView(this.view, held.event, held.data);
+    }
+    for (const socket of this.getSockets()) {
+      if (socket.data.side !== "spectator") continue;
+      if (socket.data.pid === held.exceptPid) continue;
+      if ((socket.data.spectatorFrom ?? 0) > held.seq) continue;
+      socket.emit(held.event, held.data);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_POSITION } from "chess.js";
+import {
+  buildMoveAnalysis,
+  classifyMove,
+  getTerminalEvaluation,
+} from "./analysisLogic.js";
+import { MATE_SCORE_CP } from "../constants.js";
+
+describe("analysisLogic", () => {
+  describe("classifyMove", () => {
+    it("grades moves by centipawn loss", () => {
+      expect(classifyMove(0, true)).toBe("best");
+      expect(classifyMove(20, false)).toBe("good");
+      expect(classifyMove(50, false)).toBe("inaccuracy");
+      expect(classifyMove(150, false)).toBe("mistake");
+      expect(classifyMove(300, false)).toBe("blunder");
+    });
+  });
+
+  describe("getTerminalEvaluation", () => {
+    it("scores checkmate as lost for the side to move", () => {
+      expect(
+        getTerminalEvaluation(
+          "rnb1kbnr/pppp1ppp/8/4p3/6Pq/5P2/PPPPP2P/RNBQKBNR w KQkq - 1 3"
+        )
+      ).toEqual({ score: -MATE_SCORE_CP, mate: 0 });
+    });
+
+    it("scores stalemate as a draw and ignores live positions", () => {
+      expect(getTerminalEvaluation("7k/5Q2/6K1/8/8/8/8/8 b - - 0 1")).toEqual({
+        score: 0,
+      });
+      expect(getTerminalEvaluation(DEFAULT_POSITION)).toBeNull();
+    });
+  });
+
+  describe("buildMoveAnalysis", () => {
+    const move = {
+      moveNumber: 1,
+      side: "white" as const,
+      lan: "a2a3",
+      san: "a3",
+      fen: "rnbqkbnr/pppppppp/8/8/8/P7/1PPPPPPP/RNBQKBNR b KQkq - 0 1",
+    };
+
+    it("measures the loss against the engine's choice", () => {
+      const analysis = buildMoveAnalysis(
+        move,
+        DEFAULT_POSITION,
+        { lan: "e2e4", score: 40 },
+        { score: 20 }
+      );
+      expect(analysis).toEqual({
+        ...move,
+        eval: -20,
+        bestLan: "e2e4",
+        bestSan: "e4",
+        loss: 60,
+        classification: "inaccuracy",
+      });
+    });
+
+    it("reports evaluations and mates from White's point of view", () => {
+      const analysis = buildMoveAnalysis(
+        { ...move, side: "black" },
+        DEFAULT_POSITION,
+        { lan: "a2a3", score: MATE_SCORE_CP - 3, mate: 3 },
+        { score: -(MATE_SCORE_CP - 2), mate: -2 }
+      );
+      expect(analysis.eval).toBe(-(MATE_SCORE_CP - 2));
+      expect(analysis.mate).toBe(-2);
+      expect(analysis.classification).toBe("best");
+    });
+
+    it("does not call a winning move a blunder for winning less", () => {
+      const analysis = buildMoveAnalysis(
+        move,
+        DEFAULT_POSITION,
+        { lan: "e2e4", score: 2500 },
+        { score: -1400 }
+      );
+      expect(analysis.loss).toBe(0);
+      expect(analysis.classification).toBe("good");
+    });
+  });
+});
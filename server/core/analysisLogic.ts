@@ -0,0 +1,98 @@
+import { Chess } from "chess.js";
+import type { MoveAnalysis, MoveClassification, PlayerSide } from "../types.js";
+import {
+  ANALYSIS_EVAL_CAP_CP,
+  MATE_SCORE_CP,
+  MOVE_CLASSIFICATION_THRESHOLDS_CP,
+} from "../constants.js";
+import { lanLineToSan } from "./uciLogic.js";
+
+/**
+ * Engine verdict on a position, from the side to move's point of view.
+ */
+export interface PositionEvaluation {
+  score: number;
+  mate?: number;
+}
+
+/**
+ * Evaluates a position where the game is over, without the engine:
+ * a checkmated side scores a lost mate, any draw scores 0.
+ * Returns null while the game goes on.
+ * Pure function - no side effects.
+ */
+export function getTerminalEvaluation(fen: string): PositionEvaluation | null {
+  const chess = new Chess(fen);
+  if (chess.isCheckmate()) return { score: -MATE_SCORE_CP, mate: 0 };
+  if (chess.isGameOver()) return { score: 0 };
+  return null;
+}
+
+/**
+ * Classifies a move by the centipawns it lost to the engine's choice.
+ * Pure function - no side effects.
+ */
+export function classifyMove(
+  loss: number,
+  isBest: boolean
+): MoveClassification {
+  const { inaccuracy, mistake, blunder } = MOVE_CLASSIFICATION_THRESHOLDS_CP;
+  if (isBest) return "best";
+  if (loss >= blunder) return "blunder";
+  if (loss >= mistake) return "mistake";
+  if (loss >= inaccuracy) return "inaccuracy";
+  return "good";
+}
+
+/**
+ * Clamps an evaluation to ANALYSIS_EVAL_CAP_CP either way.
+ * Pure function - no side effects.
+ */
+export function capEval(score: number): number {
+  return Math.max(-ANALYSIS_EVAL_CAP_CP, Math.min(ANALYSIS_EVAL_CAP_CP, score));
+}
+
+/**
+ * Reviews a played move from the engine's verdicts on the positions before
+ * and after it. Evaluations are capped so that, once a side is clearly
+ * winning, trading one big advantage for another is not called a blunder.
+ * Pure function - no side effects.
+ * @param fenBefore Position the move was played from
+ * @param best Engine's choice in that position, from the mover's view
+ * @param after Evaluation of the resulting position, from the opponent's view
+ */
+export function buildMoveAnalysis(
+  move: {
+    moveNumber: number;
+    side: PlayerSide;
+    lan: string;
+    san: string;
+    fen: string;
+  },
+  fenBefore: string,
+  best: { lan: string } & PositionEvaluation,
+  after: PositionEvaluation
+): MoveAnalysis {
+  const isBest = move.lan === best.lan;
+  const played = -after.score;
+  const loss = isBest ? 0 : Math.max(0, capEval(best.score) - capEval(played));
+  const toWhite = move.side === "white" ? 1 : -1;
+
+  const analysis: MoveAnalysis = {
+    moveNumber: move.moveNumber,
+    side: move.side,
+    lan: move.lan,
+    san: move.san,
+    fen: move.fen,
+    eval: played * toWhite,
+    bestLan: best.lan,
+    bestSan: lanLineToSan(fenBefore, [best.lan])[0] ?? best.lan,
+    loss,
+    classification: classifyMove(loss, isBest),
+  };
+  // Mate distances flip sign with the point of view; 0 is mate on the board
+  if (after.mate !== undefined) {
+    analysis.mate = after.mate === 0 ? 0 : -after.mate * toWhite;
+  }
+  return analysis;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  getPgnResult,
+  collectTeamRoster,
+  summarizeGame,
+} from "./archiveLogic.js";
+import type { GameRecord, Selection, Session } from "../types.js";
+import { DEFAULT_TIME_CONTROL } from "../constants.js";
+
+function selection(
+  side: "white" | "black",
+  candidates: { id: string; name: string }[]
+): Selection {
+  return {
+    id: candidates[0].id,
+    name: candidates[0].name,
+    moveNumber: 1,
+    side,
+    lan: "e2e4",
+    fen: "",
+    strategy: "engine_best",
+    candidates: candidates.map((c) => ({
+      ...c,
+      moveNumber: 1,
+      side,
+      lan: "e2e4",
+    })),
+  };
+}
+
+describe("archiveLogic", () => {
+  describe("getPgnResult", () => {
+    it("maps winners to PGN results", () => {
+      expect(getPgnResult("white")).toBe("1-0");
+      expect(getPgnResult("black")).toBe("0-1");
+      expect(getPgnResult(null)).toBe("1/2-1/2");
+    });
+  });
+
+  describe("collectTeamRoster", () => {
+    const sessions = new Map<string, Session>([
+      ["w1", { pid: "w1", name: "Alice", side: "white" }],
+      ["w2", { pid: "w2", name: "Bob", side: "white" }],
+    ]);
+
+    it("lists current members first", () => {
+      expect(
+        collectTeamRoster("white", new Set(["w2", "w1"]), sessions, [])
+      ).toEqual([
+        { id: "w2", name: "Bob" },
+        { id: "w1", name: "Alice" },
+      ]);
+    });
+
+    it("adds players who proposed moves for the team and left", () => {
+      const history = [
+        selection("white", [
+          { id: "w1", name: "Alice" },
+          { id: "gone", name: "Carol" },
+        ]),
+        selection("black", [{ id: "b1", name: "Dan" }]),
+      ];
+      expect(
+        collectTeamRoster("white", new Set(["w1"]), sessions, history)
+      ).toEqual([
+        { id: "w1", name: "Alice" },
+        { id: "gone", name: "Carol" },
+      ]);
+    });
+  });
+
+  describe("summarizeGame", () => {
+    it("drops the moves and counts the turns", () => {
+      const record: GameRecord = {
+        id: "g1",
+        roomId: "main",
+        roomName: "Main table",
+        startedAt: 1,
+        endedAt: 2,
+        result: "1-0",
+        reason: "checkmate",
+        winner: "white",
+        white: [],
+        black: [],
+        timeControl: DEFAULT_TIME_CONTROL,
+        moveStrategy: "engine_best",
+        pgn: "1. e4 1-0",
+        turns: [selection("white", [{ id: "w1", name: "Alice" }])],
+      };
+      const summary = summarizeGame(record);
+      expect(summary).not.toHaveProperty("pgn");
+      expect(summary).not.toHaveProperty("turns");
+      expect(summary.moveCount).toBe(1);
+      expect(summary.id).toBe("g1");
+    });
+  });
+});
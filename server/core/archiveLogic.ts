@@ -0,0 +1,51 @@
+import type {
+  GameRecord,
+  GameSummary,
+  Selection,
+  Session,
+  PlayerSide,
+} from "../types.js";
+
+/**
+ * Converts a winner to a PGN result.
+ * Pure function - no side effects.
+ */
+export function getPgnResult(winner: string | null): string {
+  if (winner === "white") return "1-0";
+  if (winner === "black") return "0-1";
+  return "1/2-1/2";
+}
+
+/**
+ * Lists everyone who played for a team: its members at the end of the game,
+ * then anyone who proposed a move for it earlier and has since left.
+ * Pure function - no side effects.
+ */
+export function collectTeamRoster(
+  side: PlayerSide,
+  teamIds: Set<string>,
+  sessions: Map<string, Session>,
+  history: Selection[]
+): { id: string; name: string }[] {
+  const roster = new Map<string, string>();
+  for (const id of teamIds) {
+    const name = sessions.get(id)?.name;
+    if (name) roster.set(id, name);
+  }
+  for (const turn of history) {
+    if (turn.side !== side) continue;
+    for (const p of turn.candidates) {
+      if (!roster.has(p.id)) roster.set(p.id, p.name);
+    }
+  }
+  return [...roster].map(([id, name]) => ({ id, name }));
+}
+
+/**
+ * Strips the moves from a game record for archive listings.
+ * Pure function - no side effects.
+ */
+export function summarizeGame(record: GameRecord): GameSummary {
+  const { pgn: _pgn, turns, ...summary } = record;
+  return { ...summary, moveCount: turns.length };
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateUsername,
+  validatePassword,
+  usernameKey,
+  signSessionToken,
+  verifySessionToken,
+} from "./authLogic.js";
+import { MSG } from "../shared_messages.js";
+
+const claims = { sub: "u1", username: "Alice", exp: 2000 };
+
+describe("authLogic", () => {
+  describe("validateUsername", () => {
+    it("accepts letters, digits, dashes and underscores", () => {
+      expect(validateUsername(" alice_99 ")).toEqual({ username: "alice_99" });
+    });
+
+    it("rejects anything else", () => {
+      for (const input of ["ab", "a".repeat(21), "al ice", "élise", 42]) {
+        expect(validateUsername(input).error).toBe(MSG.errorInvalidUsername);
+      }
+    });
+  });
+
+  describe("validatePassword", () => {
+    it("requires a length within the limits", () => {
+      expect(validatePassword("correct horse")).toEqual({
+        password: "correct horse",
+      });
+      expect(validatePassword("short").error).toBe(MSG.errorInvalidPassword);
+      expect(validatePassword(undefined).error).toBe(MSG.errorInvalidPassword);
+    });
+  });
+
+  describe("usernameKey", () => {
+    it("ignores case and surrounding spaces", () => {
+      expect(usernameKey(" Alice ")).toBe(usernameKey("alice"));
+    });
+  });
+
+  describe("session tokens", () => {
+    it("round-trips claims until they expire", () => {
+      const token = signSessionToken(claims, "secret");
+      expect(verifySessionToken(token, "secret", 1000)).toEqual(claims);
+      expect(verifySessionToken(token, "secret", 2000)).toBeUndefined();
+    });
+
+    it("rejects tokens signed with another key or tampered with", () => {
+      const token = signSessionToken(claims, "secret");
+      expect(verifySessionToken(token, "other", 1000)).toBeUndefined();
+
+      const forged = Buffer.from(
+        JSON.stringify({ ...claims, sub: "u2" })
+      ).toString("base64url");
+      const signature = token.split(".")[1];
+      expect(
+        verifySessionToken(`${forged}.${signature}`, "secret", 1000)
+      ).toBeUndefined();
+    });
+
+    it("rejects malformed tokens", () => {
+      for (const token of [undefined, "", "abc", "a.b.c", 42]) {
+        expect(verifySessionToken(token, "secret", 1000)).toBeUndefined();
+      }
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { SessionClaims } from "../types.js";
+import {
+  USERNAME_PATTERN,
+  MIN_PASSWORD_LENGTH,
+  MAX_PASSWORD_LENGTH,
+} from "../constants.js";
+import { MSG } from "../shared_messages.js";
+
+/**
+ * Validates a username for a new account.
+ * Pure function - no side effects.
+ */
+export function validateUsername(input: unknown): {
+  username?: string;
+  error?: string;
+} {
+  if (typeof input !== "string" || !USERNAME_PATTERN.test(input.trim())) {
+    return { error: MSG.errorInvalidUsername };
+  }
+  return { username: input.trim() };
+}
+
+/**
+ * Validates a password for a new account.
+ * Pure function - no side effects.
+ */
+export function validatePassword(input: unknown): {
+  password?: string;
+  error?: string;
+} {
+  if (
+    typeof input !== "string" ||
+    input.length < MIN_PASSWORD_LENGTH ||
+    input.length > MAX_PASSWORD_LENGTH
+  ) {
+    return { error: MSG.errorInvalidPassword };
+  }
+  return { password: input };
+}
+
+/**
+ * Key under which a username is reserved; names differing only in case
+ * belong to the same account.
+ * Pure function - no side effects.
+ */
+export function usernameKey(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * Signs session claims into a token: the claims as base64url JSON, a dot,
+ * and their HMAC-SHA256 signature.
+ * Pure function - no side effects.
+ */
+export function signSessionToken(
+  claims: SessionClaims,
+  secret: string
+): string {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Reads a session token back. Returns undefined if the signature does not
+ * match, the token is malformed or it has expired.
+ * Pure function - no side effects.
+ */
+export function verifySessionToken(
+  token: unknown,
+  secret: string,
+  now: number
+): SessionClaims | undefined {
+  if (typeof token !== "string") return undefined;
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) return undefined;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return undefined;
+  }
+
+  try {
+    const claims = JSON.parse(
+      Buffer.from(payload, "base64url").toString("utf8")
+    ) as SessionClaims;
+    if (typeof claims.sub !== "string" || typeof claims.exp !== "number") {
+      return undefined;
+    }
+    return claims.exp > now ? claims : undefined;
+  } catch {
+    return undefined;
+  }
+}
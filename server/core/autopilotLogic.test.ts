@@ -0,0 +1,50 @@
+import { describe, it, expect } from "vitest";
+import {
+  isAutopilotMode,
+  getAutopilotAction,
+  getClockAfterAutopilot,
+} from "./autopilotLogic.js";
+import {
+  AUTOPILOT_GRACE_TIME,
+  AUTOPILOT_ENGINE_PENALTY,
+} from "../constants.js";
+
+describe("autopilotLogic", () => {
+  describe("isAutopilotMode", () => {
+    it("accepts known modes only", () => {
+      expect(isAutopilotMode("off")).toBe(true);
+      expect(isAutopilotMode("engine")).toBe(true);
+      expect(isAutopilotMode("always")).toBe(false);
+      expect(isAutopilotMode(undefined)).toBe(false);
+    });
+  });
+
+  describe("getAutopilotAction", () => {
+    it("loses on time when autopilot is off", () => {
+      expect(getAutopilotAction("off", 2)).toBeNull();
+    });
+
+    it("plays the proposals made so far", () => {
+      expect(getAutopilotAction("proposals", 1)).toBe("proposals");
+      expect(getAutopilotAction("engine", 1)).toBe("proposals");
+    });
+
+    it("only lets the engine move when allowed", () => {
+      expect(getAutopilotAction("proposals", 0)).toBeNull();
+      expect(getAutopilotAction("engine", 0)).toBe("engine");
+    });
+  });
+
+  describe("getClockAfterAutopilot", () => {
+    it("gives back the grace time, less the penalty for an engine move", () => {
+      expect(getClockAfterAutopilot(0, "proposals")).toBe(AUTOPILOT_GRACE_TIME);
+      expect(getClockAfterAutopilot(0, "engine")).toBe(
+        AUTOPILOT_GRACE_TIME - AUTOPILOT_ENGINE_PENALTY
+      );
+    });
+
+    it("keeps a per-move budget that is already larger", () => {
+      expect(getClockAfterAutopilot(60, "engine")).toBe(60);
+    });
+  });
+});
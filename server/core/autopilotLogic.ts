@@ -0,0 +1,48 @@
+import type { AutopilotMode } from "../types.js";
+import {
+  AUTOPILOT_MODES,
+  AUTOPILOT_GRACE_TIME,
+  AUTOPILOT_ENGINE_PENALTY,
+} from "../constants.js";
+
+export type AutopilotAction = Exclude<AutopilotMode, "off">;
+
+/**
+ * Checks that a client-supplied value names a known autopilot mode.
+ * Pure function - no side effects.
+ */
+export function isAutopilotMode(value: unknown): value is AutopilotMode {
+  return AUTOPILOT_MODES.includes(value as AutopilotMode);
+}
+
+/**
+ * Decides how a team whose clock ran out gets its move, or null when it
+ * loses on time instead.
+ * Pure function - no side effects.
+ * @param proposalCount Proposals the team made this turn
+ */
+export function getAutopilotAction(
+  mode: AutopilotMode,
+  proposalCount: number
+): AutopilotAction | null {
+  if (mode === "off") return null;
+  if (proposalCount > 0) return "proposals";
+  return mode === "engine" ? "engine" : null;
+}
+
+/**
+ * Clock of a team after autopilot moved for it: the grace time, less the
+ * penalty for an engine move, unless the time control already gives more.
+ * Pure function - no side effects.
+ * @param clockAfterMove Clock after the time control was applied
+ */
+export function getClockAfterAutopilot(
+  clockAfterMove: number,
+  action: AutopilotAction
+): number {
+  const grace =
+    action === "engine"
+      ? AUTOPILOT_GRACE_TIME - AUTOPILOT_ENGINE_PENALTY
+      : AUTOPILOT_GRACE_TIME;
+  return Math.max(clockAfterMove, grace);
+}
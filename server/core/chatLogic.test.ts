@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { resolveChatChannel } from "./chatLogic.js";
+
+describe("chatLogic", () => {
+  describe("resolveChatChannel", () => {
+    it("posts to the global channel by default", () => {
+      expect(resolveChatChannel(undefined, "white")).toBe("global");
+      expect(resolveChatChannel("global", "spectator")).toBe("global");
+    });
+
+    it("lets players post to their own side's channel", () => {
+      expect(resolveChatChannel("white", "white")).toBe("white");
+      expect(resolveChatChannel("black", "black")).toBe("black");
+      expect(resolveChatChannel("spectator", "spectator")).toBe("spectator");
+    });
+
+    it("rejects another side's channel", () => {
+      expect(resolveChatChannel("black", "white")).toBeUndefined();
+      expect(resolveChatChannel("white", "spectator")).toBeUndefined();
+      expect(resolveChatChannel("white", undefined)).toBeUndefined();
+    });
+
+    it("rejects unknown channels", () => {
+      expect(resolveChatChannel("admins", "white")).toBeUndefined();
+      expect(resolveChatChannel(42, "white")).toBeUndefined();
+    });
+  });
+});
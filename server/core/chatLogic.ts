@@ -0,0 +1,16 @@
+import type { ChatChannel } from "../types.js";
+
+/**
+ * Works out where a chat message goes. Everyone may post to the global
+ * channel, which is also used when none is given, but only to the channel
+ * of their own side. Returns undefined for any other channel.
+ * Pure function - no side effects.
+ */
+export function resolveChatChannel(
+  channel: unknown,
+  senderSide: string | undefined
+): ChatChannel | undefined {
+  if (channel === undefined || channel === "global") return "global";
+  if (channel === senderSide) return senderSide as ChatChannel;
+  return undefined;
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateEngineSettings,
+  getEngineOptionCommands,
+  formatSearchLimits,
+  isStrengthLimited,
+} from "./engineSettingsLogic.js";
+import { DEFAULT_ENGINE_SETTINGS } from "../constants.js";
+import { MSG } from "../shared_messages.js";
+
+describe("engineSettingsLogic", () => {
+  describe("validateEngineSettings", () => {
+    it("accepts settings within the limits", () => {
+      const input = {
+        ...DEFAULT_ENGINE_SETTINGS,
+        limitStrength: true,
+        elo: 1500,
+        moveTimeMs: 1000,
+      };
+      expect(validateEngineSettings(input)).toEqual({ engineSettings: input });
+    });
+
+    it("drops unknown fields", () => {
+      expect(
+        validateEngineSettings({ ...DEFAULT_ENGINE_SETTINGS, extra: 1 })
+      ).toEqual({ engineSettings: DEFAULT_ENGINE_SETTINGS });
+    });
+
+    it("rejects bad values", () => {
+      for (const input of [
+        null,
+        "strong",
+        { ...DEFAULT_ENGINE_SETTINGS, depth: 0 },
+        { ...DEFAULT_ENGINE_SETTINGS, depth: 12.5 },
+        { ...DEFAULT_ENGINE_SETTINGS, elo: 4000 },
+        { ...DEFAULT_ENGINE_SETTINGS, threads: 64 },
+        { ...DEFAULT_ENGINE_SETTINGS, hash: "16" },
+        { ...DEFAULT_ENGINE_SETTINGS, limitStrength: "yes" },
+        { depth: 10 },
+      ]) {
+        expect(validateEngineSettings(input).error).toBe(
+          MSG.errorInvalidEngineSettings
+        );
+      }
+    });
+  });
+
+  describe("getEngineOptionCommands", () => {
+    it("sets Elo only when strength is limited", () => {
+      expect(getEngineOptionCommands(DEFAULT_ENGINE_SETTINGS)).toEqual([
+        "setoption name Threads value 1",
+        "setoption name Hash value 16",
+        "setoption name Skill Level value 20",
+        "setoption name UCI_LimitStrength value false",
+      ]);
+      expect(
+        getEngineOptionCommands({
+          ...DEFAULT_ENGINE_SETTINGS,
+          limitStrength: true,
+          elo: 1500,
+        })
+      ).toContain("setoption name UCI_Elo value 1500");
+    });
+  });
+
+  describe("isStrengthLimited", () => {
+    it("is set by a lower skill level or a target Elo", () => {
+      expect(isStrengthLimited(DEFAULT_ENGINE_SETTINGS)).toBe(false);
+      expect(
+        isStrengthLimited({ ...DEFAULT_ENGINE_SETTINGS, skillLevel: 19 })
+      ).toBe(true);
+      expect(
+        isStrengthLimited({ ...DEFAULT_ENGINE_SETTINGS, limitStrength: true })
+      ).toBe(true);
+    });
+  });
+
+  describe("formatSearchLimits", () => {
+    it("always limits depth and adds the other limits when set", () => {
+      expect(formatSearchLimits(DEFAULT_ENGINE_SETTINGS)).toBe("depth 15");
+      expect(
+        formatSearchLimits({
+          ...DEFAULT_ENGINE_SETTINGS,
+          moveTimeMs: 2000,
+          nodes: 50000,
+        })
+      ).toBe("depth 15 movetime 2000 nodes 50000");
+    });
+  });
+});
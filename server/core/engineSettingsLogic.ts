@@ -0,0 +1,84 @@
+import type { EngineSettings } from "../types.js";
+import { ENGINE_SETTINGS_LIMITS } from "../constants.js";
+import { MSG } from "../shared_messages.js";
+
+export interface EngineSettingsValidationResult {
+  engineSettings?: EngineSettings;
+  error?: string;
+}
+
+/**
+ * Validates client-supplied engine settings.
+ * Pure function - every numeric field must be a whole number within its
+ * limits and limitStrength a boolean.
+ */
+export function validateEngineSettings(
+  input: unknown
+): EngineSettingsValidationResult {
+  if (!input || typeof input !== "object") {
+    return { error: MSG.errorInvalidEngineSettings };
+  }
+
+  const raw = input as Record<string, unknown>;
+  if (typeof raw.limitStrength !== "boolean") {
+    return { error: MSG.errorInvalidEngineSettings };
+  }
+  const engineSettings = {
+    limitStrength: raw.limitStrength,
+  } as EngineSettings;
+
+  for (const [key, [min, max]] of Object.entries(ENGINE_SETTINGS_LIMITS)) {
+    const value = raw[key];
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < min ||
+      value > max
+    ) {
+      return { error: MSG.errorInvalidEngineSettings };
+    }
+    engineSettings[key as keyof typeof ENGINE_SETTINGS_LIMITS] = value;
+  }
+
+  return { engineSettings };
+}
+
+/**
+ * UCI "setoption" commands that give an engine these settings.
+ * Pure function - no side effects.
+ */
+export function getEngineOptionCommands(settings: EngineSettings): string[] {
+  const options: [string, string | number][] = [
+    ["Threads", settings.threads],
+    ["Hash", settings.hash],
+    ["Skill Level", settings.skillLevel],
+    ["UCI_LimitStrength", String(settings.limitStrength)],
+  ];
+  if (settings.limitStrength) options.push(["UCI_Elo", settings.elo]);
+  return options.map(
+    ([name, value]) => `setoption name ${name} value ${value}`
+  );
+}
+
+/**
+ * Whether these settings make the engine play below full strength. Skill
+ * Level and UCI_Elo only weaken the engine's "bestmove", not its scores.
+ * Pure function - no side effects.
+ */
+export function isStrengthLimited(settings: EngineSettings): boolean {
+  return (
+    settings.limitStrength ||
+    settings.skillLevel < ENGINE_SETTINGS_LIMITS.skillLevel[1]
+  );
+}
+
+/**
+ * Limits for a UCI "go" command, e.g. "depth 15 movetime 1000".
+ * Pure function - no side effects.
+ */
+export function formatSearchLimits(settings: EngineSettings): string {
+  const limits = [`depth ${settings.depth}`];
+  if (settings.moveTimeMs > 0) limits.push(`movetime ${settings.moveTimeMs}`);
+  if (settings.nodes > 0) limits.push(`nodes ${settings.nodes}`);
+  return limits.join(" ");
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  isLeaderboardSort,
+  isLeaderboardRange,
+  getRangeStart,
+  getLeaderboardValue,
+  rankPlayers,
+} from "./leaderboardLogic.js";
+import { createPlayerTally, toPlayerStats } from "./statsLogic.js";
+import type { PlayerStats } from "../types.js";
+import {
+  LEADERBOARD_MIN_PROPOSALS,
+  LEADERBOARD_RANGE_MS,
+} from "../constants.js";
+
+function player(
+  id: string,
+  overrides: Partial<ReturnType<typeof createPlayerTally>> = {}
+): PlayerStats {
+  return toPlayerStats({
+    ...createPlayerTally(id, id),
+    games: 1,
+    ...overrides,
+  });
+}
+
+describe("leaderboardLogic", () => {
+  it("recognises sorts and ranges", () => {
+    expect(isLeaderboardSort("hitRate")).toBe(true);
+    expect(isLeaderboardSort("losses")).toBe(false);
+    expect(isLeaderboardRange("week")).toBe(true);
+    expect(isLeaderboardRange(undefined)).toBe(false);
+  });
+
+  it("counts ranges back from now", () => {
+    expect(getRangeStart("all", 1e12)).toBe(0);
+    expect(getRangeStart("week", 1e12)).toBe(1e12 - LEADERBOARD_RANGE_MS.week);
+  });
+
+  describe("getLeaderboardValue", () => {
+    it("ranks by hit rate only after enough proposals", () => {
+      const few = player("a", { proposals: 2, selected: 2 });
+      const many = player("b", {
+        proposals: LEADERBOARD_MIN_PROPOSALS,
+        selected: 5,
+      });
+      expect(getLeaderboardValue(few, "hitRate")).toBeNull();
+      expect(getLeaderboardValue(many, "hitRate")).toBe(
+        5 / LEADERBOARD_MIN_PROPOSALS
+      );
+    });
+
+    it("adds up wins with both teams", () => {
+      const stats = player("a", {
+        white: { games: 2, wins: 2, losses: 0, draws: 0 },
+        black: { games: 1, wins: 1, losses: 0, draws: 0 },
+      });
+      expect(getLeaderboardValue(stats, "wins")).toBe(3);
+      expect(getLeaderboardValue(player("b"), "wins")).toBeNull();
+    });
+  });
+
+  describe("rankPlayers", () => {
+    it("orders best first, sharing ranks on ties", () => {
+      const entries = rankPlayers(
+        [
+          player("low", { selected: 1 }),
+          player("tied-b", { selected: 5, rating: 1500 }),
+          player("top", { selected: 9 }),
+          player("tied-a", { selected: 5, rating: 1600 }),
+          player("none"),
+        ],
+        "selected",
+        10
+      );
+      expect(entries.map((e) => [e.id, e.rank])).toEqual([
+        ["top", 1],
+        ["tied-a", 2],
+        ["tied-b", 2],
+        ["low", 4],
+      ]);
+    });
+
+    it("keeps only the top entries", () => {
+      const entries = rankPlayers(
+        [player("a", { rating: 1600 }), player("b"), player("c")],
+        "rating",
+        2
+      );
+      expect(entries.map((e) => e.id)).toEqual(["a", "b"]);
+    });
+  });
+});
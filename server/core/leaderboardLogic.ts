@@ -0,0 +1,92 @@
+import type {
+  LeaderboardEntry,
+  LeaderboardRange,
+  LeaderboardSort,
+  PlayerStats,
+} from "../types.js";
+import {
+  LEADERBOARD_MIN_PROPOSALS,
+  LEADERBOARD_RANGE_MS,
+  LEADERBOARD_RANGES,
+  LEADERBOARD_SORTS,
+} from "../constants.js";
+
+/**
+ * Checks that a client-supplied value names a leaderboard ranking.
+ * Pure function - no side effects.
+ */
+export function isLeaderboardSort(value: unknown): value is LeaderboardSort {
+  return LEADERBOARD_SORTS.includes(value as LeaderboardSort);
+}
+
+/**
+ * Checks that a client-supplied value names a leaderboard time range.
+ * Pure function - no side effects.
+ */
+export function isLeaderboardRange(value: unknown): value is LeaderboardRange {
+  return LEADERBOARD_RANGES.includes(value as LeaderboardRange);
+}
+
+/**
+ * Earliest end time of the games a time range counts.
+ * Pure function - no side effects.
+ * @returns 0 for all games
+ */
+export function getRangeStart(range: LeaderboardRange, now: number): number {
+  return range === "all" ? 0 : now - LEADERBOARD_RANGE_MS[range];
+}
+
+/**
+ * The value a player is ranked by, or null if they don't qualify: players
+ * with few proposals aren't ranked by hit rate, and nobody is ranked on
+ * nothing.
+ * Pure function - no side effects.
+ */
+export function getLeaderboardValue(
+  stats: PlayerStats,
+  sort: LeaderboardSort
+): number | null {
+  switch (sort) {
+    case "rating":
+      return stats.games > 0 ? stats.rating : null;
+    case "hitRate":
+      return stats.proposals >= LEADERBOARD_MIN_PROPOSALS
+        ? stats.hitRate
+        : null;
+    case "wins": {
+      const wins = stats.white.wins + stats.black.wins;
+      return wins > 0 ? wins : null;
+    }
+    case "selected":
+      return stats.selected > 0 ? stats.selected : null;
+  }
+}
+
+/**
+ * Ranks the players who qualify, best first. Ties are broken by rating,
+ * then name, and players with equal values share a rank.
+ * Pure function - no side effects.
+ * @param limit Maximum number of entries
+ */
+export function rankPlayers(
+  players: PlayerStats[],
+  sort: LeaderboardSort,
+  limit: number
+): LeaderboardEntry[] {
+  const ranked = players
+    .map((stats) => ({ stats, value: getLeaderboardValue(stats, sort) }))
+    .filter((p): p is { stats: PlayerStats; value: number } => p.value !== null)
+    .sort(
+      (a, b) =>
+        b.value - a.value ||
+        b.stats.rating - a.stats.rating ||
+        a.stats.name.localeCompare(b.stats.name)
+    )
+    .slice(0, limit);
+
+  let rank = 0;
+  return ranked.map(({ stats, value }, i) => {
+    if (i === 0 || value !== ranked[i - 1].value) rank = i + 1;
+    return { ...stats, rank };
+  });
+}
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  isMoveStrategy,
+  getPluralityLeaders,
+  pickWeightedRandom,
+  pickBestMove,
+  pickWorstMove,
+  getCaptainId,
+} from "./moveStrategyLogic.js";
+
+describe("moveStrategyLogic", () => {
+  describe("isMoveStrategy", () => {
+    it("accepts known strategies", () => {
+      expect(isMoveStrategy("engine_best")).toBe(true);
+      expect(isMoveStrategy("captain")).toBe(true);
+    });
+
+    it("rejects anything else", () => {
+      expect(isMoveStrategy("best")).toBe(false);
+      expect(isMoveStrategy(undefined)).toBe(false);
+      expect(isMoveStrategy(3)).toBe(false);
+    });
+  });
+
+  describe("getPluralityLeaders", () => {
+    it("returns the single most proposed move", () => {
+      expect(getPluralityLeaders(["e2e4", "d2d4", "e2e4"])).toEqual(["e2e4"]);
+    });
+
+    it("returns every tied move in first-proposal order", () => {
+      expect(
+        getPluralityLeaders(["d2d4", "e2e4", "e2e4", "d2d4", "c2c4"])
+      ).toEqual(["d2d4", "e2e4"]);
+    });
+
+    it("returns nothing without proposals", () => {
+      expect(getPluralityLeaders([])).toEqual([]);
+    });
+  });
+
+  describe("pickWeightedRandom", () => {
+    const evaluations = [
+      { lan: "e2e4", score: 30 },
+      { lan: "h2h4", score: -100 },
+    ];
+
+    it("picks according to the softmax weights", () => {
+      // weights: e2e4 = 1, h2h4 = e^-1.3 ~ 0.27 (total ~ 1.27)
+      expect(pickWeightedRandom(evaluations, 100, () => 0)).toBe("e2e4");
+      expect(pickWeightedRandom(evaluations, 100, () => 0.7)).toBe("e2e4");
+      expect(pickWeightedRandom(evaluations, 100, () => 0.9)).toBe("h2h4");
+    });
+
+    it("almost never picks a losing move over a winning one", () => {
+      const lopsided = [
+        { lan: "a", score: 500 },
+        { lan: "b", score: -500 },
+      ];
+      expect(pickWeightedRandom(lopsided, 100, () => 0.9999)).toBe("a");
+    });
+
+    it("handles mate scores without overflowing", () => {
+      const mates = [
+        { lan: "a", score: 99999 },
+        { lan: "b", score: -99999 },
+      ];
+      expect(pickWeightedRandom(mates, 100, () => 0.5)).toBe("a");
+    });
+  });
+
+  describe("pickBestMove", () => {
+    it("returns the highest scoring move", () => {
+      expect(
+        pickBestMove([
+          { lan: "e2e4", score: 30 },
+          { lan: "g2g4", score: -150 },
+          { lan: "d2d4", score: 35 },
+        ])
+      ).toBe("d2d4");
+    });
+
+    it("keeps the first move on a tie", () => {
+      expect(
+        pickBestMove([
+          { lan: "a", score: 0 },
+          { lan: "b", score: 0 },
+        ])
+      ).toBe("a");
+    });
+  });
+
+  describe("pickWorstMove", () => {
+    it("returns the lowest scoring move", () => {
+      expect(
+        pickWorstMove([
+          { lan: "e2e4", score: 30 },
+          { lan: "g2g4", score: -150 },
+          { lan: "d2d4", score: 25 },
+        ])
+      ).toBe("g2g4");
+    });
+
+    it("keeps the first move on a tie", () => {
+      expect(
+        pickWorstMove([
+          { lan: "a", score: 0 },
+          { lan: "b", score: 0 },
+        ])
+      ).toBe("a");
+    });
+  });
+
+  describe("getCaptainId", () => {
+    it("returns the earliest team member still active", () => {
+      const team = new Set(["p1", "p2", "p3"]);
+      expect(getCaptainId(team, new Set(["p3", "p2"]))).toBe("p2");
+    });
+
+    it("returns undefined when nobody is active", () => {
+      expect(getCaptainId(new Set(["p1"]), new Set())).toBeUndefined();
+    });
+  });
+});
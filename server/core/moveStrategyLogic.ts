@@ -0,0 +1,84 @@
+import { MOVE_STRATEGIES } from "../constants.js";
+import type { MoveStrategy } from "../types.js";
+
+/**
+ * Checks that a client-supplied value names a known move strategy.
+ * Pure function - no side effects.
+ */
+export function isMoveStrategy(value: unknown): value is MoveStrategy {
+  return MOVE_STRATEGIES.includes(value as MoveStrategy);
+}
+
+/**
+ * Returns the most proposed moves, in order of first proposal.
+ * Several moves are returned when they share the highest count.
+ * Pure function - no side effects.
+ */
+export function getPluralityLeaders(lans: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const lan of lans) counts.set(lan, (counts.get(lan) ?? 0) + 1);
+  const top = Math.max(0, ...counts.values());
+  return [...counts.keys()].filter((lan) => counts.get(lan) === top);
+}
+
+/**
+ * Picks a move at random, weighted by a softmax over the evaluations:
+ * the better a move scores, the likelier it is to be played.
+ * Pure function - randomness is injected.
+ * @param temperature Centipawns; higher values flatten the distribution
+ * @param random Returns a number in [0, 1)
+ */
+export function pickWeightedRandom(
+  evaluations: { lan: string; score: number }[],
+  temperature: number,
+  random: () => number
+): string {
+  const best = Math.max(...evaluations.map((e) => e.score));
+  const weights = evaluations.map((e) =>
+    Math.exp((e.score - best) / temperature)
+  );
+  const total = weights.reduce((sum, w) => sum + w, 0);
+
+  let roll = random() * total;
+  for (let i = 0; i < evaluations.length; i++) {
+    roll -= weights[i];
+    if (roll < 0) return evaluations[i].lan;
+  }
+  return evaluations[evaluations.length - 1].lan;
+}
+
+/**
+ * Returns the highest scoring move. The first one wins a tie.
+ * Pure function - no side effects.
+ */
+export function pickBestMove(
+  evaluations: { lan: string; score: number }[]
+): string {
+  return evaluations.reduce((best, e) => (e.score > best.score ? e : best)).lan;
+}
+
+/**
+ * Returns the lowest scoring move. The first one wins a tie.
+ * Pure function - no side effects.
+ */
+export function pickWorstMove(
+  evaluations: { lan: string; score: number }[]
+): string {
+  return evaluations.reduce((worst, e) => (e.score < worst.score ? e : worst))
+    .lan;
+}
+
+/**
+ * Determines the team captain: the longest-standing member still active.
+ * Team id sets keep insertion order, so the first active id is the captain.
+ * Pure function - no side effects.
+ */
+export function getCaptainId(
+  teamIds: Iterable<string>,
+  activePids: Set<string>
+): string | undefined {
+  for (const id of teamIds) {
+    if (activePids.has(id)) return id;
+  }
+  return undefined;
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_POSITION } from "chess.js";
+import { parseStartPosition, getTurnFromFen } from "./positionLogic.js";
+import { MSG } from "../shared_messages.js";
+
+const ENDGAME_FEN = "8/8/4k3/8/8/4K3/4P3/8 w - - 0 1";
+
+describe("positionLogic", () => {
+  describe("parseStartPosition", () => {
+    it("accepts a valid FEN", () => {
+      expect(
+        parseStartPosition({ format: "fen", text: ` ${ENDGAME_FEN}\n` })
+      ).toEqual({ fen: ENDGAME_FEN });
+    });
+
+    it("rejects malformed FENs and unknown formats", () => {
+      expect(parseStartPosition({ format: "fen", text: "not a fen" })).toEqual({
+        error: MSG.errorInvalidFen,
+      });
+      expect(parseStartPosition({ format: "epd", text: ENDGAME_FEN })).toEqual({
+        error: MSG.errorInvalidFen,
+      });
+      expect(parseStartPosition(null)).toEqual({ error: MSG.errorInvalidFen });
+    });
+
+    it("uses the final position of a PGN", () => {
+      const result = parseStartPosition({
+        format: "pgn",
+        text: '[Event "Casual"]\n\n1. e4 e5 2. Nf3 Nc6 *',
+      });
+      expect(result.fen).toBe(
+        "r1bqkbnr/pppp1ppp/2n5/4p3/4P3/5N2/PPPP1PPP/RNBQKB1R w KQkq - 2 3"
+      );
+    });
+
+    it("rejects a PGN with an illegal move", () => {
+      expect(parseStartPosition({ format: "pgn", text: "1. e5 *" })).toEqual({
+        error: MSG.errorInvalidPgn,
+      });
+    });
+
+    it("rejects positions where the game is already over", () => {
+      expect(
+        parseStartPosition({
+          format: "pgn",
+          text: "1. f3 e5 2. g4 Qh4# 0-1",
+        })
+      ).toEqual({ error: MSG.errorPositionGameOver });
+    });
+  });
+
+  describe("getTurnFromFen", () => {
+    it("starts the standard position on White's first turn", () => {
+      expect(getTurnFromFen(DEFAULT_POSITION)).toEqual({
+        side: "white",
+        moveNumber: 1,
+      });
+    });
+
+    it("counts turns as plies from the full move number", () => {
+      expect(getTurnFromFen("8/8/4k3/8/8/4K3/4P3/8 b - - 0 20")).toEqual({
+        side: "black",
+        moveNumber: 40,
+      });
+      expect(getTurnFromFen("8/8/4k3/8/8/4K3/4P3/8 w - - 0 20")).toEqual({
+        side: "white",
+        moveNumber: 39,
+      });
+    });
+  });
+});
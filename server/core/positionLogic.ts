@@ -0,0 +1,62 @@
+import { Chess, validateFen } from "chess.js";
+import type { PlayerSide } from "../types.js";
+import { MAX_POSITION_INPUT_LENGTH } from "../constants.js";
+import { MSG } from "../shared_messages.js";
+
+export interface StartPositionResult {
+  fen?: string;
+  error?: string;
+}
+
+/**
+ * Validates a client-supplied start position: a FEN, or a PGN whose final
+ * position is used. Finished positions are rejected.
+ * Pure function - no side effects.
+ */
+export function parseStartPosition(input: unknown): StartPositionResult {
+  if (!input || typeof input !== "object") {
+    return { error: MSG.errorInvalidFen };
+  }
+  const { format, text } = input as { format?: unknown; text?: unknown };
+  if (format !== "fen" && format !== "pgn") {
+    return { error: MSG.errorInvalidFen };
+  }
+  const invalid = format === "fen" ? MSG.errorInvalidFen : MSG.errorInvalidPgn;
+  if (typeof text !== "string" || text.length > MAX_POSITION_INPUT_LENGTH) {
+    return { error: invalid };
+  }
+
+  const chess = new Chess();
+  try {
+    if (format === "fen") {
+      const fen = text.trim();
+      if (!validateFen(fen).ok) return { error: invalid };
+      chess.load(fen);
+    } else {
+      chess.loadPgn(text);
+    }
+  } catch (_e) {
+    return { error: invalid };
+  }
+
+  if (chess.isGameOver()) return { error: MSG.errorPositionGameOver };
+  return { fen: chess.fen() };
+}
+
+/**
+ * Reads the side to move and turn number from a FEN. Turns count plies from
+ * 1, so full move N is turn 2N - 1 for White and 2N for Black.
+ * Pure function - no side effects.
+ */
+export function getTurnFromFen(fen: string): {
+  side: PlayerSide;
+  moveNumber: number;
+} {
+  const [, active, , , , fullMove] = fen.split(" ");
+  const side: PlayerSide = active === "b" ? "black" : "white";
+  const fullMoveNumber = Math.max(1, parseInt(fullMove, 10) || 1);
+  return {
+    side,
+    moveNumber: fullMoveNumber * 2 - (side === "white" ? 1 : 0),
+  };
+}
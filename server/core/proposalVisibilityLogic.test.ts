@@ -0,0 +1,22 @@
+import { describe, it, expect } from "vitest";
+import { canSeeProposal } from "./proposalVisibilityLogic.js";
+
+describe("proposalVisibilityLogic", () => {
+  describe("canSeeProposal", () => {
+    it("shows proposals to the proposing team", () => {
+      expect(canSeeProposal("white", "white")).toBe(true);
+    });
+
+    it("never shows proposals to the other team", () => {
+      expect(canSeeProposal("black", "white")).toBe(false);
+    });
+
+    it("shows proposals to spectators", () => {
+      expect(canSeeProposal("spectator", "black")).toBe(true);
+    });
+
+    it("hides proposals from sockets without a side", () => {
+      expect(canSeeProposal(undefined, "white")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,16 @@
+import type { PlayerSide } from "../types.js";
+
+/**
+ * Checks whether a viewer may see a proposal before its move is played.
+ * Pure function - no side effects.
+ *
+ * The proposing team and spectators see it, the other team never: everyone
+ * gets the full candidate list with move_selected. Spectators are kept
+ * behind the game by the spectator delay (see SpectatorChannel).
+ */
+export function canSeeProposal(
+  viewerSide: string | undefined,
+  proposingSide: PlayerSide
+): boolean {
+  return viewerSide === proposingSide || viewerSide === "spectator";
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { takeRateLimitSlot, type RateLimitWindow } from "./rateLimitLogic.js";
+
+describe("rateLimitLogic", () => {
+  describe("takeRateLimitSlot", () => {
+    it("allows up to the limit within a window", () => {
+      let window: RateLimitWindow | undefined;
+      const allowed: boolean[] = [];
+      for (let i = 0; i < 4; i++) {
+        const result = takeRateLimitSlot(window, 1000 + i, 3, 60000);
+        window = result.window;
+        allowed.push(result.allowed);
+      }
+      expect(allowed).toEqual([true, true, true, false]);
+      expect(window).toEqual({ start: 1000, count: 4 });
+    });
+
+    it("starts a new window once the old one runs out", () => {
+      const full = { start: 1000, count: 3 };
+      expect(takeRateLimitSlot(full, 60999, 3, 60000).allowed).toBe(false);
+      expect(takeRateLimitSlot(full, 61000, 3, 60000)).toEqual({
+        window: { start: 61000, count: 1 },
+        allowed: true,
+      });
+    });
+  });
+});
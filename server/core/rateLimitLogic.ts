@@ -0,0 +1,24 @@
+/** Requests one client has made in the current fixed window */
+export interface RateLimitWindow {
+  start: number;
+  count: number;
+}
+
+/**
+ * Counts a request against a client's window, starting a new window once
+ * the old one has run out.
+ * Pure function - returns the updated window.
+ * @param now Current time (ms since epoch)
+ */
+export function takeRateLimitSlot(
+  window: RateLimitWindow | undefined,
+  now: number,
+  max: number,
+  windowMs: number
+): { window: RateLimitWindow; allowed: boolean } {
+  if (!window || now - window.start >= windowMs) {
+    return { window: { start: now, count: 1 }, allowed: max > 0 };
+  }
+  const count = window.count + 1;
+  return { window: { start: window.start, count }, allowed: count <= max };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { isValidRoomId, sanitizeRoomName, isRoomIdle } from "./roomLogic.js";
+
+describe("roomLogic", () => {
+  describe("isValidRoomId", () => {
+    it("accepts URL-safe ids", () => {
+      expect(isValidRoomId("main")).toBe(true);
+      expect(isValidRoomId("aB3_x-9Z")).toBe(true);
+    });
+
+    it("rejects empty, non-string and unsafe ids", () => {
+      expect(isValidRoomId("")).toBe(false);
+      expect(isValidRoomId(undefined)).toBe(false);
+      expect(isValidRoomId(42)).toBe(false);
+      expect(isValidRoomId("../etc")).toBe(false);
+      expect(isValidRoomId("a".repeat(33))).toBe(false);
+    });
+  });
+
+  describe("sanitizeRoomName", () => {
+    it("trims the name", () => {
+      expect(sanitizeRoomName("  Friday blitz ", "Room x")).toBe(
+        "Friday blitz"
+      );
+    });
+
+    it("truncates long names to 30 characters", () => {
+      expect(sanitizeRoomName("x".repeat(50), "Room x")).toHaveLength(30);
+    });
+
+    it("falls back when the name is blank or not a string", () => {
+      expect(sanitizeRoomName("   ", "Room x")).toBe("Room x");
+      expect(sanitizeRoomName(undefined, "Room x")).toBe("Room x");
+      expect(sanitizeRoomName({ name: "hi" }, "Room x")).toBe("Room x");
+    });
+  });
+
+  describe("isRoomIdle", () => {
+    it("returns false while someone holds a session", () => {
+      expect(isRoomIdle(1, 0, 1_000_000, 60_000, false)).toBe(false);
+    });
+
+    it("returns false for a fresh empty room", () => {
+      expect(isRoomIdle(0, 0, 59_999, 60_000, false)).toBe(false);
+    });
+
+    it("returns true for an old empty room", () => {
+      expect(isRoomIdle(0, 0, 60_000, 60_000, false)).toBe(true);
+    });
+
+    it("never returns true for a persistent room", () => {
+      expect(isRoomIdle(0, 0, 1_000_000, 60_000, true)).toBe(false);
+    });
+  });
+});
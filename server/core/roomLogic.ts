@@ -0,0 +1,38 @@
+import { MAX_ROOM_NAME_LENGTH } from "../constants.js";
+
+const ROOM_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * Checks that a client-supplied room id is URL-safe and bounded.
+ * Pure function - no side effects.
+ */
+export function isValidRoomId(id: unknown): id is string {
+  return typeof id === "string" && ROOM_ID_PATTERN.test(id);
+}
+
+/**
+ * Normalizes a client-supplied room name.
+ * Returns the fallback when nothing usable remains after trimming.
+ */
+export function sanitizeRoomName(name: unknown, fallback: string): string {
+  if (typeof name !== "string") return fallback;
+  const trimmed = name.trim().slice(0, MAX_ROOM_NAME_LENGTH);
+  return trimmed || fallback;
+}
+
+/**
+ * Determines if a room can be discarded.
+ * A room is idle once nobody holds a session in it and it is old enough
+ * that its creator had time to join. Persistent rooms are never idle.
+ */
+export function isRoomIdle(
+  sessionCount: number,
+  createdAt: number,
+  now: number,
+  idleTimeoutMs: number,
+  persistent: boolean
+): boolean {
+  if (persistent) return false;
+  if (sessionCount > 0) return false;
+  return now - createdAt >= idleTimeoutMs;
+}
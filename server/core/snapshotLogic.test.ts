@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import {
+  restoreGameState,
+  snapshotGameState,
+  snapshotSessions,
+} from "./snapshotLogic.js";
+import { createInitialGameState } from "../context/GameContext.js";
+import { createMockEngine } from "../context/MockGameContext.js";
+import { GameStatus } from "../shared_types.js";
+import type { GameStateSnapshot } from "../types.js";
+
+/** Mirrors what a snapshot looks like once read back from disk. */
+function roundTrip(snapshot: GameStateSnapshot): GameStateSnapshot {
+  return JSON.parse(JSON.stringify(snapshot)) as GameStateSnapshot;
+}
+
+describe("snapshotLogic", () => {
+  describe("snapshotGameState / restoreGameState", () => {
+    it("restores the position, move history, teams and clocks", () => {
+      const gameState = createInitialGameState(createMockEngine());
+      gameState.status = GameStatus.AwaitingProposals;
+      gameState.chess.move("e4");
+      gameState.chess.move("e5");
+      gameState.moveNumber = 2;
+      gameState.whiteIds.add("w1");
+      gameState.blackIds.add("b1");
+      gameState.whiteTime = 412;
+      gameState.blackTime = 398;
+      gameState.proposals.set("w1", {
+        lan: "g1f3",
+        san: "Nf3",
+        name: "Al",
+      });
+      gameState.blacklist.add("troll");
+      gameState.drawOffer = "black";
+      gameState.spectatorDelay = { moves: 2, seconds: 0 };
+
+      const engine = createMockEngine();
+      const restored = restoreGameState(
+        roundTrip(snapshotGameState(gameState)),
+        engine
+      );
+
+      expect(restored.chess.fen()).toBe(gameState.chess.fen());
+      expect(restored.chess.history()).toEqual(["e4", "e5"]);
+      expect(restored.status).toBe(GameStatus.AwaitingProposals);
+      expect(restored.moveNumber).toBe(2);
+      expect([...restored.whiteIds]).toEqual(["w1"]);
+      expect([...restored.blackIds]).toEqual(["b1"]);
+      expect(restored.whiteTime).toBe(412);
+      expect(restored.blackTime).toBe(398);
+      expect(restored.proposals.get("w1")?.san).toBe("Nf3");
+      expect(restored.blacklist.has("troll")).toBe(true);
+      expect(restored.drawOffer).toBe("black");
+      expect(restored.spectatorDelay).toEqual({ moves: 2, seconds: 0 });
+      expect(restored.engine).toBe(engine);
+      expect(restored.timerInterval).toBeUndefined();
+    });
+
+    it("puts a turn that was being finalized back to awaiting proposals", () => {
+      const gameState = createInitialGameState(createMockEngine());
+      gameState.status = GameStatus.FinalizingTurn;
+      gameState.proposals.set("w1", {
+        lan: "e2e4",
+        san: "e4",
+        name: "Al",
+      });
+
+      const restored = restoreGameState(
+        roundTrip(snapshotGameState(gameState)),
+        createMockEngine()
+      );
+
+      expect(restored.status).toBe(GameStatus.AwaitingProposals);
+      expect(restored.proposals.size).toBe(1);
+    });
+  });
+
+  describe("restoreGameState", () => {
+    it("moves the turn's timestamps past the downtime", () => {
+      const gameState = createInitialGameState(createMockEngine());
+      gameState.status = GameStatus.AwaitingProposals;
+      gameState.turnStartedAt = 1000;
+      gameState.firstProposalAt = 4000;
+
+      const restored = restoreGameState(
+        roundTrip(snapshotGameState(gameState)),
+        createMockEngine(),
+        60000
+      );
+
+      expect(restored.turnStartedAt).toBe(61000);
+      expect(restored.firstProposalAt).toBe(64000);
+    });
+
+    it("leaves unset timestamps unset", () => {
+      const restored = restoreGameState(
+        roundTrip(
+          snapshotGameState(createInitialGameState(createMockEngine()))
+        ),
+        createMockEngine(),
+        60000
+      );
+
+      expect(restored.turnStartedAt).toBeUndefined();
+      expect(restored.firstProposalAt).toBeUndefined();
+    });
+  });
+
+  describe("snapshotSessions", () => {
+    it("keeps identity and side but not reconnect timers", () => {
+      const timer = setTimeout(() => {}, 0);
+      clearTimeout(timer);
+      const sessions = new Map([
+        [
+          "p1",
+          {
+            pid: "p1",
+            name: "Al",
+            side: "white" as const,
+            reconnectTimer: timer,
+          },
+        ],
+      ]);
+
+      expect(snapshotSessions(sessions)).toEqual([
+        { pid: "p1", name: "Al", side: "white" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { Chess } from "chess.js";
+import type {
+  Engine,
+  GameState,
+  GameStateSnapshot,
+  Session,
+} from "../types.js";
+import { GameStatus } from "../shared_types.js";
+
+/**
+ * Captures the serializable part of a game.
+ * Pure function - no side effects.
+ */
+export function snapshotGameState(gameState: GameState): GameStateSnapshot {
+  return {
+    whiteIds: [...gameState.whiteIds],
+    blackIds: [...gameState.blackIds],
+    moveNumber: gameState.moveNumber,
+    side: gameState.side,
+    proposals: [...gameState.proposals.entries()],
+    whiteTime: gameState.whiteTime,
+    blackTime: gameState.blackTime,
+    timeControl: gameState.timeControl,
+    turnStartTime: gameState.turnStartTime,
+    moveStrategy: gameState.moveStrategy,
+    turnDeadline: gameState.turnDeadline,
+    spectatorDelay: gameState.spectatorDelay,
+    autopilot: gameState.autopilot,
+    engineSettings: gameState.engineSettings,
+    turnStartedAt: gameState.turnStartedAt,
+    firstProposalAt: gameState.firstProposalAt,
+    startFen: gameState.startFen,
+    startedAt: gameState.startedAt,
+    history: gameState.history,
+    pgn: gameState.chess.pgn(),
+    status: gameState.status,
+    endReason: gameState.endReason,
+    endWinner: gameState.endWinner,
+    drawOffer: gameState.drawOffer,
+    blacklist: [...gameState.blacklist],
+  };
+}
+
+/**
+ * Rebuilds a game from a snapshot. The clock is left stopped and votes are
+ * dropped. A turn that was being finalized goes back to awaiting proposals;
+ * its proposals are kept so it finalizes again once players are back.
+ * Pure function - no side effects.
+ * @param downtime How long the server was down (ms); the turn's timestamps
+ * move forward by it, so the turn deadline doesn't run while it was off
+ */
+export function restoreGameState(
+  snapshot: GameStateSnapshot,
+  engine: Engine,
+  downtime = 0
+): GameState {
+  const chess = new Chess();
+  chess.loadPgn(snapshot.pgn);
+  const shift = (time?: number) =>
+    time === undefined ? undefined : time + downtime;
+
+  return {
+    whiteIds: new Set(snapshot.whiteIds),
+    blackIds: new Set(snapshot.blackIds),
+    moveNumber: snapshot.moveNumber,
+    side: snapshot.side,
+    proposals: new Map(snapshot.proposals),
+    whiteTime: snapshot.whiteTime,
+    blackTime: snapshot.blackTime,
+    timeControl: snapshot.timeControl,
+    turnStartTime: snapshot.turnStartTime,
+    moveStrategy: snapshot.moveStrategy,
+    turnDeadline: snapshot.turnDeadline,
+    spectatorDelay: snapshot.spectatorDelay,
+    autopilot: snapshot.autopilot,
+    engineSettings: snapshot.engineSettings,
+    turnStartedAt: shift(snapshot.turnStartedAt),
+    firstProposalAt: shift(snapshot.firstProposalAt),
+    startFen: snapshot.startFen,
+    startedAt: snapshot.startedAt,
+    history: snapshot.history,
+    timerInterval: undefined,
+    engine,
+    chess,
+    status:
+      snapshot.status === GameStatus.FinalizingTurn
+        ? GameStatus.AwaitingProposals
+        : snapshot.status,
+    endReason: snapshot.endReason,
+    endWinner: snapshot.endWinner,
+    drawOffer: snapshot.drawOffer,
+    whiteVote: undefined,
+    blackVote: undefined,
+    kickVote: undefined,
+    resetVote: undefined,
+    blacklist: new Set(snapshot.blacklist),
+  };
+}
+
+/**
+ * Captures sessions without their reconnect timers.
+ * Pure function - no side effects.
+ */
+export function snapshotSessions(
+  sessions: Map<string, Session>
+): { pid: string; name: string; side: Session["side"] }[] {
+  return [...sessions.values()].map(({ pid, name, side }) => ({
+    pid,
+    name,
+    side,
+  }));
+}
@@ -0,0 +1,189 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_POSITION } from "chess.js";
+import {
+  validateSpectatorDelay,
+  isHeldEventDue,
+  applyEventToView,
+} from "./spectatorDelayLogic.js";
+import { GameStatus } from "../shared_types.js";
+import { MSG } from "../shared_messages.js";
+import type { GameView, HeldEvent, Selection } from "../types.js";
+
+function createView(overrides: Partial<GameView> = {}): GameView {
+  return {
+    status: GameStatus.AwaitingProposals,
+    whiteTime: 600,
+    blackTime: 600,
+    fen: DEFAULT_POSITION,
+    startFen: DEFAULT_POSITION,
+    moveNumber: 1,
+    side: "white",
+    history: [],
+    proposals: [],
+    turnDeadlineEnd: null,
+    drawOffer: null,
+    gameOver: null,
+    analysis: null,
+    ...overrides,
+  };
+}
+
+const proposal = {
+  id: "w1",
+  name: "White1",
+  moveNumber: 1,
+  side: "white" as const,
+  lan: "e2e4",
+  san: "e4",
+};
+
+describe("spectatorDelayLogic", () => {
+  describe("validateSpectatorDelay", () => {
+    it("accepts whole numbers within the limits", () => {
+      expect(validateSpectatorDelay({ moves: 2, seconds: 30 })).toEqual({
+        spectatorDelay: { moves: 2, seconds: 30 },
+      });
+    });
+
+    it("treats missing fields as disabled", () => {
+      expect(validateSpectatorDelay({ moves: 1 })).toEqual({
+        spectatorDelay: { moves: 1, seconds: 0 },
+      });
+    });
+
+    it("rejects bad values", () => {
+      for (const input of [
+        null,
+        "10",
+        { moves: -1 },
+        { seconds: 2.5 },
+        { seconds: 100000 },
+        { moves: "1" },
+      ]) {
+        expect(validateSpectatorDelay(input).error).toBe(
+          MSG.errorInvalidSpectatorDelay
+        );
+      }
+    });
+  });
+
+  describe("isHeldEventDue", () => {
+    const held: HeldEvent = { seq: 0, event: "x", heldAt: 1000, ply: 4 };
+    const playing = GameStatus.AwaitingProposals;
+
+    it("waits for the seconds to pass", () => {
+      const delay = { moves: 0, seconds: 10 };
+      expect(isHeldEventDue(held, delay, playing, 4, 10999)).toBe(false);
+      expect(isHeldEventDue(held, delay, playing, 4, 11000)).toBe(true);
+    });
+
+    it("waits for the moves to be played", () => {
+      const delay = { moves: 2, seconds: 0 };
+      expect(isHeldEventDue(held, delay, playing, 5, 999999)).toBe(false);
+      expect(isHeldEventDue(held, delay, playing, 6, 1000)).toBe(true);
+    });
+
+    it("needs every enabled rule to be met", () => {
+      const delay = { moves: 1, seconds: 10 };
+      expect(isHeldEventDue(held, delay, playing, 5, 1000)).toBe(false);
+      expect(isHeldEventDue(held, delay, playing, 4, 11000)).toBe(false);
+      expect(isHeldEventDue(held, delay, playing, 5, 11000)).toBe(true);
+    });
+
+    it("holds nothing with every rule off", () => {
+      expect(
+        isHeldEventDue(held, { moves: 0, seconds: 0 }, playing, 4, 1000)
+      ).toBe(true);
+    });
+
+    it("holds nothing before the game starts or once it is over", () => {
+      const delay = { moves: 3, seconds: 60 };
+      expect(isHeldEventDue(held, delay, GameStatus.Setup, 4, 1000)).toBe(true);
+      expect(isHeldEventDue(held, delay, GameStatus.Over, 4, 1000)).toBe(true);
+    });
+  });
+
+  describe("applyEventToView", () => {
+    it("tracks proposals of the current turn", () => {
+      let view = applyEventToView(createView(), "move_submitted", proposal);
+      view = applyEventToView(view, "move_updated", {
+        ...proposal,
+        lan: "d2d4",
+        san: "d4",
+      });
+      expect(view.proposals).toEqual([{ ...proposal, lan: "d2d4", san: "d4" }]);
+
+      view = applyEventToView(view, "move_retracted", { id: "w1" });
+      expect(view.proposals).toEqual([]);
+    });
+
+    it("plays a selected move and starts the next turn", () => {
+      const selection = {
+        moveNumber: 1,
+        side: "white",
+        lan: "e2e4",
+        san: "e4",
+        fen: "after-e4",
+        candidates: [proposal],
+      } as unknown as Selection;
+
+      let view = applyEventToView(
+        createView({ proposals: [proposal] }),
+        "move_selected",
+        selection
+      );
+      view = applyEventToView(view, "turn_change", {
+        moveNumber: 1,
+        side: "black",
+      });
+
+      expect(view).toMatchObject({
+        fen: "after-e4",
+        history: [selection],
+        proposals: [],
+        moveNumber: 1,
+        side: "black",
+      });
+    });
+
+    it("follows the game from start to reset", () => {
+      let view = createView({ status: GameStatus.Setup });
+      view = applyEventToView(view, "game_started", {
+        moveNumber: 1,
+        side: "white",
+        proposals: [],
+        startFen: DEFAULT_POSITION,
+        history: [],
+      });
+      expect(view.status).toBe(GameStatus.AwaitingProposals);
+
+      const gameOver = {
+        reason: "resignation",
+        winner: "black",
+        pgn: "",
+        annotatedPgn: "",
+      };
+      view = applyEventToView(view, "draw_offer_update", { side: "white" });
+      view = applyEventToView(view, "game_over", gameOver);
+      expect(view).toMatchObject({
+        status: GameStatus.Over,
+        gameOver,
+        drawOffer: null,
+      });
+
+      view = applyEventToView(view, "game_reset", undefined);
+      expect(view).toMatchObject({
+        status: GameStatus.Setup,
+        history: [],
+        gameOver: null,
+      });
+    });
+
+    it("ignores events that don't describe the game", () => {
+      const view = createView();
+      expect(applyEventToView(view, "chat_message", { message: "hi" })).toBe(
+        view
+      );
+    });
+  });
+});
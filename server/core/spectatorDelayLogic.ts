@@ -0,0 +1,172 @@
+import type {
+  GameView,
+  HeldEvent,
+  Proposal,
+  Selection,
+  SpectatorDelay,
+} from "../types.js";
+import { GameStatus } from "../shared_types.js";
+import { SPECTATOR_DELAY_LIMITS } from "../constants.js";
+import { MSG } from "../shared_messages.js";
+
+export interface SpectatorDelayValidationResult {
+  spectatorDelay?: SpectatorDelay;
+  error?: string;
+}
+
+/**
+ * Validates a client-supplied spectator delay.
+ * Pure function - every field must be a whole number within its limits.
+ */
+export function validateSpectatorDelay(
+  input: unknown
+): SpectatorDelayValidationResult {
+  if (!input || typeof input !== "object") {
+    return { error: MSG.errorInvalidSpectatorDelay };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const spectatorDelay = {} as SpectatorDelay;
+
+  for (const [key, [min, max]] of Object.entries(SPECTATOR_DELAY_LIMITS)) {
+    const value = raw[key] ?? 0;
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < min ||
+      value > max
+    ) {
+      return { error: MSG.errorInvalidSpectatorDelay };
+    }
+    spectatorDelay[key as keyof SpectatorDelay] = value;
+  }
+
+  return { spectatorDelay };
+}
+
+/**
+ * Checks whether a held event may reach spectators. Nothing is held before
+ * the game starts or after it ends, nor with every rule off.
+ * Pure function - no side effects.
+ * @param plies Moves played so far
+ * @param now Current time (ms since epoch)
+ */
+export function isHeldEventDue(
+  held: HeldEvent,
+  delay: SpectatorDelay,
+  status: GameStatus,
+  plies: number,
+  now: number
+): boolean {
+  if (status === GameStatus.Setup || status === GameStatus.Over) return true;
+  if (delay.moves > 0 && plies - held.ply < delay.moves) return false;
+  if (delay.seconds > 0 && now - held.heldAt < delay.seconds * 1000) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Applies a broadcast to what a client has been shown, the way the client
+ * itself would. Events that don't describe the game leave it unchanged.
+ * Pure function - returns a new view.
+ */
+export function applyEventToView(
+  view: GameView,
+  event: string,
+  data: unknown
+): GameView {
+  switch (event) {
+    case "game_status_update":
+      return { ...view, status: (data as { status: GameStatus }).status };
+    case "clock_update": {
+      const { whiteTime, blackTime } = data as GameView;
+      return { ...view, whiteTime, blackTime };
+    }
+    case "position_update":
+      return { ...view, fen: (data as { fen: string }).fen };
+    case "game_started": {
+      const { moveNumber, side, proposals, startFen, history } =
+        data as GameView;
+      return {
+        ...view,
+        status: GameStatus.AwaitingProposals,
+        moveNumber,
+        side,
+        proposals,
+        startFen,
+        history,
+        drawOffer: null,
+        gameOver: null,
+        analysis: null,
+      };
+    }
+    case "game_reset":
+      return {
+        ...view,
+        status: GameStatus.Setup,
+        history: [],
+        proposals: [],
+        turnDeadlineEnd: null,
+        drawOffer: null,
+        gameOver: null,
+        analysis: null,
+      };
+    case "move_submitted":
+    case "move_updated": {
+      const proposal = data as Proposal;
+      return {
+        ...view,
+        proposals: [
+          ...view.proposals.filter((p) => p.id !== proposal.id),
+          proposal,
+        ],
+      };
+    }
+    case "move_retracted": {
+      const { id } = data as { id: string };
+      return { ...view, proposals: view.proposals.filter((p) => p.id !== id) };
+    }
+    case "move_selected": {
+      const selection = data as Selection;
+      return {
+        ...view,
+        fen: selection.fen,
+        history: [...view.history, selection],
+        proposals: [],
+      };
+    }
+    case "turn_change": {
+      const { moveNumber, side } = data as GameView;
+      return {
+        ...view,
+        moveNumber,
+        side,
+        proposals: [],
+        turnDeadlineEnd: null,
+      };
+    }
+    case "turn_deadline_timer":
+      return {
+        ...view,
+        turnDeadlineEnd: (data as { endTime: number | null }).endTime,
+      };
+    case "draw_offer_update":
+      return {
+        ...view,
+        drawOffer: (data as { side: GameView["drawOffer"] }).side,
+      };
+    case "game_over":
+      return {
+        ...view,
+        status: GameStatus.Over,
+        gameOver: data as GameView["gameOver"],
+        turnDeadlineEnd: null,
+        drawOffer: null,
+      };
+    case "analysis_update":
+      return { ...view, analysis: data as GameView["analysis"] };
+    default:
+      return view;
+  }
+}
@@ -0,0 +1,246 @@
+import { describe, it, expect } from "vitest";
+import {
+  createPlayerTally,
+  getExpectedScore,
+  getProposalLosses,
+  applyGameToTallies,
+  toPlayerStats,
+} from "./statsLogic.js";
+import type { GameRecord, PlayerTally, Selection } from "../types.js";
+import {
+  DEFAULT_TIME_CONTROL,
+  INITIAL_RATING,
+  RATING_K_FACTOR,
+} from "../constants.js";
+
+function turn(
+  lan: string,
+  candidates: { id: string; lan: string; score?: number }[],
+  best?: { lan: string; score: number }
+): Selection {
+  return {
+    best,
+    id: candidates[0].id,
+    name: candidates[0].id,
+    moveNumber: 1,
+    side: "white",
+    lan,
+    fen: "",
+    strategy: "engine_best",
+    candidates: candidates.map(({ id, lan, score }) => ({
+      id,
+      name: id,
+      moveNumber: 1,
+      side: "white",
+      lan,
+      evaluation: score === undefined ? undefined : { score, pv: [] },
+    })),
+  };
+}
+
+function game(overrides: Partial<GameRecord> = {}): GameRecord {
+  return {
+    id: "g1",
+    roomId: "r1",
+    roomName: "Room",
+    startedAt: 1000,
+    endedAt: 2000,
+    result: "1-0",
+    reason: "checkmate",
+    winner: "white",
+    white: [{ id: "w1", name: "Alice" }],
+    black: [{ id: "b1", name: "Bob" }],
+    timeControl: DEFAULT_TIME_CONTROL,
+    moveStrategy: "engine_best",
+    pgn: "",
+    turns: [],
+    ...overrides,
+  };
+}
+
+function byId(tallies: PlayerTally[]): Map<string, PlayerTally> {
+  return new Map(tallies.map((t) => [t.id, t]));
+}
+
+describe("statsLogic", () => {
+  describe("getExpectedScore", () => {
+    it("favours the higher rated team", () => {
+      expect(getExpectedScore(1500, 1500)).toBe(0.5);
+      expect(getExpectedScore(1900, 1500)).toBeCloseTo(10 / 11);
+      expect(getExpectedScore(1500, 1900)).toBeCloseTo(1 / 11);
+    });
+  });
+
+  describe("getProposalLosses", () => {
+    it("measures each proposal against the engine's choice, capping mates", () => {
+      const losses = getProposalLosses(
+        turn(
+          "d2d4",
+          [
+            { id: "a", lan: "d2d4", score: 40 },
+            { id: "b", lan: "g2g4", score: -60 },
+            { id: "c", lan: "c2c4" },
+          ],
+          { lan: "e2e4", score: 100000 }
+        )
+      );
+      expect(losses).toEqual(
+        new Map([
+          ["a", 960],
+          ["b", 1060],
+        ])
+      );
+    });
+
+    it("charges nothing for the engine's own move", () => {
+      const losses = getProposalLosses(
+        turn(
+          "e2e4",
+          [
+            { id: "a", lan: "e2e4", score: 35 },
+            { id: "b", lan: "d2d4", score: 40 },
+          ],
+          { lan: "e2e4", score: 30 }
+        )
+      );
+      expect(losses).toEqual(
+        new Map([
+          ["a", 0],
+          ["b", 0],
+        ])
+      );
+    });
+
+    it("counts no losses without the engine's choice", () => {
+      const losses = getProposalLosses(
+        turn("e2e4", [{ id: "a", lan: "e2e4", score: 30 }])
+      );
+      expect(losses.size).toBe(0);
+    });
+  });
+
+  describe("applyGameToTallies", () => {
+    it("records results by team and moves ratings", () => {
+      const tallies = byId(applyGameToTallies(new Map(), game()));
+
+      expect(tallies.get("w1")).toMatchObject({
+        name: "Alice",
+        games: 1,
+        white: { games: 1, wins: 1, losses: 0, draws: 0 },
+        rating: INITIAL_RATING + RATING_K_FACTOR / 2,
+        lastPlayedAt: 2000,
+      });
+      expect(tallies.get("b1")).toMatchObject({
+        games: 1,
+        black: { games: 1, wins: 0, losses: 1, draws: 0 },
+        rating: INITIAL_RATING - RATING_K_FACTOR / 2,
+      });
+    });
+
+    it("rates teams by their average and leaves earlier totals alone", () => {
+      const before = new Map([
+        ["w1", { ...createPlayerTally("w1", "Alice"), rating: 1700 }],
+      ]);
+      const tallies = byId(
+        applyGameToTallies(
+          before,
+          game({
+            winner: null,
+            white: [
+              { id: "w1", name: "Alice" },
+              { id: "w2", name: "Carol" },
+            ],
+          })
+        )
+      );
+
+      // White averages 1600 against 1500, so a draw costs it points
+      const expected = getExpectedScore(1600, 1500);
+      expect(tallies.get("w1")!.rating).toBeCloseTo(
+        1700 + RATING_K_FACTOR * (0.5 - expected)
+      );
+      expect(tallies.get("w2")!.white.draws).toBe(1);
+      expect(before.get("w1")!.rating).toBe(1700);
+    });
+
+    it("does not rate a game one team had no players for", () => {
+      const tallies = byId(applyGameToTallies(new Map(), game({ black: [] })));
+      expect(tallies.get("w1")).toMatchObject({
+        games: 1,
+        rating: INITIAL_RATING,
+      });
+    });
+
+    it("gives players who switched teams no result", () => {
+      const tallies = byId(
+        applyGameToTallies(
+          new Map(),
+          game({
+            white: [
+              { id: "w1", name: "Alice" },
+              { id: "x", name: "Dave" },
+            ],
+            black: [
+              { id: "b1", name: "Bob" },
+              { id: "x", name: "Dave" },
+            ],
+          })
+        )
+      );
+      expect(tallies.get("x")).toMatchObject({
+        games: 0,
+        rating: INITIAL_RATING,
+      });
+    });
+
+    it("counts proposals, hits and centipawn loss", () => {
+      const tallies = byId(
+        applyGameToTallies(
+          new Map(),
+          game({
+            white: [
+              { id: "w1", name: "Alice" },
+              { id: "w2", name: "Carol" },
+            ],
+            turns: [
+              turn(
+                "e2e4",
+                [
+                  { id: "w1", lan: "e2e4", score: 50 },
+                  { id: "w2", lan: "d2d4", score: 20 },
+                ],
+                { lan: "e2e4", score: 50 }
+              ),
+              turn("g1f3", [
+                { id: "w1", lan: "g1f3" },
+                { id: "w2", lan: "g1f3" },
+              ]),
+            ],
+          })
+        )
+      );
+
+      expect(toPlayerStats(tallies.get("w1")!)).toMatchObject({
+        proposals: 2,
+        selected: 2,
+        hitRate: 1,
+        averageCpLoss: 0,
+      });
+      expect(toPlayerStats(tallies.get("w2")!)).toMatchObject({
+        proposals: 2,
+        selected: 1,
+        hitRate: 0.5,
+        averageCpLoss: 30,
+      });
+    });
+  });
+
+  describe("toPlayerStats", () => {
+    it("leaves rates empty before any proposal", () => {
+      const stats = toPlayerStats(createPlayerTally("p1", "Alice"));
+      expect(stats.hitRate).toBeNull();
+      expect(stats.averageCpLoss).toBeNull();
+      expect(stats).not.toHaveProperty("totalCpLoss");
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import type {
+  GameRecord,
+  PlayerSide,
+  PlayerStats,
+  PlayerTally,
+  Selection,
+  SideRecord,
+} from "../types.js";
+import { INITIAL_RATING, RATING_K_FACTOR } from "../constants.js";
+import { capEval } from "./analysisLogic.js";
+
+function emptySideRecord(): SideRecord {
+  return { games: 0, wins: 0, losses: 0, draws: 0 };
+}
+
+/**
+ * Totals for a player who has not finished a game yet.
+ * Pure function - no side effects.
+ */
+export function createPlayerTally(id: string, name: string): PlayerTally {
+  return {
+    id,
+    name,
+    rating: INITIAL_RATING,
+    games: 0,
+    white: emptySideRecord(),
+    black: emptySideRecord(),
+    proposals: 0,
+    selected: 0,
+    evaluatedProposals: 0,
+    totalCpLoss: 0,
+    lastPlayedAt: 0,
+  };
+}
+
+/**
+ * Elo expected score of a team against another.
+ * Pure function - no side effects.
+ * @returns Between 0 and 1; 0.5 for equal ratings
+ */
+export function getExpectedScore(
+  rating: number,
+  opponentRating: number
+): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+/**
+ * Centipawns each evaluated proposal of a turn lost against the engine's
+ * own choice in the position, by proposer. Turns stored without that
+ * choice count no losses.
+ * Pure function - no side effects.
+ */
+export function getProposalLosses(turn: Selection): Map<string, number> {
+  const { best } = turn;
+  if (!best) return new Map();
+  const scored = turn.candidates.filter((c) => c.evaluation);
+  return new Map(
+    scored.map((c) => [
+      c.id,
+      c.lan === best.lan
+        ? 0
+        : Math.max(0, capEval(best.score) - capEval(c.evaluation!.score)),
+    ])
+  );
+}
+
+/**
+ * Folds a finished game into its players' totals: team results, rating,
+ * proposals and their centipawn loss. Games are rated only when both teams
+ * had players; someone who played for both teams gets no result for the
+ * game, only credit for their proposals.
+ * Pure function - no side effects.
+ * @param tallies Totals before the game, by player id
+ * @returns New totals for everyone who played in the game
+ */
+export function applyGameToTallies(
+  tallies: ReadonlyMap<string, PlayerTally>,
+  record: GameRecord
+): PlayerTally[] {
+  const updated = new Map<string, PlayerTally>();
+  const tallyFor = (id: string, name: string): PlayerTally => {
+    let tally = updated.get(id);
+    if (!tally) {
+      const prev = tallies.get(id) ?? createPlayerTally(id, name);
+      tally = { ...prev, white: { ...prev.white }, black: { ...prev.black } };
+      updated.set(id, tally);
+    }
+    return tally;
+  };
+
+  const whiteIds = new Set(record.white.map((p) => p.id));
+  const teams = {
+    white: record.white.filter((p) => !record.black.some((b) => b.id === p.id)),
+    black: record.black.filter((p) => !whiteIds.has(p.id)),
+  };
+  const teamRating = (side: PlayerSide) =>
+    teams[side].reduce(
+      (sum, p) => sum + (tallies.get(p.id)?.rating ?? INITIAL_RATING),
+      0
+    ) / teams[side].length;
+  const isRated = teams.white.length > 0 && teams.black.length > 0;
+  const ratings = isRated
+    ? { white: teamRating("white"), black: teamRating("black") }
+    : undefined;
+
+  for (const p of [...record.white, ...record.black]) {
+    const tally = tallyFor(p.id, p.name);
+    tally.name = p.name;
+    tally.lastPlayedAt = Math.max(tally.lastPlayedAt, record.endedAt);
+  }
+
+  for (const side of ["white", "black"] as const) {
+    const opponent = side === "white" ? "black" : "white";
+    const score = record.winner === null ? 0.5 : record.winner === side ? 1 : 0;
+    for (const p of teams[side]) {
+      const tally = tallyFor(p.id, p.name);
+      tally.games++;
+      tally[side].games++;
+      if (score === 1) tally[side].wins++;
+      else if (score === 0) tally[side].losses++;
+      else tally[side].draws++;
+      if (ratings) {
+        const expected = getExpectedScore(ratings[side], ratings[opponent]);
+        tally.rating += RATING_K_FACTOR * (score - expected);
+      }
+    }
+  }
+
+  for (const turn of record.turns) {
+    const losses = getProposalLosses(turn);
+    for (const c of turn.candidates) {
+      const tally = tallyFor(c.id, c.name);
+      tally.proposals++;
+      if (c.lan === turn.lan) tally.selected++;
+      const loss = losses.get(c.id);
+      if (loss !== undefined) {
+        tally.evaluatedProposals++;
+        tally.totalCpLoss += loss;
+      }
+    }
+  }
+
+  return [...updated.values()];
+}
+
+/**
+ * Totals of everyone who played in a list of games, oldest game first.
+ * Pure function - no side effects.
+ */
+export function tallyGames(records: GameRecord[]): Map<string, PlayerTally> {
+  const tallies = new Map<string, PlayerTally>();
+  for (const record of records) {
+    for (const tally of applyGameToTallies(tallies, record)) {
+      tallies.set(tally.id, tally);
+    }
+  }
+  return tallies;
+}
+
+/**
+ * Public view of a player's totals, with the rates worked out.
+ * Pure function - no side effects.
+ */
+export function toPlayerStats(tally: PlayerTally): PlayerStats {
+  const { evaluatedProposals, totalCpLoss, ...stats } = tally;
+  return {
+    ...stats,
+    rating: Math.round(tally.rating),
+    hitRate: tally.proposals > 0 ? tally.selected / tally.proposals : null,
+    averageCpLoss:
+      evaluatedProposals > 0
+        ? Math.round(totalCpLoss / evaluatedProposals)
+        : null,
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { validateTimeControl } from "./timeControlLogic.js";
+import { DEFAULT_TIME_CONTROL } from "../constants.js";
+
+describe("timeControlLogic", () => {
+  describe("validateTimeControl", () => {
+    it("accepts the default time control", () => {
+      expect(validateTimeControl(DEFAULT_TIME_CONTROL)).toEqual({
+        timeControl: DEFAULT_TIME_CONTROL,
+      });
+    });
+
+    it("treats missing optional fields as disabled", () => {
+      expect(validateTimeControl({ baseTime: 300, increment: 3 })).toEqual({
+        timeControl: {
+          baseTime: 300,
+          increment: 3,
+          incrementThreshold: 0,
+          delay: 0,
+          moveTime: 0,
+        },
+      });
+    });
+
+    it("drops unknown fields", () => {
+      const result = validateTimeControl({ baseTime: 300, hack: true });
+      expect(result.timeControl).not.toHaveProperty("hack");
+    });
+
+    it("rejects non-objects", () => {
+      expect(validateTimeControl(null).error).toBeDefined();
+      expect(validateTimeControl("10+5").error).toBeDefined();
+    });
+
+    it("rejects a missing or too short base time", () => {
+      expect(validateTimeControl({}).error).toBeDefined();
+      expect(validateTimeControl({ baseTime: 5 }).error).toBeDefined();
+    });
+
+    it("rejects out-of-range, fractional and non-numeric values", () => {
+      expect(
+        validateTimeControl({ baseTime: 300, increment: 500 }).error
+      ).toBeDefined();
+      expect(
+        validateTimeControl({ baseTime: 300, delay: 1.5 }).error
+      ).toBeDefined();
+      expect(
+        validateTimeControl({ baseTime: 300, moveTime: "30" }).error
+      ).toBeDefined();
+      expect(
+        validateTimeControl({ baseTime: 300, increment: -1 }).error
+      ).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import type { TimeControl } from "../types.js";
+import { TIME_CONTROL_LIMITS } from "../constants.js";
+import { MSG } from "../shared_messages.js";
+
+export interface TimeControlValidationResult {
+  timeControl?: TimeControl;
+  error?: string;
+}
+
+/**
+ * Validates a client-supplied time control.
+ * Pure function - every field must be a whole number within its limits.
+ */
+export function validateTimeControl(
+  input: unknown
+): TimeControlValidationResult {
+  if (!input || typeof input !== "object") {
+    return { error: MSG.errorInvalidTimeControl };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const timeControl = {} as TimeControl;
+
+  for (const [key, [min, max]] of Object.entries(TIME_CONTROL_LIMITS)) {
+    const value = raw[key] ?? 0;
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < min ||
+      value > max
+    ) {
+      return { error: MSG.errorInvalidTimeControl };
+    }
+    timeControl[key as keyof TimeControl] = value;
+  }
+
+  return { timeControl };
+}
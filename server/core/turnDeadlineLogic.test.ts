@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateTurnDeadline,
+  getTurnDeadlineEnd,
+} from "./turnDeadlineLogic.js";
+import { MSG } from "../shared_messages.js";
+
+describe("turnDeadlineLogic", () => {
+  describe("validateTurnDeadline", () => {
+    it("accepts whole seconds within the limits", () => {
+      expect(
+        validateTurnDeadline({ afterFirstProposal: 30, perTurn: 0 })
+      ).toEqual({ turnDeadline: { afterFirstProposal: 30, perTurn: 0 } });
+    });
+
+    it("treats missing fields as disabled", () => {
+      expect(validateTurnDeadline({ perTurn: 60 })).toEqual({
+        turnDeadline: { afterFirstProposal: 0, perTurn: 60 },
+      });
+    });
+
+    it("rejects bad values", () => {
+      for (const input of [
+        null,
+        "30",
+        { afterFirstProposal: -1 },
+        { perTurn: 1.5 },
+        { perTurn: 100000 },
+        { afterFirstProposal: "30" },
+      ]) {
+        expect(validateTurnDeadline(input).error).toBe(
+          MSG.errorInvalidTurnDeadline
+        );
+      }
+    });
+  });
+
+  describe("getTurnDeadlineEnd", () => {
+    it("has no deadline when every rule is off", () => {
+      expect(
+        getTurnDeadlineEnd({ afterFirstProposal: 0, perTurn: 0 }, 1000, 2000)
+      ).toBeUndefined();
+    });
+
+    it("counts the per-turn rule from the start of the turn", () => {
+      expect(
+        getTurnDeadlineEnd(
+          { afterFirstProposal: 0, perTurn: 30 },
+          1000,
+          undefined
+        )
+      ).toBe(31000);
+    });
+
+    it("waits for a first proposal before counting that rule", () => {
+      const deadline = { afterFirstProposal: 30, perTurn: 0 };
+      expect(getTurnDeadlineEnd(deadline, 1000, undefined)).toBeUndefined();
+      expect(getTurnDeadlineEnd(deadline, 1000, 5000)).toBe(35000);
+    });
+
+    it("uses the earliest rule when both apply", () => {
+      expect(
+        getTurnDeadlineEnd({ afterFirstProposal: 30, perTurn: 60 }, 0, 40000)
+      ).toBe(60000);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import type { TurnDeadline } from "../types.js";
+import { TURN_DEADLINE_LIMITS } from "../constants.js";
+import { MSG } from "../shared_messages.js";
+
+export interface TurnDeadlineValidationResult {
+  turnDeadline?: TurnDeadline;
+  error?: string;
+}
+
+/**
+ * Validates a client-supplied turn deadline.
+ * Pure function - every field must be a whole number within its limits.
+ */
+export function validateTurnDeadline(
+  input: unknown
+): TurnDeadlineValidationResult {
+  if (!input || typeof input !== "object") {
+    return { error: MSG.errorInvalidTurnDeadline };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const turnDeadline = {} as TurnDeadline;
+
+  for (const [key, [min, max]] of Object.entries(TURN_DEADLINE_LIMITS)) {
+    const value = raw[key] ?? 0;
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < min ||
+      value > max
+    ) {
+      return { error: MSG.errorInvalidTurnDeadline };
+    }
+    turnDeadline[key as keyof TurnDeadline] = value;
+  }
+
+  return { turnDeadline };
+}
+
+/**
+ * Gets when the current turn's deadline runs out (ms since epoch), or
+ * undefined while no rule applies. The earliest active rule wins.
+ * Pure function - no side effects.
+ */
+export function getTurnDeadlineEnd(
+  turnDeadline: TurnDeadline,
+  turnStartedAt: number | undefined,
+  firstProposalAt: number | undefined
+): number | undefined {
+  const ends: number[] = [];
+  if (turnDeadline.perTurn > 0 && turnStartedAt !== undefined) {
+    ends.push(turnStartedAt + turnDeadline.perTurn * 1000);
+  }
+  if (turnDeadline.afterFirstProposal > 0 && firstProposalAt !== undefined) {
+    ends.push(firstProposalAt + turnDeadline.afterFirstProposal * 1000);
+  }
+  return ends.length > 0 ? Math.min(...ends) : undefined;
+}
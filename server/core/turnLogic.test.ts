@@ -2,12 +2,15 @@ import { describe, it, expect } from "vitest";
 import { Chess } from "chess.js";
 import {
   DEFAULT_CLOCK_TIME,
+  DEFAULT_TIME_CONTROL,
   INCREMENT_THRESHOLD,
   TIME_INCREMENT,
 } from "../constants.js";
 import {
   shouldFinalizeTurn,
   calculateIncrement,
+  calculateClockAfterMove,
+  getInitialClockTime,
   validateAndApplyMove,
   detectGameOver,
   getOppositeSide,
@@ -113,6 +116,37 @@ describe("turnLogic", () => {
       expect(shouldFinalizeTurn(state, online)).toBe(false);
     });
 
+    it("returns true past the deadline once someone has proposed", () => {
+      const state = {
+        status: GameStatus.AwaitingProposals,
+        side: "white" as const,
+        moveNumber: 1,
+        whiteTime: 600,
+        blackTime: 600,
+        proposals: new Map([["p1", { lan: "e2e4", san: "e4", name: "Alice" }]]),
+        deadlineEnd: 30000,
+      };
+      const online = { activeTeamPids: new Set(["p1", "p2"]) };
+
+      expect(shouldFinalizeTurn(state, online, 29999)).toBe(false);
+      expect(shouldFinalizeTurn(state, online, 30000)).toBe(true);
+    });
+
+    it("keeps waiting past the deadline without any proposal", () => {
+      const state = {
+        status: GameStatus.AwaitingProposals,
+        side: "white" as const,
+        moveNumber: 1,
+        whiteTime: 600,
+        blackTime: 600,
+        proposals: new Map(),
+        deadlineEnd: 30000,
+      };
+      const online = { activeTeamPids: new Set(["p1"]) };
+
+      expect(shouldFinalizeTurn(state, online, 60000)).toBe(false);
+    });
+
     it("ignores proposals from offline players", () => {
       const proposals = new Map([
         ["p1", { lan: "e2e4", san: "e4", name: "Alice" }],
@@ -148,6 +182,75 @@ describe("turnLogic", () => {
     });
   });
 
+  describe("calculateIncrement with a custom time control", () => {
+    const fischer = {
+      baseTime: 300,
+      increment: 3,
+      incrementThreshold: 0,
+      delay: 0,
+      moveTime: 0,
+    };
+
+    it("always awards the increment without a threshold", () => {
+      expect(calculateIncrement(300, fischer)).toBe(3);
+      expect(calculateIncrement(5, fischer)).toBe(3);
+    });
+
+    it("awards nothing when the increment is 0", () => {
+      expect(calculateIncrement(5, { ...fischer, increment: 0 })).toBe(0);
+    });
+  });
+
+  describe("calculateClockAfterMove", () => {
+    const base = {
+      baseTime: 300,
+      increment: 0,
+      incrementThreshold: 0,
+      delay: 0,
+      moveTime: 0,
+    };
+
+    it("keeps the clock unchanged with no bonus rules", () => {
+      expect(calculateClockAfterMove(250, 20, base)).toBe(250);
+    });
+
+    it("adds the Fischer increment", () => {
+      expect(calculateClockAfterMove(250, 20, { ...base, increment: 5 })).toBe(
+        255
+      );
+    });
+
+    it("gives back the time used, up to the Bronstein delay", () => {
+      const tc = { ...base, delay: 5 };
+      expect(calculateClockAfterMove(250, 3, tc)).toBe(253);
+      expect(calculateClockAfterMove(250, 20, tc)).toBe(255);
+    });
+
+    it("matches the default rule: +10s only at or below one minute", () => {
+      expect(calculateClockAfterMove(60, 5, DEFAULT_TIME_CONTROL)).toBe(70);
+      expect(calculateClockAfterMove(61, 5, DEFAULT_TIME_CONTROL)).toBe(61);
+    });
+
+    it("restarts from the per-move budget", () => {
+      expect(calculateClockAfterMove(4, 26, { ...base, moveTime: 30 })).toBe(
+        30
+      );
+    });
+  });
+
+  describe("getInitialClockTime", () => {
+    it("uses the base time", () => {
+      expect(getInitialClockTime(DEFAULT_TIME_CONTROL)).toBe(
+        DEFAULT_CLOCK_TIME
+      );
+    });
+
+    it("uses the per-move budget when set", () => {
+      expect(
+        getInitialClockTime({ ...DEFAULT_TIME_CONTROL, moveTime: 30 })
+      ).toBe(30);
+    });
+  });
   describe("validateAndApplyMove", () => {
     it("applies a valid move successfully", () => {
       const chess = new Chess();
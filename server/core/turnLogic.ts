@@ -1,7 +1,7 @@
 import { Chess } from "chess.js";
 import { GameStatus, EndReason } from "../shared_types.js";
-import type { PlayerSide } from "../types.js";
-import { INCREMENT_THRESHOLD, TIME_INCREMENT } from "../constants.js";
+import type { PlayerSide, TimeControl } from "../types.js";
+import { DEFAULT_TIME_CONTROL } from "../constants.js";
 
 export interface TurnState {
   status: GameStatus;
@@ -10,6 +10,8 @@ export interface TurnState {
   whiteTime: number;
   blackTime: number;
   proposals: Map<string, { lan: string; san: string; name: string }>;
+  /** When the turn deadline runs out (ms since epoch), if there is one */
+  deadlineEnd?: number;
 }
 
 export interface OnlinePlayerInfo {
@@ -19,12 +21,23 @@ export interface OnlinePlayerInfo {
 /**
  * Determines if a turn should be finalized based on current state.
  * Pure function - no side effects.
+ * @param now Current time (ms since epoch), to check the turn deadline
  */
 export function shouldFinalizeTurn(
   state: TurnState,
-  online: OnlinePlayerInfo
+  online: OnlinePlayerInfo,
+  now?: number
 ): boolean {
   if (state.status !== GameStatus.AwaitingProposals) return false;
+
+  // Past the deadline, play whatever has been proposed so far
+  if (
+    state.deadlineEnd !== undefined &&
+    now !== undefined &&
+    now >= state.deadlineEnd
+  ) {
+    return state.proposals.size > 0;
+  }
   if (online.activeTeamPids.size === 0) return false;
 
   const onlineProposalCount = [...state.proposals.keys()].filter((pid) =>
@@ -35,11 +48,44 @@ export function shouldFinalizeTurn(
 }
 
 /**
- * Calculates time increment based on current time.
- * Returns 10 seconds if time is 60 or less, 0 otherwise.
+ * Calculates the Fischer increment earned at the end of a turn.
+ * With a threshold, the increment is only awarded at or below it
+ * (by default: 10 seconds if time is 60 or less, 0 otherwise).
+ */
+export function calculateIncrement(
+  currentTime: number,
+  timeControl: TimeControl = DEFAULT_TIME_CONTROL
+): number {
+  const { increment, incrementThreshold } = timeControl;
+  if (increment <= 0) return 0;
+  if (incrementThreshold > 0 && currentTime > incrementThreshold) return 0;
+  return increment;
+}
+
+/**
+ * Calculates a side's clock after it completes a turn.
+ * Pure function - applies per-move reset, Bronstein delay and increment.
+ * @param currentTime Clock of the side that just moved
+ * @param spent Seconds used during the turn
+ */
+export function calculateClockAfterMove(
+  currentTime: number,
+  spent: number,
+  timeControl: TimeControl
+): number {
+  if (timeControl.moveTime > 0) return timeControl.moveTime;
+
+  const delayRefund = Math.min(timeControl.delay, Math.max(0, spent));
+  return (
+    currentTime + delayRefund + calculateIncrement(currentTime, timeControl)
+  );
+}
+
+/**
+ * Gets the clock each side starts the game with.
  */
-export function calculateIncrement(currentTime: number): number {
-  return currentTime <= INCREMENT_THRESHOLD ? TIME_INCREMENT : 0;
+export function getInitialClockTime(timeControl: TimeControl): number {
+  return timeControl.moveTime > 0 ? timeControl.moveTime : timeControl.baseTime;
 }
 
 export interface MoveResult {
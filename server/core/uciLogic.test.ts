@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseInfoLine,
+  parseBestMove,
+  parseSetOption,
+  parseUciHandshake,
+  scoreToCentipawns,
+  lanLineToSan,
+  toMoveEval,
+} from "./uciLogic.js";
+import { MATE_SCORE_CP } from "../constants.js";
+
+describe("uciLogic", () => {
+  describe("scoreToCentipawns", () => {
+    it("keeps centipawn scores", () => {
+      expect(scoreToCentipawns("cp", -35)).toBe(-35);
+    });
+
+    it("ranks closer mates higher", () => {
+      expect(scoreToCentipawns("mate", 1)).toBe(MATE_SCORE_CP - 1);
+      expect(scoreToCentipawns("mate", 1)).toBeGreaterThan(
+        scoreToCentipawns("mate", 3)
+      );
+    });
+
+    it("ranks being mated below any centipawn score", () => {
+      expect(scoreToCentipawns("mate", -2)).toBe(-MATE_SCORE_CP + 2);
+      expect(scoreToCentipawns("mate", -2)).toBeLessThan(-5000);
+    });
+  });
+
+  describe("parseInfoLine", () => {
+    it("parses a MultiPV line", () => {
+      expect(
+        parseInfoLine(
+          "info depth 15 seldepth 20 multipv 2 score cp -12 nodes 1000 nps 5000 time 200 pv d2d4 d7d5 c2c4"
+        )
+      ).toEqual({
+        multipv: 2,
+        depth: 15,
+        score: -12,
+        pv: ["d2d4", "d7d5", "c2c4"],
+      });
+    });
+
+    it("defaults to the first PV slot", () => {
+      expect(parseInfoLine("info depth 3 score mate 2 pv h5f7")?.multipv).toBe(
+        1
+      );
+    });
+
+    it("ignores lines without a score or pv", () => {
+      expect(parseInfoLine("info depth 5 currmove e2e4 currmovenumber 1")).toBe(
+        null
+      );
+      expect(parseInfoLine("info string NNUE evaluation enabled")).toBe(null);
+      expect(parseInfoLine("bestmove e2e4")).toBe(null);
+    });
+
+    it("ignores bound scores", () => {
+      expect(
+        parseInfoLine("info depth 10 score cp 40 lowerbound pv e2e4")
+      ).toBe(null);
+    });
+  });
+
+  describe("parseBestMove", () => {
+    it("reads the move, with or without a ponder move", () => {
+      expect(parseBestMove("bestmove e2e4")).toBe("e2e4");
+      expect(parseBestMove("bestmove e7e8q ponder a2a3")).toBe("e7e8q");
+    });
+
+    it("rejects anything that is not a move", () => {
+      expect(parseBestMove("bestmove (none)")).toBe(null);
+      expect(parseBestMove("bestmove")).toBe(null);
+      expect(parseBestMove("readyok")).toBe(null);
+    });
+  });
+
+  describe("parseUciHandshake", () => {
+    it("reads the engine's name and options", () => {
+      const { name, options } = parseUciHandshake([
+        "Stockfish 18 by the Stockfish developers",
+        "id name Stockfish 18",
+        "id author the Stockfish developers",
+        "option name Threads type spin default 1 min 1 max 1024",
+        "option name Skill Level type spin default 20 min 0 max 20",
+        "option name Clear Hash type button",
+      ]);
+      expect(name).toBe("Stockfish 18");
+      expect([...options]).toEqual(["Threads", "Skill Level", "Clear Hash"]);
+    });
+
+    it("has no name when the engine gives none", () => {
+      expect(parseUciHandshake(["uciok"]).name).toBeUndefined();
+    });
+  });
+
+  describe("parseSetOption", () => {
+    it("reads names with spaces", () => {
+      expect(parseSetOption("setoption name Skill Level value 5")).toEqual({
+        name: "Skill Level",
+        value: "5",
+      });
+    });
+
+    it("ignores other commands", () => {
+      expect(parseSetOption("setoption name Clear Hash")).toBe(null);
+      expect(parseSetOption("position startpos")).toBe(null);
+    });
+  });
+
+  describe("lanLineToSan", () => {
+    const START = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+    it("converts a legal line", () => {
+      expect(lanLineToSan(START, ["e2e4", "e7e5", "g1f3"])).toEqual([
+        "e4",
+        "e5",
+        "Nf3",
+      ]);
+    });
+
+    it("handles promotions", () => {
+      expect(lanLineToSan("8/P7/8/8/8/8/8/k6K w - - 0 1", ["a7a8q"])).toEqual([
+        "a8=Q+",
+      ]);
+    });
+
+    it("stops at the first illegal move", () => {
+      expect(lanLineToSan(START, ["e2e4", "e2e4", "g1f3"])).toEqual(["e4"]);
+    });
+  });
+
+  describe("toMoveEval", () => {
+    const START = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+    it("converts the PV to SAN", () => {
+      expect(toMoveEval(START, { score: 35, pv: ["e2e4", "e7e5"] })).toEqual({
+        score: 35,
+        pv: ["e4", "e5"],
+      });
+    });
+
+    it("keeps the mate distance", () => {
+      expect(
+        toMoveEval(START, { score: MATE_SCORE_CP - 3, mate: 3, pv: [] })
+      ).toEqual({ score: MATE_SCORE_CP - 3, mate: 3, pv: [] });
+    });
+  });
+});
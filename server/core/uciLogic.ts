@@ -0,0 +1,159 @@
+import { Chess } from "chess.js";
+import { MATE_SCORE_CP } from "../constants.js";
+import type { MoveEval } from "../types.js";
+
+/**
+ * Search result for one principal variation, from an "info" line.
+ */
+export interface UciPvInfo {
+  multipv: number;
+  depth: number;
+  /** Centipawns from the side to move's point of view (mates included) */
+  score: number;
+  /** Moves until mate, when the engine reports one */
+  mate?: number;
+  /** Moves of the principal variation, in LAN */
+  pv: string[];
+}
+
+/**
+ * Converts a UCI score to centipawns.
+ * Mates map to +/- MATE_SCORE_CP, closer mates scoring higher.
+ * Pure function - no side effects.
+ */
+export function scoreToCentipawns(kind: "cp" | "mate", value: number): number {
+  if (kind === "cp") return value;
+  return value > 0 ? MATE_SCORE_CP - value : -MATE_SCORE_CP - value;
+}
+
+/**
+ * Parses a UCI "info" line carrying a score and a principal variation.
+ * Returns null for other info lines (currmove, string, bounds, ...).
+ * Pure function - no side effects.
+ */
+export function parseInfoLine(line: string): UciPvInfo | null {
+  const tokens = line.trim().split(/\s+/);
+  if (tokens[0] !== "info") return null;
+
+  let multipv = 1;
+  let depth = 0;
+  let score: number | undefined;
+  let mate: number | undefined;
+  let pv: string[] = [];
+
+  for (let i = 1; i < tokens.length; i++) {
+    switch (tokens[i]) {
+      case "multipv":
+        multipv = Number(tokens[++i]);
+        break;
+      case "depth":
+        depth = Number(tokens[++i]);
+        break;
+      case "score": {
+        const kind = tokens[i + 1];
+        const value = Number(tokens[i + 2]);
+        if ((kind === "cp" || kind === "mate") && Number.isFinite(value)) {
+          score = scoreToCentipawns(kind, value);
+          if (kind === "mate") mate = value;
+        }
+        i += 2;
+        // Bound scores are provisional, ignore the whole line
+        if (tokens[i + 1] === "lowerbound" || tokens[i + 1] === "upperbound") {
+          return null;
+        }
+        break;
+      }
+      case "pv":
+        pv = tokens.slice(i + 1);
+        i = tokens.length;
+        break;
+    }
+  }
+
+  if (score === undefined || pv.length === 0) return null;
+  return mate === undefined
+    ? { multipv, depth, score, pv }
+    : { multipv, depth, score, mate, pv };
+}
+
+/**
+ * Reads the move from a "bestmove" line. Returns null for anything else,
+ * including "bestmove (none)" in positions without legal moves.
+ * Pure function - no side effects.
+ */
+export function parseBestMove(line: string): string | null {
+  const match = /^bestmove ([a-h][1-8][a-h][1-8][qrbn]?)(\s|$)/.exec(
+    line.trim()
+  );
+  return match ? match[1] : null;
+}
+
+/**
+ * What an engine said about itself in answer to "uci": its name from the
+ * "id name" line and the options it listed.
+ * Pure function - no side effects.
+ */
+export function parseUciHandshake(lines: string[]): {
+  name?: string;
+  options: Set<string>;
+} {
+  let name: string | undefined;
+  const options = new Set<string>();
+  for (const line of lines) {
+    const id = /^id name (.+)$/.exec(line.trim());
+    if (id) name = id[1].trim();
+    const option = /^option name (.+?) type /.exec(line.trim());
+    if (option) options.add(option[1]);
+  }
+  return { name, options };
+}
+
+/**
+ * Splits a "setoption name <name> value <value>" command. Option names may
+ * contain spaces ("Skill Level"). Returns null for any other command.
+ * Pure function - no side effects.
+ */
+export function parseSetOption(
+  command: string
+): { name: string; value: string } | null {
+  const match = /^setoption name (.+?) value (.*)$/.exec(command.trim());
+  return match ? { name: match[1], value: match[2] } : null;
+}
+
+/**
+ * Converts a line of LAN moves played from a position to SAN.
+ * Stops at the first move that is not legal.
+ * Pure function - no side effects.
+ */
+export function lanLineToSan(fen: string, lans: string[]): string[] {
+  const chess = new Chess(fen);
+  const sans: string[] = [];
+  for (const lan of lans) {
+    try {
+      sans.push(
+        chess.move({
+          from: lan.slice(0, 2),
+          to: lan.slice(2, 4),
+          promotion: lan[4],
+        }).san
+      );
+    } catch {
+      break;
+    }
+  }
+  return sans;
+}
+
+/**
+ * Builds the client-facing evaluation of a move: same score, PV in SAN.
+ * Pure function - no side effects.
+ */
+export function toMoveEval(
+  fen: string,
+  evaluation: { score: number; mate?: number; pv: string[] }
+): MoveEval {
+  const pv = lanLineToSan(fen, evaluation.pv);
+  return evaluation.mate === undefined
+    ? { score: evaluation.score, pv }
+    : { score: evaluation.score, mate: evaluation.mate, pv };
+}
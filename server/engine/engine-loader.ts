@@ -1,42 +1,98 @@
 import { spawn } from "child_process";
 import type { Engine } from "../types.js";
 
-export function loadEngine(path: string): Engine {
-  const args: string[] = [];
+/**
+ * Line that ends the engine's reply to a command. Commands left out
+ * (position, setoption, ...) get no reply.
+ */
+function replyPrefixFor(command: string): string | undefined {
+  if (command.startsWith("go")) return "bestmove";
+  if (command === "uci") return "uciok";
+  if (command === "isready") return "readyok";
+  return undefined;
+}
 
+/**
+ * Spawns a UCI engine process. A ".js" path runs under Node, like the
+ * bundled stockfish.js; anything else is started as a native binary.
+ * @param onExit Called once if the process dies or fails to start
+ */
+export function loadEngine(
+  path: string,
+  onExit?: () => void,
+  args: string[] = []
+): Engine {
   if (path.slice(-3).toLowerCase() === ".js") {
-    args.push(path);
+    args = [path, ...args];
     path = process.execPath;
   }
 
   const proc = spawn(path, args, { stdio: "pipe" });
 
+  let pendingCallback: ((output: string) => void) | undefined;
+  let pendingInfo: ((line: string) => void) | undefined;
+  let pendingError: ((error: Error) => void) | undefined;
+  // Only this reply completes the pending command, so a late "uciok" from
+  // startup can't be mistaken for the answer to a search
+  let pendingReply: string | undefined;
+
+  // Output can arrive in arbitrary chunks; keep any partial last line
+  let buffered = "";
+  let exited = false;
+
+  const handleExit = (error: Error) => {
+    if (exited) return;
+    exited = true;
+    const fail = pendingError;
+    pendingCallback = undefined;
+    pendingInfo = undefined;
+    pendingError = undefined;
+    pendingReply = undefined;
+    fail?.(error);
+    onExit?.();
+  };
+
   proc.on("error", (err) => {
-    console.error("Stockfish engine process error:", err);
+    console.error("Engine process error:", err);
+    handleExit(err);
   });
-
-  let pendingCallback: ((output: string) => void) | undefined;
+  proc.on("exit", (code, signal) => {
+    handleExit(new Error(`Engine exited (${signal ?? code})`));
+  });
+  // Writing to a dead process must not crash the server
+  proc.stdin.on("error", () => {});
 
   proc.stdout.on("data", (data: Buffer) => {
-    const lines = data.toString().split("\n").filter(Boolean);
-    for (const line of lines) {
+    const chunks = (buffered + data.toString()).split("\n");
+    buffered = chunks.pop() ?? "";
+    for (const line of chunks.map((l) => l.trim()).filter(Boolean)) {
       if (pendingCallback) {
-        if (
-          line.startsWith("bestmove") ||
-          line === "uciok" ||
-          line === "readyok"
-        ) {
+        if (pendingReply && line.startsWith(pendingReply)) {
           const cb = pendingCallback;
           pendingCallback = undefined;
+          pendingInfo = undefined;
+          pendingError = undefined;
+          pendingReply = undefined;
           cb(line);
+        } else {
+          pendingInfo?.(line);
         }
       }
     }
   });
 
   return {
-    send(command: string, callback?: (output: string) => void) {
+    send(
+      command: string,
+      callback?: (output: string) => void,
+      onInfo?: (line: string) => void,
+      onError?: (error: Error) => void
+    ) {
       const cmd = command.trim();
+      if (exited) {
+        onError?.(new Error("Engine is not running"));
+        return;
+      }
 
       if (
         cmd.startsWith("position") ||
@@ -52,11 +108,16 @@ export function loadEngine(path: string): Engine {
 
       if (callback) {
         pendingCallback = callback;
+        pendingInfo = onInfo;
+        pendingError = onError;
+        pendingReply = replyPrefixFor(cmd);
       }
       proc.stdin.write(cmd + "\n");
     },
 
     quit() {
+      // A deliberate quit is not a crash
+      exited = true;
       proc.kill();
     },
   };
@@ -0,0 +1,282 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import type { Engine } from "../types.js";
+import { EnginePool } from "./enginePool.js";
+import {
+  ENGINE_QUEUE_TIMEOUT_MS,
+  ENGINE_SEARCH_TIMEOUT_MS,
+  ENGINE_STOP_GRACE_MS,
+  ENGINE_RESTART_DELAY_MS,
+  ENGINE_HANDSHAKE_TIMEOUT_MS,
+} from "../constants.js";
+
+const FAKE_HANDSHAKE = [
+  "id name Fakefish 1",
+  ...["MultiPV", "Threads", "Hash", "Skill Level", "UCI_LimitStrength"].map(
+    (name) => `option name ${name} type spin`
+  ),
+];
+
+/**
+ * Engine process stand-in that answers the handshake right away (unless it
+ * has none) and "go" only when told to.
+ */
+class FakeProcess implements Engine {
+  sent: string[] = [];
+  pending?: (output: string) => void;
+  quitCalled = false;
+
+  constructor(
+    readonly crash: () => void,
+    private handshake: string[] | null
+  ) {}
+
+  send(
+    command: string,
+    callback?: (output: string) => void,
+    onInfo?: (line: string) => void
+  ): void {
+    this.sent.push(command);
+    if (this.handshake && command === "uci") {
+      for (const line of this.handshake) onInfo?.(line);
+      callback?.("uciok");
+    } else if (this.handshake && command === "isready") {
+      callback?.("readyok");
+    } else if (callback) {
+      this.pending = callback;
+    }
+  }
+
+  reply(output = "bestmove e2e4"): void {
+    const cb = this.pending;
+    this.pending = undefined;
+    cb?.(output);
+  }
+
+  quit(): void {
+    this.quitCalled = true;
+  }
+}
+
+function createPool(
+  size: number,
+  searchTimeoutMs?: number,
+  handshake: string[] | null = FAKE_HANDSHAKE
+) {
+  const processes: FakeProcess[] = [];
+  const pool = new EnginePool(
+    (onExit) => {
+      const proc = new FakeProcess(onExit, handshake);
+      processes.push(proc);
+      return proc;
+    },
+    size,
+    ENGINE_QUEUE_TIMEOUT_MS,
+    searchTimeoutMs
+  );
+  return { pool, processes };
+}
+
+describe("EnginePool", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("starts processes on first use and sends each request in one piece", () => {
+    const { pool, processes } = createPool(2);
+    const engine = pool.createEngine();
+    expect(processes).toHaveLength(0);
+
+    const done = vi.fn();
+    engine.send("position fen x");
+    engine.send("go depth 5", done);
+
+    expect(processes).toHaveLength(2);
+    expect(processes[0].sent).toEqual([
+      "uci",
+      "isready",
+      "ucinewgame",
+      "setoption name MultiPV value 1",
+      "setoption name Threads value 1",
+      "setoption name Hash value 16",
+      "setoption name Skill Level value 20",
+      "setoption name UCI_LimitStrength value false",
+      "position fen x",
+      "go depth 5",
+    ]);
+    processes[0].reply();
+    expect(done).toHaveBeenCalledWith("bestmove e2e4");
+  });
+
+  it("keeps each handle's options and only resends the ones that change", () => {
+    const { pool, processes } = createPool(1);
+    const weak = pool.createEngine();
+    const strong = pool.createEngine();
+    weak.send("setoption name Skill Level value 3");
+
+    weak.send("go depth 5", () => {});
+    expect(processes[0].sent).toContain("setoption name Skill Level value 3");
+    processes[0].reply();
+
+    processes[0].sent = [];
+    weak.send("go depth 5", () => {});
+    expect(processes[0].sent).toEqual(["go depth 5"]);
+    processes[0].reply();
+
+    processes[0].sent = [];
+    strong.send("go depth 5", () => {});
+    expect(processes[0].sent).toEqual([
+      "ucinewgame",
+      "setoption name Skill Level value 20",
+      "go depth 5",
+    ]);
+  });
+
+  it("only sends the options the engine listed and learns its name", () => {
+    const { pool, processes } = createPool(1, undefined, [
+      "id name Lc0 v0.31.2",
+      "option name Threads type spin default 2 min 1 max 128",
+    ]);
+    const engine = pool.createEngine();
+    engine.send("setoption name Skill Level value 3");
+    engine.send("go depth 5", () => {});
+
+    expect(processes[0].sent).toEqual([
+      "uci",
+      "isready",
+      "ucinewgame",
+      "setoption name Threads value 1",
+      "go depth 5",
+    ]);
+    expect(pool.getEngineName()).toBe("Lc0 v0.31.2");
+  });
+
+  it("waits for the handshake and replaces a process that never answers", () => {
+    vi.useFakeTimers();
+    const { pool, processes } = createPool(1, undefined, null);
+    const onError = vi.fn();
+    pool.createEngine().send("go depth 5", () => {}, undefined, onError);
+    expect(processes[0].sent).toEqual(["uci"]);
+
+    vi.advanceTimersByTime(ENGINE_HANDSHAKE_TIMEOUT_MS);
+    expect(processes[0].quitCalled).toBe(true);
+    vi.advanceTimersByTime(ENGINE_RESTART_DELAY_MS);
+    expect(processes).toHaveLength(2);
+    expect(onError).not.toHaveBeenCalled();
+    expect(pool.getEngineName()).toBeUndefined();
+  });
+
+  it("queues requests while every process is busy", () => {
+    const { pool, processes } = createPool(1);
+    const a = pool.createEngine();
+    const b = pool.createEngine();
+    const doneB = vi.fn();
+
+    a.send("go depth 5", () => {});
+    b.send("go depth 6", doneB);
+    expect(pool.getMetrics()).toMatchObject({ busy: 1, queueDepth: 1 });
+
+    processes[0].reply();
+    expect(processes[0].sent.at(-1)).toBe("go depth 6");
+    processes[0].reply("bestmove d2d4");
+
+    expect(doneB).toHaveBeenCalledWith("bestmove d2d4");
+    expect(pool.getMetrics()).toMatchObject({
+      busy: 0,
+      queueDepth: 0,
+      maxQueueDepth: 1,
+      completed: 2,
+    });
+  });
+
+  it("fails a request that waits too long for a process", () => {
+    vi.useFakeTimers();
+    // The running search must outlast the wait
+    const { pool } = createPool(1, 2 * ENGINE_QUEUE_TIMEOUT_MS);
+    pool.createEngine().send("go depth 5", () => {});
+    const onError = vi.fn();
+    pool.createEngine().send("go depth 5", () => {}, undefined, onError);
+
+    vi.advanceTimersByTime(ENGINE_QUEUE_TIMEOUT_MS);
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(pool.getMetrics()).toMatchObject({ queueDepth: 0, timedOut: 1 });
+  });
+
+  it("fails the running request and replaces a crashed process", () => {
+    vi.useFakeTimers();
+    const { pool, processes } = createPool(1);
+    const engine = pool.createEngine();
+    const onError = vi.fn();
+    const done = vi.fn();
+
+    engine.send("go depth 5", () => {}, undefined, onError);
+    engine.send("go depth 6", done);
+    processes[0].crash();
+
+    expect(onError).toHaveBeenCalledOnce();
+    vi.advanceTimersByTime(ENGINE_RESTART_DELAY_MS);
+
+    expect(processes).toHaveLength(2);
+    expect(processes[1].sent.at(-1)).toBe("go depth 6");
+    processes[1].reply();
+    expect(done).toHaveBeenCalled();
+    expect(pool.getMetrics()).toMatchObject({ restarts: 1, failed: 1 });
+  });
+
+  it("stops a search that runs too long", () => {
+    vi.useFakeTimers();
+    const { pool, processes } = createPool(1);
+    const done = vi.fn();
+    pool.createEngine().send("go depth 30", done);
+
+    vi.advanceTimersByTime(ENGINE_SEARCH_TIMEOUT_MS);
+    expect(processes[0].sent.at(-1)).toBe("stop");
+
+    processes[0].reply("bestmove c2c4");
+    expect(done).toHaveBeenCalledWith("bestmove c2c4");
+    expect(pool.getMetrics()).toMatchObject({ searchTimeouts: 1, failed: 0 });
+  });
+
+  it("replaces a process that ignores stop", () => {
+    vi.useFakeTimers();
+    const { pool, processes } = createPool(1);
+    const onError = vi.fn();
+    pool.createEngine().send("go depth 30", () => {}, undefined, onError);
+
+    vi.advanceTimersByTime(ENGINE_SEARCH_TIMEOUT_MS + ENGINE_STOP_GRACE_MS);
+
+    expect(onError).toHaveBeenCalledWith(new Error("Engine search timed out"));
+    expect(processes[0].quitCalled).toBe(true);
+    vi.advanceTimersByTime(ENGINE_RESTART_DELAY_MS);
+    expect(processes).toHaveLength(2);
+    expect(pool.getMetrics()).toMatchObject({ restarts: 1, failed: 1 });
+  });
+
+  it("drops the requests of a quit handle and stops its search", () => {
+    const { pool, processes } = createPool(1);
+    const engine = pool.createEngine();
+    const done = vi.fn();
+
+    engine.send("go depth 5", done);
+    engine.send("go depth 6", done);
+    engine.quit();
+
+    expect(processes[0].sent.at(-1)).toBe("stop");
+    expect(pool.getMetrics().queueDepth).toBe(0);
+    processes[0].reply();
+    expect(done).not.toHaveBeenCalled();
+  });
+
+  it("quits every process on shutdown", () => {
+    const { pool, processes } = createPool(2);
+    const onError = vi.fn();
+    pool.createEngine().send("go depth 5", () => {});
+    pool.createEngine().send("go depth 5", () => {});
+    pool.createEngine().send("go depth 5", () => {}, undefined, onError);
+
+    pool.shutdown();
+
+    expect(onError).toHaveBeenCalledOnce();
+    expect(processes.every((p) => p.quitCalled)).toBe(true);
+  });
+});
@@ -0,0 +1,391 @@
+import type { Engine } from "../types.js";
+import { parseSetOption, parseUciHandshake } from "../core/uciLogic.js";
+import {
+  ENGINE_HANDSHAKE_TIMEOUT_MS,
+  ENGINE_OPTION_DEFAULTS,
+  ENGINE_POOL_SIZE,
+  ENGINE_QUEUE_TIMEOUT_MS,
+  ENGINE_SEARCH_TIMEOUT_MS,
+  ENGINE_STOP_GRACE_MS,
+  ENGINE_RESTART_DELAY_MS,
+} from "../constants.js";
+
+/**
+ * Counters describing how busy the pool is, for monitoring.
+ */
+export interface EnginePoolMetrics {
+  size: number;
+  busy: number;
+  queueDepth: number;
+  maxQueueDepth: number;
+  completed: number;
+  failed: number;
+  /** Requests dropped after waiting ENGINE_QUEUE_TIMEOUT_MS */
+  timedOut: number;
+  /** Searches stopped after ENGINE_SEARCH_TIMEOUT_MS */
+  searchTimeouts: number;
+  restarts: number;
+  /** Search time of the last request and the average so far (ms) */
+  lastSearchMs: number;
+  averageSearchMs: number;
+}
+
+/**
+ * One request: the commands buffered by a handle, ending with the one that
+ * gets a reply. It always runs on a single process, start to finish.
+ */
+interface EngineJob {
+  owner: PooledEngine;
+  /** UCI options of the handle when the request was made */
+  options: Record<string, string>;
+  commands: string[];
+  command: string;
+  callback: (output: string) => void;
+  onInfo?: (line: string) => void;
+  onError?: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+interface EngineWorker {
+  engine?: Engine;
+  /** Set once the process has answered the UCI handshake */
+  ready: boolean;
+  /** Options the engine listed in the handshake; others are never sent */
+  supportedOptions: Set<string>;
+  handshakeTimer?: NodeJS.Timeout;
+  job?: EngineJob;
+  startedAt: number;
+  /** Handle whose job ran last, to start a new game for another one */
+  lastOwner?: PooledEngine;
+  /** UCI options sent to the current process */
+  options: Map<string, string>;
+}
+
+/**
+ * Starts an engine process. onExit must be called if it dies.
+ */
+export type EngineSpawner = (onExit: () => void) => Engine;
+
+/**
+ * Keeps a few warm engine processes and shares them between every game.
+ * Rooms talk to it through handles that look like a dedicated Engine;
+ * their requests queue until a process is free. Processes are started on
+ * first use and replaced when they crash. Each one takes requests only
+ * after answering the "uci"/"isready" handshake.
+ */
+export class EnginePool {
+  private workers: EngineWorker[] = [];
+  private queue: EngineJob[] = [];
+  private closed = false;
+  /** From the engine's "id name" line, once a process has started */
+  private engineName?: string;
+  private stats = {
+    maxQueueDepth: 0,
+    completed: 0,
+    failed: 0,
+    timedOut: 0,
+    searchTimeouts: 0,
+    restarts: 0,
+    lastSearchMs: 0,
+    totalSearchMs: 0,
+  };
+
+  constructor(
+    private spawn: EngineSpawner,
+    private size = ENGINE_POOL_SIZE,
+    private queueTimeoutMs = ENGINE_QUEUE_TIMEOUT_MS,
+    private searchTimeoutMs = ENGINE_SEARCH_TIMEOUT_MS
+  ) {}
+
+  /**
+   * Creates a handle for one game. Quitting it frees its queued requests,
+   * not the shared processes.
+   */
+  createEngine(): Engine {
+    return new PooledEngine(this);
+  }
+
+  /**
+   * Starts the processes ahead of the first request, so they are warm and
+   * the engine's name is known.
+   */
+  start(): void {
+    if (!this.closed) this.startWorkers();
+  }
+
+  /** The engine's name, once a process has completed its handshake */
+  getEngineName(): string | undefined {
+    return this.engineName;
+  }
+
+  /** Queues a request from one of the handles */
+  enqueue(job: EngineJob): void {
+    if (this.closed) {
+      job.onError?.(new Error("Engine pool is shut down"));
+      return;
+    }
+    this.startWorkers();
+
+    job.timer = setTimeout(() => {
+      this.queue = this.queue.filter((j) => j !== job);
+      this.stats.timedOut++;
+      this.stats.failed++;
+      job.onError?.(new Error("Timed out waiting for a free engine"));
+    }, this.queueTimeoutMs);
+
+    this.queue.push(job);
+    this.dispatch();
+    this.stats.maxQueueDepth = Math.max(
+      this.stats.maxQueueDepth,
+      this.queue.length
+    );
+  }
+
+  /** Drops a handle's queued requests and stops its running search */
+  release(owner: PooledEngine): void {
+    for (const job of this.queue.filter((j) => j.owner === owner)) {
+      clearTimeout(job.timer);
+    }
+    this.queue = this.queue.filter((j) => j.owner !== owner);
+    this.stop(owner);
+  }
+
+  /** Tells the process searching for a handle to answer now */
+  stop(owner: PooledEngine): void {
+    for (const worker of this.workers) {
+      if (worker.job?.owner === owner) worker.engine?.send("stop");
+    }
+  }
+
+  getMetrics(): EnginePoolMetrics {
+    const { totalSearchMs, ...stats } = this.stats;
+    return {
+      size: this.size,
+      busy: this.workers.filter((w) => w.job).length,
+      queueDepth: this.queue.length,
+      ...stats,
+      averageSearchMs:
+        stats.completed > 0 ? Math.round(totalSearchMs / stats.completed) : 0,
+    };
+  }
+
+  /**
+   * Fails every queued request and quits the processes.
+   */
+  shutdown(): void {
+    this.closed = true;
+    for (const job of this.queue) {
+      clearTimeout(job.timer);
+      job.onError?.(new Error("Engine pool is shut down"));
+    }
+    this.queue = [];
+    for (const worker of this.workers) {
+      clearTimeout(worker.job?.timer);
+      clearTimeout(worker.handshakeTimer);
+      worker.engine?.quit();
+    }
+    this.workers = [];
+  }
+
+  private startWorkers(): void {
+    while (this.workers.length < this.size) {
+      const worker: EngineWorker = {
+        ready: false,
+        supportedOptions: new Set(),
+        startedAt: 0,
+        options: new Map(),
+      };
+      this.workers.push(worker);
+      this.startProcess(worker);
+    }
+  }
+
+  private startProcess(worker: EngineWorker): void {
+    const engine = this.spawn(() => this.handleCrash(worker));
+    worker.engine = engine;
+    worker.ready = false;
+    worker.lastOwner = undefined;
+    worker.options.clear();
+
+    worker.handshakeTimer = setTimeout(() => {
+      if (worker.engine !== engine) return;
+      console.error("Engine did not answer the UCI handshake; restarting it");
+      engine.quit();
+      this.replaceProcess(worker, new Error("Engine handshake timed out"));
+    }, ENGINE_HANDSHAKE_TIMEOUT_MS);
+
+    // A process that dies meanwhile is handled by handleCrash
+    const lines: string[] = [];
+    engine.send(
+      "uci",
+      () =>
+        engine.send("isready", () => {
+          if (worker.engine !== engine) return;
+          clearTimeout(worker.handshakeTimer);
+          const { name, options } = parseUciHandshake(lines);
+          this.engineName ??= name;
+          worker.supportedOptions = options;
+          worker.ready = true;
+          this.dispatch();
+        }),
+      (line) => lines.push(line)
+    );
+  }
+
+  private handleCrash(worker: EngineWorker): void {
+    if (this.closed) return;
+    console.error("Engine process died; restarting it");
+    this.replaceProcess(worker, new Error("Engine process died"));
+  }
+
+  /**
+   * Asks a search that ran too long to stop. Stockfish then answers with
+   * its best move so far; a process that doesn't is replaced.
+   */
+  private handleSearchTimeout(worker: EngineWorker, job: EngineJob): void {
+    if (worker.job !== job) return;
+    this.stats.searchTimeouts++;
+    worker.engine?.send("stop");
+
+    job.timer = setTimeout(() => {
+      if (worker.job !== job) return;
+      console.error("Engine did not answer stop; restarting it");
+      worker.engine?.quit();
+      this.replaceProcess(worker, new Error("Engine search timed out"));
+    }, ENGINE_STOP_GRACE_MS);
+  }
+
+  /**
+   * Fails the request a dead or stuck process was running, then starts a
+   * new process in its place.
+   */
+  private replaceProcess(worker: EngineWorker, error: Error): void {
+    const job = worker.job;
+    clearTimeout(worker.handshakeTimer);
+    worker.engine = undefined;
+    worker.ready = false;
+    worker.job = undefined;
+    if (job) {
+      clearTimeout(job.timer);
+      this.stats.failed++;
+      if (!job.owner.isQuit) job.onError?.(error);
+    }
+
+    setTimeout(() => {
+      if (this.closed) return;
+      this.stats.restarts++;
+      this.startProcess(worker);
+      this.dispatch();
+    }, ENGINE_RESTART_DELAY_MS);
+  }
+
+  private dispatch(): void {
+    for (const worker of this.workers) {
+      if (worker.job || !worker.engine || !worker.ready) continue;
+      const job = this.queue.shift();
+      if (!job) return;
+      clearTimeout(job.timer);
+      this.run(worker, worker.engine, job);
+    }
+  }
+
+  private run(worker: EngineWorker, engine: Engine, job: EngineJob): void {
+    worker.job = job;
+    worker.startedAt = Date.now();
+    job.timer = setTimeout(
+      () => this.handleSearchTimeout(worker, job),
+      this.searchTimeoutMs
+    );
+
+    // Leave no state behind from another game's search
+    if (worker.lastOwner !== job.owner) engine.send("ucinewgame");
+    worker.lastOwner = job.owner;
+    // Options only change when this request needs other values than the
+    // last one; resizing the hash, for one, is not free
+    const options = { ...ENGINE_OPTION_DEFAULTS, ...job.options };
+    for (const [name, value] of Object.entries(options)) {
+      if (!worker.supportedOptions.has(name)) continue;
+      if (worker.options.get(name) === value) continue;
+      engine.send(`setoption name ${name} value ${value}`);
+      worker.options.set(name, value);
+    }
+    for (const command of job.commands) engine.send(command);
+
+    engine.send(
+      job.command,
+      (output) => {
+        if (worker.job !== job) return;
+        clearTimeout(job.timer);
+        const searchMs = Date.now() - worker.startedAt;
+        worker.job = undefined;
+        this.stats.completed++;
+        this.stats.lastSearchMs = searchMs;
+        this.stats.totalSearchMs += searchMs;
+
+        if (!job.owner.isQuit) job.callback(output);
+        this.dispatch();
+      },
+      (line) => {
+        if (!job.owner.isQuit) job.onInfo?.(line);
+      }
+    );
+  }
+}
+
+/**
+ * A game's view of the pool. Commands without a reply are held back and
+ * sent with the next command that has one, so each request reaches a
+ * single process in one piece. Options set with "setoption" stay with the
+ * handle, as they would on a dedicated process, and are applied to
+ * whichever process runs its requests.
+ */
+class PooledEngine implements Engine {
+  private buffered: string[] = [];
+  private options: Record<string, string> = {};
+  isQuit = false;
+
+  constructor(private pool: EnginePool) {}
+
+  send(
+    command: string,
+    callback?: (output: string) => void,
+    onInfo?: (line: string) => void,
+    onError?: (error: Error) => void
+  ): void {
+    if (this.isQuit) {
+      onError?.(new Error("Engine was quit"));
+      return;
+    }
+    if (command === "stop") {
+      this.pool.stop(this);
+      return;
+    }
+    const option = parseSetOption(command);
+    if (option) {
+      this.options[option.name] = option.value;
+      return;
+    }
+    if (!callback) {
+      this.buffered.push(command);
+      return;
+    }
+
+    const commands = this.buffered;
+    this.buffered = [];
+    this.pool.enqueue({
+      owner: this,
+      options: { ...this.options },
+      commands,
+      command,
+      callback,
+      onInfo,
+      onError,
+    });
+  }
+
+  quit(): void {
+    this.isQuit = true;
+    this.buffered = [];
+    this.pool.release(this);
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { Chess, DEFAULT_POSITION } from "chess.js";
+import { analyzeGame } from "./gameAnalysis.js";
+import { MockEngineService } from "../interfaces/MockEngineService.js";
+import type { Selection } from "../types.js";
+
+/** Plays SAN moves from the start and records them as selected turns. */
+function playTurns(...sans: string[]): { fens: string[]; turns: Selection[] } {
+  const chess = new Chess();
+  const fens = [chess.fen()];
+  const turns = sans.map((san, i) => {
+    const move = chess.move(san);
+    fens.push(chess.fen());
+    return {
+      id: "p",
+      name: "P",
+      moveNumber: i + 1,
+      side: i % 2 === 0 ? "white" : "black",
+      lan: move.lan,
+      san: move.san,
+      fen: chess.fen(),
+      candidates: [],
+      strategy: "engine_best",
+    } as Selection;
+  });
+  return { fens, turns };
+}
+
+describe("analyzeGame", () => {
+  let engine: MockEngineService;
+
+  beforeEach(() => {
+    engine = new MockEngineService();
+  });
+
+  it("searches every position once and judges moves against the best one", async () => {
+    const { fens, turns } = playTurns("e4", "f6", "d4");
+    engine.setPosition(fens[0], "e2e4", 30);
+    // After 1. e4 Black is slightly worse; 1... f6 drops to -150
+    engine.setPosition(fens[1], "e7e5", -30);
+    engine.setPosition(fens[2], "d2d4", 150);
+    engine.setPosition(fens[3], "e7e5", -160);
+
+    const moves = await analyzeGame(DEFAULT_POSITION, turns, engine);
+
+    expect(engine.analyzedFens).toEqual(fens);
+    expect(moves.map((m) => m.classification)).toEqual([
+      "best",
+      "mistake",
+      "best",
+    ]);
+    expect(moves[1]).toMatchObject({
+      san: "f6",
+      eval: 150,
+      bestLan: "e7e5",
+      bestSan: "e5",
+      loss: 120,
+    });
+    expect(moves.map((m) => m.eval)).toEqual([30, 150, 160]);
+  });
+
+  it("scores a checkmate without asking the engine", async () => {
+    const { fens, turns } = playTurns("f3", "e5", "g4", "Qh4#");
+
+    const moves = await analyzeGame(DEFAULT_POSITION, turns, engine);
+
+    expect(engine.analyzedFens).toEqual(fens.slice(0, 4));
+    expect(moves[3].mate).toBe(0);
+    expect(moves[3].eval).toBeLessThan(-10000);
+  });
+
+  it("stops when the callback returns false", async () => {
+    const { turns } = playTurns("e4", "e5", "Nf3");
+    const seen: string[] = [];
+
+    const moves = await analyzeGame(DEFAULT_POSITION, turns, engine, (m) => {
+      seen.push(m.san);
+      return seen.length < 2;
+    });
+
+    expect(seen).toEqual(["e4", "e5"]);
+    expect(moves).toHaveLength(2);
+  });
+});
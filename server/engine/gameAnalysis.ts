@@ -0,0 +1,56 @@
+import type { MoveAnalysis, Selection } from "../types.js";
+import type { IEngineService } from "../interfaces/IEngineService.js";
+import { ANALYSIS_SEARCH_DEPTH } from "../constants.js";
+import {
+  buildMoveAnalysis,
+  getTerminalEvaluation,
+  type PositionEvaluation,
+} from "../core/analysisLogic.js";
+
+/**
+ * Reviews a finished game move by move. Every position is searched once:
+ * its best move judges the move played from it, and its score is the
+ * result of the move that led to it.
+ * @param onMove Called with each move's review as soon as it is ready;
+ * returning false stops the analysis
+ */
+export async function analyzeGame(
+  startFen: string,
+  turns: Selection[],
+  engine: IEngineService,
+  onMove: (analysis: MoveAnalysis) => boolean | void = () => {}
+): Promise<MoveAnalysis[]> {
+  const fens = [startFen, ...turns.map((t) => t.fen)];
+  const results: MoveAnalysis[] = [];
+
+  const evaluate = async (
+    fen: string
+  ): Promise<{ lan: string } & PositionEvaluation> => {
+    const terminal = getTerminalEvaluation(fen);
+    // No best move in a finished position
+    if (terminal) return { lan: "", ...terminal };
+    return engine.analyzePosition(fen, ANALYSIS_SEARCH_DEPTH);
+  };
+
+  let before = await evaluate(fens[0]);
+  for (let i = 0; i < turns.length; i++) {
+    const after = await evaluate(fens[i + 1]);
+    const turn = turns[i];
+    const analysis = buildMoveAnalysis(
+      {
+        moveNumber: turn.moveNumber,
+        side: turn.side,
+        lan: turn.lan,
+        san: turn.san ?? turn.lan,
+        fen: turn.fen,
+      },
+      fens[i],
+      before,
+      after
+    );
+    results.push(analysis);
+    if (onMove(analysis) === false) break;
+    before = after;
+  }
+  return results;
+}
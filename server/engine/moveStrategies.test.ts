@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { selectMove } from "./moveStrategies.js";
+import { MockEngineService } from "../interfaces/MockEngineService.js";
+
+const FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+function proposals(...lans: string[]) {
+  return lans.map((lan, i) => ({ pid: `p${i}`, lan }));
+}
+
+describe("selectMove", () => {
+  let engine: MockEngineService;
+
+  beforeEach(() => {
+    engine = new MockEngineService();
+  });
+
+  it("scores every distinct proposal once", async () => {
+    engine.setScores({ e2e4: 30, d2d4: 25 });
+    const result = await selectMove(
+      "engine_best",
+      { fen: FEN, proposals: proposals("e2e4", "d2d4", "e2e4") },
+      engine
+    );
+    expect(engine.evaluateCallCount).toBe(1);
+    expect(engine.lastFen).toBe(FEN);
+    expect(engine.lastCandidates).toEqual(["e2e4", "d2d4"]);
+    expect(result.evaluations.map((e) => [e.lan, e.score])).toEqual([
+      ["e2e4", 30],
+      ["d2d4", 25],
+    ]);
+  });
+
+  it("also finds the engine's own choice in the position", async () => {
+    engine.setPosition(FEN, "g1f3", 45);
+    const result = await selectMove(
+      "engine_best",
+      { fen: FEN, proposals: proposals("e2e4") },
+      engine
+    );
+    expect(result.lan).toBe("e2e4");
+    expect(result.best).toMatchObject({ lan: "g1f3", score: 45 });
+  });
+
+  it("searches for the engine's own choice alongside the scores", async () => {
+    let finishScoring = () => {};
+    const evaluateMoves = engine.evaluateMoves.bind(engine);
+    engine.evaluateMoves = (fen, candidates) =>
+      new Promise((resolve) => {
+        finishScoring = () => resolve(evaluateMoves(fen, candidates));
+      });
+
+    const result = selectMove(
+      "engine_best",
+      { fen: FEN, proposals: proposals("e2e4", "d2d4") },
+      engine
+    );
+    expect(engine.analyzedFens).toEqual([FEN]);
+
+    finishScoring();
+    await expect(result).resolves.toMatchObject({ lan: "e2e4" });
+  });
+
+  it("plays the move even when the engine's own choice can't be found", async () => {
+    engine.analyzePosition = () => Promise.reject(new Error("Engine was quit"));
+    const result = await selectMove(
+      "engine_best",
+      { fen: FEN, proposals: proposals("e2e4") },
+      engine
+    );
+    expect(result.lan).toBe("e2e4");
+    expect(result.best).toBeUndefined();
+  });
+
+  it("plays the only move when every proposal agrees", async () => {
+    engine.setScores({ e2e4: 30 });
+    const result = await selectMove(
+      "chaos",
+      { fen: FEN, proposals: proposals("e2e4", "e2e4") },
+      engine
+    );
+    expect(result.lan).toBe("e2e4");
+    expect(result.evaluations).toHaveLength(1);
+  });
+
+  it("plays a unanimous move even when the engine fails", async () => {
+    engine.evaluateMoves = () => Promise.reject(new Error("Engine was quit"));
+    const result = await selectMove(
+      "engine_best",
+      { fen: FEN, proposals: proposals("e2e4", "e2e4") },
+      engine
+    );
+    expect(result).toMatchObject({ lan: "e2e4", evaluations: [] });
+  });
+
+  it("fails a choice between moves when the engine fails", async () => {
+    engine.evaluateMoves = () => Promise.reject(new Error("Engine was quit"));
+    await expect(
+      selectMove(
+        "engine_best",
+        { fen: FEN, proposals: proposals("e2e4", "d2d4") },
+        engine
+      )
+    ).rejects.toThrow("Engine was quit");
+  });
+
+  describe("engine_best", () => {
+    it("plays the highest scoring candidate", async () => {
+      engine.setScores({ e2e4: 30, d2d4: 35 });
+      const { lan } = await selectMove(
+        "engine_best",
+        { fen: FEN, proposals: proposals("e2e4", "d2d4") },
+        engine
+      );
+      expect(lan).toBe("d2d4");
+      expect(engine.chooseMoveCallCount).toBe(0);
+    });
+
+    it("lets a weakened engine pick with its own search", async () => {
+      engine.setScores({ e2e4: 30, d2d4: 35 });
+      engine.setNextMove("e2e4");
+      const { lan } = await selectMove(
+        "engine_best",
+        {
+          fen: FEN,
+          proposals: proposals("e2e4", "d2d4"),
+          limitedStrength: true,
+        },
+        engine
+      );
+      expect(lan).toBe("e2e4");
+      expect(engine.lastCandidates).toEqual(["e2e4", "d2d4"]);
+    });
+  });
+
+  describe("plurality", () => {
+    it("plays the most proposed move even if the engine prefers another", async () => {
+      engine.setScores({ e2e4: 30, d2d4: 90 });
+      const { lan } = await selectMove(
+        "plurality",
+        { fen: FEN, proposals: proposals("d2d4", "e2e4", "e2e4") },
+        engine
+      );
+      expect(lan).toBe("e2e4");
+    });
+
+    it("lets the engine break a tie between the leaders", async () => {
+      engine.setScores({ e2e4: 30, d2d4: 35, g1f3: 90 });
+      const { lan } = await selectMove(
+        "plurality",
+        {
+          fen: FEN,
+          proposals: proposals("e2e4", "d2d4", "g1f3", "e2e4", "d2d4"),
+        },
+        engine
+      );
+      expect(lan).toBe("d2d4");
+    });
+  });
+
+  describe("weighted_random", () => {
+    it("draws from the engine evaluations", async () => {
+      engine.setScores({ e2e4: 30, h2h4: -100 });
+      const input = { fen: FEN, proposals: proposals("e2e4", "h2h4") };
+
+      const low = await selectMove("weighted_random", input, engine, () => 0);
+      const high = await selectMove(
+        "weighted_random",
+        input,
+        engine,
+        () => 0.9
+      );
+      expect(low.lan).toBe("e2e4");
+      expect(high.lan).toBe("h2h4");
+    });
+  });
+
+  describe("chaos", () => {
+    it("plays the worst evaluated candidate", async () => {
+      engine.setScores({ e2e4: 30, g2g4: -150, d2d4: 25 });
+      const { lan } = await selectMove(
+        "chaos",
+        { fen: FEN, proposals: proposals("e2e4", "g2g4", "d2d4") },
+        engine
+      );
+      expect(lan).toBe("g2g4");
+    });
+  });
+
+  describe("captain", () => {
+    it("plays the captain's proposal", async () => {
+      engine.setScores({ e2e4: 30, d2d4: 25 });
+      const { lan } = await selectMove(
+        "captain",
+        {
+          fen: FEN,
+          proposals: proposals("e2e4", "d2d4"),
+          captainId: "p1",
+        },
+        engine
+      );
+      expect(lan).toBe("d2d4");
+    });
+
+    it("falls back to the engine without a captain proposal", async () => {
+      engine.setScores({ e2e4: 30, d2d4: 25 });
+      const { lan } = await selectMove(
+        "captain",
+        {
+          fen: FEN,
+          proposals: proposals("e2e4", "d2d4"),
+          captainId: "gone",
+        },
+        engine
+      );
+      expect(lan).toBe("e2e4");
+    });
+  });
+});
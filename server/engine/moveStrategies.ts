@@ -0,0 +1,145 @@
+import type { MoveStrategy } from "../types.js";
+import type {
+  IEngineService,
+  MoveEvaluation,
+} from "../interfaces/IEngineService.js";
+import {
+  WEIGHTED_RANDOM_TEMPERATURE_CP,
+  AUTOPILOT_SEARCH_DEPTH,
+} from "../constants.js";
+import {
+  getPluralityLeaders,
+  pickBestMove,
+  pickWeightedRandom,
+  pickWorstMove,
+} from "../core/moveStrategyLogic.js";
+
+/**
+ * What a strategy knows about the turn being finalized.
+ */
+export interface MoveSelectionInput {
+  fen: string;
+  /** Proposals in submission order */
+  proposals: { pid: string; lan: string }[];
+  /** Active captain of the moving team, if any */
+  captainId?: string;
+  /** Set when the engine plays below full strength (see isStrengthLimited) */
+  limitedStrength?: boolean;
+}
+
+/**
+ * Decides which proposal a team plays, given the engine's score of every
+ * distinct proposed move. Strategies only return moves that were proposed.
+ */
+export interface MoveSelectionStrategy {
+  readonly name: MoveStrategy;
+  select(
+    input: MoveSelectionInput,
+    evaluations: MoveEvaluation[],
+    random: () => number
+  ): string;
+}
+
+export interface MoveSelectionResult {
+  lan: string;
+  /** One evaluation per distinct proposed move, in proposal order */
+  evaluations: MoveEvaluation[];
+  /** The engine's own choice in the position, to measure proposals against */
+  best?: MoveEvaluation;
+}
+
+const engineBest: MoveSelectionStrategy = {
+  name: "engine_best",
+  select: (_input, evaluations) => pickBestMove(evaluations),
+};
+
+const plurality: MoveSelectionStrategy = {
+  name: "plurality",
+  select(input, evaluations) {
+    const leaders = getPluralityLeaders(input.proposals.map((p) => p.lan));
+    if (leaders.length === 1) return leaders[0];
+    return pickBestMove(evaluations.filter((e) => leaders.includes(e.lan)));
+  },
+};
+
+const weightedRandom: MoveSelectionStrategy = {
+  name: "weighted_random",
+  select: (_input, evaluations, random) =>
+    pickWeightedRandom(evaluations, WEIGHTED_RANDOM_TEMPERATURE_CP, random),
+};
+
+const chaos: MoveSelectionStrategy = {
+  name: "chaos",
+  select: (_input, evaluations) => pickWorstMove(evaluations),
+};
+
+const captain: MoveSelectionStrategy = {
+  name: "captain",
+  select(input, evaluations) {
+    const pick = input.proposals.find((p) => p.pid === input.captainId);
+    // Captain left or did not propose: fall back to the engine's choice
+    return pick ? pick.lan : pickBestMove(evaluations);
+  },
+};
+
+export const moveStrategies: Record<MoveStrategy, MoveSelectionStrategy> = {
+  engine_best: engineBest,
+  plurality,
+  weighted_random: weightedRandom,
+  chaos,
+  captain,
+};
+
+/**
+ * Scores every distinct proposal with one engine search, then chooses the
+ * move to play with the given strategy. Only a choice between several moves
+ * needs the scores; a unanimous move is played unscored if the search
+ * fails. The engine's own choice in the position, for the players' stats,
+ * is searched at the same time; the move is played without it if that
+ * search fails.
+ */
+export async function selectMove(
+  strategy: MoveStrategy,
+  input: MoveSelectionInput,
+  engine: IEngineService,
+  random: () => number = Math.random
+): Promise<MoveSelectionResult> {
+  const lans = [...new Set(input.proposals.map((p) => p.lan))];
+  // The scores are always at full strength; only the engine's own pick
+  // follows its skill level or target Elo
+  const usesEnginePick =
+    lans.length > 1 && strategy === "engine_best" && input.limitedStrength;
+
+  // Every search is queued at once, so free engine processes can run
+  // them side by side
+  const best = engine.analyzePosition(input.fen).catch(() => undefined);
+  const pick = usesEnginePick
+    ? engine.chooseBestMove(input.fen, lans)
+    : undefined;
+  const scoring = engine.evaluateMoves(input.fen, lans);
+
+  const [evaluations, enginePick, bestEvaluation] = await Promise.all([
+    // A unanimous team plays its move even when the engine can't score it
+    lans.length === 1 ? scoring.catch(() => []) : scoring,
+    pick,
+    best,
+  ]);
+  const lan =
+    lans.length === 1
+      ? lans[0]
+      : (enginePick ??
+        moveStrategies[strategy].select(input, evaluations, random));
+  return { lan, evaluations, best: bestEvaluation };
+}
+
+/**
+ * Picks a move for a team that ran out of time without proposing, with a
+ * shallow search so the team doesn't get a strong move for free.
+ */
+export async function selectAutopilotMove(
+  fen: string,
+  engine: IEngineService
+): Promise<MoveSelectionResult> {
+  const evaluation = await engine.analyzePosition(fen, AUTOPILOT_SEARCH_DEPTH);
+  return { lan: evaluation.lan, evaluations: [evaluation] };
+}
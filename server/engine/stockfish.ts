@@ -1,30 +1,58 @@
-import { Engine } from "../types.js";
-import { stockfishPath, STOCKFISH_SEARCH_DEPTH } from "../constants.js";
+import { Engine, EngineSettings } from "../types.js";
+import {
+  ENGINE_PATH,
+  ENGINE_ARGS,
+  DEFAULT_ENGINE_NAME,
+  DEFAULT_ENGINE_SETTINGS,
+} from "../constants.js";
+import { getEngineOptionCommands } from "../core/engineSettingsLogic.js";
 import { loadEngine } from "./engine-loader.js";
+import { EnginePool } from "./enginePool.js";
 
-export function createEngine(): Engine {
-  const engine = loadEngine(stockfishPath);
-  engine.send("uci");
-  return engine;
+/**
+ * Starts a process of the configured engine for the pool.
+ */
+export function spawnEngine(onExit: () => void): Engine {
+  return loadEngine(ENGINE_PATH, onExit, ENGINE_ARGS);
 }
 
-export async function chooseBestMove(
+let pool: EnginePool | undefined;
+
+/**
+ * The pool of engine processes shared by every room.
+ */
+export function getEnginePool(): EnginePool {
+  pool ??= new EnginePool(spawnEngine);
+  return pool;
+}
+
+/**
+ * Name the engine reported in its handshake, for players to see.
+ */
+export function getEngineName(): string {
+  return getEnginePool().getEngineName() ?? DEFAULT_ENGINE_NAME;
+}
+
+/**
+ * Gives an engine a game's strength options. Pool handles keep them for
+ * every later request.
+ */
+export function configureEngine(
   engine: Engine,
-  fen: string,
-  candidates: string[]
-): Promise<string> {
-  if (new Set(candidates).size === 1) {
-    return candidates[0];
+  settings: EngineSettings
+): void {
+  for (const command of getEngineOptionCommands(settings)) {
+    engine.send(command);
   }
-  return new Promise<string>((resolve) => {
-    engine.send(`position fen ${fen}`);
-    const goCommand = `go depth ${STOCKFISH_SEARCH_DEPTH} searchmoves ${candidates.join(
-      " "
-    )}`;
-    engine.send(goCommand, (output: string) => {
-      if (output.startsWith("bestmove")) {
-        resolve(output.split(" ")[1]);
-      }
-    });
-  });
+}
+
+/**
+ * Creates a game's engine handle, backed by the shared pool.
+ */
+export function createEngine(
+  settings: EngineSettings = DEFAULT_ENGINE_SETTINGS
+): Engine {
+  const engine = getEnginePool().createEngine();
+  configureEngine(engine, settings);
+  return engine;
 }
@@ -1,26 +1,58 @@
 import type { IGameContext } from "../context/GameContext.js";
-import { globalContext } from "../context/GlobalContextAdapter.js";
 import { GameStatus, EndReason } from "../shared_types.js";
 
 // This callback will be set by gameLogic.ts to avoid circular dependency
-let onTimeoutCallback: ((reason: string, winner: string) => void) | null = null;
+let onTimeoutCallback:
+  | ((reason: string, winner: string, ctx: IGameContext) => void)
+  | null = null;
 
 export function setTimeoutCallback(
-  callback: (reason: string, winner: string) => void
+  callback: (reason: string, winner: string, ctx: IGameContext) => void
 ): void {
   onTimeoutCallback = callback;
 }
 
+// Set by gameLogic.ts to check the turn deadline every second
+let onTickCallback: ((ctx: IGameContext) => void) | null = null;
+
+export function setTickCallback(callback: (ctx: IGameContext) => void): void {
+  onTickCallback = callback;
+}
+
 /**
  * Starts the game clock.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * @param ctx Context of the room the game belongs to
  */
-export function startClock(ctx: IGameContext = globalContext): void {
-  const { gameState, io } = ctx;
+export function startClock(ctx: IGameContext): void {
+  const { gameState } = ctx;
 
   if (gameState.status !== GameStatus.AwaitingProposals) return;
   if (gameState.timerInterval) clearInterval(gameState.timerInterval);
 
+  gameState.turnStartTime =
+    gameState.side === "white" ? gameState.whiteTime : gameState.blackTime;
+  gameState.turnStartedAt = Date.now();
+
+  runClock(ctx);
+}
+
+/**
+ * Restarts a stopped clock mid-turn, e.g. after the server restored a game
+ * from a snapshot. Does nothing if the clock is already running.
+ * @param ctx Context of the room the game belongs to
+ */
+export function resumeClock(ctx: IGameContext): void {
+  const { gameState } = ctx;
+
+  if (gameState.status !== GameStatus.AwaitingProposals) return;
+  if (gameState.timerInterval) return;
+
+  runClock(ctx);
+}
+
+function runClock(ctx: IGameContext): void {
+  const { gameState, io } = ctx;
+
   io.emit("clock_update", {
     whiteTime: gameState.whiteTime,
     blackTime: gameState.blackTime,
@@ -38,17 +70,20 @@ export function startClock(ctx: IGameContext = globalContext): void {
     if (gameState.whiteTime <= 0 || gameState.blackTime <= 0) {
       const winner = gameState.side === "white" ? "black" : "white";
       if (onTimeoutCallback) {
-        onTimeoutCallback(EndReason.Timeout, winner);
+        onTimeoutCallback(EndReason.Timeout, winner, ctx);
       }
+      return;
     }
+
+    onTickCallback?.(ctx);
   }, 1000);
 }
 
 /**
  * Stops the game clock.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * @param ctx Context of the room the game belongs to
  */
-export function stopClock(ctx: IGameContext = globalContext): void {
+export function stopClock(ctx: IGameContext): void {
   const { gameState } = ctx;
   if (gameState.timerInterval) {
     clearInterval(gameState.timerInterval);
@@ -1,12 +1,33 @@
-import { describe, it, expect, afterEach } from "vitest";
+import { describe, it, expect, afterEach, vi } from "vitest";
 import type { Socket } from "socket.io";
 import {
   MockGameContext,
   type MockSocket,
 } from "../context/MockGameContext.js";
-import { GameStatus } from "../shared_types.js";
-import { handlePlayMove, handleJoinSide } from "../socket/eventHandlers.js";
+import { GameStatus, EndReason } from "../shared_types.js";
+import { MSG } from "../shared_messages.js";
+import {
+  handlePlayMove,
+  handleJoinSide,
+  handleRetractMove,
+  executeGameReset,
+} from "../socket/eventHandlers.js";
 import { leave } from "../players/playerManager.js";
+import {
+  endGame,
+  startGameAnalysis,
+  getVisibleProposals,
+  getTurnDeadlineEndTime,
+  tryFinalizeTurn,
+  startAutopilot,
+} from "./gameLogic.js";
+import { MockEngineService } from "../interfaces/MockEngineService.js";
+import type { GameAnalysis } from "../types.js";
+import {
+  DEFAULT_SPECTATOR_DELAY,
+  AUTOPILOT_GRACE_TIME,
+  AUTOPILOT_ENGINE_PENALTY,
+} from "../constants.js";
 
 function asSocket(s: MockSocket): Socket {
   return s as unknown as Socket;
@@ -44,7 +65,7 @@ function wasFinalized(ctx: MockGameContext): boolean {
 let lastCtx: MockGameContext | null = null;
 
 afterEach(() => {
-  // chooseBestMove() resolves synchronously for a single candidate; the .then()
+  // If selectMove() resolves before the test ends, the .then()
   // that advances the turn may schedule a clock interval after our assertions.
   // Clean it up to avoid leaking a timer into the next test.
   if (lastCtx?.gameState.timerInterval) {
@@ -105,3 +126,405 @@ describe("turn finalization invariant", () => {
     expect(wasFinalized(ctx)).toBe(true);
   });
 });
+
+describe("proposal visibility", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const delayMs = DEFAULT_SPECTATOR_DELAY.seconds * 1000;
+
+  function received(socket: MockSocket): boolean {
+    return socket.emittedEvents.some((e) => e.event === "move_submitted");
+  }
+
+  it("sends a proposal to the proposing team only, and to spectators later", () => {
+    vi.useFakeTimers();
+    const { ctx, whites, blacks } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+    const spectator = ctx.addPlayer("s1", "Spec", "spectator");
+
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+
+    expect(received(whites[1])).toBe(true);
+    expect(received(blacks[0])).toBe(false);
+    expect(received(spectator)).toBe(false);
+    expect(ctx.hasEmitted("move_submitted")).toBe(false);
+
+    vi.advanceTimersByTime(delayMs);
+
+    expect(received(spectator)).toBe(true);
+    expect(received(blacks[0])).toBe(false);
+  });
+
+  it("withdraws a proposal from spectators after they have seen it", () => {
+    vi.useFakeTimers();
+    const { ctx, whites } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+    const spectator = ctx.addPlayer("s1", "Spec", "spectator");
+
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+    handleRetractMove(asSocket(whites[0]), undefined, ctx);
+    expect(spectator.emittedEvents).toEqual([]);
+
+    vi.advanceTimersByTime(delayMs);
+    expect(spectator.emittedEvents.map((e) => e.event)).toEqual([
+      "move_submitted",
+      "move_retracted",
+    ]);
+  });
+
+  it("filters the current proposals for a rejoining socket", () => {
+    vi.useFakeTimers();
+    const { ctx, whites } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+
+    expect(getVisibleProposals("white", ctx)).toMatchObject([
+      { id: "w0", lan: "e2e4", san: "e4" },
+    ]);
+    expect(getVisibleProposals("black", ctx)).toEqual([]);
+    // Spectators rejoin from their delayed view instead
+    expect(getVisibleProposals("spectator", ctx)).toHaveLength(1);
+  });
+});
+
+describe("changing a proposal", () => {
+  function lastEvent(socket: MockSocket) {
+    return socket.emittedEvents[socket.emittedEvents.length - 1];
+  }
+
+  it("replaces an earlier proposal", () => {
+    const { ctx, whites } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+    let res: { error?: string } = {};
+    handlePlayMove(asSocket(whites[0]), "d2d4", (r) => (res = r), ctx);
+
+    expect(res).toEqual({});
+    expect(ctx.gameState.proposals.get("w0")?.lan).toBe("d2d4");
+    expect(lastEvent(whites[1])).toMatchObject({
+      event: "move_updated",
+      data: { id: "w0", lan: "d2d4", san: "d4" },
+    });
+    expect(wasFinalized(ctx)).toBe(false);
+  });
+
+  it("withdraws a proposal", () => {
+    const { ctx, whites } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+    let res: { error?: string } = {};
+    handleRetractMove(asSocket(whites[0]), (r) => (res = r), ctx);
+
+    expect(res).toEqual({});
+    expect(ctx.gameState.proposals.has("w0")).toBe(false);
+    expect(lastEvent(whites[1])).toEqual({
+      event: "move_retracted",
+      data: { id: "w0", moveNumber: 1, side: "white" },
+    });
+  });
+
+  it("rejects withdrawing without a proposal", () => {
+    const { ctx, whites } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+
+    let res: { error?: string } = {};
+    handleRetractMove(asSocket(whites[0]), (r) => (res = r), ctx);
+
+    expect(res.error).toBe(MSG.errorNoProposal);
+  });
+
+  it("keeps proposals once the turn is being finalized", () => {
+    const { ctx, whites } = setupAwaitingProposals(1);
+    lastCtx = ctx;
+
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+    expect(wasFinalized(ctx)).toBe(true);
+
+    let res: { error?: string } = {};
+    handleRetractMove(asSocket(whites[0]), (r) => (res = r), ctx);
+    handlePlayMove(asSocket(whites[0]), "d2d4", undefined, ctx);
+
+    expect(res.error).toBe(MSG.errorNotAccepting);
+    expect(ctx.gameState.proposals.get("w0")?.lan).toBe("e2e4");
+  });
+});
+
+describe("turn deadline", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("finalizes with the proposals so far once the deadline passes", () => {
+    vi.useFakeTimers();
+    const { ctx, whites } = setupAwaitingProposals(3);
+    lastCtx = ctx;
+    ctx.gameState.turnDeadline = { afterFirstProposal: 30, perTurn: 0 };
+
+    expect(getTurnDeadlineEndTime(ctx)).toBeNull();
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+    expect(getTurnDeadlineEndTime(ctx)).toBe(Date.now() + 30000);
+    expect(ctx.getLastEmittedData("turn_deadline_timer")).toEqual({
+      endTime: Date.now() + 30000,
+    });
+
+    vi.advanceTimersByTime(29000);
+    tryFinalizeTurn(ctx);
+    expect(wasFinalized(ctx)).toBe(false);
+
+    vi.advanceTimersByTime(1000);
+    tryFinalizeTurn(ctx);
+    expect(wasFinalized(ctx)).toBe(true);
+    expect(ctx.getLastEmittedData("chat_message")).toMatchObject({
+      message: MSG.turnDeadlinePassed("white", ["White1", "White2"]),
+    });
+  });
+
+  it("does not finalize an empty turn at the deadline", () => {
+    vi.useFakeTimers();
+    const { ctx } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+    ctx.gameState.turnDeadline = { afterFirstProposal: 0, perTurn: 10 };
+    ctx.gameState.turnStartedAt = Date.now();
+
+    vi.advanceTimersByTime(20000);
+    tryFinalizeTurn(ctx);
+
+    expect(wasFinalized(ctx)).toBe(false);
+  });
+});
+
+describe("autopilot", () => {
+  it("leaves a timed-out team without proposals to lose on time", () => {
+    const { ctx } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+    ctx.gameState.autopilot = "proposals";
+
+    expect(startAutopilot(ctx)).toBe(false);
+    expect(wasFinalized(ctx)).toBe(false);
+  });
+
+  it("plays the proposals made before the clock ran out", () => {
+    const { ctx, whites } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+    ctx.gameState.autopilot = "proposals";
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+    ctx.gameState.whiteTime = 0;
+
+    expect(startAutopilot(ctx)).toBe(true);
+    expect(wasFinalized(ctx)).toBe(true);
+    expect(ctx.getLastEmittedData("chat_message")).toMatchObject({
+      message: MSG.autopilotProposals("white"),
+    });
+  });
+
+  it("lets the engine move for a team without proposals, at a penalty", async () => {
+    const { ctx } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+    ctx.gameState.autopilot = "engine";
+    ctx.gameState.whiteTime = 0;
+    ctx.gameState.engine = {
+      send: (command, callback) => {
+        if (command.startsWith("go")) callback?.("bestmove g1f3");
+      },
+      quit: () => {},
+    };
+
+    expect(startAutopilot(ctx)).toBe(true);
+
+    await vi.waitFor(() => expect(ctx.gameState.history).toHaveLength(1));
+    expect(ctx.gameState.history[0]).toMatchObject({
+      lan: "g1f3",
+      san: "Nf3",
+      autopilot: "engine",
+      candidates: [],
+    });
+    expect(ctx.gameState.whiteTime).toBe(
+      AUTOPILOT_GRACE_TIME - AUTOPILOT_ENGINE_PENALTY
+    );
+    expect(ctx.gameState.side).toBe("black");
+  });
+});
+
+describe("engine failure", () => {
+  const failingEngine = {
+    send: (
+      command: string,
+      _callback?: (output: string) => void,
+      _onInfo?: (line: string) => void,
+      onError?: (error: Error) => void
+    ) => {
+      if (command.startsWith("go"))
+        onError?.(new Error("Engine search timed out"));
+    },
+    quit: () => {},
+  };
+
+  it("starts the turn over with the clock running", async () => {
+    const { ctx, whites } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+    ctx.gameState.engine = failingEngine;
+
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+    handlePlayMove(asSocket(whites[1]), "d2d4", undefined, ctx);
+
+    await vi.waitFor(() =>
+      expect(ctx.gameState.status).toBe(GameStatus.AwaitingProposals)
+    );
+    expect(ctx.gameState.proposals.size).toBe(0);
+    expect(ctx.gameState.history).toHaveLength(0);
+    expect(ctx.gameState.timerInterval).toBeDefined();
+    expect(ctx.getLastEmittedData("chat_message")).toMatchObject({
+      message: MSG.systemError,
+    });
+  });
+
+  it("ends the game on time when the autopilot engine fails", async () => {
+    const { ctx } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+    ctx.gameState.autopilot = "engine";
+    ctx.gameState.whiteTime = 0;
+    ctx.gameState.engine = failingEngine;
+
+    expect(startAutopilot(ctx)).toBe(true);
+
+    await vi.waitFor(() => expect(ctx.gameState.status).toBe(GameStatus.Over));
+    expect(ctx.gameState.endReason).toBe(EndReason.Timeout);
+    expect(ctx.gameState.endWinner).toBe("black");
+  });
+});
+
+describe("game reset during a search", () => {
+  it("quits the old engine and never plays its move", async () => {
+    const { ctx, whites } = setupAwaitingProposals(1);
+    lastCtx = ctx;
+    let answer: ((output: string) => void) | undefined;
+    let quit = false;
+    ctx.gameState.engine = {
+      // Holds the first search; any later one answers at once
+      send: (command, callback) => {
+        if (!command.startsWith("go")) return;
+        if (answer) callback?.("bestmove e2e4");
+        else answer = callback;
+      },
+      quit: () => {
+        quit = true;
+      },
+    };
+
+    handlePlayMove(asSocket(whites[0]), "e2e4", undefined, ctx);
+    await vi.waitFor(() => expect(answer).toBeDefined());
+
+    executeGameReset(ctx);
+    expect(quit).toBe(true);
+    ctx.clearEmittedEvents();
+
+    answer!("bestmove e2e4");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(ctx.gameState.status).toBe(GameStatus.Setup);
+    expect(ctx.gameState.history).toHaveLength(0);
+    expect(ctx.getEmittedData("move_selected")).toHaveLength(0);
+  });
+});
+
+describe("endGame archiving", () => {
+  it("stores the finished game with rosters, result and PGN", () => {
+    const { ctx } = setupAwaitingProposals(2);
+    lastCtx = ctx;
+    ctx.gameState.startedAt = 1000;
+    ctx.gameState.chess.move("e4");
+    ctx.gameState.history.push({
+      id: "w0",
+      name: "White0",
+      moveNumber: 1,
+      side: "white",
+      lan: "e2e4",
+      san: "e4",
+      fen: ctx.gameState.chess.fen(),
+      strategy: "engine_best",
+      candidates: [],
+    });
+
+    endGame("resignation", "black", ctx);
+
+    expect(ctx.archive.records).toHaveLength(1);
+    const game = ctx.archive.records[0];
+    expect(game.roomId).toBe("test-room");
+    expect(game.startedAt).toBe(1000);
+    expect(game.result).toBe("0-1");
+    expect(game.winner).toBe("black");
+    expect(game.reason).toBe("resignation");
+    expect(game.white.map((p) => p.name)).toEqual(["White0", "White1"]);
+    expect(game.black.map((p) => p.name)).toEqual(["Black0"]);
+    expect(game.turns).toHaveLength(1);
+    expect(game.pgn).toContain('[Result "0-1"]');
+    expect(game.pgn).toContain('[Termination "normal"]');
+    expect(game.pgn).toContain("1. e4 0-1");
+  });
+
+  it("archives a game only once", () => {
+    const { ctx } = setupAwaitingProposals(1);
+    lastCtx = ctx;
+
+    endGame("resignation", "black", ctx);
+    endGame("resignation", "black", ctx);
+
+    expect(ctx.archive.records).toHaveLength(1);
+  });
+});
+
+describe("startGameAnalysis", () => {
+  function finishedGame(): MockGameContext {
+    const { ctx } = setupAwaitingProposals(1);
+    lastCtx = ctx;
+    for (const san of ["e4", "e5"]) {
+      const side = ctx.gameState.chess.turn() === "w" ? "white" : "black";
+      const move = ctx.gameState.chess.move(san);
+      ctx.gameState.history.push({
+        id: "p",
+        name: "P",
+        moveNumber: ctx.gameState.history.length + 1,
+        side,
+        lan: move.lan,
+        san: move.san,
+        fen: ctx.gameState.chess.fen(),
+        strategy: "engine_best",
+        candidates: [],
+      });
+    }
+    endGame("resignation", "black", ctx);
+    return ctx;
+  }
+
+  it("streams the review of every move and quits its engine", async () => {
+    const ctx = finishedGame();
+    const engine = new MockEngineService();
+
+    startGameAnalysis(ctx, engine);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    const updates = ctx.getEmittedData<GameAnalysis>("analysis_update");
+    expect(updates.at(-1)?.total).toBe(2);
+    expect(updates.at(-1)?.moves.map((m) => m.san)).toEqual(["e4", "e5"]);
+    expect(ctx.gameState.analysis?.moves).toHaveLength(2);
+    expect(engine.wasQuit).toBe(true);
+  });
+
+  it("stops reviewing once the game is reset", async () => {
+    const ctx = finishedGame();
+    const engine = new MockEngineService();
+
+    startGameAnalysis(ctx, engine);
+    ctx.resetGame(ctx.gameState.engine);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(ctx.gameState.analysis).toBeUndefined();
+    expect(engine.analyzedFens.length).toBeLessThan(3);
+    expect(engine.wasQuit).toBe(true);
+  });
+});
@@ -1,27 +1,62 @@
-import type { IGameContext } from "../context/GameContext.js";
-import { globalContext } from "../context/GlobalContextAdapter.js";
-import { GameStatus, EndReason, Proposal } from "../types.js";
-import { reasonMessages, gameOverFallback, MSG } from "../shared_messages.js";
-import { getCleanPgn } from "../utils/pgn.js";
+import { nanoid } from "nanoid";
+import type { IGameContext, ISocket } from "../context/GameContext.js";
+import {
+  GameStatus,
+  EndReason,
+  Proposal,
+  Selection,
+  GameAnalysis,
+  type GameView,
+} from "../types.js";
+import {
+  reasonMessages,
+  gameOverFallback,
+  MSG,
+  AUTOPILOT_PLAYER_NAME,
+} from "../shared_messages.js";
+import { exportPgn } from "../utils/pgn.js";
 import { broadcastPlayers, sendSystemMessage } from "../utils/messaging.js";
 import { clearTeamVote, setEndGameCallback } from "../voting/teamVote.js";
-import { startClock, stopClock, setTimeoutCallback } from "./clock.js";
-import { chooseBestMove } from "../engine/stockfish.js";
+import {
+  startClock,
+  stopClock,
+  resumeClock,
+  setTimeoutCallback,
+  setTickCallback,
+} from "./clock.js";
+import { selectMove, selectAutopilotMove } from "../engine/moveStrategies.js";
+import { analyzeGame } from "../engine/gameAnalysis.js";
+import {
+  StockfishEngineService,
+  type IEngineService,
+} from "../interfaces/IEngineService.js";
 import {
   shouldFinalizeTurn as checkShouldFinalize,
-  calculateIncrement,
+  calculateClockAfterMove,
   detectGameOver,
 } from "../core/turnLogic.js";
 import { shouldEndDueToAbandonment } from "../core/playerLogic.js";
+import { getCaptainId } from "../core/moveStrategyLogic.js";
+import { toMoveEval } from "../core/uciLogic.js";
+import { collectTeamRoster, getPgnResult } from "../core/archiveLogic.js";
+import { canSeeProposal } from "../core/proposalVisibilityLogic.js";
+import { getTurnDeadlineEnd } from "../core/turnDeadlineLogic.js";
+import {
+  getAutopilotAction,
+  getClockAfterAutopilot,
+  type AutopilotAction,
+} from "../core/autopilotLogic.js";
+import { isStrengthLimited } from "../core/engineSettingsLogic.js";
+import { EVAL_PV_PLIES } from "../constants.js";
 
 /**
  * Ends the game with a given reason and optional winner.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * @param ctx Context of the room the game belongs to
  */
 export function endGame(
   reason: string,
-  winner: string | null = null,
-  ctx: IGameContext = globalContext
+  winner: string | null,
+  ctx: IGameContext
 ): void {
   const { gameState, io } = ctx;
 
@@ -44,21 +79,337 @@ export function endGame(
   broadcastPlayers(ctx);
 
   gameState.drawOffer = undefined;
-  const pgn = getCleanPgn(gameState.chess);
-  io.emit("game_over", { reason, winner, pgn });
+  io.emit("game_over", {
+    reason,
+    winner,
+    pgn: getGamePgn(ctx),
+    annotatedPgn: getGamePgn(ctx, true),
+  });
   io.emit("draw_offer_update", { side: null });
+
+  archiveGame(ctx);
 }
 
-// Initialize callbacks to avoid circular dependencies
-setTimeoutCallback((reason, winner) => endGame(reason, winner));
-setEndGameCallback((reason, winner) => endGame(reason, winner));
+/**
+ * Collects both team rosters, including players who have since left.
+ * @param ctx Context of the room the game belongs to
+ */
+function getTeamRosters(ctx: IGameContext): {
+  white: { id: string; name: string }[];
+  black: { id: string; name: string }[];
+} {
+  const { gameState, sessions } = ctx;
+  return {
+    white: collectTeamRoster(
+      "white",
+      gameState.whiteIds,
+      sessions,
+      gameState.history
+    ),
+    black: collectTeamRoster(
+      "black",
+      gameState.blackIds,
+      sessions,
+      gameState.history
+    ),
+  };
+}
 
 /**
- * Attempts to finalize the current turn if all active players have submitted moves.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * Exports the game as PGN with full headers.
+ * @param ctx Context of the room the game belongs to
+ * @param annotated Adds a comment to every move describing its proposals
  */
-export function tryFinalizeTurn(ctx: IGameContext = globalContext): void {
+export function getGamePgn(ctx: IGameContext, annotated = false): string {
+  const { gameState } = ctx;
+  const { white, black } = getTeamRosters(ctx);
+  const isOver = gameState.status === GameStatus.Over;
+  const winner = (gameState.endWinner ?? null) as "white" | "black" | null;
+
+  return exportPgn(
+    gameState.chess,
+    {
+      event: `TeamChess: ${ctx.roomName}`,
+      site: "TeamChess",
+      startedAt: gameState.startedAt ?? Date.now(),
+      white: white.map((p) => p.name),
+      black: black.map((p) => p.name),
+      result: isOver ? getPgnResult(winner) : "*",
+      reason: gameState.endReason,
+      timeControl: gameState.timeControl,
+    },
+    annotated ? gameState.history : undefined
+  );
+}
+
+/**
+ * Stores the finished game in the archive.
+ * @param ctx Context of the room the game belongs to
+ */
+function archiveGame(ctx: IGameContext): void {
+  const { gameState } = ctx;
+  const winner = (gameState.endWinner ?? null) as "white" | "black" | null;
+  const endedAt = Date.now();
+  const { white, black } = getTeamRosters(ctx);
+
+  ctx.archive.save({
+    id: nanoid(),
+    roomId: ctx.roomId,
+    roomName: ctx.roomName,
+    startedAt: gameState.startedAt ?? endedAt,
+    endedAt,
+    result: getPgnResult(winner),
+    reason: gameState.endReason ?? "",
+    winner,
+    white,
+    black,
+    timeControl: gameState.timeControl,
+    moveStrategy: gameState.moveStrategy,
+    pgn: getGamePgn(ctx),
+    turns: gameState.history,
+  });
+}
+
+/**
+ * Runs the post-game engine review, streaming each reviewed move to the room.
+ * @param ctx Context of the room the game belongs to
+ * @param engine Engine to review with; it is quit afterwards
+ */
+export function startGameAnalysis(
+  ctx: IGameContext,
+  engine: IEngineService
+): void {
   const { gameState, io } = ctx;
+  const analysis: GameAnalysis = {
+    total: gameState.history.length,
+    moves: [],
+  };
+  gameState.analysis = analysis;
+  io.emit("analysis_update", analysis);
+
+  // A reset replaces the game state; stop reviewing the old game then
+  const isCurrentGame = () => ctx.gameState === gameState;
+
+  analyzeGame(gameState.startFen, gameState.history, engine, (move) => {
+    if (!isCurrentGame()) return false;
+    analysis.moves.push(move);
+    io.emit("analysis_update", analysis);
+  })
+    .catch((err) => {
+      console.error("Game analysis failed:", err);
+      if (!isCurrentGame()) return;
+      gameState.analysis = undefined;
+      io.emit("analysis_update", null);
+      sendSystemMessage(MSG.analysisFailed, ctx);
+    })
+    .finally(() => engine.quit());
+}
+
+/**
+ * Proposals of the current turn that a viewer on `viewerSide` may see.
+ * @param ctx Context of the room the game belongs to
+ */
+export function getVisibleProposals(
+  viewerSide: string | undefined,
+  ctx: IGameContext
+): Proposal[] {
+  const { gameState } = ctx;
+  if (!canSeeProposal(viewerSide, gameState.side)) return [];
+
+  return [...gameState.proposals.entries()].map(([pid, p]) => ({
+    id: pid,
+    name: p.name,
+    moveNumber: gameState.moveNumber,
+    side: gameState.side,
+    lan: p.lan,
+    san: p.san,
+  }));
+}
+
+/**
+ * Sends a new proposal to the proposing team at once, and to spectators
+ * through their delayed channel. The other team only learns of it from
+ * move_selected.
+ * @param replaced Whether it replaces the player's earlier proposal
+ * @param ctx Context of the room the game belongs to
+ */
+export function broadcastProposal(
+  pid: string,
+  ctx: IGameContext,
+  replaced = false
+): void {
+  const { gameState } = ctx;
+  const proposal = gameState.proposals.get(pid);
+  if (!proposal) return;
+
+  const data: Proposal = {
+    id: pid,
+    name: proposal.name,
+    moveNumber: gameState.moveNumber,
+    side: gameState.side,
+    lan: proposal.lan,
+    san: proposal.san,
+  };
+
+  const event = replaced ? "move_updated" : "move_submitted";
+  for (const socket of ctx.getSocketsBySide(gameState.side)) {
+    socket.emit(event, data);
+  }
+  ctx.spectators.emit(event, data);
+}
+
+/**
+ * Tells everyone who may have seen a proposal that it was withdrawn.
+ * @param ctx Context of the room the game belongs to
+ */
+export function retractProposal(pid: string, ctx: IGameContext): void {
+  const { moveNumber, side } = ctx.gameState;
+  const data = { id: pid, moveNumber, side };
+  for (const socket of ctx.getSocketsBySide(side)) {
+    socket.emit("move_retracted", data);
+  }
+  ctx.spectators.emit("move_retracted", data);
+}
+
+/**
+ * The game as a viewer on `viewerSide` may see it right now.
+ * @param ctx Context of the room the game belongs to
+ */
+export function getGameView(
+  viewerSide: string | undefined,
+  ctx: IGameContext
+): GameView {
+  const { gameState } = ctx;
+  const isOver = gameState.status === GameStatus.Over;
+
+  return {
+    status: gameState.status,
+    whiteTime: gameState.whiteTime,
+    blackTime: gameState.blackTime,
+    fen: gameState.chess.fen(),
+    startFen: gameState.startFen,
+    moveNumber: gameState.moveNumber,
+    side: gameState.side,
+    history: gameState.history,
+    proposals: getVisibleProposals(viewerSide, ctx),
+    turnDeadlineEnd: getTurnDeadlineEndTime(ctx),
+    drawOffer: gameState.drawOffer ?? null,
+    gameOver: isOver
+      ? {
+          reason: gameState.endReason ?? "",
+          winner: gameState.endWinner ?? null,
+          pgn: getGamePgn(ctx),
+          annotatedPgn: getGamePgn(ctx, true),
+        }
+      : null,
+    analysis: gameState.analysis ?? null,
+  };
+}
+
+/**
+ * Replays a view of the game to one socket, e.g. one that just joined.
+ * @param ctx Context of the room the game belongs to
+ */
+export function sendGameView(
+  socket: ISocket,
+  view: GameView,
+  ctx: IGameContext
+): void {
+  socket.emit("game_status_update", { status: view.status });
+  socket.emit("clock_update", {
+    whiteTime: view.whiteTime,
+    blackTime: view.blackTime,
+  });
+  socket.emit("position_update", { fen: view.fen });
+  if (view.status === GameStatus.Setup) return;
+
+  socket.emit("game_started", {
+    moveNumber: view.moveNumber,
+    side: view.side,
+    proposals: view.proposals,
+    timeControl: ctx.gameState.timeControl,
+    // Earlier turns, so late joiners can step back through the game
+    startFen: view.startFen,
+    history: view.history,
+  });
+  socket.emit("clock_update", {
+    whiteTime: view.whiteTime,
+    blackTime: view.blackTime,
+  });
+  socket.emit("turn_deadline_timer", { endTime: view.turnDeadlineEnd });
+
+  if (view.drawOffer) {
+    socket.emit("draw_offer_update", { side: view.drawOffer });
+  }
+  if (view.gameOver) socket.emit("game_over", view.gameOver);
+  if (view.analysis) socket.emit("analysis_update", view.analysis);
+}
+
+/**
+ * When the current turn's proposal deadline runs out (ms since epoch), or
+ * null if there is none yet.
+ * @param ctx Context of the room the game belongs to
+ */
+export function getTurnDeadlineEndTime(ctx: IGameContext): number | null {
+  const { gameState } = ctx;
+  if (gameState.status !== GameStatus.AwaitingProposals) return null;
+
+  return (
+    getTurnDeadlineEnd(
+      gameState.turnDeadline,
+      gameState.turnStartedAt,
+      gameState.firstProposalAt
+    ) ?? null
+  );
+}
+
+/**
+ * Sends the current turn's deadline to everyone in the room.
+ * @param ctx Context of the room the game belongs to
+ */
+export function broadcastTurnDeadline(ctx: IGameContext): void {
+  ctx.io.emit("turn_deadline_timer", { endTime: getTurnDeadlineEndTime(ctx) });
+}
+
+/**
+ * Lets autopilot move for the side whose clock just ran out, if the room
+ * allows it. Returns false when the side loses on time instead.
+ * @param ctx Context of the room the game belongs to
+ */
+export function startAutopilot(ctx: IGameContext): boolean {
+  const { gameState } = ctx;
+  if (gameState.status !== GameStatus.AwaitingProposals) return false;
+
+  const action = getAutopilotAction(
+    gameState.autopilot,
+    gameState.proposals.size
+  );
+  if (!action) return false;
+
+  sendSystemMessage(
+    action === "engine"
+      ? MSG.autopilotEngine(gameState.side)
+      : MSG.autopilotProposals(gameState.side),
+    ctx
+  );
+  finalizeTurn(ctx, ctx.getActiveTeamPids(gameState.side), action);
+  return true;
+}
+
+// Initialize callbacks to avoid circular dependencies
+setTimeoutCallback((reason, winner, ctx) => {
+  if (!startAutopilot(ctx)) endGame(reason, winner, ctx);
+});
+setEndGameCallback((reason, winner, ctx) => endGame(reason, winner, ctx));
+setTickCallback((ctx) => tryFinalizeTurn(ctx));
+
+/**
+ * Attempts to finalize the current turn if all active players have submitted
+ * moves, or if the turn deadline has passed with at least one proposal.
+ * @param ctx Context of the room the game belongs to
+ */
+export function tryFinalizeTurn(ctx: IGameContext): void {
+  const { gameState } = ctx;
 
   if (gameState.status !== GameStatus.AwaitingProposals) return;
 
@@ -73,12 +424,37 @@ export function tryFinalizeTurn(ctx: IGameContext = globalContext): void {
       whiteTime: gameState.whiteTime,
       blackTime: gameState.blackTime,
       proposals: gameState.proposals,
+      deadlineEnd: getTurnDeadlineEndTime(ctx) ?? undefined,
     },
-    { activeTeamPids }
+    { activeTeamPids },
+    Date.now()
   );
 
   if (!shouldFinalize) return;
 
+  const missing = [...activeTeamPids]
+    .filter((pid) => !gameState.proposals.has(pid))
+    .map((pid) => ctx.sessions.get(pid)?.name ?? pid);
+  if (missing.length > 0) {
+    sendSystemMessage(MSG.turnDeadlinePassed(gameState.side, missing), ctx);
+  }
+
+  finalizeTurn(ctx, activeTeamPids);
+}
+
+/**
+ * Chooses and plays the current side's move, then starts the next turn.
+ * @param activeTeamPids Online players of the side to move
+ * @param autopilot Set when the side ran out of time
+ * @param ctx Context of the room the game belongs to
+ */
+function finalizeTurn(
+  ctx: IGameContext,
+  activeTeamPids: Set<string>,
+  autopilot?: AutopilotAction
+): void {
+  const { gameState, io } = ctx;
+
   gameState.status = GameStatus.FinalizingTurn;
   io.emit("game_status_update", { status: gameState.status });
 
@@ -96,9 +472,51 @@ export function tryFinalizeTurn(ctx: IGameContext = globalContext): void {
   }));
 
   const currentFen = gameState.chess.fen();
+  const strategy = gameState.moveStrategy;
+  const captainId =
+    strategy === "captain"
+      ? getCaptainId(
+          gameState.side === "white" ? gameState.whiteIds : gameState.blackIds,
+          activeTeamPids
+        )
+      : undefined;
+
+  const engine = new StockfishEngineService(
+    gameState.engine,
+    gameState.engineSettings
+  );
+  const choice =
+    autopilot === "engine"
+      ? selectAutopilotMove(currentFen, engine)
+      : selectMove(
+          strategy,
+          {
+            fen: currentFen,
+            proposals: allEntries.map(([pid, { lan }]) => ({ pid, lan })),
+            captainId,
+            limitedStrength: isStrengthLimited(gameState.engineSettings),
+          },
+          engine
+        );
+
+  choice
+    .then(({ lan: selLan, evaluations, best }) => {
+      // The game was reset while the engine was thinking
+      if (ctx.gameState !== gameState) return;
+
+      // Attach the engine's verdict to every candidate (PV is relative to
+      // the position before the move, so convert it first)
+      const evalByLan = new Map(
+        evaluations.map((e) => [
+          e.lan,
+          toMoveEval(currentFen, { ...e, pv: e.pv.slice(0, EVAL_PV_PLIES) }),
+        ])
+      );
+      const candidates = candidatesObjs.map((c) => ({
+        ...c,
+        evaluation: evalByLan.get(c.lan),
+      }));
 
-  chooseBestMove(gameState.engine, currentFen, candidatesStr)
-    .then((selLan) => {
       const from = selLan.slice(0, 2);
       const to = selLan.slice(2, 4);
 
@@ -117,24 +535,43 @@ export function tryFinalizeTurn(ctx: IGameContext = globalContext): void {
       }
       const fen = gameState.chess.fen();
 
-      // Use pure logic for increment calculation
+      // Use pure logic to apply the time control (increment, delay, per-move)
       const currentTime =
         gameState.side === "white" ? gameState.whiteTime : gameState.blackTime;
-      const increment = calculateIncrement(currentTime);
+      const clockAfterMove = calculateClockAfterMove(
+        currentTime,
+        gameState.turnStartTime - currentTime,
+        gameState.timeControl
+      );
+      const newTime = autopilot
+        ? getClockAfterAutopilot(clockAfterMove, autopilot)
+        : clockAfterMove;
 
-      if (gameState.side === "white") gameState.whiteTime += increment;
-      else gameState.blackTime += increment;
+      if (gameState.side === "white") gameState.whiteTime = newTime;
+      else gameState.blackTime = newTime;
 
       io.emit("clock_update", {
         whiteTime: gameState.whiteTime,
         blackTime: gameState.blackTime,
       });
 
-      const winnerEntry = allEntries.find(([, val]) => val.lan === selLan);
-      const winnerId = winnerEntry ? winnerEntry[0] : "unknown";
-      const winnerName = winnerEntry ? winnerEntry[1].name : "TeamChess";
+      // Credit the captain for their own pick, else the first proposer
+      const winnerEntry =
+        allEntries.find(
+          ([id, val]) => id === captainId && val.lan === selLan
+        ) ?? allEntries.find(([, val]) => val.lan === selLan);
+      const winnerId = winnerEntry
+        ? winnerEntry[0]
+        : autopilot === "engine"
+          ? "autopilot"
+          : "unknown";
+      const winnerName = winnerEntry
+        ? winnerEntry[1].name
+        : autopilot === "engine"
+          ? AUTOPILOT_PLAYER_NAME
+          : "TeamChess";
 
-      io.emit("move_selected", {
+      const selection: Selection = {
         id: winnerId,
         name: winnerName,
         moveNumber: gameState.moveNumber,
@@ -142,8 +579,13 @@ export function tryFinalizeTurn(ctx: IGameContext = globalContext): void {
         lan: selLan,
         san: move.san,
         fen,
-        candidates: candidatesObjs,
-      });
+        candidates,
+        strategy,
+      };
+      if (autopilot) selection.autopilot = autopilot;
+      if (best) selection.best = { lan: best.lan, score: best.score };
+      gameState.history.push(selection);
+      io.emit("move_selected", selection);
 
       // Use pure logic to detect game over
       const gameOverResult = detectGameOver(gameState.chess, gameState.side);
@@ -152,6 +594,7 @@ export function tryFinalizeTurn(ctx: IGameContext = globalContext): void {
         endGame(gameOverResult.reason!, gameOverResult.winner ?? null, ctx);
       } else {
         gameState.proposals.clear();
+        gameState.firstProposalAt = undefined;
         gameState.side = gameState.side === "white" ? "black" : "white";
         gameState.moveNumber++;
         gameState.status = GameStatus.AwaitingProposals;
@@ -162,25 +605,37 @@ export function tryFinalizeTurn(ctx: IGameContext = globalContext): void {
         io.emit("game_status_update", { status: gameState.status });
         io.emit("position_update", { fen });
         startClock(ctx);
+        broadcastTurnDeadline(ctx);
       }
     })
     .catch((e) => {
+      if (ctx.gameState !== gameState) return;
+      // The engine failed without even a partial result (see
+      // IEngineService): the turn starts over with the clock running again
       console.error(
         `CRITICAL: Engine error. FEN: ${currentFen}, Candidates: ${candidatesStr}`,
         e
       );
+      // Autopilot only moves for a team that is out of time
+      if (autopilot) {
+        const winner = gameState.side === "white" ? "black" : "white";
+        return endGame(EndReason.Timeout, winner, ctx);
+      }
       gameState.status = GameStatus.AwaitingProposals;
       gameState.proposals.clear();
+      gameState.firstProposalAt = undefined;
       io.emit("game_status_update", { status: gameState.status });
+      resumeClock(ctx);
+      broadcastTurnDeadline(ctx);
       sendSystemMessage(MSG.systemError, ctx);
     });
 }
 
 /**
  * Ends the game if one side has no remaining players.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * @param ctx Context of the room the game belongs to
  */
-export function endIfOneSided(ctx: IGameContext = globalContext): void {
+export function endIfOneSided(ctx: IGameContext): void {
   const { gameState } = ctx;
 
   if (
@@ -3,10 +3,27 @@ import express from "express";
 import { Server } from "socket.io";
 import path from "path";
 import { fileURLToPath } from "url";
-import { setIO, setGameState, getGameState } from "./state.js";
-import { createEngine } from "./engine/stockfish.js";
-import { createInitialGameState } from "./context/GameContext.js";
+import { RoomManager } from "./rooms/roomManager.js";
 import { setupConnectionHandler } from "./socket/connectionHandler.js";
+import { createRoomRouter } from "./api/roomRoutes.js";
+import { createGameRouter } from "./api/gameRoutes.js";
+import { createPlayerRouter } from "./api/playerRoutes.js";
+import { createLeaderboardRouter } from "./api/leaderboardRoutes.js";
+import { createEngineRouter } from "./api/engineRoutes.js";
+import { createAuthRouter } from "./api/authRoutes.js";
+import { AccountService, loadAuthSecret } from "./players/accounts.js";
+import { getEnginePool } from "./engine/stockfish.js";
+import { FileGameArchive } from "./interfaces/IGameArchive.js";
+import { FileSnapshotStore } from "./interfaces/ISnapshotStore.js";
+import { FileUserStore } from "./interfaces/IUserStore.js";
+import {
+  DEFAULT_ROOM_ID,
+  DEFAULT_ROOM_NAME,
+  GAME_ARCHIVE_PATH,
+  USERS_PATH,
+  SNAPSHOT_INTERVAL_MS,
+  SNAPSHOT_PATH,
+} from "./constants.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -23,17 +40,49 @@ async function startServer() {
     pingInterval: 5000,
     pingTimeout: 5000,
   });
-  // Set global IO instance
-  setIO(io);
 
-  // Initialize game state
-  const engine = createEngine();
-  setGameState(createInitialGameState(engine));
+  // Finished games are kept on disk, shared by every room
+  const archive = new FileGameArchive(GAME_ARCHIVE_PATH);
+  // Optional accounts give players a name and id that carry across rooms
+  const accounts = new AccountService(
+    new FileUserStore(USERS_PATH),
+    loadAuthSecret()
+  );
+
+  // Initialize rooms, picking up where the last run left off
+  const rooms = new RoomManager(io, archive);
+  const snapshots = new FileSnapshotStore(SNAPSHOT_PATH);
+  const snapshot = snapshots.load();
+  if (snapshot) {
+    rooms.restore(snapshot);
+    console.log(`Restored ${snapshot.rooms.length} room(s) from snapshot`);
+  }
+
+  // Default room for clients that don't pick a room
+  if (!rooms.getRoom(DEFAULT_ROOM_ID)) {
+    rooms.createRoom(DEFAULT_ROOM_NAME, DEFAULT_ROOM_ID);
+  }
+
+  // Keep the snapshot fresh so a crash loses at most a few seconds
+  const snapshotTimer = setInterval(
+    () => snapshots.save(rooms.snapshot()),
+    SNAPSHOT_INTERVAL_MS
+  );
 
   // Setup socket connection handler
-  setupConnectionHandler();
+  setupConnectionHandler(io, rooms, accounts);
+
+  // Lobby and archive API
+  app.use(express.json());
+  app.use("/api/auth", createAuthRouter(accounts));
+  app.use("/api/rooms", createRoomRouter(rooms));
+  app.use("/api/games", createGameRouter(archive));
+  app.use("/api/players", createPlayerRouter(archive));
+  app.use("/api/leaderboard", createLeaderboardRouter(archive));
+  app.use("/api/engine", createEngineRouter(getEnginePool()));
+  getEnginePool().start();
 
-  // Serve static files
+  // Serve static files; every other path (e.g. /room/:id) gets the SPA
   const publicPath = path.join(__dirname, "../client/dist");
   app.use(express.static(publicPath));
   app.get(/.*/, (req, res) => {
@@ -49,7 +98,10 @@ async function startServer() {
   // Graceful shutdown
   const shutdown = () => {
     console.log("Shutting down...");
-    getGameState().engine.quit();
+    clearInterval(snapshotTimer);
+    snapshots.save(rooms.snapshot());
+    rooms.shutdown();
+    getEnginePool().shutdown();
     server.close(() => process.exit(0));
     // Force exit if close hangs (e.g. open WebSocket connections)
     setTimeout(() => process.exit(0), 1000);
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import type { Engine } from "../types.js";
+import { StockfishEngineService } from "./IEngineService.js";
+import { DEFAULT_ENGINE_SETTINGS } from "../constants.js";
+
+const START_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+/**
+ * Engine process stand-in that replays scripted output for each search.
+ * `reply` undefined makes the search fail instead, as if the process died.
+ */
+function fakeEngine(info: string[], reply?: string): Engine {
+  return {
+    send(command, callback, onInfo, onError) {
+      if (!command.startsWith("go")) return;
+      for (const line of info) onInfo?.(line);
+      if (reply === undefined) onError?.(new Error("Engine process died"));
+      else callback?.(reply);
+    },
+    quit: () => {},
+  };
+}
+
+describe("StockfishEngineService", () => {
+  describe("chooseBestMove", () => {
+    it("returns the engine's bestmove", async () => {
+      const engine = new StockfishEngineService(
+        fakeEngine([], "bestmove d2d4 ponder d7d5")
+      );
+      await expect(
+        engine.chooseBestMove(START_FEN, ["e2e4", "d2d4"])
+      ).resolves.toBe("d2d4");
+    });
+
+    it("searches with the game's limits", async () => {
+      const commands: string[] = [];
+      const engine = new StockfishEngineService(
+        {
+          send: (command, callback) => {
+            commands.push(command);
+            callback?.("bestmove e2e4");
+          },
+          quit: () => {},
+        },
+        { ...DEFAULT_ENGINE_SETTINGS, depth: 8, moveTimeMs: 500 }
+      );
+      await engine.chooseBestMove(START_FEN, ["e2e4", "d2d4"]);
+      expect(commands).toContain(
+        "go depth 8 movetime 500 searchmoves e2e4 d2d4"
+      );
+    });
+
+    it("falls back to the best line so far when the search fails", async () => {
+      const engine = new StockfishEngineService(
+        fakeEngine([
+          "info depth 8 multipv 1 score cp 30 pv e2e4 e7e5",
+          "info depth 8 multipv 2 score cp 20 pv d2d4",
+        ])
+      );
+      await expect(
+        engine.chooseBestMove(START_FEN, ["e2e4", "d2d4"])
+      ).resolves.toBe("e2e4");
+    });
+
+    it("falls back on a malformed reply", async () => {
+      const engine = new StockfishEngineService(
+        fakeEngine(["info depth 3 score cp 10 pv d2d4"], "bestmove (none)")
+      );
+      await expect(
+        engine.chooseBestMove(START_FEN, ["e2e4", "d2d4"])
+      ).resolves.toBe("d2d4");
+    });
+
+    it("rejects when there is nothing to fall back to", async () => {
+      const engine = new StockfishEngineService(fakeEngine([]));
+      await expect(
+        engine.chooseBestMove(START_FEN, ["e2e4", "d2d4"])
+      ).rejects.toThrow("Engine process died");
+    });
+  });
+
+  describe("evaluateMoves", () => {
+    it("scores the moves searched before a failure", async () => {
+      const engine = new StockfishEngineService(
+        fakeEngine(["info depth 6 multipv 1 score cp 25 pv g1f3 d7d5"])
+      );
+      const evaluations = await engine.evaluateMoves(START_FEN, [
+        "g1f3",
+        "a2a3",
+      ]);
+      expect(evaluations[0]).toEqual({
+        lan: "g1f3",
+        score: 25,
+        pv: ["g1f3", "d7d5"],
+      });
+      expect(evaluations[1].lan).toBe("a2a3");
+      expect(evaluations[1].score).toBeLessThan(-1000);
+    });
+
+    it("goes back to a single line whether or not the search fails", async () => {
+      for (const reply of ["bestmove g1f3", undefined]) {
+        const commands: string[] = [];
+        const fake = fakeEngine(
+          ["info depth 6 multipv 1 score cp 25 pv g1f3 d7d5"],
+          reply
+        );
+        const engine = new StockfishEngineService({
+          send: (command, ...rest) => {
+            commands.push(command);
+            fake.send(command, ...rest);
+          },
+          quit: () => {},
+        });
+        await engine.evaluateMoves(START_FEN, ["g1f3", "a2a3"]);
+        expect(commands.at(-1)).toBe("setoption name MultiPV value 1");
+      }
+    });
+
+    it("rejects a failed search without any result", async () => {
+      const engine = new StockfishEngineService(fakeEngine([]));
+      await expect(
+        engine.evaluateMoves(START_FEN, ["g1f3", "a2a3"])
+      ).rejects.toThrow();
+    });
+  });
+
+  describe("analyzePosition", () => {
+    it("falls back to the last line when the search fails", async () => {
+      const engine = new StockfishEngineService(
+        fakeEngine(["info depth 4 score mate 2 pv h5f7"])
+      );
+      await expect(engine.analyzePosition(START_FEN, 10)).resolves.toEqual({
+        lan: "h5f7",
+        score: 99998,
+        mate: 2,
+        pv: ["h5f7"],
+      });
+    });
+
+    it("ignores lines other than the best one", async () => {
+      const engine = new StockfishEngineService(
+        fakeEngine([
+          "info depth 10 multipv 1 score cp 40 pv e2e4 e7e5",
+          "info depth 10 multipv 2 score cp -80 pv g2g4",
+        ])
+      );
+      await expect(engine.analyzePosition(START_FEN)).resolves.toEqual({
+        lan: "e2e4",
+        score: 40,
+        pv: ["e2e4", "e7e5"],
+      });
+    });
+  });
+});
@@ -1,30 +1,91 @@
-import type { Engine } from "../types.js";
-import { STOCKFISH_SEARCH_DEPTH } from "../constants.js";
+import type { Engine, EngineSettings } from "../types.js";
+import { DEFAULT_ENGINE_SETTINGS, MATE_SCORE_CP } from "../constants.js";
+import {
+  parseBestMove,
+  parseInfoLine,
+  type UciPvInfo,
+} from "../core/uciLogic.js";
+import { formatSearchLimits } from "../core/engineSettingsLogic.js";
+
+/**
+ * Engine score of one candidate move.
+ */
+export interface MoveEvaluation {
+  lan: string;
+  /** Centipawns from the moving side's point of view (mates included) */
+  score: number;
+  /** Moves until mate, when the engine sees one */
+  mate?: number;
+  /** Principal variation in LAN, starting with the move itself */
+  pv: string[];
+}
 
 /**
  * Interface for chess engine operations.
  * Abstracts Stockfish integration for testability.
+ *
+ * When a search ends without a usable "bestmove" (the engine died, timed
+ * out or answered garbage), the methods fall back to the best "info" line
+ * seen so far. With no info at all they reject, which callers treat as a
+ * failed turn (see the .catch in tryFinalizeTurn).
  */
 export interface IEngineService {
   /**
-   * Chooses the best move from a list of candidates.
+   * Chooses the best move from a list of candidates. Unlike the scores of
+   * evaluateMoves, the choice follows the engine's strength options.
    * @param fen Current board position in FEN notation
    * @param candidates Array of candidate moves in LAN format (e.g., "e2e4")
    * @returns Promise resolving to the best move in LAN format
    */
   chooseBestMove(fen: string, candidates: string[]): Promise<string>;
 
+  /**
+   * Scores every distinct candidate.
+   * @param fen Current board position in FEN notation
+   * @param candidates Array of candidate moves in LAN format
+   * @returns Promise resolving to one evaluation per distinct candidate,
+   * in the order the candidates were given
+   */
+  evaluateMoves(fen: string, candidates: string[]): Promise<MoveEvaluation[]>;
+
+  /**
+   * Finds the engine's best move in a position where the game goes on.
+   * @param fen Board position in FEN notation
+   * @param depth Search depth in plies; the game's search limits if omitted
+   * @returns Promise resolving to the best move and its evaluation
+   */
+  analyzePosition(fen: string, depth?: number): Promise<MoveEvaluation>;
+
   /**
    * Shuts down the engine.
    */
   quit(): void;
 }
 
+/**
+ * Evaluation of a move from the last info line of its search.
+ */
+function toEvaluation(
+  lan: string,
+  info: UciPvInfo | undefined
+): MoveEvaluation {
+  const score = info?.score ?? 0;
+  const pv = info && info.pv[0] === lan ? info.pv : [lan];
+  return info?.mate === undefined
+    ? { lan, score, pv }
+    : { lan, score, mate: info.mate, pv };
+}
+
 /**
  * Production implementation wrapping the Stockfish engine.
+ * Candidate searches use the game's search limits; the engine's strength
+ * options are set on the engine itself (see configureEngine).
  */
 export class StockfishEngineService implements IEngineService {
-  constructor(private engine: Engine) {}
+  constructor(
+    private engine: Engine,
+    private settings: EngineSettings = DEFAULT_ENGINE_SETTINGS
+  ) {}
 
   async chooseBestMove(fen: string, candidates: string[]): Promise<string> {
     // If all candidates are the same, return immediately
@@ -32,15 +93,100 @@ export class StockfishEngineService implements IEngineService {
       return candidates[0];
     }
 
-    return new Promise<string>((resolve) => {
+    return new Promise<string>((resolve, reject) => {
+      let best: UciPvInfo | undefined;
+      const fallBack = (error: Error) =>
+        best ? resolve(best.pv[0]) : reject(error);
+
       this.engine.send(`position fen ${fen}`);
-      const goCommand = `go depth ${STOCKFISH_SEARCH_DEPTH} searchmoves ${candidates.join(" ")}`;
+      const goCommand = `go ${formatSearchLimits(this.settings)} searchmoves ${candidates.join(" ")}`;
+
+      this.engine.send(
+        goCommand,
+        (output: string) => {
+          const lan = parseBestMove(output);
+          if (lan) resolve(lan);
+          else fallBack(new Error(`Unexpected engine reply: ${output}`));
+        },
+        (line: string) => {
+          const info = parseInfoLine(line);
+          if (info?.multipv === 1) best = info;
+        },
+        fallBack
+      );
+    });
+  }
+
+  async evaluateMoves(
+    fen: string,
+    candidates: string[]
+  ): Promise<MoveEvaluation[]> {
+    const moves = [...new Set(candidates)];
+
+    return new Promise<MoveEvaluation[]>((resolve, reject) => {
+      // Latest line per PV slot; deeper iterations overwrite shallower ones
+      const lines = new Map<number, UciPvInfo>();
+
+      const results = () => {
+        const byMove = new Map<string, UciPvInfo>();
+        for (const info of lines.values()) byMove.set(info.pv[0], info);
+        return moves.map((lan) => {
+          const info = byMove.get(lan);
+          if (!info) return { lan, score: -MATE_SCORE_CP, pv: [lan] };
+          return toEvaluation(lan, info);
+        });
+      };
+
+      // Later searches on this engine expect a single line again
+      const resetMultiPv = () =>
+        this.engine.send("setoption name MultiPV value 1");
 
-      this.engine.send(goCommand, (output: string) => {
-        if (output.startsWith("bestmove")) {
-          resolve(output.split(" ")[1]);
+      this.engine.send(`setoption name MultiPV value ${moves.length}`);
+      this.engine.send(`position fen ${fen}`);
+      const goCommand = `go ${formatSearchLimits(this.settings)} searchmoves ${moves.join(" ")}`;
+
+      this.engine.send(
+        goCommand,
+        () => {
+          resetMultiPv();
+          resolve(results());
+        },
+        (line: string) => {
+          const info = parseInfoLine(line);
+          if (info) lines.set(info.multipv, info);
+        },
+        (error: Error) => {
+          resetMultiPv();
+          if (lines.size > 0) resolve(results());
+          else reject(error);
         }
-      });
+      );
+    });
+  }
+
+  async analyzePosition(fen: string, depth?: number): Promise<MoveEvaluation> {
+    return new Promise<MoveEvaluation>((resolve, reject) => {
+      let last: UciPvInfo | undefined;
+      const limits =
+        depth === undefined
+          ? formatSearchLimits(this.settings)
+          : `depth ${depth}`;
+
+      this.engine.send(`position fen ${fen}`);
+      this.engine.send(
+        `go ${limits}`,
+        (output: string) => {
+          const lan = parseBestMove(output) ?? last?.pv[0];
+          if (lan) resolve(toEvaluation(lan, last));
+          else reject(new Error(`Unexpected engine reply: ${output}`));
+        },
+        (line: string) => {
+          const info = parseInfoLine(line);
+          if (info?.multipv === 1) last = info;
+        },
+        (error: Error) =>
+          last ? resolve(toEvaluation(last.pv[0], last)) : reject(error)
+      );
     });
   }
 
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileGameArchive } from "./IGameArchive.js";
+import type { GameRecord } from "../types.js";
+import { DEFAULT_TIME_CONTROL } from "../constants.js";
+
+function record(id: string): GameRecord {
+  return {
+    id,
+    roomId: "main",
+    roomName: "Main table",
+    startedAt: 1,
+    endedAt: 2,
+    result: "1/2-1/2",
+    reason: "stalemate",
+    winner: null,
+    white: [{ id: "w1", name: "Alice" }],
+    black: [{ id: "b1", name: "Bob" }],
+    timeControl: DEFAULT_TIME_CONTROL,
+    moveStrategy: "engine_best",
+    pgn: "1/2-1/2",
+    turns: [],
+  };
+}
+
+/** Waits for the append queued by save() to reach the file. */
+async function flushWrites(): Promise<void> {
+  await new Promise((resolve) => setTimeout(resolve, 50));
+}
+
+describe("FileGameArchive", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "teamchess-archive-"));
+    file = path.join(dir, "nested", "games.jsonl");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("starts empty without a file", () => {
+    const archive = new FileGameArchive(file);
+    expect(archive.list(10, 0)).toEqual([]);
+    expect(archive.get("g1")).toBeUndefined();
+  });
+
+  it("lists games newest first with paging", () => {
+    const archive = new FileGameArchive(file);
+    for (const id of ["g1", "g2", "g3"]) archive.save(record(id));
+
+    expect(archive.list(10, 0).map((g) => g.id)).toEqual(["g3", "g2", "g1"]);
+    expect(archive.list(1, 1).map((g) => g.id)).toEqual(["g2"]);
+    expect(archive.list(10, 5)).toEqual([]);
+    expect(archive.get("g2")?.pgn).toBe("1/2-1/2");
+  });
+
+  it("reloads saved games from disk", async () => {
+    const archive = new FileGameArchive(file);
+    archive.save(record("g1"));
+    archive.save(record("g2"));
+    await flushWrites();
+
+    const reloaded = new FileGameArchive(file);
+    expect(reloaded.list(10, 0).map((g) => g.id)).toEqual(["g2", "g1"]);
+    expect(reloaded.get("g1")).toEqual(record("g1"));
+  });
+
+  it("skips a truncated last line", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(record("g1")) + '\n{"id":"g2",');
+
+    const archive = new FileGameArchive(file);
+    expect(archive.list(10, 0).map((g) => g.id)).toEqual(["g1"]);
+  });
+
+  it("keeps player stats across reloads", async () => {
+    const archive = new FileGameArchive(file);
+    archive.save(record("g1"));
+    archive.save(record("g2"));
+    await flushWrites();
+
+    const reloaded = new FileGameArchive(file);
+    expect(reloaded.getPlayerStats("w1")).toMatchObject({
+      name: "Alice",
+      games: 2,
+      white: { games: 2, draws: 2 },
+    });
+    expect(reloaded.getPlayerStats("nobody")).toBeUndefined();
+  });
+
+  it("lists player stats over recent games only", () => {
+    const archive = new FileGameArchive(file);
+    archive.save({ ...record("old"), endedAt: 100 });
+    archive.save({ ...record("new"), endedAt: 200 });
+
+    const all = archive.listPlayerStats(0);
+    expect(all.map((s) => [s.id, s.games])).toEqual([
+      ["w1", 2],
+      ["b1", 2],
+    ]);
+    const recent = archive.listPlayerStats(150);
+    expect(recent.map((s) => [s.id, s.games])).toEqual([
+      ["w1", 1],
+      ["b1", 1],
+    ]);
+  });
+});
@@ -0,0 +1,121 @@
+import fs from "fs";
+import path from "path";
+import type {
+  GameRecord,
+  GameSummary,
+  PlayerStats,
+  PlayerTally,
+} from "../types.js";
+import { summarizeGame } from "../core/archiveLogic.js";
+import {
+  applyGameToTallies,
+  tallyGames,
+  toPlayerStats,
+} from "../core/statsLogic.js";
+
+/**
+ * Interface for finished-game storage.
+ * Abstracts the archive file for testability.
+ */
+export interface IGameArchive {
+  /**
+   * Stores a finished game.
+   * @param record The complete game
+   */
+  save(record: GameRecord): void;
+
+  /**
+   * Lists stored games, newest first.
+   * @param limit Maximum number of games to return
+   * @param offset Number of newest games to skip
+   */
+  list(limit: number, offset: number): GameSummary[];
+
+  /**
+   * Looks up a stored game.
+   * @param id Game id
+   * @returns The game, or undefined if it is not in the archive
+   */
+  get(id: string): GameRecord | undefined;
+
+  /**
+   * Looks up a player's record over every stored game.
+   * @param pid Player id
+   * @returns The stats, or undefined if they have no stored games
+   */
+  getPlayerStats(pid: string): PlayerStats | undefined;
+
+  /**
+   * Stats of everyone who played, counting only recent games.
+   * @param since Earliest end time of the games to count (ms since epoch)
+   */
+  listPlayerStats(since: number): PlayerStats[];
+}
+
+/**
+ * Production implementation storing one JSON record per line.
+ * The file is read once at startup; new games are appended to it.
+ * Player stats are kept up to date as games are indexed.
+ */
+export class FileGameArchive implements IGameArchive {
+  private records: GameRecord[] = [];
+  private byId = new Map<string, GameRecord>();
+  private tallies = new Map<string, PlayerTally>();
+
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    if (!fs.existsSync(filePath)) return;
+
+    const lines = fs.readFileSync(filePath, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.index(JSON.parse(line) as GameRecord);
+      } catch (err) {
+        // A crash mid-write can leave a truncated last line
+        console.error("Skipping unreadable archived game:", err);
+      }
+    }
+  }
+
+  save(record: GameRecord): void {
+    this.index(record);
+    fs.appendFile(this.filePath, JSON.stringify(record) + "\n", (err) => {
+      if (err) console.error("Failed to archive game:", err);
+    });
+  }
+
+  list(limit: number, offset: number): GameSummary[] {
+    const end = this.records.length - offset;
+    return this.records
+      .slice(Math.max(0, end - limit), Math.max(0, end))
+      .reverse()
+      .map(summarizeGame);
+  }
+
+  get(id: string): GameRecord | undefined {
+    return this.byId.get(id);
+  }
+
+  getPlayerStats(pid: string): PlayerStats | undefined {
+    const tally = this.tallies.get(pid);
+    return tally && toPlayerStats(tally);
+  }
+
+  listPlayerStats(since: number): PlayerStats[] {
+    // Totals over every game are kept up to date; others start from scratch
+    const tallies =
+      since > 0
+        ? tallyGames(this.records.filter((r) => r.endedAt >= since))
+        : this.tallies;
+    return [...tallies.values()].map(toPlayerStats);
+  }
+
+  private index(record: GameRecord): void {
+    this.records.push(record);
+    this.byId.set(record.id, record);
+    for (const tally of applyGameToTallies(this.tallies, record)) {
+      this.tallies.set(tally.id, tally);
+    }
+  }
+}
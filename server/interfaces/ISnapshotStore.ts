@@ -0,0 +1,59 @@
+import fs from "fs";
+import path from "path";
+import type { ServerSnapshot } from "../types.js";
+import { SNAPSHOT_VERSION } from "../constants.js";
+
+/**
+ * Interface for persisting the live server state across restarts.
+ */
+export interface ISnapshotStore {
+  /**
+   * Replaces the stored snapshot.
+   * @param snapshot Current state of every room
+   */
+  save(snapshot: ServerSnapshot): void;
+
+  /**
+   * Reads the stored snapshot.
+   * @returns The snapshot, or undefined if there is none or it is unusable
+   */
+  load(): ServerSnapshot | undefined;
+}
+
+/**
+ * Production implementation keeping the snapshot in a JSON file.
+ * Writes go to a temporary file renamed over the old one, so a crash
+ * mid-write never leaves a half-written snapshot behind.
+ */
+export class FileSnapshotStore implements ISnapshotStore {
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  save(snapshot: ServerSnapshot): void {
+    const tmpPath = `${this.filePath}.tmp`;
+    try {
+      fs.writeFileSync(tmpPath, JSON.stringify(snapshot));
+      fs.renameSync(tmpPath, this.filePath);
+    } catch (err) {
+      console.error("Failed to write server snapshot:", err);
+    }
+  }
+
+  load(): ServerSnapshot | undefined {
+    if (!fs.existsSync(this.filePath)) return undefined;
+    try {
+      const snapshot = JSON.parse(
+        fs.readFileSync(this.filePath, "utf8")
+      ) as ServerSnapshot;
+      if (snapshot.version !== SNAPSHOT_VERSION) {
+        console.warn(`Ignoring snapshot version ${snapshot.version}`);
+        return undefined;
+      }
+      return snapshot;
+    } catch (err) {
+      console.error("Failed to read server snapshot:", err);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { FileUserStore } from "./IUserStore.js";
+import type { UserRecord } from "../types.js";
+
+function user(id: string, username: string): UserRecord {
+  return { id, username, passwordHash: "ab", salt: "cd", createdAt: 1 };
+}
+
+describe("FileUserStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "teamchess-users-"));
+    file = path.join(dir, "nested", "users.jsonl");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("finds accounts by id and by username in any case", () => {
+    const store = new FileUserStore(file);
+    store.add(user("u1", "Alice"));
+
+    expect(store.get("u1")?.username).toBe("Alice");
+    expect(store.findByUsername("ALICE")?.id).toBe("u1");
+    expect(store.findByUsername("bob")).toBeUndefined();
+  });
+
+  it("reloads accounts from disk, skipping a truncated last line", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    new FileUserStore(file).add(user("u1", "Alice"));
+    fs.appendFileSync(file, '{"id":"u2",');
+
+    const reloaded = new FileUserStore(file);
+    expect(reloaded.get("u1")).toEqual(user("u1", "Alice"));
+    expect(reloaded.get("u2")).toBeUndefined();
+  });
+});
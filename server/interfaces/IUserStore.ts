@@ -0,0 +1,72 @@
+import fs from "fs";
+import path from "path";
+import type { UserRecord } from "../types.js";
+import { usernameKey } from "../core/authLogic.js";
+
+/**
+ * Interface for registered account storage.
+ * Abstracts the user file for testability.
+ */
+export interface IUserStore {
+  /**
+   * Stores a new account.
+   * @param user The account; its username must not be taken
+   */
+  add(user: UserRecord): void;
+
+  /**
+   * Looks up an account by id.
+   * @returns The account, or undefined if there is none
+   */
+  get(id: string): UserRecord | undefined;
+
+  /**
+   * Looks up an account by username, ignoring case.
+   * @returns The account, or undefined if the name is free
+   */
+  findByUsername(username: string): UserRecord | undefined;
+}
+
+/**
+ * Production implementation storing one JSON record per line.
+ * The file is read once at startup; new accounts are appended to it
+ * before registration completes.
+ */
+export class FileUserStore implements IUserStore {
+  private byId = new Map<string, UserRecord>();
+  private byName = new Map<string, UserRecord>();
+
+  constructor(private filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    if (!fs.existsSync(filePath)) return;
+
+    const lines = fs.readFileSync(filePath, "utf8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        this.index(JSON.parse(line) as UserRecord);
+      } catch (err) {
+        // A crash mid-write can leave a truncated last line
+        console.error("Skipping unreadable account:", err);
+      }
+    }
+  }
+
+  add(user: UserRecord): void {
+    fs.appendFileSync(this.filePath, JSON.stringify(user) + "\n");
+    this.index(user);
+  }
+
+  get(id: string): UserRecord | undefined {
+    return this.byId.get(id);
+  }
+
+  findByUsername(username: string): UserRecord | undefined {
+    return this.byName.get(usernameKey(username));
+  }
+
+  private index(user: UserRecord): void {
+    this.byId.set(user.id, user);
+    this.byName.set(usernameKey(user.username), user);
+  }
+}
@@ -1,4 +1,5 @@
-import type { IEngineService } from "./IEngineService.js";
+import { Chess } from "chess.js";
+import type { IEngineService, MoveEvaluation } from "./IEngineService.js";
 
 /**
  * Mock implementation of IEngineService for testing.
@@ -8,6 +9,12 @@ export class MockEngineService implements IEngineService {
   /** The move to return on the next chooseBestMove call */
   private nextMove?: string;
 
+  /** Scores returned by evaluateMoves, by LAN (missing moves score 0) */
+  private scores = new Map<string, number>();
+
+  /** Results returned by analyzePosition, by FEN */
+  private positions = new Map<string, { lan: string; score: number }>();
+
   /** Number of times chooseBestMove has been called */
   chooseMoveCallCount = 0;
 
@@ -17,6 +24,12 @@ export class MockEngineService implements IEngineService {
   /** Last candidates passed to chooseBestMove */
   lastCandidates?: string[];
 
+  /** Number of times evaluateMoves has been called */
+  evaluateCallCount = 0;
+
+  /** FENs passed to analyzePosition, in order */
+  analyzedFens: string[] = [];
+
   /** Whether quit() has been called */
   wasQuit = false;
 
@@ -38,6 +51,45 @@ export class MockEngineService implements IEngineService {
     return move;
   }
 
+  /**
+   * Sets the centipawn scores evaluateMoves reports.
+   */
+  setScores(scores: Record<string, number>): void {
+    this.scores = new Map(Object.entries(scores));
+  }
+
+  async evaluateMoves(
+    fen: string,
+    candidates: string[]
+  ): Promise<MoveEvaluation[]> {
+    this.evaluateCallCount++;
+    this.lastFen = fen;
+    this.lastCandidates = candidates;
+
+    return [...new Set(candidates)].map((lan) => ({
+      lan,
+      score: this.scores.get(lan) ?? 0,
+      pv: [lan],
+    }));
+  }
+
+  /**
+   * Sets what analyzePosition reports for a position. Positions left out
+   * score 0 with their first legal move as the best one.
+   */
+  setPosition(fen: string, lan: string, score: number): void {
+    this.positions.set(fen, { lan, score });
+  }
+
+  async analyzePosition(fen: string): Promise<MoveEvaluation> {
+    this.analyzedFens.push(fen);
+    const scripted = this.positions.get(fen);
+    if (scripted) return { ...scripted, pv: [scripted.lan] };
+
+    const [first] = new Chess(fen).moves({ verbose: true });
+    return { lan: first.lan, score: 0, pv: [first.lan] };
+  }
+
   quit(): void {
     this.wasQuit = true;
   }
@@ -47,7 +99,11 @@ export class MockEngineService implements IEngineService {
    */
   reset(): void {
     this.nextMove = undefined;
+    this.scores.clear();
+    this.positions.clear();
+    this.analyzedFens = [];
     this.chooseMoveCallCount = 0;
+    this.evaluateCallCount = 0;
     this.lastFen = undefined;
     this.lastCandidates = undefined;
     this.wasQuit = false;
@@ -0,0 +1,37 @@
+import type { IGameArchive } from "./IGameArchive.js";
+import type { GameRecord, GameSummary, PlayerStats } from "../types.js";
+import { summarizeGame } from "../core/archiveLogic.js";
+import { tallyGames, toPlayerStats } from "../core/statsLogic.js";
+
+/**
+ * In-memory implementation of IGameArchive for testing.
+ */
+export class MockGameArchive implements IGameArchive {
+  /** Saved games, oldest first */
+  records: GameRecord[] = [];
+
+  save(record: GameRecord): void {
+    this.records.push(record);
+  }
+
+  list(limit: number, offset: number): GameSummary[] {
+    return [...this.records]
+      .reverse()
+      .slice(offset, offset + limit)
+      .map(summarizeGame);
+  }
+
+  get(id: string): GameRecord | undefined {
+    return this.records.find((r) => r.id === id);
+  }
+
+  getPlayerStats(pid: string): PlayerStats | undefined {
+    const tally = tallyGames(this.records).get(pid);
+    return tally && toPlayerStats(tally);
+  }
+
+  listPlayerStats(since: number): PlayerStats[] {
+    const records = this.records.filter((r) => r.endedAt >= since);
+    return [...tallyGames(records).values()].map(toPlayerStats);
+  }
+}
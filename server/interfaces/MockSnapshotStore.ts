@@ -0,0 +1,23 @@
+import type { ISnapshotStore } from "./ISnapshotStore.js";
+import type { ServerSnapshot } from "../types.js";
+
+/**
+ * In-memory implementation of ISnapshotStore for testing.
+ */
+export class MockSnapshotStore implements ISnapshotStore {
+  /** Last saved snapshot */
+  snapshot?: ServerSnapshot;
+
+  /** Number of times save() has been called */
+  saveCount = 0;
+
+  save(snapshot: ServerSnapshot): void {
+    this.saveCount++;
+    // Round-trip through JSON like the file store does
+    this.snapshot = JSON.parse(JSON.stringify(snapshot)) as ServerSnapshot;
+  }
+
+  load(): ServerSnapshot | undefined {
+    return this.snapshot;
+  }
+}
@@ -0,0 +1,24 @@
+import type { IUserStore } from "./IUserStore.js";
+import type { UserRecord } from "../types.js";
+import { usernameKey } from "../core/authLogic.js";
+
+/**
+ * In-memory implementation of IUserStore for testing.
+ */
+export class MockUserStore implements IUserStore {
+  /** Stored accounts, oldest first */
+  users: UserRecord[] = [];
+
+  add(user: UserRecord): void {
+    this.users.push(user);
+  }
+
+  get(id: string): UserRecord | undefined {
+    return this.users.find((u) => u.id === id);
+  }
+
+  findByUsername(username: string): UserRecord | undefined {
+    const key = usernameKey(username);
+    return this.users.find((u) => usernameKey(u.username) === key);
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { AccountService } from "./accounts.js";
+import { MockUserStore } from "../interfaces/MockUserStore.js";
+import { SESSION_TOKEN_TTL_MS } from "../constants.js";
+import { MSG } from "../shared_messages.js";
+import type { AuthResponse } from "../types.js";
+
+describe("AccountService", () => {
+  let store: MockUserStore;
+  let now: number;
+  let accounts: AccountService;
+
+  beforeEach(() => {
+    store = new MockUserStore();
+    now = 1000;
+    accounts = new AccountService(store, "secret", () => now);
+  });
+
+  async function register(username = "Alice", password = "correct horse") {
+    return (await accounts.register(username, password)) as AuthResponse;
+  }
+
+  it("registers an account without storing the password", async () => {
+    const { token, account } = await register();
+
+    expect(account.username).toBe("Alice");
+    expect(store.users).toHaveLength(1);
+    expect(JSON.stringify(store.users[0])).not.toContain("correct horse");
+    expect(accounts.verify(token)).toEqual(account);
+  });
+
+  it("refuses invalid and taken usernames", async () => {
+    await register();
+    expect(await accounts.register("alice", "another pass")).toEqual({
+      error: MSG.errorUsernameTaken,
+    });
+    expect(await accounts.register("a", "another pass")).toEqual({
+      error: MSG.errorInvalidUsername,
+    });
+    expect(await accounts.register("Bob", "short")).toEqual({
+      error: MSG.errorInvalidPassword,
+    });
+  });
+
+  it("signs in with the right password only", async () => {
+    const { account } = await register();
+
+    const session = (await accounts.login(
+      "ALICE",
+      "correct horse"
+    )) as AuthResponse;
+    expect(session.account).toEqual(account);
+    expect(await accounts.login("Alice", "wrong horse")).toEqual({
+      error: MSG.errorWrongCredentials,
+    });
+    expect(await accounts.login("Nobody", "correct horse")).toEqual({
+      error: MSG.errorWrongCredentials,
+    });
+  });
+
+  it("rejects expired, forged and orphaned tokens", async () => {
+    const { token } = await register();
+
+    expect(accounts.verify(token.slice(0, -2))).toBeUndefined();
+    expect(
+      new AccountService(store, "other secret", () => now).verify(token)
+    ).toBeUndefined();
+
+    store.users = [];
+    expect(accounts.verify(token)).toBeUndefined();
+
+    const fresh = (await register("Bob")).token;
+    now += SESSION_TOKEN_TTL_MS;
+    expect(accounts.verify(fresh)).toBeUndefined();
+  });
+
+  it("reserves account names and ids", async () => {
+    const { account } = await register();
+
+    expect(accounts.isNameReserved("alice")).toBe(true);
+    expect(accounts.isNameReserved("Bob")).toBe(false);
+    expect(accounts.isAccountId(account.id)).toBe(true);
+    expect(accounts.isAccountId("guest")).toBe(false);
+  });
+});
@@ -0,0 +1,160 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { nanoid } from "nanoid";
+import type { IUserStore } from "../interfaces/IUserStore.js";
+import type { Account, AuthResponse, UserRecord } from "../types.js";
+import {
+  signSessionToken,
+  validatePassword,
+  validateUsername,
+  verifySessionToken,
+} from "../core/authLogic.js";
+import {
+  AUTH_SECRET,
+  AUTH_SECRET_PATH,
+  SESSION_TOKEN_TTL_MS,
+} from "../constants.js";
+import { MSG } from "../shared_messages.js";
+
+const HASH_BYTES = 64;
+/** Checked for unknown usernames, so they take as long as a wrong password */
+const DUMMY_SALT = randomBytes(16).toString("hex");
+const DUMMY_HASH = Buffer.alloc(HASH_BYTES);
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keylen: number
+) => Promise<Buffer>;
+
+/** Runs on the libuv thread pool, so hashing never stalls the game loop */
+function hashPassword(password: string, salt: string): Promise<Buffer> {
+  return scryptAsync(password, salt, HASH_BYTES);
+}
+
+/**
+ * Registers and signs in accounts, and checks the session tokens clients
+ * send when they connect. Passwords are only ever stored as salted scrypt
+ * hashes.
+ */
+export class AccountService {
+  constructor(
+    private store: IUserStore,
+    private secret: string,
+    private now: () => number = () => Date.now()
+  ) {}
+
+  /**
+   * Creates an account and signs it in.
+   * @returns A session for the new account, or the reason it was refused
+   */
+  async register(
+    username: unknown,
+    password: unknown
+  ): Promise<AuthResponse | { error: string }> {
+    const name = validateUsername(username);
+    if (name.error) return { error: name.error };
+    const pass = validatePassword(password);
+    if (pass.error) return { error: pass.error };
+    if (this.store.findByUsername(name.username!)) {
+      return { error: MSG.errorUsernameTaken };
+    }
+
+    const salt = randomBytes(16).toString("hex");
+    const passwordHash = (await hashPassword(pass.password!, salt)).toString(
+      "hex"
+    );
+    // Someone else may have taken the name while the password was hashing
+    if (this.store.findByUsername(name.username!)) {
+      return { error: MSG.errorUsernameTaken };
+    }
+    const user: UserRecord = {
+      id: nanoid(),
+      username: name.username!,
+      passwordHash,
+      salt,
+      createdAt: this.now(),
+    };
+    this.store.add(user);
+    return this.createSession(user);
+  }
+
+  /**
+   * Signs in with a username and password.
+   * @returns A new session, or an error that doesn't say which part was wrong
+   */
+  async login(
+    username: unknown,
+    password: unknown
+  ): Promise<AuthResponse | { error: string }> {
+    const user =
+      typeof username === "string"
+        ? this.store.findByUsername(username)
+        : undefined;
+    if (typeof password !== "string") {
+      return { error: MSG.errorWrongCredentials };
+    }
+
+    const expected = user ? Buffer.from(user.passwordHash, "hex") : DUMMY_HASH;
+    const actual = await hashPassword(password, user?.salt ?? DUMMY_SALT);
+    if (
+      !user ||
+      expected.length !== actual.length ||
+      !timingSafeEqual(expected, actual)
+    ) {
+      return { error: MSG.errorWrongCredentials };
+    }
+    return this.createSession(user);
+  }
+
+  /**
+   * Resolves a session token to its account.
+   * @returns The account, or undefined if the token is invalid, expired or
+   * its account no longer exists
+   */
+  verify(token: unknown): Account | undefined {
+    const claims = verifySessionToken(token, this.secret, this.now());
+    const user = claims && this.store.get(claims.sub);
+    return user ? { id: user.id, username: user.username } : undefined;
+  }
+
+  /** Whether a display name belongs to a registered account */
+  isNameReserved(name: string): boolean {
+    return this.store.findByUsername(name) !== undefined;
+  }
+
+  /** Whether a player id is an account's, which guests may not claim */
+  isAccountId(pid: string): boolean {
+    return this.store.get(pid) !== undefined;
+  }
+
+  private createSession(user: UserRecord): AuthResponse {
+    const account = { id: user.id, username: user.username };
+    const token = signSessionToken(
+      {
+        sub: user.id,
+        username: user.username,
+        exp: this.now() + SESSION_TOKEN_TTL_MS,
+      },
+      this.secret
+    );
+    return { token, account };
+  }
+}
+
+/**
+ * The key session tokens are signed with: AUTH_SECRET if set, otherwise
+ * one generated on first start and kept next to the other data files.
+ */
+export function loadAuthSecret(): string {
+  if (AUTH_SECRET) return AUTH_SECRET;
+  if (fs.existsSync(AUTH_SECRET_PATH)) {
+    return fs.readFileSync(AUTH_SECRET_PATH, "utf8").trim();
+  }
+  const secret = randomBytes(32).toString("hex");
+  fs.mkdirSync(path.dirname(AUTH_SECRET_PATH), { recursive: true });
+  fs.writeFileSync(AUTH_SECRET_PATH, secret, { mode: 0o600 });
+  return secret;
+}
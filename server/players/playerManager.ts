@@ -1,18 +1,36 @@
 import { Socket } from "socket.io";
 import type { IGameContext } from "../context/GameContext.js";
-import { globalContext } from "../context/GlobalContextAdapter.js";
 import { DISCONNECT_GRACE_MS } from "../constants.js";
 import { broadcastPlayers } from "../utils/messaging.js";
 import { endIfOneSided, tryFinalizeTurn } from "../game/gameLogic.js";
 
 /**
  * Handles player disconnection with grace period for reconnection.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * @param ctx Context of the room the game belongs to
  */
-export function leave(socket: Socket, ctx: IGameContext = globalContext): void {
+export function leave(socket: Socket, ctx: IGameContext): void {
   const pid = socket.data.pid as string | undefined;
   if (!pid) return;
 
+  if (!ctx.sessions.has(pid)) return;
+
+  scheduleSessionExpiry(pid, ctx, DISCONNECT_GRACE_MS);
+
+  broadcastPlayers(ctx);
+  tryFinalizeTurn(ctx);
+}
+
+/**
+ * Removes a session from the room unless its player reconnects in time.
+ * Reconnecting clears the timer (see joinRoom in connectionHandler).
+ * @param ctx Context of the room the game belongs to
+ * @param graceMs How long the player has to come back
+ */
+export function scheduleSessionExpiry(
+  pid: string,
+  ctx: IGameContext,
+  graceMs: number
+): void {
   const { sessions, gameState } = ctx;
   const sess = sessions.get(pid);
   if (!sess) return;
@@ -30,8 +48,5 @@ export function leave(socket: Socket, ctx: IGameContext = globalContext): void {
   if (sess.reconnectTimer) clearTimeout(sess.reconnectTimer);
   sess.reconnectTimer = setTimeout(() => {
     finalize();
-  }, DISCONNECT_GRACE_MS);
-
-  broadcastPlayers(ctx);
-  tryFinalizeTurn(ctx);
+  }, graceMs);
 }
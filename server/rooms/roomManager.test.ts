@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from "vitest";
+import type { Server } from "socket.io";
+import { RoomManager } from "./roomManager.js";
+import { createMockEngine } from "../context/MockGameContext.js";
+import { MockGameArchive } from "../interfaces/MockGameArchive.js";
+import { MockSnapshotStore } from "../interfaces/MockSnapshotStore.js";
+import { GameStatus } from "../shared_types.js";
+import {
+  DEFAULT_ROOM_ID,
+  DEFAULT_TIME_CONTROL,
+  ROOM_IDLE_TIMEOUT_MS,
+} from "../constants.js";
+import type { Engine } from "../types.js";
+
+const quitEngines = new Set<Engine>();
+
+function createManager(): { rooms: RoomManager; engines: Engine[] } {
+  const engines: Engine[] = [];
+  const rooms = new RoomManager({} as Server, new MockGameArchive(), () => {
+    const engine: Engine = {
+      ...createMockEngine(),
+      quit: () => quitEngines.add(engine),
+    };
+    engines.push(engine);
+    return engine;
+  });
+  return { rooms, engines };
+}
+
+function wasQuit(engine: Engine): boolean {
+  return quitEngines.has(engine);
+}
+
+describe("RoomManager", () => {
+  it("creates rooms with independent game contexts and engines", () => {
+    const { rooms, engines } = createManager();
+
+    const a = rooms.createRoom("A");
+    const b = rooms.createRoom("B");
+
+    expect(a.id).not.toBe(b.id);
+    expect(a.ctx.roomId).toBe(a.id);
+    expect(a.ctx.gameState).not.toBe(b.ctx.gameState);
+    expect(a.ctx.sessions).not.toBe(b.ctx.sessions);
+    expect(engines).toHaveLength(2);
+  });
+
+  it("uses the given id and falls back to a generated name", () => {
+    const { rooms } = createManager();
+
+    const room = rooms.createRoom("", "abc");
+
+    expect(rooms.getRoom("abc")).toBe(room);
+    expect(room.name).toBe("Room abc");
+  });
+
+  it("lists rooms with their status and team sizes", () => {
+    const { rooms } = createManager();
+    const room = rooms.createRoom("Blitz", "r1");
+    room.ctx.sessions.set("w", { pid: "w", name: "W", side: "white" });
+    room.ctx.sessions.set("b", { pid: "b", name: "B", side: "black" });
+    room.ctx.sessions.set("s", { pid: "s", name: "S", side: "spectator" });
+
+    expect(rooms.listRooms()).toEqual([
+      {
+        id: "r1",
+        name: "Blitz",
+        status: GameStatus.Setup,
+        whiteCount: 1,
+        blackCount: 1,
+        spectatorCount: 1,
+        timeControl: DEFAULT_TIME_CONTROL,
+      },
+    ]);
+  });
+
+  it("prunes old empty rooms but keeps the default room", () => {
+    const { rooms, engines } = createManager();
+    rooms.createRoom("Main", DEFAULT_ROOM_ID);
+    rooms.createRoom("Empty", "empty");
+    const busy = rooms.createRoom("Busy", "busy");
+    busy.ctx.sessions.set("p", { pid: "p", name: "P", side: "spectator" });
+
+    rooms.pruneIdleRooms(Date.now() + ROOM_IDLE_TIMEOUT_MS);
+
+    expect(rooms.getRoom(DEFAULT_ROOM_ID)).toBeDefined();
+    expect(rooms.getRoom("busy")).toBeDefined();
+    expect(rooms.getRoom("empty")).toBeUndefined();
+    expect(wasQuit(engines[1])).toBe(true);
+    expect(wasQuit(engines[0])).toBe(false);
+  });
+
+  it("quits every engine on shutdown", () => {
+    const { rooms, engines } = createManager();
+    rooms.createRoom("A");
+    rooms.createRoom("B");
+
+    rooms.shutdown();
+
+    expect(rooms.listRooms()).toEqual([]);
+    expect(engines.every(wasQuit)).toBe(true);
+  });
+
+  it("restores rooms, games and sessions from a snapshot", () => {
+    const { rooms } = createManager();
+    const room = rooms.createRoom("Blitz", "r1");
+    room.ctx.gameState.status = GameStatus.AwaitingProposals;
+    room.ctx.gameState.chess.move("d4");
+    room.ctx.gameState.whiteIds.add("w");
+    room.ctx.sessions.set("w", { pid: "w", name: "W", side: "white" });
+    const store = new MockSnapshotStore();
+    store.save(rooms.snapshot());
+    rooms.shutdown();
+
+    const { rooms: restored, engines } = createManager();
+    restored.restore(store.load()!);
+
+    const copy = restored.getRoom("r1")!;
+    expect(copy.name).toBe("Blitz");
+    expect(copy.createdAt).toBe(room.createdAt);
+    expect(copy.ctx.gameState.chess.history()).toEqual(["d4"]);
+    expect(copy.ctx.gameState.engine).toBe(engines[0]);
+    // The player gets a grace period to reconnect
+    expect(copy.ctx.sessions.get("w")?.side).toBe("white");
+    expect(copy.ctx.sessions.get("w")?.reconnectTimer).toBeDefined();
+    restored.shutdown();
+  });
+
+  it("doesn't count the downtime against the turn deadline", () => {
+    vi.useFakeTimers({ now: 100000 });
+    try {
+      const { rooms } = createManager();
+      const room = rooms.createRoom("Blitz", "r1");
+      room.ctx.gameState.status = GameStatus.AwaitingProposals;
+      room.ctx.gameState.turnStartedAt = 90000;
+      const store = new MockSnapshotStore();
+      store.save(rooms.snapshot());
+      rooms.shutdown();
+
+      vi.setSystemTime(160000);
+      const { rooms: restored } = createManager();
+      restored.restore(store.load()!);
+
+      const gameState = restored.getRoom("r1")!.ctx.gameState;
+      expect(gameState.turnStartedAt).toBe(150000);
+      restored.shutdown();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("quits the engine of a restored game that is already over", () => {
+    const { rooms } = createManager();
+    rooms.createRoom("Done", "r1").ctx.gameState.status = GameStatus.Over;
+    const store = new MockSnapshotStore();
+    store.save(rooms.snapshot());
+    rooms.shutdown();
+
+    const { rooms: restored, engines } = createManager();
+    restored.restore(store.load()!);
+
+    expect(restored.getRoom("r1")?.ctx.gameState.status).toBe(GameStatus.Over);
+    expect(wasQuit(engines[0])).toBe(true);
+  });
+});
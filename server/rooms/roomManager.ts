@@ -0,0 +1,200 @@
+import { Server } from "socket.io";
+import { nanoid } from "nanoid";
+import type {
+  Engine,
+  EngineSettings,
+  RoomSummary,
+  ServerSnapshot,
+} from "../types.js";
+import { GameStatus } from "../shared_types.js";
+import {
+  GameContext,
+  clearGameStateTimers,
+  createInitialGameState,
+} from "../context/GameContext.js";
+import { createEngine } from "../engine/stockfish.js";
+import type { IGameArchive } from "../interfaces/IGameArchive.js";
+import { getPlayerCounts } from "../core/playerLogic.js";
+import { isRoomIdle, sanitizeRoomName } from "../core/roomLogic.js";
+import {
+  restoreGameState,
+  snapshotGameState,
+  snapshotSessions,
+} from "../core/snapshotLogic.js";
+import { scheduleSessionExpiry } from "../players/playerManager.js";
+import { getGameView } from "../game/gameLogic.js";
+import {
+  DEFAULT_ROOM_ID,
+  RESTORE_GRACE_MS,
+  ROOM_ID_LENGTH,
+  ROOM_IDLE_TIMEOUT_MS,
+  SNAPSHOT_VERSION,
+} from "../constants.js";
+
+export interface Room {
+  id: string;
+  name: string;
+  createdAt: number;
+  ctx: GameContext;
+}
+
+/**
+ * Owns every game room hosted by the server.
+ * Each room has its own GameContext (state, sessions, engine handle,
+ * blacklist) bound to a Socket.IO room of the same id.
+ */
+export class RoomManager {
+  private rooms = new Map<string, Room>();
+
+  constructor(
+    private io: Server,
+    private archive: IGameArchive,
+    private engineFactory: (settings?: EngineSettings) => Engine = createEngine
+  ) {}
+
+  /**
+   * Creates a room with a fresh game. A random id is generated unless given.
+   */
+  createRoom(name?: unknown, id: string = nanoid(ROOM_ID_LENGTH)): Room {
+    this.pruneIdleRooms();
+
+    const roomName = sanitizeRoomName(name, `Room ${id}`);
+    const room: Room = {
+      id,
+      name: roomName,
+      createdAt: Date.now(),
+      ctx: new GameContext(
+        this.io,
+        id,
+        roomName,
+        createInitialGameState(this.engineFactory()),
+        this.archive
+      ),
+    };
+    room.ctx.spectators.seed(getGameView("spectator", room.ctx));
+    this.rooms.set(id, room);
+    return room;
+  }
+
+  getRoom(id: string): Room | undefined {
+    return this.rooms.get(id);
+  }
+
+  /**
+   * Lists open rooms for the lobby, oldest first.
+   */
+  listRooms(): RoomSummary[] {
+    this.pruneIdleRooms();
+
+    return [...this.rooms.values()].map((room) => {
+      const counts = getPlayerCounts(room.ctx.sessions);
+      return {
+        id: room.id,
+        name: room.name,
+        status: room.ctx.gameState.status,
+        whiteCount: counts.white,
+        blackCount: counts.black,
+        spectatorCount: counts.spectators,
+        timeControl: room.ctx.gameState.timeControl,
+      };
+    });
+  }
+
+  /**
+   * Tears down a room: stops its timers and engine.
+   */
+  removeRoom(id: string): void {
+    const room = this.rooms.get(id);
+    if (!room) return;
+    const { gameState, sessions } = room.ctx;
+    clearGameStateTimers(gameState);
+    room.ctx.spectators.close();
+    for (const sess of sessions.values()) {
+      if (sess.reconnectTimer) clearTimeout(sess.reconnectTimer);
+    }
+    gameState.engine.quit();
+    this.rooms.delete(id);
+  }
+
+  /**
+   * Discards rooms nobody has been in for a while. The default room stays.
+   */
+  pruneIdleRooms(now = Date.now()): void {
+    for (const room of [...this.rooms.values()]) {
+      if (
+        isRoomIdle(
+          room.ctx.sessions.size,
+          room.createdAt,
+          now,
+          ROOM_IDLE_TIMEOUT_MS,
+          room.id === DEFAULT_ROOM_ID
+        )
+      ) {
+        this.removeRoom(room.id);
+      }
+    }
+  }
+
+  /**
+   * Captures every room so it can be restored after a restart.
+   */
+  snapshot(): ServerSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      savedAt: Date.now(),
+      rooms: [...this.rooms.values()].map((room) => ({
+        id: room.id,
+        name: room.name,
+        createdAt: room.createdAt,
+        sessions: snapshotSessions(room.ctx.sessions),
+        game: snapshotGameState(room.ctx.gameState),
+      })),
+    };
+  }
+
+  /**
+   * Recreates the rooms of a snapshot. Restored players get a grace period
+   * to reconnect, and running clocks stay paused until someone rejoins.
+   */
+  restore(snapshot: ServerSnapshot): void {
+    const downtime = Math.max(0, Date.now() - snapshot.savedAt);
+    for (const saved of snapshot.rooms) {
+      const engine = this.engineFactory(saved.game.engineSettings);
+      const gameState = restoreGameState(saved.game, engine, downtime);
+      // A finished game gets a new engine when it is reset
+      if (gameState.status === GameStatus.Over) engine.quit();
+
+      const ctx = new GameContext(
+        this.io,
+        saved.id,
+        saved.name,
+        gameState,
+        this.archive
+      );
+      for (const sess of saved.sessions) {
+        ctx.sessions.set(sess.pid, { ...sess });
+      }
+      // Events held back before the restart are lost; spectators catch up
+      ctx.spectators.seed(getGameView("spectator", ctx));
+      this.rooms.set(saved.id, {
+        id: saved.id,
+        name: saved.name,
+        createdAt: saved.createdAt,
+        ctx,
+      });
+
+      for (const pid of ctx.sessions.keys()) {
+        scheduleSessionExpiry(pid, ctx, RESTORE_GRACE_MS);
+      }
+    }
+  }
+
+  /**
+   * Removes every room. Used on server shutdown.
+   */
+  shutdown(): void {
+    for (const id of [...this.rooms.keys()]) {
+      this.removeRoom(id);
+    }
+  }
+}
@@ -1,5 +1,16 @@
 import { describe, it, expect } from "vitest";
-import { gameOverFallback, formatVoteType, MSG } from "./shared_messages.js";
+import {
+  gameOverFallback,
+  formatVoteType,
+  formatDuration,
+  formatTimeControl,
+  formatTurnDeadline,
+  formatSpectatorDelay,
+  formatEngineSettings,
+  formatEval,
+  MSG,
+} from "./shared_messages.js";
+import { DEFAULT_TIME_CONTROL, DEFAULT_ENGINE_SETTINGS } from "./constants.js";
 
 describe("shared_messages", () => {
   describe("gameOverFallback", () => {
@@ -17,9 +28,72 @@ describe("shared_messages", () => {
 
   describe("MSG", () => {
     it("has a welcome message", () => {
-      expect(MSG.welcomeMessage).toBeDefined();
-      expect(typeof MSG.welcomeMessage).toBe("string");
-      expect(MSG.welcomeMessage.length).toBeGreaterThan(0);
+      const msg = MSG.welcomeMessage(
+        DEFAULT_TIME_CONTROL,
+        "engine_best",
+        DEFAULT_ENGINE_SETTINGS,
+        "Stockfish 18"
+      );
+      expect(msg).toBeDefined();
+      expect(typeof msg).toBe("string");
+      expect(msg.length).toBeGreaterThan(0);
+    });
+
+    it("describes the time control in the welcome message", () => {
+      expect(
+        MSG.welcomeMessage(
+          DEFAULT_TIME_CONTROL,
+          "engine_best",
+          DEFAULT_ENGINE_SETTINGS,
+          "Stockfish 18"
+        )
+      ).toContain(
+        "• 10 min per side\n• +10s added at the end of each turn when under 1 min"
+      );
+      expect(
+        MSG.welcomeMessage(
+          { ...DEFAULT_TIME_CONTROL, moveTime: 30 },
+          "engine_best",
+          DEFAULT_ENGINE_SETTINGS,
+          "Stockfish 18"
+        )
+      ).toContain("• 30s per move");
+    });
+
+    it("describes the move strategy in the welcome message", () => {
+      expect(
+        MSG.welcomeMessage(
+          DEFAULT_TIME_CONTROL,
+          "engine_best",
+          DEFAULT_ENGINE_SETTINGS,
+          "Stockfish 18"
+        )
+      ).toContain("picks the strongest candidate");
+      expect(
+        MSG.welcomeMessage(
+          DEFAULT_TIME_CONTROL,
+          "plurality",
+          DEFAULT_ENGINE_SETTINGS,
+          "Stockfish 18"
+        )
+      ).toContain("most proposed move");
+    });
+
+    it("describes the engine in the welcome message", () => {
+      expect(
+        MSG.welcomeMessage(
+          DEFAULT_TIME_CONTROL,
+          "engine_best",
+          { ...DEFAULT_ENGINE_SETTINGS, limitStrength: true, elo: 1500 },
+          "Lc0 v0.31.2"
+        )
+      ).toContain("• Lc0 v0.31.2, ~1500 Elo, depth 15");
+    });
+
+    it("names the new move strategy when it changes", () => {
+      const msg = MSG.moveStrategyChanged("Alice", "chaos");
+      expect(msg).toContain("Alice");
+      expect(msg).toContain("Chaos (worst move)");
     });
 
     it("generates team vote failed message", () => {
@@ -48,4 +122,88 @@ describe("shared_messages", () => {
       expect(formatVoteType("accept_draw")).toBe("accept draw");
     });
   });
+
+  describe("formatDuration", () => {
+    it("formats seconds, minutes and both", () => {
+      expect(formatDuration(45)).toBe("45s");
+      expect(formatDuration(600)).toBe("10 min");
+      expect(formatDuration(90)).toBe("1 min 30s");
+    });
+  });
+
+  describe("formatEval", () => {
+    it("formats centipawns as signed pawns", () => {
+      expect(formatEval({ score: 35, pv: [] })).toBe("+0.35");
+      expect(formatEval({ score: -80, pv: [] })).toBe("-0.80");
+      expect(formatEval({ score: 0, pv: [] })).toBe("0.00");
+    });
+
+    it("formats mates by distance", () => {
+      expect(formatEval({ score: 99997, mate: 3, pv: [] })).toBe("#3");
+      expect(formatEval({ score: -99998, mate: -2, pv: [] })).toBe("#-2");
+    });
+  });
+
+  describe("formatTimeControl", () => {
+    it("formats the default time control", () => {
+      expect(formatTimeControl(DEFAULT_TIME_CONTROL)).toBe(
+        "10 min + 10s under 1 min"
+      );
+    });
+
+    it("formats plain Fischer, delay and per-move controls", () => {
+      const base = {
+        baseTime: 300,
+        increment: 0,
+        incrementThreshold: 0,
+        delay: 0,
+        moveTime: 0,
+      };
+      expect(formatTimeControl({ ...base, increment: 3 })).toBe("5 min + 3s");
+      expect(formatTimeControl({ ...base, delay: 5 })).toBe("5 min, 5s delay");
+      expect(formatTimeControl({ ...base, moveTime: 30 })).toBe("30s per move");
+    });
+  });
+
+  describe("formatTurnDeadline", () => {
+    it("formats each rule and their combination", () => {
+      expect(formatTurnDeadline({ afterFirstProposal: 0, perTurn: 0 })).toBe(
+        "off"
+      );
+      expect(formatTurnDeadline({ afterFirstProposal: 30, perTurn: 0 })).toBe(
+        "30s after the first proposal"
+      );
+      expect(formatTurnDeadline({ afterFirstProposal: 30, perTurn: 120 })).toBe(
+        "30s after the first proposal, at most 2 min per turn"
+      );
+    });
+  });
+
+  describe("formatSpectatorDelay", () => {
+    it("formats each rule and their combination", () => {
+      expect(formatSpectatorDelay({ moves: 0, seconds: 0 })).toBe("off");
+      expect(formatSpectatorDelay({ moves: 0, seconds: 30 })).toBe("30s");
+      expect(formatSpectatorDelay({ moves: 2, seconds: 0 })).toBe("2 moves");
+      expect(formatSpectatorDelay({ moves: 1, seconds: 10 })).toBe(
+        "1 move and 10s"
+      );
+    });
+  });
+
+  describe("formatEngineSettings", () => {
+    it("summarizes strength and search limits", () => {
+      expect(formatEngineSettings(DEFAULT_ENGINE_SETTINGS)).toBe(
+        "full strength, depth 15"
+      );
+      expect(
+        formatEngineSettings({
+          ...DEFAULT_ENGINE_SETTINGS,
+          skillLevel: 5,
+          depth: 10,
+          moveTimeMs: 1500,
+          nodes: 200000,
+        })
+      ).toBe("skill level 5, depth 10, 1.5s per move, 200,000 nodes");
+    });
+  });
 });
@@ -1,5 +1,14 @@
 import { EndReason } from "./shared_types.js";
-import type { VoteType } from "./shared_types.js";
+import type {
+  VoteType,
+  TimeControl,
+  TurnDeadline,
+  SpectatorDelay,
+  MoveStrategy,
+  AutopilotMode,
+  EngineSettings,
+  MoveEval,
+} from "./shared_types.js";
 
 // ============================================================
 // Game End Messages
@@ -31,6 +40,8 @@ export const gameOverFallback = (winner: string | null): string =>
 // ============================================================
 
 export const SENDER_SYSTEM = "System";
+/** Shown as the proposer of moves the engine played for a team */
+export const AUTOPILOT_PLAYER_NAME = "Autopilot";
 export const DEFAULT_PLAYER_NAME = "Player";
 
 // ============================================================
@@ -41,6 +52,143 @@ export function formatVoteType(type: VoteType): string {
   return type.replace("_", " ");
 }
 
+// ============================================================
+// Time Control Formatters
+// ============================================================
+
+/** Formats seconds as e.g. "10 min", "45s" or "1 min 30s". */
+export function formatDuration(seconds: number): string {
+  const min = Math.floor(seconds / 60);
+  const sec = seconds % 60;
+  if (min === 0) return `${sec}s`;
+  if (sec === 0) return `${min} min`;
+  return `${min} min ${sec}s`;
+}
+
+/** One-line summary, e.g. "10 min + 10s under 1 min" or "30s per move". */
+export function formatTimeControl(tc: TimeControl): string {
+  if (tc.moveTime > 0) return `${formatDuration(tc.moveTime)} per move`;
+  let text = formatDuration(tc.baseTime);
+  if (tc.increment > 0) {
+    text += ` + ${tc.increment}s`;
+    if (tc.incrementThreshold > 0)
+      text += ` under ${formatDuration(tc.incrementThreshold)}`;
+  }
+  if (tc.delay > 0) text += `, ${tc.delay}s delay`;
+  return text;
+}
+
+/** Bullet lines explaining every active clock rule. */
+export function describeTimeControl(tc: TimeControl): string[] {
+  if (tc.moveTime > 0) {
+    return [`${formatDuration(tc.moveTime)} per move, unused time is lost`];
+  }
+  const lines = [`${formatDuration(tc.baseTime)} per side`];
+  if (tc.increment > 0) {
+    lines.push(
+      `+${tc.increment}s added at the end of each turn` +
+        (tc.incrementThreshold > 0
+          ? ` when under ${formatDuration(tc.incrementThreshold)}`
+          : "")
+    );
+  }
+  if (tc.delay > 0) {
+    lines.push(`Up to ${tc.delay}s of each turn given back (delay)`);
+  }
+  return lines;
+}
+
+/**
+ * One-line summary of a turn deadline, e.g. "30s after the first proposal",
+ * "1 min per turn" or "off".
+ */
+export function formatTurnDeadline(turnDeadline: TurnDeadline): string {
+  const rules: string[] = [];
+  if (turnDeadline.afterFirstProposal > 0) {
+    rules.push(
+      `${formatDuration(turnDeadline.afterFirstProposal)} after the first proposal`
+    );
+  }
+  if (turnDeadline.perTurn > 0) {
+    rules.push(`${formatDuration(turnDeadline.perTurn)} per turn`);
+  }
+  return rules.length > 0 ? rules.join(", at most ") : "off";
+}
+
+/**
+ * One-line summary of a spectator delay, e.g. "30s", "2 moves",
+ * "1 move and 10s" or "off".
+ */
+export function formatSpectatorDelay(delay: SpectatorDelay): string {
+  const rules: string[] = [];
+  if (delay.moves > 0) {
+    rules.push(`${delay.moves} ${delay.moves === 1 ? "move" : "moves"}`);
+  }
+  if (delay.seconds > 0) rules.push(formatDuration(delay.seconds));
+  return rules.length > 0 ? rules.join(" and ") : "off";
+}
+
+/**
+ * One-line summary of the engine's strength and search limits, e.g.
+ * "full strength, depth 15" or "~1500 Elo, depth 12, 1s per move".
+ */
+export function formatEngineSettings(settings: EngineSettings): string {
+  const parts = [
+    settings.limitStrength
+      ? `~${settings.elo} Elo`
+      : settings.skillLevel < 20
+        ? `skill level ${settings.skillLevel}`
+        : "full strength",
+    `depth ${settings.depth}`,
+  ];
+  if (settings.moveTimeMs > 0) {
+    parts.push(`${settings.moveTimeMs / 1000}s per move`);
+  }
+  if (settings.nodes > 0) {
+    parts.push(`${settings.nodes.toLocaleString("en-US")} nodes`);
+  }
+  return parts.join(", ");
+}
+
+// ============================================================
+// Engine Evaluation Formatters
+// ============================================================
+
+/** Formats an engine score as e.g. "+0.35", "-0.80" or "#3" for a mate. */
+export function formatEval(evaluation: MoveEval): string {
+  if (evaluation.mate !== undefined) return `#${evaluation.mate}`;
+  const pawns = evaluation.score / 100;
+  return (pawns > 0 ? "+" : "") + pawns.toFixed(2);
+}
+
+// ============================================================
+// Move Strategy Labels
+// ============================================================
+
+export const moveStrategyLabels: Record<MoveStrategy, string> = {
+  engine_best: "Engine's best",
+  plurality: "Plurality vote",
+  weighted_random: "Weighted random",
+  chaos: "Chaos (worst move)",
+  captain: "Team captain",
+};
+
+export const autopilotLabels: Record<AutopilotMode, string> = {
+  off: "Off (lose on time)",
+  proposals: "Play proposals made so far",
+  engine: "Proposals, else engine move",
+};
+
+/** How the played move is chosen, as a sentence for the welcome message. */
+export const moveStrategyDescriptions: Record<MoveStrategy, string> = {
+  engine_best: "The engine picks the strongest candidate",
+  plurality: "The most proposed move is played, the engine breaks ties",
+  weighted_random:
+    "A random candidate is played, stronger moves are more likely",
+  chaos: "Chaos mode: the engine plays the weakest candidate",
+  captain: "The team captain (longest-standing member) decides",
+};
+
 // ============================================================
 // Server Messages (template functions for socket emits)
 // ============================================================
@@ -58,11 +206,57 @@ export const MSG = {
   // Reset vote messages
   gameReset: "🔄 Game has been reset.",
   resetVoteFailed: "❌ Vote to reset the game failed.",
+  analysisStarted: (name: string) =>
+    `🔍 ${name} asked the engine to review the game.`,
+  analysisFailed: "❌ The engine could not finish reviewing the game.",
+  positionVoteFailed: "❌ Vote to load the new start position failed.",
 
   // Welcome message for new players
-  welcomeMessage: `Welcome to TeamChess!\n\nHow it works:\n• Each player on a team proposes a move\n• Stockfish 18 (depth 15, ~3000 ELO) picks the strongest candidate\n\nTime control:\n• 10 min per side\n• +10s added at the end of each turn when under 1 min\n\nJoin White or Black to play!`,
+  welcomeMessage: (
+    timeControl: TimeControl,
+    moveStrategy: MoveStrategy,
+    engineSettings: EngineSettings,
+    engineName: string
+  ) =>
+    [
+      "Welcome to TeamChess!",
+      "",
+      "How it works:",
+      "• Each player on a team proposes a move",
+      `• ${moveStrategyDescriptions[moveStrategy]}`,
+      "",
+      "Time control:",
+      ...describeTimeControl(timeControl).map((line) => `• ${line}`),
+      "",
+      "Engine:",
+      `• ${engineName}, ${formatEngineSettings(engineSettings)}`,
+      "",
+      "Join White or Black to play!",
+    ].join("\n"),
+
+  // Setup
+  timeControlChanged: (name: string, timeControl: TimeControl) =>
+    `⏱️ ${name} set the time control to ${formatTimeControl(timeControl)}.`,
+  moveStrategyChanged: (name: string, moveStrategy: MoveStrategy) =>
+    `🎲 ${name} set the move selection to ${moveStrategyLabels[moveStrategy]}: ${moveStrategyDescriptions[moveStrategy]}.`,
+  engineSettingsChanged: (name: string, engineSettings: EngineSettings) =>
+    `🤖 ${name} set the engine to ${formatEngineSettings(engineSettings)}.`,
+  turnDeadlineChanged: (name: string, turnDeadline: TurnDeadline) =>
+    `⏳ ${name} set the turn deadline to ${formatTurnDeadline(turnDeadline)}.`,
+  spectatorDelayChanged: (name: string, delay: SpectatorDelay) =>
+    `👀 ${name} set the spectator delay to ${formatSpectatorDelay(delay)}.`,
+  startPositionLoaded: (name: string, side: "white" | "black") =>
+    `♟️ ${name} loaded a new start position. ${side === "white" ? "White" : "Black"} moves first.`,
 
   // Game flow
+  autopilotChanged: (name: string, mode: AutopilotMode) =>
+    `🤖 ${name} set autopilot to: ${autopilotLabels[mode]}.`,
+  autopilotProposals: (side: "white" | "black") =>
+    `🤖 ${side === "white" ? "White" : "Black"} ran out of time; playing a move from the proposals made so far.`,
+  autopilotEngine: (side: "white" | "black") =>
+    `🤖 ${side === "white" ? "White" : "Black"} ran out of time without a proposal; the engine moves for them, at a time penalty.`,
+  turnDeadlinePassed: (side: "white" | "black", missing: string[]) =>
+    `⏳ Time's up for ${side === "white" ? "White" : "Black"}'s proposals; no move from ${missing.join(", ")}.`,
   systemError:
     "⚠️ System error: move could not be processed. Please resubmit your moves.",
 
@@ -73,11 +267,41 @@ export const MSG = {
   errorKickVoteInProgress: "A kick vote is already in progress",
   errorCannotKickSelf: "You cannot vote to kick yourself",
   errorResetVoteInProgress: "A reset vote is already in progress",
-  errorOnlyWhiteStart: "Only the White team can start the game.",
+  errorOnlySideToMoveStart: (side: "white" | "black") =>
+    `Only the ${side === "white" ? "White" : "Black"} team can start the game.`,
   errorBothTeamsRequired: "Both teams must have at least one player to start.",
   errorNotAccepting: "Not accepting moves right now.",
   errorNotYourTurn: "Not your turn.",
-  errorAlreadyMoved: "Already moved.",
+  errorNoProposal: "You have no proposal to withdraw.",
   errorIllegalFormat: "Illegal move format.",
   errorIllegalMove: "Illegal move.",
+  errorInvalidTimeControl: "Invalid time control.",
+  errorInvalidMoveStrategy: "Unknown move selection strategy.",
+  errorInvalidTurnDeadline: "Invalid turn deadline.",
+  errorInvalidSpectatorDelay: "Invalid spectator delay.",
+  errorInvalidAutopilot: "Unknown autopilot mode.",
+  errorInvalidEngineSettings: "Invalid engine settings.",
+  errorAnalysisAfterGame: "Games can only be reviewed once they are over.",
+  errorInvalidFen: "That FEN is not a valid position.",
+  errorInvalidPgn: "That PGN could not be read.",
+  errorPositionGameOver: "The game is already over in that position.",
+  errorStartPositionVotePending:
+    "Wait for the start position vote to finish first.",
+  errorSetupOnly: "This can only be changed before the game starts.",
+  errorPlayersOnly: "Only players on a team can change game settings.",
+  errorChatChannel: "You can only chat with everyone or your own side.",
+  errorRoomNotFound: "This room does not exist or has been closed.",
+  errorTooManyRooms: "Too many rooms are open. Join an existing one.",
+  errorGameNotFound: "Game not found.",
+  errorPlayerNotFound: "No finished games for this player.",
+  errorInvalidUsername:
+    "Usernames are 3-20 letters, digits, dashes or underscores.",
+  errorInvalidPassword: "Passwords must be 8-128 characters long.",
+  errorUsernameTaken: "That username is already taken.",
+  errorWrongCredentials: "Wrong username or password.",
+  errorTooManyRequests:
+    "Too many attempts. Please wait a minute and try again.",
+  errorSessionExpired: "Your session has expired. Please sign in again.",
+  errorNameReserved: "That name belongs to a registered player.",
+  errorAccountName: "Your name is your account's username.",
 } as const;
@@ -10,10 +10,17 @@ export type Players = {
   blackPlayers: Player[];
 };
 
+/**
+ * Where a chat message is posted: the whole room, or only the players on
+ * one side (spectators have one of their own).
+ */
+export type ChatChannel = "global" | "white" | "black" | "spectator";
+
 export type ChatMessage = {
   sender: string;
   senderId: string;
   message: string;
+  channel: ChatChannel;
   system?: boolean;
 };
 
@@ -22,6 +29,18 @@ export type GameInfo = {
   side: "white" | "black";
 };
 
+/**
+ * Engine verdict on a proposed move, from the moving side's point of view.
+ */
+export type MoveEval = {
+  /** Centipawns; forced mates are folded in as very large values */
+  score: number;
+  /** Moves until mate, negative when getting mated */
+  mate?: number;
+  /** Principal variation in SAN, starting with the move itself */
+  pv: string[];
+};
+
 export type Proposal = {
   id: string;
   name: string;
@@ -29,11 +48,219 @@ export type Proposal = {
   side: "white" | "black";
   lan: string;
   san?: string;
+  /** Filled in with move_selected once the engine has scored the turn */
+  evaluation?: MoveEval;
+};
+
+/**
+ * How the played move is chosen among a team's proposals.
+ * - engine_best: the engine plays the strongest candidate
+ * - plurality: the most proposed move wins, the engine breaks ties
+ * - weighted_random: random candidate, better evaluated moves are likelier
+ * - chaos: the engine plays the weakest candidate
+ * - captain: the team captain's proposal is played
+ */
+/**
+ * How much a played move gave away compared to the engine's choice.
+ */
+export type MoveClassification =
+  | "best"
+  | "good"
+  | "inaccuracy"
+  | "mistake"
+  | "blunder";
+
+/**
+ * Post-game engine review of one played move.
+ */
+export type MoveAnalysis = {
+  moveNumber: number;
+  side: "white" | "black";
+  lan: string;
+  san: string;
+  /** Position after the move */
+  fen: string;
+  /** Evaluation after the move, in centipawns from White's point of view */
+  eval: number;
+  /** Moves until mate after the move, positive when White mates */
+  mate?: number;
+  /** The engine's choice in the position before the move */
+  bestLan: string;
+  bestSan: string;
+  /** Centipawns the move lost compared to the engine's choice */
+  loss: number;
+  classification: MoveClassification;
+};
+
+/**
+ * Post-game review, filled in move by move while the engine works.
+ */
+export type GameAnalysis = {
+  /** Number of moves to analyze; the review is done once all are in */
+  total: number;
+  moves: MoveAnalysis[];
 };
 
+export type MoveStrategy =
+  | "engine_best"
+  | "plurality"
+  | "weighted_random"
+  | "chaos"
+  | "captain";
+
+/**
+ * What happens when a team's clock runs out: "off" loses on time,
+ * "proposals" plays the best of the proposals made so far, and "engine"
+ * also lets the engine move for a team that has none.
+ */
+export type AutopilotMode = "off" | "proposals" | "engine";
+
 export type Selection = Proposal & {
   fen: string;
   candidates: Proposal[];
+  strategy: MoveStrategy;
+  /** Set when the move was played because the team ran out of time */
+  autopilot?: Exclude<AutopilotMode, "off">;
+  /**
+   * The engine's own choice in the position, scored like the candidates.
+   * Missing for autopilot moves and games played before it was recorded.
+   */
+  best?: { lan: string; score: number };
+};
+
+/**
+ * Clock rules for a game. All values are in seconds; 0 disables a rule.
+ */
+export type TimeControl = {
+  /** Starting clock per side */
+  baseTime: number;
+  /** Fischer increment added at the end of each turn */
+  increment: number;
+  /** When set, the increment is only added while the clock is at or below it */
+  incrementThreshold: number;
+  /** Bronstein delay: time used in a turn is given back, up to this much */
+  delay: number;
+  /** Fixed budget per move; the clock restarts from it every turn */
+  moveTime: number;
+};
+
+/**
+ * When a turn is played with the proposals received so far instead of
+ * waiting for every active player. Values are in seconds; 0 disables a rule.
+ */
+export type TurnDeadline = {
+  /** Counted from the turn's first proposal */
+  afterFirstProposal: number;
+  /** Counted from the start of the turn */
+  perTurn: number;
+};
+
+/**
+ * How far behind the game spectators are kept, so they can't relay a
+ * team's proposals or the chat while it still matters. Every rule that is
+ * not 0 must be met before an event reaches them.
+ */
+export type SpectatorDelay = {
+  /** Moves (plies) played since the event */
+  moves: number;
+  /** Seconds passed since the event */
+  seconds: number;
+};
+
+/**
+ * How strong the engine plays and how long it searches in one game.
+ * Search limits of 0 are off; the search ends at the first limit reached.
+ */
+export type EngineSettings = {
+  depth: number;
+  moveTimeMs: number;
+  nodes: number;
+  /** 0-20; ignored while limitStrength is on */
+  skillLevel: number;
+  limitStrength: boolean;
+  elo: number;
+  threads: number;
+  /** Hash table size in MB */
+  hash: number;
+};
+
+/**
+ * A finished game as kept in the archive.
+ */
+export type GameRecord = {
+  id: string;
+  roomId: string;
+  roomName: string;
+  startedAt: number;
+  endedAt: number;
+  /** PGN result: "1-0", "0-1" or "1/2-1/2" */
+  result: string;
+  reason: string;
+  winner: "white" | "black" | null;
+  /** Everyone who played for each team */
+  white: { id: string; name: string }[];
+  black: { id: string; name: string }[];
+  timeControl: TimeControl;
+  moveStrategy: MoveStrategy;
+  pgn: string;
+  /** Every played turn with all its candidates */
+  turns: Selection[];
+};
+
+/** A player's results with one team. */
+export type SideRecord = {
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+};
+
+/**
+ * A player's record over every archived game they played in.
+ */
+export type PlayerStats = {
+  id: string;
+  /** Name they used in their latest game */
+  name: string;
+  /** Team Elo: each game moves it by how the team did against the odds */
+  rating: number;
+  games: number;
+  white: SideRecord;
+  black: SideRecord;
+  /** Moves they proposed */
+  proposals: number;
+  /** Proposals that were played */
+  selected: number;
+  /** Share of proposals that were played, null before the first one */
+  hitRate: number | null;
+  /**
+   * Average centipawns their proposals lost against the engine's own
+   * choice, null when none was evaluated
+   */
+  averageCpLoss: number | null;
+  lastPlayedAt: number;
+};
+
+/**
+ * What the leaderboard ranks by:
+ * - rating: team Elo
+ * - hitRate: share of proposals played (needs a minimum of proposals)
+ * - wins: games won with either team
+ * - selected: proposals played, the most engine-approved moves
+ */
+export type LeaderboardSort = "rating" | "hitRate" | "wins" | "selected";
+
+/** Games the leaderboard counts, by how long ago they ended */
+export type LeaderboardRange = "day" | "week" | "month" | "all";
+
+export type LeaderboardEntry = PlayerStats & {
+  /** Players with equal values share a rank */
+  rank: number;
+};
+
+/** Archive list entry: a game record without its moves. */
+export type GameSummary = Omit<GameRecord, "pgn" | "turns"> & {
+  moveCount: number;
 };
 
 export type VoteType = "resign" | "offer_draw" | "accept_draw";
@@ -54,6 +281,29 @@ export enum GameStatus {
   Over = "Over",
 }
 
+export type RoomSummary = {
+  id: string;
+  name: string;
+  status: GameStatus;
+  whiteCount: number;
+  blackCount: number;
+  spectatorCount: number;
+  timeControl: TimeControl;
+};
+
+/** A registered player, as the client sees it. */
+export type Account = {
+  id: string;
+  username: string;
+};
+
+/** Answer to signing up or signing in. */
+export type AuthResponse = {
+  /** Signed session token, sent back in the socket handshake */
+  token: string;
+  account: Account;
+};
+
 export interface KickVoteState {
   isActive: boolean;
   targetId: string | null;
@@ -77,6 +327,8 @@ export interface ResetVoteState {
   endTime: number;
   myVoteEligible: boolean;
   myCurrentVote: "yes" | "no" | null;
+  /** Set when the vote is about loading a new start position */
+  startFen?: string;
 }
 
 export enum EndReason {
@@ -1,7 +1,9 @@
 import { describe, it, expect } from "vitest";
 import { Socket } from "socket.io";
-import { handleChatMessage } from "./eventHandlers.js";
+import { handleChatMessage, handleJoinSide } from "./eventHandlers.js";
 import { MockGameContext } from "../context/MockGameContext.js";
+import { GameStatus } from "../shared_types.js";
+import { MSG } from "../shared_messages.js";
 
 function fakeSocket(pid: string, name: string): Socket {
   return {
@@ -27,6 +29,7 @@ describe("handleChatMessage", () => {
       sender: "Alice",
       senderId: "p1",
       message: "hello",
+      channel: "global",
     });
   });
 
@@ -74,4 +77,79 @@ describe("handleChatMessage", () => {
     expect(chats[0].sender).toBe("Alice");
     expect(chats[0].senderId).toBe("p1");
   });
+
+  it("shows a spectator's message to spectators through the delayed channel", () => {
+    const ctx = new MockGameContext({
+      status: GameStatus.AwaitingProposals,
+      spectatorDelay: { moves: 1, seconds: 0 },
+    });
+    const sender = ctx.addPlayer("s1", "Spec", "spectator");
+    const other = ctx.addPlayer("s2", "Other", "spectator");
+
+    handleChatMessage(sender as unknown as Socket, "e4!", ctx);
+
+    expect(sender.emittedEvents).toMatchObject([
+      { event: "chat_message", data: { message: "e4!" } },
+    ]);
+    expect(other.emittedEvents).toEqual([]);
+    expect(ctx.emittedEvents).toMatchObject([
+      { event: "chat_message", target: "players" },
+    ]);
+  });
+
+  it("sends a team message to that team's sockets only", () => {
+    const ctx = new MockGameContext();
+    const alice = ctx.addPlayer("p1", "Alice", "white");
+    const bob = ctx.addPlayer("p2", "Bob", "white");
+    const carol = ctx.addPlayer("p3", "Carol", "black");
+    const spec = ctx.addPlayer("p4", "Spec", "spectator");
+
+    handleChatMessage(alice as unknown as Socket, "Nf3?", ctx, "white");
+
+    const expected = [
+      {
+        event: "chat_message",
+        data: {
+          sender: "Alice",
+          senderId: "p1",
+          message: "Nf3?",
+          channel: "white",
+        },
+      },
+    ];
+    expect(alice.emittedEvents).toEqual(expected);
+    expect(bob.emittedEvents).toEqual(expected);
+    expect(carol.emittedEvents).toEqual([]);
+    expect(spec.emittedEvents).toEqual([]);
+    expect(ctx.emittedEvents).toEqual([]);
+  });
+
+  it("rejects posting to another side's channel", () => {
+    const ctx = new MockGameContext();
+    const alice = ctx.addPlayer("p1", "Alice", "white");
+    const carol = ctx.addPlayer("p3", "Carol", "black");
+
+    handleChatMessage(alice as unknown as Socket, "hi", ctx, "black");
+
+    expect(alice.emittedEvents).toEqual([
+      { event: "error", data: { message: MSG.errorChatChannel } },
+    ]);
+    expect(carol.emittedEvents).toEqual([]);
+  });
+
+  it("routes team messages by the sides players are on now", () => {
+    const ctx = new MockGameContext();
+    const alice = ctx.addPlayer("p1", "Alice", "white");
+    const bob = ctx.addPlayer("p2", "Bob", "black");
+
+    handleJoinSide(alice as unknown as Socket, "black", undefined, ctx);
+    ctx.clearEmittedEvents();
+    handleChatMessage(bob as unknown as Socket, "welcome", ctx, "black");
+    handleChatMessage(alice as unknown as Socket, "hi", ctx, "white");
+
+    expect(alice.emittedEvents).toMatchObject([
+      { event: "chat_message", data: { message: "welcome" } },
+      { event: "error", data: { message: MSG.errorChatChannel } },
+    ]);
+  });
 });
@@ -1,15 +1,23 @@
-import { Socket } from "socket.io";
+import { Server, Socket } from "socket.io";
 import { nanoid } from "nanoid";
 import type { IGameContext } from "../context/GameContext.js";
-import { globalContext } from "../context/GlobalContextAdapter.js";
-import { GameStatus, VoteType } from "../types.js";
-import { getCleanPgn } from "../utils/pgn.js";
+import type { Room, RoomManager } from "../rooms/roomManager.js";
+import type { AccountService } from "../players/accounts.js";
+import { isValidRoomId } from "../core/roomLogic.js";
+import { DEFAULT_ROOM_ID } from "../constants.js";
+import { VoteType, type Account } from "../types.js";
 import {
   broadcastPlayers,
   sendPrivateSystemMessage,
 } from "../utils/messaging.js";
 import { MSG, DEFAULT_PLAYER_NAME } from "../shared_messages.js";
-import { tryFinalizeTurn } from "../game/gameLogic.js";
+import {
+  getGameView,
+  sendGameView,
+  tryFinalizeTurn,
+} from "../game/gameLogic.js";
+import { resumeClock } from "../game/clock.js";
+import { getEngineName } from "../engine/stockfish.js";
 import { getTeamVoteClientData } from "../voting/teamVote.js";
 import { leave } from "../players/playerManager.js";
 import { getKickVoteClientData } from "../voting/kickVote.js";
@@ -19,158 +27,235 @@ import {
   handleJoinSide,
   handleResetGame,
   handlePlayMove,
+  handleRetractMove,
   handleChatMessage,
   handleStartTeamVote,
   handleVoteTeam,
   handleStartKickVote,
   handleKickVote,
   handleVoteReset,
+  handleSetTimeControl,
+  handleSetTurnDeadline,
+  handleSetSpectatorDelay,
+  handleSetMoveStrategy,
+  handleSetAutopilot,
+  handleSetEngineSettings,
+  handleLoadPosition,
+  handleRequestAnalysis,
 } from "./eventHandlers.js";
 
 /**
  * Sets up the socket connection handler.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * Each socket is routed to the room named in its handshake (or the default
+ * room) and only ever interacts with that room's context. A session token
+ * in the handshake signs the socket in; an invalid one is refused so the
+ * client can drop it and reconnect as a guest.
  */
 export function setupConnectionHandler(
-  ctx: IGameContext = globalContext
+  io: Server,
+  rooms: RoomManager,
+  accounts: AccountService
 ): void {
-  const { io } = ctx;
-
   io.on("connection", (socket: Socket) => {
-    const { gameState, sessions } = ctx;
-    const { pid: providedPid, name: providedName } =
-      (socket.handshake.auth as { pid?: string; name?: string }) || {};
-
-    // Blacklist check: reject kicked players
-    if (providedPid && gameState.blacklist.has(providedPid)) {
-      socket.emit("kicked", { message: MSG.youHaveBeenKicked });
+    const { roomId: requestedRoomId, token } =
+      (socket.handshake.auth as { roomId?: string; token?: string }) || {};
+    const account = token ? accounts.verify(token) : undefined;
+    if (token && !account) {
+      socket.emit("auth_failed", { message: MSG.errorSessionExpired });
       socket.disconnect(true);
       return;
     }
 
-    const isNewPlayer = !(providedPid && sessions.has(providedPid));
-    const pid =
-      providedPid && sessions.has(providedPid) ? providedPid : nanoid();
-    let sess = sessions.get(pid);
-
-    if (!sess) {
-      sess = {
-        pid,
-        name: providedName || DEFAULT_PLAYER_NAME,
-        side: "spectator",
-      };
-      sessions.set(pid, sess);
-    } else {
-      if (sess.reconnectTimer) {
-        clearTimeout(sess.reconnectTimer);
-        sess.reconnectTimer = undefined;
-      }
-
-      if (providedName) sess.name = providedName;
-    }
+    const roomId = requestedRoomId ?? DEFAULT_ROOM_ID;
+    const room = isValidRoomId(roomId) ? rooms.getRoom(roomId) : undefined;
 
-    socket.data.pid = pid;
-    socket.data.name = sess.name;
-    socket.data.side = sess.side;
-
-    socket.emit("session", { id: pid, name: sess.name });
-    socket.emit("game_status_update", { status: gameState.status });
-
-    socket.emit("clock_update", {
-      whiteTime: gameState.whiteTime,
-      blackTime: gameState.blackTime,
-    });
-
-    if (gameState.status !== GameStatus.Setup) {
-      const currentProposals = Array.from(gameState.proposals.entries()).map(
-        ([pid, proposal]) => ({
-          id: pid,
-          name: proposal.name,
-          moveNumber: gameState.moveNumber,
-          side: gameState.side,
-          lan: proposal.lan,
-          san: proposal.san,
-        })
-      );
-
-      socket.emit("game_started", {
-        moveNumber: gameState.moveNumber,
-        side: gameState.side,
-        proposals: currentProposals,
-      });
-      socket.emit("position_update", { fen: gameState.chess.fen() });
-      socket.emit("clock_update", {
-        whiteTime: gameState.whiteTime,
-        blackTime: gameState.blackTime,
-      });
-
-      if (gameState.drawOffer) {
-        socket.emit("draw_offer_update", { side: gameState.drawOffer });
-      }
-      if (gameState.status === GameStatus.Over) {
-        socket.emit("game_over", {
-          reason: gameState.endReason,
-          winner: gameState.endWinner,
-          pgn: getCleanPgn(gameState.chess),
-        });
-      }
+    if (!room) {
+      socket.emit("room_not_found", { message: MSG.errorRoomNotFound });
+      socket.disconnect(true);
+      return;
     }
 
-    if (socket.data.side === "white" || socket.data.side === "black") {
-      socket.emit(
-        "team_vote_update",
-        getTeamVoteClientData(socket.data.side, pid, ctx)
-      );
-    }
+    socket.data.account = account;
+    joinRoom(socket, room, accounts);
+  });
+}
+
+/**
+ * Attaches a freshly connected socket to a room: restores or creates its
+ * session, replays the room's game state and wires up event handlers.
+ * Signed-in players always use their account id and username; guests get
+ * neither.
+ */
+function joinRoom(socket: Socket, room: Room, accounts: AccountService): void {
+  const ctx: IGameContext = room.ctx;
+  const { gameState, sessions } = ctx;
+  const account = socket.data.account as Account | undefined;
+  const auth = (socket.handshake.auth as { pid?: string; name?: string }) || {};
+  const providedPid =
+    account?.id ??
+    (auth.pid && !accounts.isAccountId(auth.pid) ? auth.pid : undefined);
+  const providedName =
+    account?.username ??
+    (auth.name && !accounts.isNameReserved(auth.name) ? auth.name : undefined);
+
+  // Blacklist check: reject kicked players
+  if (providedPid && gameState.blacklist.has(providedPid)) {
+    socket.emit("kicked", { message: MSG.youHaveBeenKicked });
+    socket.disconnect(true);
+    return;
+  }
 
-    // Send kick vote state (late joiners see it with myVoteEligible: false)
-    socket.emit("kick_vote_update", getKickVoteClientData(pid, ctx));
-    socket.emit("reset_vote_update", getResetVoteClientData(pid, ctx));
+  const isNewPlayer = !(providedPid && sessions.has(providedPid));
+  const pid =
+    account?.id ??
+    (providedPid && sessions.has(providedPid) ? providedPid : nanoid());
+  let sess = sessions.get(pid);
 
-    if (isNewPlayer) {
-      sendPrivateSystemMessage(socket, MSG.welcomeMessage);
+  if (!sess) {
+    sess = {
+      pid,
+      name: providedName || DEFAULT_PLAYER_NAME,
+      side: "spectator",
+    };
+    sessions.set(pid, sess);
+  } else {
+    if (sess.reconnectTimer) {
+      clearTimeout(sess.reconnectTimer);
+      sess.reconnectTimer = undefined;
     }
 
-    broadcastPlayers(ctx);
-    tryFinalizeTurn(ctx);
+    if (providedName) sess.name = providedName;
+  }
 
-    // Event handlers - pass context to each handler
-    socket.on("set_name", (name: string) => handleSetName(socket, name, ctx));
+  socket.data.pid = pid;
+  socket.data.name = sess.name;
+  socket.data.side = sess.side;
+  socket.data.roomId = room.id;
+  socket.join(room.id);
 
-    socket.on("join_side", ({ side }, cb) =>
-      handleJoinSide(socket, side, cb, ctx)
-    );
+  socket.emit("room_joined", { id: room.id, name: room.name });
+  socket.emit("session", { id: pid, name: sess.name });
+  socket.emit("account", { account: account ?? null });
+  socket.emit("time_control_update", { timeControl: gameState.timeControl });
+  socket.emit("turn_deadline_update", {
+    turnDeadline: gameState.turnDeadline,
+  });
+  socket.emit("spectator_delay_update", {
+    spectatorDelay: gameState.spectatorDelay,
+  });
+  socket.emit("move_strategy_update", {
+    moveStrategy: gameState.moveStrategy,
+  });
+  socket.emit("autopilot_update", { autopilot: gameState.autopilot });
+  socket.emit("engine_settings_update", {
+    engineSettings: gameState.engineSettings,
+  });
+  socket.emit("engine_info", { name: getEngineName() });
 
-    socket.on("reset_game", (cb) => handleResetGame(socket, cb, ctx));
+  // Spectators rejoin as far behind as the rest of the spectators
+  const view =
+    (sess.side === "spectator" && ctx.spectators.getView()) ||
+    getGameView(sess.side, ctx);
+  sendGameView(socket, view, ctx);
 
-    socket.on("play_move", (lan: string, cb) =>
-      handlePlayMove(socket, lan, cb, ctx)
+  if (socket.data.side === "white" || socket.data.side === "black") {
+    socket.emit(
+      "team_vote_update",
+      getTeamVoteClientData(socket.data.side, pid, ctx)
     );
+  }
 
-    socket.on("chat_message", (message: string) =>
-      handleChatMessage(socket, message, ctx)
-    );
+  // Send kick vote state (late joiners see it with myVoteEligible: false)
+  socket.emit("kick_vote_update", getKickVoteClientData(pid, ctx));
+  socket.emit("reset_vote_update", getResetVoteClientData(pid, ctx));
 
-    socket.on("start_team_vote", (type: VoteType) =>
-      handleStartTeamVote(socket, type, ctx)
+  if (isNewPlayer) {
+    sendPrivateSystemMessage(
+      socket,
+      MSG.welcomeMessage(
+        gameState.timeControl,
+        gameState.moveStrategy,
+        gameState.engineSettings,
+        getEngineName()
+      )
     );
+  }
 
-    socket.on("vote_team", (vote: "yes" | "no") =>
-      handleVoteTeam(socket, vote, ctx)
-    );
+  broadcastPlayers(ctx);
+  // A game restored from a snapshot waits for someone to come back
+  resumeClock(ctx);
+  tryFinalizeTurn(ctx);
 
-    socket.on("start_kick_vote", (targetId: string) =>
-      handleStartKickVote(socket, targetId, ctx)
-    );
+  // Event handlers - pass context to each handler
+  socket.on("set_name", (name: string) =>
+    handleSetName(socket, name, ctx, (n) => accounts.isNameReserved(n))
+  );
 
-    socket.on("vote_kick", (vote: "yes" | "no") =>
-      handleKickVote(socket, vote, ctx)
-    );
+  socket.on("join_side", ({ side }, cb) =>
+    handleJoinSide(socket, side, cb, ctx)
+  );
 
-    socket.on("vote_reset", (vote: "yes" | "no") =>
-      handleVoteReset(socket, vote, ctx)
-    );
+  socket.on("reset_game", (cb) => handleResetGame(socket, cb, ctx));
 
-    socket.on("disconnect", () => leave(socket, ctx));
-  });
+  socket.on("set_time_control", (timeControl: unknown, cb) =>
+    handleSetTimeControl(socket, timeControl, cb, ctx)
+  );
+
+  socket.on("set_turn_deadline", (turnDeadline: unknown, cb) =>
+    handleSetTurnDeadline(socket, turnDeadline, cb, ctx)
+  );
+
+  socket.on("set_spectator_delay", (spectatorDelay: unknown, cb) =>
+    handleSetSpectatorDelay(socket, spectatorDelay, cb, ctx)
+  );
+
+  socket.on("set_move_strategy", (moveStrategy: unknown, cb) =>
+    handleSetMoveStrategy(socket, moveStrategy, cb, ctx)
+  );
+
+  socket.on("set_autopilot", (autopilot: unknown, cb) =>
+    handleSetAutopilot(socket, autopilot, cb, ctx)
+  );
+
+  socket.on("set_engine_settings", (engineSettings: unknown, cb) =>
+    handleSetEngineSettings(socket, engineSettings, cb, ctx)
+  );
+
+  socket.on("load_position", (position: unknown, cb) =>
+    handleLoadPosition(socket, position, cb, ctx)
+  );
+
+  socket.on("request_analysis", (cb) => handleRequestAnalysis(socket, cb, ctx));
+
+  socket.on("play_move", (lan: string, cb) =>
+    handlePlayMove(socket, lan, cb, ctx)
+  );
+
+  socket.on("retract_move", (cb) => handleRetractMove(socket, cb, ctx));
+
+  socket.on("chat_message", (message: string, channel?: unknown) =>
+    handleChatMessage(socket, message, ctx, channel)
+  );
+
+  socket.on("start_team_vote", (type: VoteType) =>
+    handleStartTeamVote(socket, type, ctx)
+  );
+
+  socket.on("vote_team", (vote: "yes" | "no") =>
+    handleVoteTeam(socket, vote, ctx)
+  );
+
+  socket.on("start_kick_vote", (targetId: string) =>
+    handleStartKickVote(socket, targetId, ctx)
+  );
+
+  socket.on("vote_kick", (vote: "yes" | "no") =>
+    handleKickVote(socket, vote, ctx)
+  );
+
+  socket.on("vote_reset", (vote: "yes" | "no") =>
+    handleVoteReset(socket, vote, ctx)
+  );
+
+  socket.on("disconnect", () => leave(socket, ctx));
 }
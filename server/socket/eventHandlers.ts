@@ -1,10 +1,20 @@
 import { Socket } from "socket.io";
 import { Chess } from "chess.js";
 import type { IGameContext } from "../context/GameContext.js";
-import { globalContext } from "../context/GlobalContextAdapter.js";
-import { GameStatus, VoteType, EndReason } from "../types.js";
+import { GameStatus, VoteType, EndReason, type ChatMessage } from "../types.js";
 import { broadcastPlayers, sendSystemMessage } from "../utils/messaging.js";
-import { tryFinalizeTurn, endIfOneSided, endGame } from "../game/gameLogic.js";
+import {
+  tryFinalizeTurn,
+  endIfOneSided,
+  endGame,
+  startGameAnalysis,
+  broadcastProposal,
+  retractProposal,
+  broadcastTurnDeadline,
+  getGameView,
+  sendGameView,
+} from "../game/gameLogic.js";
+import { StockfishEngineService } from "../interfaces/IEngineService.js";
 import { startClock } from "../game/clock.js";
 import {
   getTeamVoteClientData,
@@ -12,7 +22,7 @@ import {
   clearTeamVote,
   startTeamVoteLogic,
 } from "../voting/teamVote.js";
-import { createEngine } from "../engine/stockfish.js";
+import { createEngine, configureEngine } from "../engine/stockfish.js";
 import { processVote } from "../core/voteLogic.js";
 import { processKickVote } from "../core/kickVoteLogic.js";
 import { processResetVote } from "../core/resetVoteLogic.js";
@@ -27,16 +37,38 @@ import {
   clearResetVote,
   broadcastResetVote,
 } from "../voting/resetVote.js";
-import { DEFAULT_CLOCK_TIME } from "../constants.js";
+import { validateTimeControl } from "../core/timeControlLogic.js";
+import { validateTurnDeadline } from "../core/turnDeadlineLogic.js";
+import { validateSpectatorDelay } from "../core/spectatorDelayLogic.js";
+import { resolveChatChannel } from "../core/chatLogic.js";
+import { validateEngineSettings } from "../core/engineSettingsLogic.js";
+import { isMoveStrategy } from "../core/moveStrategyLogic.js";
+import { isAutopilotMode } from "../core/autopilotLogic.js";
+import { getInitialClockTime } from "../core/turnLogic.js";
+import { getTurnFromFen, parseStartPosition } from "../core/positionLogic.js";
 import { MSG } from "../shared_messages.js";
 
+/**
+ * Renames a guest. Signed-in players keep their username, and guests can't
+ * take a name that belongs to an account.
+ * @param isNameReserved Whether a name belongs to a registered account
+ */
 export function handleSetName(
   socket: Socket,
   name: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext,
+  isNameReserved: (name: string) => boolean = () => false
 ): void {
   const pid = socket.data.pid;
+  if (socket.data.account) {
+    socket.emit("error", { message: MSG.errorAccountName });
+    return;
+  }
   const newName = name.trim().slice(0, 30);
+  if (newName && isNameReserved(newName)) {
+    socket.emit("error", { message: MSG.errorNameReserved });
+    return;
+  }
   if (newName) {
     const sess = ctx.sessions.get(pid);
     if (sess) {
@@ -51,8 +83,8 @@ export function handleSetName(
 export function handleJoinSide(
   socket: Socket,
   side: "white" | "black" | "spectator",
-  cb?: (res: { success?: boolean; error?: string }) => void,
-  ctx: IGameContext = globalContext
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
 ): void {
   const pid = socket.data.pid;
   const { gameState, sessions } = ctx;
@@ -73,6 +105,13 @@ export function handleJoinSide(
     endIfOneSided(ctx);
   }
 
+  // A spectator may be behind the game; a player must not be
+  if (side === "spectator") {
+    if (prevSide !== "spectator") ctx.spectators.join(socket);
+  } else if (prevSide === "spectator") {
+    sendGameView(socket, getGameView(side, ctx), ctx);
+  }
+
   broadcastPlayers(ctx);
   tryFinalizeTurn(ctx);
 
@@ -95,8 +134,8 @@ export function handleJoinSide(
 
 export function handleResetGame(
   socket: Socket,
-  cb?: (res: { success?: boolean; error?: string }) => void,
-  ctx: IGameContext = globalContext
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
 ): void {
   const result = startResetVoteLogic(socket.data.pid, ctx);
 
@@ -111,19 +150,23 @@ export function handleResetGame(
   cb?.({ success: true });
 }
 
-export function executeGameReset(ctx: IGameContext = globalContext): void {
+export function executeGameReset(ctx: IGameContext): void {
   const { gameState, io } = ctx;
 
   if (gameState.timerInterval) clearInterval(gameState.timerInterval);
-  const engine = createEngine();
+  // Drops a search still running for the old game, so its move is never
+  // played into the new one
+  gameState.engine.quit();
+  const engine = createEngine(gameState.engineSettings);
 
   ctx.resetGame(engine);
 
   sendSystemMessage(MSG.gameReset, ctx);
   io.emit("game_reset");
+  io.emit("position_update", { fen: ctx.gameState.chess.fen() });
   io.emit("clock_update", {
-    whiteTime: DEFAULT_CLOCK_TIME,
-    blackTime: DEFAULT_CLOCK_TIME,
+    whiteTime: ctx.gameState.whiteTime,
+    blackTime: ctx.gameState.blackTime,
   });
   broadcastTeamVote("white", ctx);
   broadcastTeamVote("black", ctx);
@@ -131,10 +174,249 @@ export function executeGameReset(ctx: IGameContext = globalContext): void {
   broadcastResetVote(ctx);
 }
 
+export function handleSetTimeControl(
+  socket: Socket,
+  input: unknown,
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
+): void {
+  const { gameState, io } = ctx;
+
+  if (gameState.status !== GameStatus.Setup) {
+    return cb?.({ error: MSG.errorSetupOnly });
+  }
+  if (socket.data.side !== "white" && socket.data.side !== "black") {
+    return cb?.({ error: MSG.errorPlayersOnly });
+  }
+
+  const { timeControl, error } = validateTimeControl(input);
+  if (!timeControl) return cb?.({ error });
+
+  const clockTime = getInitialClockTime(timeControl);
+  gameState.timeControl = timeControl;
+  gameState.whiteTime = clockTime;
+  gameState.blackTime = clockTime;
+
+  io.emit("time_control_update", { timeControl });
+  io.emit("clock_update", {
+    whiteTime: gameState.whiteTime,
+    blackTime: gameState.blackTime,
+  });
+  sendSystemMessage(MSG.timeControlChanged(socket.data.name, timeControl), ctx);
+
+  cb?.({ success: true });
+}
+
+export function handleSetTurnDeadline(
+  socket: Socket,
+  input: unknown,
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
+): void {
+  const { gameState, io } = ctx;
+
+  if (gameState.status !== GameStatus.Setup) {
+    return cb?.({ error: MSG.errorSetupOnly });
+  }
+  if (socket.data.side !== "white" && socket.data.side !== "black") {
+    return cb?.({ error: MSG.errorPlayersOnly });
+  }
+
+  const { turnDeadline, error } = validateTurnDeadline(input);
+  if (!turnDeadline) return cb?.({ error });
+
+  gameState.turnDeadline = turnDeadline;
+  io.emit("turn_deadline_update", { turnDeadline });
+  sendSystemMessage(
+    MSG.turnDeadlineChanged(socket.data.name, turnDeadline),
+    ctx
+  );
+
+  cb?.({ success: true });
+}
+
+export function handleSetSpectatorDelay(
+  socket: Socket,
+  input: unknown,
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
+): void {
+  const { gameState, io } = ctx;
+
+  if (gameState.status !== GameStatus.Setup) {
+    return cb?.({ error: MSG.errorSetupOnly });
+  }
+  if (socket.data.side !== "white" && socket.data.side !== "black") {
+    return cb?.({ error: MSG.errorPlayersOnly });
+  }
+
+  const { spectatorDelay, error } = validateSpectatorDelay(input);
+  if (!spectatorDelay) return cb?.({ error });
+
+  gameState.spectatorDelay = spectatorDelay;
+  io.emit("spectator_delay_update", { spectatorDelay });
+  sendSystemMessage(
+    MSG.spectatorDelayChanged(socket.data.name, spectatorDelay),
+    ctx
+  );
+
+  cb?.({ success: true });
+}
+
+export function handleSetMoveStrategy(
+  socket: Socket,
+  input: unknown,
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
+): void {
+  const { gameState, io } = ctx;
+
+  if (gameState.status !== GameStatus.Setup) {
+    return cb?.({ error: MSG.errorSetupOnly });
+  }
+  if (socket.data.side !== "white" && socket.data.side !== "black") {
+    return cb?.({ error: MSG.errorPlayersOnly });
+  }
+  if (!isMoveStrategy(input)) {
+    return cb?.({ error: MSG.errorInvalidMoveStrategy });
+  }
+
+  gameState.moveStrategy = input;
+  io.emit("move_strategy_update", { moveStrategy: input });
+  sendSystemMessage(MSG.moveStrategyChanged(socket.data.name, input), ctx);
+
+  cb?.({ success: true });
+}
+
+export function handleSetAutopilot(
+  socket: Socket,
+  input: unknown,
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
+): void {
+  const { gameState, io } = ctx;
+
+  if (gameState.status !== GameStatus.Setup) {
+    return cb?.({ error: MSG.errorSetupOnly });
+  }
+  if (socket.data.side !== "white" && socket.data.side !== "black") {
+    return cb?.({ error: MSG.errorPlayersOnly });
+  }
+  if (!isAutopilotMode(input)) {
+    return cb?.({ error: MSG.errorInvalidAutopilot });
+  }
+
+  gameState.autopilot = input;
+  io.emit("autopilot_update", { autopilot: input });
+  sendSystemMessage(MSG.autopilotChanged(socket.data.name, input), ctx);
+
+  cb?.({ success: true });
+}
+
+export function handleSetEngineSettings(
+  socket: Socket,
+  input: unknown,
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
+): void {
+  const { gameState, io } = ctx;
+
+  if (gameState.status !== GameStatus.Setup) {
+    return cb?.({ error: MSG.errorSetupOnly });
+  }
+  if (socket.data.side !== "white" && socket.data.side !== "black") {
+    return cb?.({ error: MSG.errorPlayersOnly });
+  }
+
+  const { engineSettings, error } = validateEngineSettings(input);
+  if (!engineSettings) return cb?.({ error });
+
+  gameState.engineSettings = engineSettings;
+  configureEngine(gameState.engine, engineSettings);
+  io.emit("engine_settings_update", { engineSettings });
+  sendSystemMessage(
+    MSG.engineSettingsChanged(socket.data.name, engineSettings),
+    ctx
+  );
+
+  cb?.({ success: true });
+}
+
+export function handleLoadPosition(
+  socket: Socket,
+  input: unknown,
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
+): void {
+  const { gameState } = ctx;
+
+  if (gameState.status !== GameStatus.Setup) {
+    return cb?.({ error: MSG.errorSetupOnly });
+  }
+  if (socket.data.side !== "white" && socket.data.side !== "black") {
+    return cb?.({ error: MSG.errorPlayersOnly });
+  }
+
+  const { fen, error } = parseStartPosition(input);
+  if (!fen) return cb?.({ error });
+
+  // Anyone else in the room gets a say, like a reset
+  const result = startResetVoteLogic(socket.data.pid, ctx, fen);
+  if (result.error) return cb?.({ error: result.error });
+
+  if (result.passedImmediately) {
+    applyStartPosition(fen, socket.data.name, ctx);
+  }
+
+  cb?.({ success: true });
+}
+
+/**
+ * Sets up the board for a game starting from the given position.
+ * @param name Player who loaded the position
+ */
+export function applyStartPosition(
+  fen: string,
+  name: string,
+  ctx: IGameContext
+): void {
+  const { gameState, io } = ctx;
+  if (gameState.status !== GameStatus.Setup) return;
+
+  const { side, moveNumber } = getTurnFromFen(fen);
+  gameState.startFen = fen;
+  gameState.chess = new Chess(fen);
+  gameState.side = side;
+  gameState.moveNumber = moveNumber;
+
+  io.emit("position_update", { fen });
+  sendSystemMessage(MSG.startPositionLoaded(name, side), ctx);
+}
+
+export function handleRequestAnalysis(
+  socket: Socket,
+  cb: ((res: { success?: boolean; error?: string }) => void) | undefined,
+  ctx: IGameContext
+): void {
+  const { gameState } = ctx;
+
+  if (gameState.status !== GameStatus.Over) {
+    return cb?.({ error: MSG.errorAnalysisAfterGame });
+  }
+
+  // One review per game, shared by everyone in the room
+  if (!gameState.analysis) {
+    sendSystemMessage(MSG.analysisStarted(socket.data.name), ctx);
+    startGameAnalysis(ctx, new StockfishEngineService(createEngine()));
+  }
+
+  cb?.({ success: true });
+}
+
 export function handleVoteReset(
   socket: Socket,
   vote: "yes" | "no",
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): void {
   const pid = socket.data.pid;
   const { gameState } = ctx;
@@ -165,12 +447,21 @@ export function handleVoteReset(
   if (voteResult.updatedNoVoters)
     currentVote.noVoters = voteResult.updatedNoVoters;
 
+  const { startFen, initiatorId } = currentVote;
   if (voteResult.passed) {
     clearResetVote(ctx);
-    executeGameReset(ctx);
+    if (startFen) {
+      const initiator = ctx.sessions.get(initiatorId);
+      applyStartPosition(startFen, initiator?.name ?? "", ctx);
+    } else {
+      executeGameReset(ctx);
+    }
   } else if (voteResult.failed) {
     clearResetVote(ctx);
-    sendSystemMessage(MSG.resetVoteFailed, ctx);
+    sendSystemMessage(
+      startFen ? MSG.positionVoteFailed : MSG.resetVoteFailed,
+      ctx
+    );
   } else if (voteResult.updatedYesVoters || voteResult.updatedNoVoters) {
     broadcastResetVote(ctx);
   }
@@ -179,15 +470,18 @@ export function handleVoteReset(
 export function handlePlayMove(
   socket: Socket,
   lan: string,
-  cb?: (res: { error?: string }) => void,
-  ctx: IGameContext = globalContext
+  cb: ((res: { error?: string }) => void) | undefined,
+  ctx: IGameContext
 ): void {
   const pid = socket.data.pid;
   const { gameState, io, sessions } = ctx;
 
   if (gameState.status === GameStatus.Setup) {
-    if (socket.data.side !== "white") {
-      return cb?.({ error: MSG.errorOnlyWhiteStart });
+    if (socket.data.side !== gameState.side) {
+      return cb?.({ error: MSG.errorOnlySideToMoveStart(gameState.side) });
+    }
+    if (gameState.resetVote?.startFen) {
+      return cb?.({ error: MSG.errorStartPositionVotePending });
     }
 
     const whites = new Set<string>();
@@ -197,18 +491,22 @@ export function handlePlayMove(
       else if (s.side === "black") blacks.add(s.pid);
     }
 
-    if (blacks.size === 0) {
+    if (whites.size === 0 || blacks.size === 0) {
       return cb?.({ error: MSG.errorBothTeamsRequired });
     }
 
     gameState.status = GameStatus.AwaitingProposals;
     gameState.whiteIds = whites;
     gameState.blackIds = blacks;
+    gameState.startedAt = Date.now();
 
     io.emit("game_started", {
-      moveNumber: 1,
-      side: "white",
+      moveNumber: gameState.moveNumber,
+      side: gameState.side,
       proposals: [],
+      timeControl: gameState.timeControl,
+      startFen: gameState.startFen,
+      history: [],
     });
     io.emit("position_update", { fen: gameState.chess.fen() });
     startClock(ctx);
@@ -219,8 +517,10 @@ export function handlePlayMove(
   const active =
     gameState.side === "white" ? gameState.whiteIds : gameState.blackIds;
   if (!active.has(pid)) return cb?.({ error: MSG.errorNotYourTurn });
-  if (gameState.proposals.has(pid))
-    return cb?.({ error: MSG.errorAlreadyMoved });
+
+  // A second move replaces the first until the turn is finalized
+  const previous = gameState.proposals.get(pid);
+  if (previous?.lan === lan) return cb?.({});
 
   let move;
   try {
@@ -237,39 +537,86 @@ export function handlePlayMove(
     san: move.san,
     name: socket.data.name,
   });
+  broadcastProposal(pid, ctx, previous !== undefined);
 
-  io.emit("move_submitted", {
-    id: pid,
-    name: socket.data.name,
-    moveNumber: gameState.moveNumber,
-    side: gameState.side,
-    lan,
-    san: move.san,
-  });
+  // The first proposal of the turn may start the deadline countdown
+  if (gameState.firstProposalAt === undefined) {
+    gameState.firstProposalAt = Date.now();
+    broadcastTurnDeadline(ctx);
+  }
 
   tryFinalizeTurn(ctx);
   cb?.({});
 }
 
+export function handleRetractMove(
+  socket: Socket,
+  cb: ((res: { error?: string }) => void) | undefined,
+  ctx: IGameContext
+): void {
+  const pid = socket.data.pid;
+  const { gameState } = ctx;
+
+  // Once finalizing, the proposals are already with the engine
+  if (gameState.status !== GameStatus.AwaitingProposals) {
+    return cb?.({ error: MSG.errorNotAccepting });
+  }
+  if (!gameState.proposals.has(pid)) {
+    return cb?.({ error: MSG.errorNoProposal });
+  }
+
+  gameState.proposals.delete(pid);
+  retractProposal(pid, ctx);
+  cb?.({});
+}
+
+/**
+ * Posts a chat message to everyone or to the sender's own side. Side
+ * channels go straight to the sockets on that side, so a player who
+ * switches sides reads and writes the new side's channel from then on.
+ */
 export function handleChatMessage(
   socket: Socket,
   message: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext,
+  requestedChannel?: unknown
 ): void {
   const pid = socket.data.pid;
 
   if (!message.trim()) return;
-  ctx.io.emit("chat_message", {
+  const channel = resolveChatChannel(requestedChannel, socket.data.side);
+  if (!channel) {
+    socket.emit("error", { message: MSG.errorChatChannel });
+    return;
+  }
+
+  const chatMessage: ChatMessage = {
     sender: socket.data.name,
     senderId: pid,
     message: message.trim(),
-  });
+    channel,
+  };
+  if (channel !== "global") {
+    for (const member of ctx.getSocketsBySide(channel)) {
+      member.emit("chat_message", chatMessage);
+    }
+    return;
+  }
+  if (socket.data.side !== "spectator") {
+    ctx.io.emit("chat_message", chatMessage);
+    return;
+  }
+
+  // Spectators see their own message at once, everyone else's late
+  socket.emit("chat_message", chatMessage);
+  ctx.emitToPlayers("chat_message", chatMessage);
+  ctx.spectators.emit("chat_message", chatMessage, pid);
 }
 
 export function handleStartTeamVote(
   socket: Socket,
   type: VoteType,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): void {
   const { gameState } = ctx;
 
@@ -282,7 +629,7 @@ export function handleStartTeamVote(
 export function handleVoteTeam(
   socket: Socket,
   vote: "yes" | "no",
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): void {
   const pid = socket.data.pid;
   const side = socket.data.side;
@@ -350,7 +697,7 @@ export function handleVoteTeam(
 export function handleStartKickVote(
   socket: Socket,
   targetId: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): void {
   const { sessions } = ctx;
   const initiatorPid = socket.data.pid;
@@ -377,7 +724,7 @@ export function handleStartKickVote(
 export function handleKickVote(
   socket: Socket,
   vote: "yes" | "no",
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): void {
   const pid = socket.data.pid;
   const { gameState } = ctx;
@@ -0,0 +1,406 @@
+import { describe, it, expect } from "vitest";
+import type { Socket } from "socket.io";
+import {
+  handleSetName,
+  handleSetTimeControl,
+  handleSetMoveStrategy,
+  handleSetSpectatorDelay,
+  handleSetAutopilot,
+  handleSetEngineSettings,
+  handleLoadPosition,
+  handleVoteReset,
+  handlePlayMove,
+} from "./eventHandlers.js";
+import {
+  MockGameContext,
+  type MockSocket,
+} from "../context/MockGameContext.js";
+import { GameStatus } from "../shared_types.js";
+import { MSG } from "../shared_messages.js";
+import { DEFAULT_ENGINE_SETTINGS } from "../constants.js";
+
+function asSocket(s: MockSocket): Socket {
+  return s as unknown as Socket;
+}
+
+const blitz = {
+  baseTime: 180,
+  increment: 2,
+  incrementThreshold: 0,
+  delay: 0,
+  moveTime: 0,
+};
+
+describe("handleSetName", () => {
+  const isNameReserved = (name: string) => name.toLowerCase() === "alice";
+
+  it("renames a guest", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Guest", "spectator");
+
+    handleSetName(asSocket(socket), " Bob ", ctx, isNameReserved);
+
+    expect(ctx.sessions.get("p1")?.name).toBe("Bob");
+  });
+
+  it("keeps account names for their owners", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Guest", "spectator");
+
+    handleSetName(asSocket(socket), "ALICE", ctx, isNameReserved);
+
+    expect(ctx.sessions.get("p1")?.name).toBe("Guest");
+    expect(socket.emittedEvents).toContainEqual({
+      event: "error",
+      data: { message: MSG.errorNameReserved },
+    });
+  });
+
+  it("does not rename signed-in players", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("u1", "Alice", "spectator");
+    socket.data.account = { id: "u1", username: "Alice" };
+
+    handleSetName(asSocket(socket), "Bob", ctx, isNameReserved);
+
+    expect(ctx.sessions.get("u1")?.name).toBe("Alice");
+    expect(socket.emittedEvents).toContainEqual({
+      event: "error",
+      data: { message: MSG.errorAccountName },
+    });
+  });
+});
+
+describe("handleSetTimeControl", () => {
+  it("stores the time control, resets clocks and broadcasts it", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    let res: { success?: boolean; error?: string } = {};
+
+    handleSetTimeControl(asSocket(socket), blitz, (r) => (res = r), ctx);
+
+    expect(res).toEqual({ success: true });
+    expect(ctx.gameState.timeControl).toEqual(blitz);
+    expect(ctx.gameState.whiteTime).toBe(180);
+    expect(ctx.gameState.blackTime).toBe(180);
+    expect(ctx.getLastEmittedData("time_control_update")).toEqual({
+      timeControl: blitz,
+    });
+    expect(ctx.getLastEmittedData("clock_update")).toEqual({
+      whiteTime: 180,
+      blackTime: 180,
+    });
+  });
+
+  it("rejects changes once the game has started", () => {
+    const ctx = new MockGameContext({ status: GameStatus.AwaitingProposals });
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    let res: { error?: string } = {};
+
+    handleSetTimeControl(asSocket(socket), blitz, (r) => (res = r), ctx);
+
+    expect(res.error).toBe(MSG.errorSetupOnly);
+    expect(ctx.hasEmitted("time_control_update")).toBe(false);
+  });
+
+  it("rejects changes from spectators", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "spectator");
+    let res: { error?: string } = {};
+
+    handleSetTimeControl(asSocket(socket), blitz, (r) => (res = r), ctx);
+
+    expect(res.error).toBe(MSG.errorPlayersOnly);
+  });
+
+  it("rejects invalid time controls", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "black");
+    let res: { error?: string } = {};
+
+    handleSetTimeControl(
+      asSocket(socket),
+      { baseTime: -5 },
+      (r) => (res = r),
+      ctx
+    );
+
+    expect(res.error).toBe(MSG.errorInvalidTimeControl);
+    expect(ctx.gameState.whiteTime).toBe(600);
+  });
+});
+
+describe("handleSetMoveStrategy", () => {
+  it("stores the strategy and broadcasts it", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "black");
+    let res: { success?: boolean; error?: string } = {};
+
+    handleSetMoveStrategy(asSocket(socket), "plurality", (r) => (res = r), ctx);
+
+    expect(res).toEqual({ success: true });
+    expect(ctx.gameState.moveStrategy).toBe("plurality");
+    expect(ctx.getLastEmittedData("move_strategy_update")).toEqual({
+      moveStrategy: "plurality",
+    });
+  });
+
+  it("keeps the strategy across a game reset", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+
+    handleSetMoveStrategy(asSocket(socket), "chaos", undefined, ctx);
+    ctx.resetGame(ctx.gameState.engine);
+
+    expect(ctx.gameState.moveStrategy).toBe("chaos");
+  });
+
+  it("rejects unknown strategies", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    let res: { error?: string } = {};
+
+    handleSetMoveStrategy(asSocket(socket), "coin_flip", (r) => (res = r), ctx);
+
+    expect(res.error).toBe(MSG.errorInvalidMoveStrategy);
+    expect(ctx.gameState.moveStrategy).toBe("engine_best");
+  });
+
+  it("rejects changes once the game has started", () => {
+    const ctx = new MockGameContext({ status: GameStatus.AwaitingProposals });
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    let res: { error?: string } = {};
+
+    handleSetMoveStrategy(asSocket(socket), "captain", (r) => (res = r), ctx);
+
+    expect(res.error).toBe(MSG.errorSetupOnly);
+  });
+});
+
+describe("handleSetSpectatorDelay", () => {
+  it("stores the delay, broadcasts it and keeps it across a reset", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    let res: { success?: boolean; error?: string } = {};
+
+    handleSetSpectatorDelay(
+      asSocket(socket),
+      { moves: 2, seconds: 0 },
+      (r) => (res = r),
+      ctx
+    );
+    ctx.resetGame(ctx.gameState.engine);
+
+    expect(res).toEqual({ success: true });
+    expect(ctx.getLastEmittedData("spectator_delay_update")).toEqual({
+      spectatorDelay: { moves: 2, seconds: 0 },
+    });
+    expect(ctx.gameState.spectatorDelay).toEqual({ moves: 2, seconds: 0 });
+  });
+
+  it("rejects changes from spectators", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "spectator");
+    let res: { error?: string } = {};
+
+    handleSetSpectatorDelay(
+      asSocket(socket),
+      { moves: 0 },
+      (r) => (res = r),
+      ctx
+    );
+
+    expect(res.error).toBe(MSG.errorPlayersOnly);
+  });
+
+  it("rejects invalid delays", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "black");
+    let res: { error?: string } = {};
+
+    handleSetSpectatorDelay(
+      asSocket(socket),
+      { moves: -1 },
+      (r) => (res = r),
+      ctx
+    );
+
+    expect(res.error).toBe(MSG.errorInvalidSpectatorDelay);
+  });
+});
+
+describe("handleSetAutopilot", () => {
+  it("stores the mode and broadcasts it", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    let res: { success?: boolean; error?: string } = {};
+
+    handleSetAutopilot(asSocket(socket), "engine", (r) => (res = r), ctx);
+
+    expect(res).toEqual({ success: true });
+    expect(ctx.gameState.autopilot).toBe("engine");
+    expect(ctx.getLastEmittedData("autopilot_update")).toEqual({
+      autopilot: "engine",
+    });
+  });
+
+  it("rejects unknown modes and spectators", () => {
+    const ctx = new MockGameContext();
+    const player = ctx.addPlayer("p1", "Alice", "white");
+    const spectator = ctx.addPlayer("s1", "Spec", "spectator");
+    let res: { error?: string } = {};
+
+    handleSetAutopilot(asSocket(player), "always", (r) => (res = r), ctx);
+    expect(res.error).toBe(MSG.errorInvalidAutopilot);
+
+    handleSetAutopilot(asSocket(spectator), "engine", (r) => (res = r), ctx);
+    expect(res.error).toBe(MSG.errorPlayersOnly);
+    expect(ctx.gameState.autopilot).toBe("off");
+  });
+});
+
+describe("handleSetEngineSettings", () => {
+  const club = { ...DEFAULT_ENGINE_SETTINGS, limitStrength: true, elo: 1800 };
+
+  it("stores the settings, passes them to the engine and broadcasts them", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    const sent: string[] = [];
+    ctx.gameState.engine = { send: (c) => sent.push(c), quit: () => {} };
+    let res: { success?: boolean; error?: string } = {};
+
+    handleSetEngineSettings(asSocket(socket), club, (r) => (res = r), ctx);
+
+    expect(res).toEqual({ success: true });
+    expect(ctx.gameState.engineSettings).toEqual(club);
+    expect(sent).toContain("setoption name UCI_Elo value 1800");
+    expect(ctx.getLastEmittedData("engine_settings_update")).toEqual({
+      engineSettings: club,
+    });
+  });
+
+  it("rejects invalid settings and changes after the game started", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    let res: { error?: string } = {};
+
+    handleSetEngineSettings(
+      asSocket(socket),
+      { ...club, depth: 99 },
+      (r) => (res = r),
+      ctx
+    );
+    expect(res.error).toBe(MSG.errorInvalidEngineSettings);
+
+    ctx.gameState.status = GameStatus.AwaitingProposals;
+    handleSetEngineSettings(asSocket(socket), club, (r) => (res = r), ctx);
+    expect(res.error).toBe(MSG.errorSetupOnly);
+    expect(ctx.gameState.engineSettings).toEqual(DEFAULT_ENGINE_SETTINGS);
+  });
+});
+
+describe("handleLoadPosition", () => {
+  const fen = "8/8/4k3/8/8/4K3/4P3/8 b - - 0 20";
+
+  it("loads the position right away for a lone player", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    let res: { success?: boolean; error?: string } = {};
+
+    handleLoadPosition(
+      asSocket(socket),
+      { format: "fen", text: fen },
+      (r) => (res = r),
+      ctx
+    );
+
+    expect(res).toEqual({ success: true });
+    expect(ctx.gameState.chess.fen()).toBe(fen);
+    expect(ctx.gameState.startFen).toBe(fen);
+    expect(ctx.gameState.side).toBe("black");
+    expect(ctx.gameState.moveNumber).toBe(40);
+    expect(ctx.getLastEmittedData("position_update")).toEqual({ fen });
+  });
+
+  it("asks everyone else in the room first", () => {
+    const ctx = new MockGameContext();
+    const alice = ctx.addPlayer("p1", "Alice", "white");
+    const bob = ctx.addPlayer("p2", "Bob", "black");
+
+    handleLoadPosition(
+      asSocket(alice),
+      { format: "fen", text: fen },
+      undefined,
+      ctx
+    );
+
+    expect(ctx.gameState.resetVote?.startFen).toBe(fen);
+    expect(ctx.gameState.startFen).not.toBe(fen);
+
+    handleVoteReset(asSocket(bob), "yes", ctx);
+
+    expect(ctx.gameState.resetVote).toBeUndefined();
+    expect(ctx.gameState.startFen).toBe(fen);
+    expect(ctx.gameState.status).toBe(GameStatus.Setup);
+  });
+
+  it("keeps the position across a game reset", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    handleLoadPosition(
+      asSocket(socket),
+      { format: "fen", text: fen },
+      undefined,
+      ctx
+    );
+
+    ctx.resetGame(ctx.gameState.engine);
+
+    expect(ctx.gameState.chess.fen()).toBe(fen);
+    expect(ctx.gameState.side).toBe("black");
+  });
+
+  it("rejects invalid positions and changes after the start", () => {
+    const ctx = new MockGameContext();
+    const socket = ctx.addPlayer("p1", "Alice", "white");
+    let res: { error?: string } = {};
+
+    handleLoadPosition(
+      asSocket(socket),
+      { format: "pgn", text: "1. e5" },
+      (r) => (res = r),
+      ctx
+    );
+    expect(res.error).toBe(MSG.errorInvalidPgn);
+
+    ctx.gameState.status = GameStatus.AwaitingProposals;
+    handleLoadPosition(
+      asSocket(socket),
+      { format: "fen", text: fen },
+      (r) => (res = r),
+      ctx
+    );
+    expect(res.error).toBe(MSG.errorSetupOnly);
+  });
+
+  it("lets only the side to move start the game", () => {
+    const ctx = new MockGameContext();
+    const alice = ctx.addPlayer("p1", "Alice", "white");
+    const bob = ctx.addPlayer("p2", "Bob", "black");
+    ctx.updateGameState({ startFen: fen, side: "black", moveNumber: 40 });
+    ctx.gameState.chess.load(fen);
+    let res: { error?: string } = {};
+
+    handlePlayMove(asSocket(alice), "e3d3", (r) => (res = r), ctx);
+    expect(res.error).toBe(MSG.errorOnlySideToMoveStart("black"));
+
+    handlePlayMove(asSocket(bob), "e6d6", (r) => (res = r), ctx);
+    expect(res).toEqual({});
+    expect(ctx.getLastEmittedData("game_started")).toMatchObject({
+      moveNumber: 40,
+      side: "black",
+      startFen: fen,
+      history: [],
+    });
+  });
+});
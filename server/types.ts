@@ -1,5 +1,18 @@
 import { Chess } from "chess.js";
-import { GameStatus, VoteType } from "./shared_types.js";
+import {
+  GameStatus,
+  VoteType,
+  TimeControl,
+  TurnDeadline,
+  SpectatorDelay,
+  MoveStrategy,
+  AutopilotMode,
+  EngineSettings,
+  Selection,
+  Proposal,
+  GameAnalysis,
+  PlayerStats,
+} from "./shared_types.js";
 
 export type Side = "white" | "black" | "spectator";
 export type PlayerSide = "white" | "black";
@@ -43,21 +56,64 @@ export interface InternalResetVoteState {
   total: number;
   timer: NodeJS.Timeout;
   endTime: number;
+  /** Set when the vote is about loading a new start position */
+  startFen?: string;
 }
 
 export interface Engine {
-  send: (command: string, callback?: (output: string) => void) => void;
+  /**
+   * Sends a UCI command. The callback gets the line that completes it
+   * (bestmove, uciok, readyok); onInfo gets every other line until then,
+   * such as "info" lines or the "id" and "option" lines answering "uci".
+   * onError is called instead of the callback if the command never
+   * completes, e.g. because the engine process died.
+   */
+  send: (
+    command: string,
+    callback?: (output: string) => void,
+    onInfo?: (line: string) => void,
+    onError?: (error: Error) => void
+  ) => void;
   quit: () => void;
 }
 
+/**
+ * A proposal waiting for its turn to be finalized.
+ */
+export interface PendingProposal {
+  lan: string;
+  san: string;
+  name: string;
+}
+
 export interface GameState {
   whiteIds: Set<string>;
   blackIds: Set<string>;
   moveNumber: number;
   side: PlayerSide;
-  proposals: Map<string, { lan: string; san: string; name: string }>;
+  proposals: Map<string, PendingProposal>;
   whiteTime: number;
   blackTime: number;
+  timeControl: TimeControl;
+  /** Clock of the side to move when its turn started (for delay rules) */
+  turnStartTime: number;
+  moveStrategy: MoveStrategy;
+  turnDeadline: TurnDeadline;
+  spectatorDelay: SpectatorDelay;
+  autopilot: AutopilotMode;
+  engineSettings: EngineSettings;
+  /** When the current turn started (ms since epoch) */
+  turnStartedAt?: number;
+  /** When the current turn got its first proposal (ms since epoch) */
+  firstProposalAt?: number;
+  /** Position the game starts from; kept when the game is reset */
+  startFen: string;
+  /** When the first move was made (ms since epoch) */
+  startedAt?: number;
+  /** Every played turn, in order, for the archive */
+  history: Selection[];
+  /** Post-game engine review, once someone has asked for it */
+  analysis?: GameAnalysis;
   timerInterval?: NodeJS.Timeout;
   engine: Engine;
   chess: Chess;
@@ -72,17 +128,158 @@ export interface GameState {
   blacklist: Set<string>;
 }
 
+/**
+ * Serializable part of a GameState. Timers, votes and the engine are left
+ * out; the chess position is kept as PGN so the move history survives.
+ */
+export interface GameStateSnapshot {
+  whiteIds: string[];
+  blackIds: string[];
+  moveNumber: number;
+  side: PlayerSide;
+  proposals: [string, PendingProposal][];
+  whiteTime: number;
+  blackTime: number;
+  timeControl: TimeControl;
+  turnStartTime: number;
+  moveStrategy: MoveStrategy;
+  turnDeadline: TurnDeadline;
+  spectatorDelay: SpectatorDelay;
+  autopilot: AutopilotMode;
+  engineSettings: EngineSettings;
+  turnStartedAt?: number;
+  firstProposalAt?: number;
+  startFen: string;
+  startedAt?: number;
+  history: Selection[];
+  pgn: string;
+  status: GameStatus;
+  endReason?: string;
+  endWinner?: string | null;
+  drawOffer?: "white" | "black";
+  blacklist: string[];
+}
+
+export interface RoomSnapshot {
+  id: string;
+  name: string;
+  createdAt: number;
+  sessions: { pid: string; name: string; side: Side }[];
+  game: GameStateSnapshot;
+}
+
+/**
+ * A registered account as kept in the user store. Its id doubles as the
+ * player id in every room.
+ */
+export interface UserRecord {
+  id: string;
+  username: string;
+  /** scrypt hash of the password, hex */
+  passwordHash: string;
+  salt: string;
+  createdAt: number;
+}
+
+/** Claims carried by a signed session token */
+export interface SessionClaims {
+  /** Account id */
+  sub: string;
+  username: string;
+  /** Expiry (ms since epoch) */
+  exp: number;
+}
+
+/**
+ * Running totals behind a player's stats, updated game by game.
+ */
+export type PlayerTally = Omit<PlayerStats, "hitRate" | "averageCpLoss"> & {
+  /** Proposals the engine scored, and the centipawns they lost in total */
+  evaluatedProposals: number;
+  totalCpLoss: number;
+};
+
+/** Everything written to disk to survive a server restart. */
+export interface ServerSnapshot {
+  version: number;
+  savedAt: number;
+  rooms: RoomSnapshot[];
+}
+
+/**
+ * What a client has been shown of a game: enough to replay it to a socket
+ * that joins late. Spectators get the one their delayed stream has reached.
+ */
+export interface GameView {
+  status: GameStatus;
+  whiteTime: number;
+  blackTime: number;
+  fen: string;
+  startFen: string;
+  moveNumber: number;
+  side: PlayerSide;
+  history: Selection[];
+  /** Proposals of the current turn */
+  proposals: Proposal[];
+  turnDeadlineEnd: number | null;
+  drawOffer: PlayerSide | null;
+  gameOver: {
+    reason: string;
+    winner: string | null;
+    pgn: string;
+    annotatedPgn: string;
+  } | null;
+  analysis: GameAnalysis | null;
+}
+
+/**
+ * A broadcast held back from spectators until the delay has passed.
+ */
+export interface HeldEvent {
+  /** Order in which events were held */
+  seq: number;
+  event: string;
+  data?: unknown;
+  /** When it was held (ms since epoch) */
+  heldAt: number;
+  /** Moves played when it was held */
+  ply: number;
+  /** Player who already got it at once */
+  exceptPid?: string;
+}
+
 export type {
   Player,
   Players,
   ChatMessage,
+  ChatChannel,
   GameInfo,
   Proposal,
+  MoveEval,
   Selection,
   VoteType,
   TeamVoteState,
   KickVoteState,
   ResetVoteState,
+  RoomSummary,
+  GameRecord,
+  GameSummary,
+  TimeControl,
+  TurnDeadline,
+  SpectatorDelay,
+  MoveStrategy,
+  AutopilotMode,
+  EngineSettings,
+  MoveClassification,
+  MoveAnalysis,
+  GameAnalysis,
+  Account,
+  AuthResponse,
+  SideRecord,
+  PlayerStats,
+  LeaderboardSort,
+  LeaderboardRange,
+  LeaderboardEntry,
 } from "./shared_types.js";
 
 export { GameStatus, EndReason } from "./shared_types.js";
@@ -1,14 +1,13 @@
 import type { Socket } from "socket.io";
 import type { Player } from "../types.js";
 import type { IGameContext } from "../context/GameContext.js";
-import { globalContext } from "../context/GlobalContextAdapter.js";
 import { SENDER_SYSTEM } from "../shared_messages.js";
 
 /**
- * Broadcasts the current player list to all clients.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * Broadcasts the current player list to all clients in the room.
+ * @param ctx Context of the room the game belongs to
  */
-export function broadcastPlayers(ctx: IGameContext = globalContext): void {
+export function broadcastPlayers(ctx: IGameContext): void {
   const { sessions, io } = ctx;
   const onlinePids = ctx.getOnlinePids();
 
@@ -30,17 +29,15 @@ export function broadcastPlayers(ctx: IGameContext = globalContext): void {
 }
 
 /**
- * Sends a system message to all clients.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * Sends a system message to all clients in the room.
+ * @param ctx Context of the room the game belongs to
  */
-export function sendSystemMessage(
-  message: string,
-  ctx: IGameContext = globalContext
-): void {
+export function sendSystemMessage(message: string, ctx: IGameContext): void {
   ctx.io.emit("chat_message", {
     sender: SENDER_SYSTEM,
     senderId: "system",
     message,
+    channel: "global",
     system: true,
   });
 }
@@ -56,6 +53,7 @@ export function sendPrivateSystemMessage(
     sender: SENDER_SYSTEM,
     senderId: "system",
     message,
+    channel: "global",
     system: true,
   });
 }
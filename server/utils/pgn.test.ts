@@ -1,6 +1,50 @@
 import { describe, it, expect } from "vitest";
 import { Chess } from "chess.js";
-import { getCleanPgn } from "./pgn.js";
+import {
+  getCleanPgn,
+  buildPgn,
+  exportPgn,
+  formatPgnTimeControl,
+  getPgnTermination,
+  describeTurnForPgn,
+} from "./pgn.js";
+import type { PgnGameInfo } from "./pgn.js";
+import type { Proposal, Selection } from "../types.js";
+import { EndReason } from "../shared_types.js";
+import { DEFAULT_TIME_CONTROL } from "../constants.js";
+
+function proposal(
+  name: string,
+  lan: string,
+  san: string,
+  score?: number
+): Proposal {
+  return {
+    id: name.toLowerCase(),
+    name,
+    moveNumber: 1,
+    side: "white",
+    lan,
+    san,
+    evaluation: score === undefined ? undefined : { score, pv: [san] },
+  };
+}
+
+function turn(lan: string, san: string, candidates: Proposal[]): Selection {
+  const played = candidates.find((c) => c.lan === lan)!;
+  return { ...played, san, fen: "", strategy: "engine_best", candidates };
+}
+
+const info: PgnGameInfo = {
+  event: "TeamChess: Main",
+  site: "TeamChess",
+  startedAt: Date.UTC(2026, 2, 14),
+  white: ["Alice", "Bob"],
+  black: ["Carol"],
+  result: "1-0",
+  reason: EndReason.Resignation,
+  timeControl: { ...DEFAULT_TIME_CONTROL, incrementThreshold: 0 },
+};
 
 describe("getCleanPgn", () => {
   it("strips all header tags", () => {
@@ -18,3 +62,148 @@ describe("getCleanPgn", () => {
     expect(pgn).toBe("1. e4 Nc6 *");
   });
 });
+
+describe("buildPgn", () => {
+  it("writes the header tags and ends the movetext with the result", () => {
+    const chess = new Chess();
+    chess.move("e4");
+    chess.move("e5");
+    expect(buildPgn(chess, { Event: "Test", Result: "1-0" })).toBe(
+      '[Event "Test"]\n[Result "1-0"]\n\n1. e4 e5 1-0'
+    );
+  });
+
+  it("escapes quotes and backslashes in tag values", () => {
+    const pgn = buildPgn(new Chess(), { White: 'Al "the" \\ one' });
+    expect(pgn).toContain('[White "Al \\"the\\" \\\\ one"]');
+  });
+
+  it("handles a game without moves", () => {
+    expect(buildPgn(new Chess(), { Result: "0-1" })).toBe(
+      '[Result "0-1"]\n\n0-1'
+    );
+  });
+});
+
+describe("formatPgnTimeControl", () => {
+  const base = {
+    baseTime: 300,
+    increment: 0,
+    incrementThreshold: 0,
+    delay: 0,
+    moveTime: 0,
+  };
+
+  it("formats sudden death, Fischer and per-move controls", () => {
+    expect(formatPgnTimeControl(base)).toBe("300");
+    expect(formatPgnTimeControl({ ...base, increment: 5 })).toBe("300+5");
+    expect(formatPgnTimeControl({ ...base, moveTime: 30 })).toBe("1/30");
+  });
+
+  it("leaves out an increment that only applies under a threshold", () => {
+    expect(
+      formatPgnTimeControl({ ...base, increment: 10, incrementThreshold: 60 })
+    ).toBe("300");
+  });
+});
+
+describe("getPgnTermination", () => {
+  it("maps end reasons to PGN terminations", () => {
+    expect(getPgnTermination(EndReason.Checkmate)).toBe("normal");
+    expect(getPgnTermination(EndReason.DrawAgreement)).toBe("normal");
+    expect(getPgnTermination(EndReason.Timeout)).toBe("time forfeit");
+    expect(getPgnTermination(EndReason.Abandonment)).toBe("abandoned");
+    expect(getPgnTermination(undefined)).toBe("unterminated");
+  });
+});
+
+describe("describeTurnForPgn", () => {
+  it("credits the played move and lists rejected ones with scores", () => {
+    const t = turn("e2e4", "e4", [
+      proposal("Alice", "e2e4", "e4", 35),
+      proposal("Bob", "g1f3", "Nf3", 20),
+      proposal("Carol", "d2d4", "d4", -10),
+      proposal("Dave", "d2d4", "d4", -10),
+    ]);
+
+    expect(describeTurnForPgn(t)).toBe(
+      "Alice (+0.35). Rejected: Nf3 by Bob (+0.20); d4 by Carol, Dave (-0.10)"
+    );
+  });
+
+  it("omits missing scores and strips braces from names", () => {
+    const t = turn("e2e4", "e4", [proposal("{Al}", "e2e4", "e4")]);
+    expect(describeTurnForPgn(t)).toBe("Al");
+  });
+
+  it("credits autopilot for an engine move nobody proposed", () => {
+    const t: Selection = {
+      ...proposal("Autopilot", "g1f3", "Nf3"),
+      fen: "",
+      candidates: [],
+      strategy: "engine_best",
+      autopilot: "engine",
+    };
+    expect(describeTurnForPgn(t)).toBe("Autopilot");
+  });
+});
+
+describe("exportPgn", () => {
+  function playedGame(): { chess: Chess; turns: Selection[] } {
+    const chess = new Chess();
+    chess.move("e4");
+    chess.move("e5");
+    const turns = [
+      turn("e2e4", "e4", [
+        proposal("Alice", "e2e4", "e4", 35),
+        proposal("Bob", "d2d4", "d4", 30),
+      ]),
+      turn("e7e5", "e5", [proposal("Carol", "e7e5", "e5", -30)]),
+    ];
+    return { chess, turns };
+  }
+
+  it("writes the Seven Tag Roster, TimeControl and Termination", () => {
+    const { chess } = playedGame();
+    expect(exportPgn(chess, info)).toBe(
+      [
+        '[Event "TeamChess: Main"]',
+        '[Site "TeamChess"]',
+        '[Date "2026.03.14"]',
+        '[Round "-"]',
+        '[White "Alice, Bob"]',
+        '[Black "Carol"]',
+        '[Result "1-0"]',
+        '[TimeControl "600+10"]',
+        '[Termination "normal"]',
+        "",
+        "1. e4 e5 1-0",
+      ].join("\n")
+    );
+  });
+
+  it("leaves out Termination while the game is running", () => {
+    const pgn = exportPgn(new Chess(), { ...info, result: "*" });
+    expect(pgn).not.toContain("Termination");
+    expect(pgn.endsWith("\n\n*")).toBe(true);
+  });
+
+  it("records a custom start position", () => {
+    const fen = "8/8/4k3/8/8/4K3/4P3/8 b - - 0 20";
+    const chess = new Chess(fen);
+    chess.move("Kd6");
+
+    const pgn = exportPgn(chess, info);
+
+    expect(pgn).toContain('[SetUp "1"]');
+    expect(pgn).toContain(`[FEN "${fen}"]`);
+    expect(pgn).toContain("20. ... Kd6 1-0");
+  });
+
+  it("annotates every move with its proposals", () => {
+    const { chess, turns } = playedGame();
+    expect(exportPgn(chess, info, turns)).toContain(
+      "1. e4 {Alice (+0.35). Rejected: d4 by Bob (+0.30)} e5 {Carol (-0.30)} 1-0"
+    );
+  });
+});
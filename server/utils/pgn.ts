@@ -1,6 +1,159 @@
-import { Chess } from "chess.js";
+import { Chess, DEFAULT_POSITION } from "chess.js";
+import type { Selection, TimeControl } from "../types.js";
+import { EndReason } from "../shared_types.js";
+import { formatEval, AUTOPILOT_PLAYER_NAME } from "../shared_messages.js";
 
 export function getCleanPgn(chess: Chess): string {
   const fullPgn = chess.pgn();
   return fullPgn.replace(/^\[.*\]\n/gm, "").trim();
 }
+
+/**
+ * Builds a PGN with the given header tags, in order.
+ * The movetext ends with the Result tag (or "*" when it is missing).
+ */
+export function buildPgn(
+  chess: Chess,
+  headers: Record<string, string>
+): string {
+  const tags = Object.entries(headers).map(
+    ([name, value]) =>
+      `[${name} "${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"]`
+  );
+  const moves = getCleanPgn(chess).replace(/\s*\*$/, "");
+  const result = headers.Result ?? "*";
+  return `${tags.join("\n")}\n\n${moves ? `${moves} ${result}` : result}`;
+}
+
+/**
+ * Everything about a game that goes into its PGN headers.
+ */
+export interface PgnGameInfo {
+  event: string;
+  site: string;
+  /** Epoch milliseconds, written as the Date tag */
+  startedAt: number;
+  /** Team member names, in roster order */
+  white: string[];
+  black: string[];
+  /** "1-0", "0-1", "1/2-1/2", or "*" while the game is running */
+  result: string;
+  /** EndReason of a finished game */
+  reason?: string;
+  timeControl: TimeControl;
+}
+
+/**
+ * Formats a time control as a PGN TimeControl tag value: "600+5" for
+ * Fischer, "1/30" for a fixed time per move, "-" when unlimited.
+ * An increment that only applies under a threshold, or a delay, has no PGN
+ * notation; only the base time is written then.
+ */
+export function formatPgnTimeControl(tc: TimeControl): string {
+  if (tc.moveTime > 0) return `1/${tc.moveTime}`;
+  if (tc.baseTime <= 0) return "-";
+  const fischer = tc.increment > 0 && tc.incrementThreshold === 0;
+  return fischer ? `${tc.baseTime}+${tc.increment}` : `${tc.baseTime}`;
+}
+
+/**
+ * Maps an EndReason to a PGN Termination tag value.
+ */
+export function getPgnTermination(reason?: string): string {
+  switch (reason) {
+    case undefined:
+    case "":
+      return "unterminated";
+    case EndReason.Timeout:
+      return "time forfeit";
+    case EndReason.Abandonment:
+      return "abandoned";
+    default:
+      return "normal";
+  }
+}
+
+/**
+ * Describes a turn for an annotated PGN: who proposed the played move, and
+ * every rejected proposal with its proposers and engine score, e.g.
+ * "Alice (+0.35). Rejected: Nf3 by Bob (+0.20); d4 by Carol, Dave (-0.10)".
+ */
+export function describeTurnForPgn(turn: Selection): string {
+  const byMove = new Map<
+    string,
+    { san: string; names: string[]; score: string }
+  >();
+  for (const c of turn.candidates) {
+    const entry = byMove.get(c.lan) ?? {
+      san: c.san ?? c.lan,
+      names: [],
+      score: c.evaluation ? ` (${formatEval(c.evaluation)})` : "",
+    };
+    entry.names.push(c.name);
+    byMove.set(c.lan, entry);
+  }
+
+  const played = byMove.get(turn.lan);
+  byMove.delete(turn.lan);
+  const parts = [
+    played
+      ? `${played.names.join(", ")}${played.score}`
+      : turn.autopilot === "engine"
+        ? AUTOPILOT_PLAYER_NAME
+        : "",
+  ];
+  if (byMove.size > 0) {
+    const rejected = [...byMove.values()].map(
+      (m) => `${m.san} by ${m.names.join(", ")}${m.score}`
+    );
+    parts.push(`Rejected: ${rejected.join("; ")}`);
+  }
+  // Braces would end the PGN comment early
+  return parts.filter(Boolean).join(". ").replace(/[{}]/g, "");
+}
+
+/**
+ * Exports a game as PGN with the Seven Tag Roster plus TimeControl and
+ * Termination, and SetUp/FEN for games from a custom position. Teams are
+ * listed by member names. When the game's turns are given, each move is
+ * annotated with a comment describing its proposals.
+ */
+export function exportPgn(
+  chess: Chess,
+  info: PgnGameInfo,
+  turns?: Selection[]
+): string {
+  const headers: Record<string, string> = {
+    Event: info.event,
+    Site: info.site,
+    Date: new Date(info.startedAt)
+      .toISOString()
+      .slice(0, 10)
+      .replace(/-/g, "."),
+    Round: "-",
+    White: info.white.join(", ") || "?",
+    Black: info.black.join(", ") || "?",
+    Result: info.result,
+    TimeControl: formatPgnTimeControl(info.timeControl),
+  };
+  if (info.result !== "*") {
+    headers.Termination = getPgnTermination(info.reason);
+  }
+
+  const moves = chess.history({ verbose: true });
+  const startFen = moves[0]?.before ?? chess.fen();
+  if (startFen !== DEFAULT_POSITION) {
+    headers.SetUp = "1";
+    headers.FEN = startFen;
+  }
+
+  if (!turns) return buildPgn(chess, headers);
+
+  const annotated = new Chess(startFen);
+  moves.forEach((move, i) => {
+    annotated.move(move.san);
+    const comment = turns[i] ? describeTurnForPgn(turns[i]) : "";
+    if (comment) annotated.setComment(comment);
+  });
+  return buildPgn(annotated, headers);
+}
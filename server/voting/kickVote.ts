@@ -1,5 +1,4 @@
 import type { IGameContext } from "../context/GameContext.js";
-import { globalContext } from "../context/GlobalContextAdapter.js";
 import type { InternalKickVoteState, KickVoteState } from "../types.js";
 import { KICK_VOTE_DURATION_MS } from "../constants.js";
 import { sendSystemMessage, broadcastPlayers } from "../utils/messaging.js";
@@ -16,7 +15,7 @@ import { voterNames, currentVoteOf } from "./voteHelpers.js";
  */
 export function getKickVoteClientData(
   viewerPid: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): KickVoteState {
   const { gameState, sessions } = ctx;
   const vote = gameState.kickVote;
@@ -56,7 +55,7 @@ export function getKickVoteClientData(
  * Broadcasts kick vote state to all connected sockets.
  * Each client gets a personalized view.
  */
-export function broadcastKickVote(ctx: IGameContext = globalContext): void {
+export function broadcastKickVote(ctx: IGameContext): void {
   for (const socket of ctx.getAllSockets()) {
     const pid = socket.data.pid;
     if (pid) {
@@ -68,7 +67,7 @@ export function broadcastKickVote(ctx: IGameContext = globalContext): void {
 /**
  * Clears an active kick vote.
  */
-export function clearKickVote(ctx: IGameContext = globalContext): void {
+export function clearKickVote(ctx: IGameContext): void {
   const { gameState } = ctx;
   const vote = gameState.kickVote;
   if (vote) {
@@ -85,7 +84,7 @@ export function startKickVoteLogic(
   initiatorId: string,
   targetId: string,
   targetName: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): { error?: string } {
   const { gameState } = ctx;
 
@@ -142,7 +141,7 @@ export function startKickVoteLogic(
 export function executeKick(
   targetPid: string,
   targetName: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): void {
   const { gameState, sessions } = ctx;
 
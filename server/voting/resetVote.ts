@@ -1,5 +1,4 @@
 import type { IGameContext } from "../context/GameContext.js";
-import { globalContext } from "../context/GlobalContextAdapter.js";
 import type { InternalResetVoteState, ResetVoteState } from "../types.js";
 import { RESET_VOTE_DURATION_MS } from "../constants.js";
 import { sendSystemMessage } from "../utils/messaging.js";
@@ -16,7 +15,7 @@ import { voterNames, currentVoteOf } from "./voteHelpers.js";
  */
 export function getResetVoteClientData(
   viewerPid: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): ResetVoteState {
   const { gameState, sessions } = ctx;
   const vote = gameState.resetVote;
@@ -43,6 +42,7 @@ export function getResetVoteClientData(
     endTime: vote.endTime,
     myVoteEligible: vote.eligibleVoters.has(viewerPid),
     myCurrentVote: currentVoteOf(viewerPid, vote.yesVoters, vote.noVoters),
+    startFen: vote.startFen,
   };
 }
 
@@ -50,7 +50,7 @@ export function getResetVoteClientData(
  * Broadcasts reset vote state to all connected sockets.
  * Each client gets a personalized view.
  */
-export function broadcastResetVote(ctx: IGameContext = globalContext): void {
+export function broadcastResetVote(ctx: IGameContext): void {
   for (const socket of ctx.getAllSockets()) {
     const pid = socket.data.pid;
     if (pid) {
@@ -62,7 +62,7 @@ export function broadcastResetVote(ctx: IGameContext = globalContext): void {
 /**
  * Clears an active reset vote.
  */
-export function clearResetVote(ctx: IGameContext = globalContext): void {
+export function clearResetVote(ctx: IGameContext): void {
   const { gameState } = ctx;
   const vote = gameState.resetVote;
   if (vote) {
@@ -73,12 +73,13 @@ export function clearResetVote(ctx: IGameContext = globalContext): void {
 }
 
 /**
- * Starts a reset vote.
+ * Starts a reset vote, or with `startFen` a vote to load a start position.
  * Returns { passedImmediately: true } when solo player (1/1 majority).
  */
 export function startResetVoteLogic(
   initiatorId: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext,
+  startFen?: string
 ): { error?: string; passedImmediately?: boolean } {
   const { gameState } = ctx;
 
@@ -112,8 +113,12 @@ export function startResetVoteLogic(
   const voteState: InternalResetVoteState = {
     ...pureState,
     endTime,
+    startFen,
     timer: setTimeout(() => {
-      sendSystemMessage(MSG.resetVoteFailed, ctx);
+      sendSystemMessage(
+        startFen ? MSG.positionVoteFailed : MSG.resetVoteFailed,
+        ctx
+      );
       gameState.resetVote = undefined;
       broadcastResetVote(ctx);
     }, RESET_VOTE_DURATION_MS),
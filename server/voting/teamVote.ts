@@ -1,5 +1,4 @@
 import type { IGameContext } from "../context/GameContext.js";
-import { globalContext } from "../context/GlobalContextAdapter.js";
 import type { InternalVoteState, VoteType, PlayerSide } from "../types.js";
 import { EndReason } from "../shared_types.js";
 import { TEAM_VOTE_DURATION_MS } from "../constants.js";
@@ -9,23 +8,24 @@ import { MSG } from "../shared_messages.js";
 import { voterNames } from "./voteHelpers.js";
 
 // Callback for ending the game (set by gameLogic to avoid circular dependency)
-let endGameCallback: ((reason: string, winner: string | null) => void) | null =
-  null;
+let endGameCallback:
+  | ((reason: string, winner: string | null, ctx: IGameContext) => void)
+  | null = null;
 
 export function setEndGameCallback(
-  callback: (reason: string, winner: string | null) => void
+  callback: (reason: string, winner: string | null, ctx: IGameContext) => void
 ): void {
   endGameCallback = callback;
 }
 
 /**
  * Gets vote data formatted for client display.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * @param ctx Context of the room the game belongs to
  */
 export function getTeamVoteClientData(
   side: PlayerSide,
   viewerPid: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ) {
   const { gameState, sessions } = ctx;
   const vote = side === "white" ? gameState.whiteVote : gameState.blackVote;
@@ -52,12 +52,9 @@ export function getTeamVoteClientData(
 
 /**
  * Broadcasts vote state to all team members.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * @param ctx Context of the room the game belongs to
  */
-export function broadcastTeamVote(
-  side: PlayerSide,
-  ctx: IGameContext = globalContext
-): void {
+export function broadcastTeamVote(side: PlayerSide, ctx: IGameContext): void {
   for (const socket of ctx.getSocketsBySide(side)) {
     const data = getTeamVoteClientData(side, socket.data.pid ?? "", ctx);
     socket.emit("team_vote_update", data);
@@ -66,12 +63,9 @@ export function broadcastTeamVote(
 
 /**
  * Clears an active team vote.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * @param ctx Context of the room the game belongs to
  */
-export function clearTeamVote(
-  side: PlayerSide,
-  ctx: IGameContext = globalContext
-): void {
+export function clearTeamVote(side: PlayerSide, ctx: IGameContext): void {
   const { gameState } = ctx;
   const vote = side === "white" ? gameState.whiteVote : gameState.blackVote;
   if (vote) {
@@ -84,13 +78,13 @@ export function clearTeamVote(
 
 /**
  * Starts or auto-executes a team vote.
- * @param ctx Optional context for dependency injection (defaults to global)
+ * @param ctx Context of the room the game belongs to
  */
 export function startTeamVoteLogic(
   side: PlayerSide,
   type: VoteType,
   initiatorId: string,
-  ctx: IGameContext = globalContext
+  ctx: IGameContext
 ): void {
   const { gameState, io } = ctx;
 
@@ -128,7 +122,7 @@ export function startTeamVoteLogic(
   if (prereqResult.shouldAutoExecute) {
     if (type === "resign") {
       const winner = side === "white" ? "black" : "white";
-      if (endGameCallback) endGameCallback(EndReason.Resignation, winner);
+      if (endGameCallback) endGameCallback(EndReason.Resignation, winner, ctx);
     } else if (type === "offer_draw") {
       gameState.drawOffer = side;
       io.emit("draw_offer_update", { side });
@@ -137,7 +131,7 @@ export function startTeamVoteLogic(
       const otherSide = side === "white" ? "black" : "white";
       startTeamVoteLogic(otherSide, "accept_draw", "system", ctx);
     } else if (type === "accept_draw") {
-      if (endGameCallback) endGameCallback(EndReason.DrawAgreement, null);
+      if (endGameCallback) endGameCallback(EndReason.DrawAgreement, null, ctx);
     }
     return;
   }